@@ -6,6 +6,8 @@ import { useToast } from '@/components/Toast';
 import AnalyticsGenreTracksModal from '@/components/AnalyticsGenreTracksModal';
 import TopTracksModal from '@/components/TopTracksModal';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import ScopeRequiredNotice from '@/components/ScopeRequiredNotice';
+import type { ApiErrorBody } from '@/lib/apiErrors';
 
 interface AnalyticsData {
   totalPlaylists: number;
@@ -66,6 +68,7 @@ export default function AnalyticsPage() {
   const [mostListenedPlaylists, setMostListenedPlaylists] = useState<MostListenedPlaylist[]>([]);
   const [showTopTracksModal, setShowTopTracksModal] = useState(false);
   const [playlistsLoading, setPlaylistsLoading] = useState(false);
+  const [playlistsScopeError, setPlaylistsScopeError] = useState<ApiErrorBody | null>(null);
   const [userTopTracks, setUserTopTracks] = useState<any[]>([]);
   const [topTracksLoading, setTopTracksLoading] = useState(false);
   const [listeningHistory, setListeningHistory] = useState<any>(null);
@@ -171,6 +174,7 @@ export default function AnalyticsPage() {
   const fetchMostListenedPlaylists = async () => {
     try {
       setPlaylistsLoading(true);
+      setPlaylistsScopeError(null);
       console.log('📊 Starting fetchMostListenedPlaylists...');
       
       console.log('📊 Fetching from /api/analytics/playlists/most-listened...');
@@ -181,6 +185,12 @@ export default function AnalyticsPage() {
       if (!response.ok) {
         const errorText = await response.text();
         console.error('📊 Most-listened API error response:', errorText);
+        const errorBody = JSON.parse(errorText || '{}') as Partial<ApiErrorBody>;
+        if (errorBody.code === 'SCOPE_REQUIRED') {
+          setPlaylistsScopeError(errorBody as ApiErrorBody);
+          setMostListenedPlaylists([]);
+          return;
+        }
         throw new Error('Failed to fetch most listened playlists');
       }
       
@@ -616,6 +626,8 @@ export default function AnalyticsPage() {
                     <LoadingSpinner size="sm" />
                     <p className="text-gray-400 mt-2">Loading your most popular playlists...</p>
                   </div>
+                ) : playlistsScopeError ? (
+                  <ScopeRequiredNotice error={playlistsScopeError} />
                 ) : mostListenedPlaylists.length > 0 ? (
                   mostListenedPlaylists.slice(0, 5).map((playlist, index) => (
                     <div key={playlist.id} className="flex items-center space-x-4 p-3 rounded-lg hover:bg-[#2a2a2a] transition-colors">
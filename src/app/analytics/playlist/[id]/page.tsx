@@ -1,59 +1,96 @@
 'use client';
 
 import { useSession } from 'next-auth/react';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams } from 'next/navigation';
 import { useToast } from '@/components/Toast';
+import { useAccounts } from '@/components/Providers';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import PlaylistConflictModal, { PlaylistConflict } from '@/components/PlaylistConflictModal';
+import PlaylistHistory from '@/components/PlaylistHistory';
+import type { ApiErrorBody } from '@/lib/apiErrors';
+import type { AnalysisProgress, AnalysisSections, AnalyzedPlaylist, MusicalProfile } from '@/lib/analysis';
+import type { AnalysisCacheInfo } from '@/lib/analysisCache';
 
-interface PlaylistAnalytics {
-  playlist: {
-    id: string;
-    name: string;
-    description: string;
-    images: Array<{ url: string; width?: number; height?: number }>;
-    tracks: {
-      total: number;
-    };
-    owner: {
-      display_name: string;
-    };
-  };
-  analytics: {
-    totalTracks: number;
-    averageDuration: number;
-    topGenres: Array<{ genre: string; count: number; percentage: number }>;
-    topArtists: Array<{ name: string; trackCount: number }>;
-    moodDistribution: Array<{ mood: string; count: number }>;
-    energyDistribution: Array<{ level: string; count: number }>;
-    danceabilityDistribution: Array<{ level: string; count: number }>;
-  };
-  recommendations: {
-    similarGenres: string[];
-    recommendedArtists: Array<{ name: string; genre: string; reason: string }>;
-    recommendedSongs: Array<{ title: string; artist: string; genre: string; reason: string; year?: number; spotifyUrl?: string }>;
-    moodSuggestions: string[];
-    energyLevel: 'low' | 'medium' | 'high';
-    playlistSuggestions: string[];
-    discoveryTips: string[];
+// Lo recibido del análisis hasta ahora; cada sección aparece en cuanto llega
+interface StreamedAnalytics {
+  playlist: AnalyzedPlaylist;
+  profile: Partial<MusicalProfile>;
+  // Llega con el resultado final
+  cache?: AnalysisCacheInfo;
+}
+
+// Lo que muestran las secciones de la página, a partir del perfil recibido hasta ahora
+function displayAnalytics(profile: Partial<MusicalProfile>) {
+  const audio = profile.audioAnalysis;
+  return {
+    totalTracks: profile.totalTracks,
+    averageDuration: profile.averageDuration,
+    topGenres: profile.genreAnalysis?.topGenres,
+    topArtists: profile.artistAnalysis?.topArtists,
+    moodDistribution: audio && [{ mood: audio.mood, count: 1 }],
+    energyDistribution: profile.recommendations && [{ level: profile.recommendations.energyLevel, count: 1 }],
+    // Sin características de audio el promedio queda en 0 y no hay nada que mostrar
+    danceabilityDistribution: audio && audio.averageDanceability > 0
+      ? [{ level: audio.averageDanceability < 0.4 ? 'low' : audio.averageDanceability < 0.7 ? 'medium' : 'high', count: 1 }]
+      : undefined
   };
 }
 
+function progressText(progress: AnalysisProgress): string {
+  switch (progress.stage) {
+    case 'tracks':
+      return progress.totalTracks
+        ? `Fetching tracks ${progress.tracksFetched} of ${progress.totalTracks}...`
+        : 'Fetching tracks...';
+    case 'artists':
+      return 'Looking up artist genres...';
+    case 'features':
+      return `Reading audio features ${progress.featuresFetched} of ${progress.totalFeatures ?? '?'}...`;
+    default:
+      return 'Building recommendations...';
+  }
+}
+
+// Mensaje para el usuario a partir del error enviado en el evento `failed`
+function streamErrorMessage(body: ApiErrorBody): string {
+  switch (body.code) {
+    case 'NOT_FOUND':
+      return 'Playlist not found';
+    case 'FORBIDDEN':
+      return 'Access denied. This playlist may be private or collaborative.';
+    case 'AUTH_FAILED':
+    case 'UNAUTHENTICATED':
+      return 'Authentication required. Please log in again.';
+    default:
+      return body.error || 'Failed to fetch playlist analytics';
+  }
+}
+
 export default function PlaylistAnalysisPage() {
   const { data: session } = useSession();
   const params = useParams();
   const playlistId = params.id as string;
   
-  const [analyticsData, setAnalyticsData] = useState<PlaylistAnalytics | null>(null);
+  const [analyticsData, setAnalyticsData] = useState<StreamedAnalytics | null>(null);
   const [loading, setLoading] = useState(true);
+  const [progress, setProgress] = useState<string | null>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<'analysis' | 'history'>('analysis');
+  // Canción pendiente de agregar cuando la playlist cambió en Spotify
+  const [pendingAdd, setPendingAdd] = useState<{ track: { uri: string; name: string }; conflict: PlaylistConflict } | null>(null);
   const { showToast } = useToast();
+  const { activeAccountId, withAccount } = useAccounts();
 
   useEffect(() => {
     if (session?.accessToken && playlistId) {
       fetchPlaylistAnalytics();
     }
-  }, [session, playlistId]);
+  }, [session, playlistId, activeAccountId]);
+
+  // Cerrar el stream cancela el análisis en el servidor
+  useEffect(() => () => eventSourceRef.current?.close(), []);
 
   const handleAddSongToPlaylist = async (songTitle: string, artistName: string) => {
     try {
@@ -72,73 +109,125 @@ export default function PlaylistAnalysisPage() {
       }
 
       // Tomar la primera canción encontrada
-      const track = tracks[0];
-      
-      // Agregar la canción a la playlist
-      const addResponse = await fetch(`/api/playlists/${playlistId}/add-tracks`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          trackUris: [track.uri]
-        })
-      });
+      await addTrackToPlaylist(tracks[0]);
+    } catch (error) {
+      console.error('Error adding song to playlist:', error);
+      showToast('Failed to add song to playlist', 'error');
+    }
+  };
+
+  // Agrega la canción solo si la playlist sigue en la versión analizada, salvo con `force`
+  const addTrackToPlaylist = async (track: { uri: string; name: string }, force = false) => {
+    const addResponse = await fetch(withAccount(`/api/playlists/${playlistId}/add-tracks`), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        trackUris: [track.uri],
+        expectedSnapshotId: analyticsData?.playlist.snapshot_id,
+        force
+      })
+    });
 
-      if (!addResponse.ok) {
-        throw new Error('Failed to add song to playlist');
+    if (addResponse.status === 409) {
+      const data: ApiErrorBody = await addResponse.json();
+      if (data.conflict) {
+        setPendingAdd({ track, conflict: data.conflict });
+        return;
       }
+    }
+    if (!addResponse.ok) {
+      throw new Error('Failed to add song to playlist');
+    }
 
-      showToast(`Added "${track.name}" to playlist!`, 'success');
-      
-      // Refrescar los datos de la playlist
-      fetchPlaylistAnalytics();
+    showToast(`Added "${track.name}" to playlist!`, 'success');
+    
+    // Refrescar los datos de la playlist
+    fetchPlaylistAnalytics();
+  };
+
+  const handleForceAdd = async () => {
+    if (!pendingAdd) return;
+    const { track } = pendingAdd;
+    setPendingAdd(null);
+    try {
+      await addTrackToPlaylist(track, true);
     } catch (error) {
       console.error('Error adding song to playlist:', error);
       showToast('Failed to add song to playlist', 'error');
     }
   };
 
-  const fetchPlaylistAnalytics = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      const response = await fetch(`/api/analysis/playlist/${playlistId}`);
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error('Playlist not found');
-        } else if (response.status === 403) {
-          throw new Error('Access denied. This playlist may be private or collaborative.');
-        } else if (response.status === 401) {
-          throw new Error('Authentication required. Please log in again.');
-        } else {
-          throw new Error(`Failed to fetch playlist analytics (${response.status})`);
-        }
-      }
-      
-      const data = await response.json();
-      setAnalyticsData(data);
-    } catch (error) {
-      console.error('Error fetching playlist analytics:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to load playlist analytics';
+  // `refresh` vuelve a analizar aunque haya un resultado guardado
+  const fetchPlaylistAnalytics = (refresh = false) => {
+    eventSourceRef.current?.close();
+    setLoading(true);
+    setError(null);
+    setProgress(null);
+    setAnalyticsData(null);
+
+    // El análisis llega por partes (Server-Sent Events) y cada sección se muestra en cuanto está lista
+    const source = new EventSource(withAccount(`/api/analysis/playlist/${playlistId}/stream${refresh ? '?refresh=true' : ''}`));
+    eventSourceRef.current = source;
+    const on = <K extends keyof AnalysisSections>(event: K, apply: (data: NonNullable<AnalysisSections[K]>, current: StreamedAnalytics) => StreamedAnalytics) => {
+      source.addEventListener(event, message => {
+        const data = JSON.parse((message as MessageEvent).data);
+        setAnalyticsData(current => current && apply(data, current));
+      });
+    };
+    const fail = (errorMessage: string) => {
+      source.close();
       setError(errorMessage);
+      setLoading(false);
       showToast(errorMessage, 'error');
-    } finally {
+    };
+
+    source.addEventListener('playlist', message => {
+      const { playlist } = JSON.parse((message as MessageEvent).data);
+      setAnalyticsData({ playlist, profile: {} });
+    });
+    source.addEventListener('progress', message => {
+      setProgress(progressText(JSON.parse((message as MessageEvent).data)));
+    });
+    on('artists', ({ artistAnalysis }, current) => ({ ...current, profile: { ...current.profile, artistAnalysis } }));
+    on('genres', ({ genreAnalysis }, current) => ({ ...current, profile: { ...current.profile, genreAnalysis } }));
+    on('audio', ({ audioAnalysis, averageDuration }, current) => ({
+      ...current,
+      profile: { ...current.profile, audioAnalysis, averageDuration }
+    }));
+    on('recommendations', ({ recommendations }, current) => ({ ...current, profile: { ...current.profile, recommendations } }));
+    source.addEventListener('result', message => {
+      source.close();
+      setAnalyticsData(JSON.parse((message as MessageEvent).data));
       setLoading(false);
-    }
+      setProgress(null);
+    });
+    source.addEventListener('failed', message => {
+      const body: ApiErrorBody = JSON.parse((message as MessageEvent).data);
+      console.error('Error fetching playlist analytics:', body);
+      fail(streamErrorMessage(body));
+    });
+    // Errores de conexión o respuestas de error antes de empezar el stream
+    source.onerror = () => {
+      // Sin esto EventSource reconectaría y empezaría el análisis de nuevo
+      console.error('Playlist analytics stream failed');
+      fail('Failed to load playlist analytics');
+    };
   };
 
   const handleRetry = () => {
     fetchPlaylistAnalytics();
   };
 
-  if (loading) {
+  // Hasta que llegan los datos de la playlist; después las secciones aparecen según llegan
+  if (loading && !analyticsData) {
     return (
       <div className="flex h-screen font-sans items-center justify-center bg-gradient-to-br from-[#191414] via-[#232323] to-[#1DB954]">
         <div className="text-center">
           <LoadingSpinner />
           <p className="text-gray-400 mt-4">Analyzing playlist...</p>
+          {progress && <p className="text-gray-500 text-sm mt-1">{progress}</p>}
         </div>
       </div>
     );
@@ -176,7 +265,9 @@ export default function PlaylistAnalysisPage() {
     );
   }
 
-  const { playlist, analytics, recommendations } = analyticsData;
+  const { playlist, profile, cache } = analyticsData;
+  const analytics = displayAnalytics(profile);
+  const { recommendations } = profile;
 
   return (
     <div className="flex h-screen font-sans bg-gradient-to-br from-[#191414] via-[#232323] to-[#1DB954]">
@@ -218,14 +309,59 @@ export default function PlaylistAnalysisPage() {
                 </p>
               </div>
             </div>
+            {cache && (
+              <div className="ml-auto text-right">
+                <p className="text-gray-400 text-xs">
+                  Analyzed {new Date(cache.analyzedAt).toLocaleString()}
+                  {cache.stale && (
+                    <span className="ml-2 bg-yellow-400/20 text-yellow-400 px-2 py-0.5 rounded-full font-semibold">Stale</span>
+                  )}
+                </p>
+                <button
+                  onClick={() => fetchPlaylistAnalytics(true)}
+                  disabled={loading}
+                  className="mt-1 bg-[#2a2a2a] hover:bg-[#333] text-white px-3 py-1.5 rounded-lg text-xs font-bold transition-colors disabled:opacity-50"
+                >
+                  Re-analyze
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
         {/* Main content area */}
         <main className="flex-1 overflow-y-auto p-3 sm:p-4 lg:p-8 custom-scrollbar">
           <div className="max-w-7xl mx-auto">
+            {/* Tabs */}
+            <div className="flex gap-2 mb-6">
+              {(['analysis', 'history'] as const).map(name => (
+                <button
+                  key={name}
+                  onClick={() => setTab(name)}
+                  className={`px-4 py-2 rounded-xl text-sm font-semibold transition-colors ${
+                    tab === name ? 'bg-[#1DB954] text-white' : 'bg-[#232323] text-gray-400 hover:text-white border border-[#282828]'
+                  }`}
+                >
+                  {name === 'analysis' ? 'Analysis' : 'History'}
+                </button>
+              ))}
+            </div>
+
             {/* Content */}
+            {tab === 'history' ? (
+              <section className="bg-[#232323] rounded-2xl lg:rounded-3xl shadow-2xl border border-[#282828] p-4 lg:p-8">
+                <h2 className="text-xl lg:text-3xl font-bold text-white mb-4">Version History</h2>
+                <PlaylistHistory playlistId={playlistId} playlistName={playlist.name} onRestored={fetchPlaylistAnalytics} />
+              </section>
+            ) : (
             <div className="space-y-6">
+              {loading && (
+                <div className="flex items-center gap-3 bg-[#232323] rounded-2xl border border-[#282828] p-4">
+                  <div className="w-5 h-5 border-2 border-[#1DB954] border-t-transparent rounded-full animate-spin flex-shrink-0"></div>
+                  <p className="text-gray-400 text-sm">{progress ?? 'Analyzing playlist...'}</p>
+                </div>
+              )}
+
               {/* Overview Stats */}
               <section className="bg-[#232323] rounded-2xl lg:rounded-3xl shadow-2xl border border-[#282828] overflow-hidden">
                 <div className="p-4 lg:p-8 border-b border-[#282828] bg-gradient-to-r from-[#232323] to-[#2a2a2a]">
@@ -244,21 +380,23 @@ export default function PlaylistAnalysisPage() {
                 <div className="p-4 lg:p-8">
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                     <div className="bg-[#1a1a1a] rounded-lg p-4 border border-[#282828]">
-                      <div className="text-2xl font-bold text-[#1DB954]">{analytics.totalTracks}</div>
+                      <div className="text-2xl font-bold text-[#1DB954]">{analytics.totalTracks ?? playlist.tracks.total}</div>
                       <div className="text-gray-400 text-sm">Total Tracks</div>
                     </div>
                     <div className="bg-[#1a1a1a] rounded-lg p-4 border border-[#282828]">
                       <div className="text-2xl font-bold text-[#1DB954]">
-                        {Math.round(analytics.averageDuration / 60)}m {analytics.averageDuration % 60}s
+                        {analytics.averageDuration !== undefined
+                          ? `${Math.round(analytics.averageDuration / 60)}m ${analytics.averageDuration % 60}s`
+                          : '…'}
                       </div>
                       <div className="text-gray-400 text-sm">Avg Duration</div>
                     </div>
                     <div className="bg-[#1a1a1a] rounded-lg p-4 border border-[#282828]">
-                      <div className="text-2xl font-bold text-[#1DB954]">{analytics.topGenres.length}</div>
+                      <div className="text-2xl font-bold text-[#1DB954]">{analytics.topGenres?.length ?? '…'}</div>
                       <div className="text-gray-400 text-sm">Genres</div>
                     </div>
                     <div className="bg-[#1a1a1a] rounded-lg p-4 border border-[#282828]">
-                      <div className="text-2xl font-bold text-[#1DB954]">{analytics.topArtists.length}</div>
+                      <div className="text-2xl font-bold text-[#1DB954]">{analytics.topArtists?.length ?? '…'}</div>
                       <div className="text-gray-400 text-sm">Artists</div>
                     </div>
                   </div>
@@ -266,81 +404,85 @@ export default function PlaylistAnalysisPage() {
               </section>
 
               {/* Top Genres */}
-              <section className="bg-[#232323] rounded-2xl lg:rounded-3xl shadow-2xl border border-[#282828] overflow-hidden">
-                <div className="p-4 lg:p-8 border-b border-[#282828] bg-gradient-to-r from-[#232323] to-[#2a2a2a]">
-                  <div className="flex items-center gap-3 lg:gap-4">
-                    <div className="w-8 h-8 lg:w-10 lg:h-10 bg-[#1DB954] rounded-xl flex items-center justify-center flex-shrink-0">
-                      <svg className="w-4 h-4 lg:w-5 lg:h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
-                      </svg>
-                    </div>
-                    <div className="min-w-0 flex-1">
-                      <h2 className="text-xl lg:text-3xl font-bold text-white">Top Genres</h2>
-                      <p className="text-gray-400 text-sm lg:text-base mt-1">Most common genres in your playlist</p>
+              {analytics.topGenres && (
+                <section className="bg-[#232323] rounded-2xl lg:rounded-3xl shadow-2xl border border-[#282828] overflow-hidden">
+                  <div className="p-4 lg:p-8 border-b border-[#282828] bg-gradient-to-r from-[#232323] to-[#2a2a2a]">
+                    <div className="flex items-center gap-3 lg:gap-4">
+                      <div className="w-8 h-8 lg:w-10 lg:h-10 bg-[#1DB954] rounded-xl flex items-center justify-center flex-shrink-0">
+                        <svg className="w-4 h-4 lg:w-5 lg:h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+                        </svg>
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <h2 className="text-xl lg:text-3xl font-bold text-white">Top Genres</h2>
+                        <p className="text-gray-400 text-sm lg:text-base mt-1">Most common genres in your playlist</p>
+                      </div>
                     </div>
                   </div>
-                </div>
-                <div className="p-4 lg:p-8">
-                  <div className="space-y-3">
-                    {analytics.topGenres.slice(0, 5).map((genre, index) => (
-                      <div key={genre.genre} className="flex items-center justify-between">
-                        <div className="flex items-center gap-3">
-                          <div className="w-6 h-6 bg-[#1DB954] rounded-full flex items-center justify-center text-xs font-bold">
-                            {index + 1}
+                  <div className="p-4 lg:p-8">
+                    <div className="space-y-3">
+                      {analytics.topGenres.slice(0, 5).map((genre, index) => (
+                        <div key={genre.genre} className="flex items-center justify-between">
+                          <div className="flex items-center gap-3">
+                            <div className="w-6 h-6 bg-[#1DB954] rounded-full flex items-center justify-center text-xs font-bold">
+                              {index + 1}
+                            </div>
+                            <span className="font-medium text-white">{genre.genre}</span>
                           </div>
-                          <span className="font-medium text-white">{genre.genre}</span>
-                        </div>
-                        <div className="flex items-center gap-2">
-                          <div className="w-24 bg-[#2a2a2a] rounded-full h-2">
-                            <div 
-                              className="bg-[#1DB954] h-2 rounded-full" 
-                              style={{ width: `${genre.percentage}%` }}
-                            ></div>
+                          <div className="flex items-center gap-2">
+                            <div className="w-24 bg-[#2a2a2a] rounded-full h-2">
+                              <div 
+                                className="bg-[#1DB954] h-2 rounded-full" 
+                                style={{ width: `${genre.percentage}%` }}
+                              ></div>
+                            </div>
+                            <span className="text-sm text-gray-400 w-12 text-right">
+                              {genre.count}
+                            </span>
                           </div>
-                          <span className="text-sm text-gray-400 w-12 text-right">
-                            {genre.count}
-                          </span>
                         </div>
-                      </div>
-                    ))}
+                      ))}
+                    </div>
                   </div>
-                </div>
-              </section>
+                </section>
+              )}
 
               {/* Top Artists */}
-              <section className="bg-[#232323] rounded-2xl lg:rounded-3xl shadow-2xl border border-[#282828] overflow-hidden">
-                <div className="p-4 lg:p-8 border-b border-[#282828] bg-gradient-to-r from-[#232323] to-[#2a2a2a]">
-                  <div className="flex items-center gap-3 lg:gap-4">
-                    <div className="w-8 h-8 lg:w-10 lg:h-10 bg-[#1DB954] rounded-xl flex items-center justify-center flex-shrink-0">
-                      <svg className="w-4 h-4 lg:w-5 lg:h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
-                      </svg>
-                    </div>
-                    <div className="min-w-0 flex-1">
-                      <h2 className="text-xl lg:text-3xl font-bold text-white">Top Artists</h2>
-                      <p className="text-gray-400 text-sm lg:text-base mt-1">Most featured artists in your playlist</p>
+              {analytics.topArtists && (
+                <section className="bg-[#232323] rounded-2xl lg:rounded-3xl shadow-2xl border border-[#282828] overflow-hidden">
+                  <div className="p-4 lg:p-8 border-b border-[#282828] bg-gradient-to-r from-[#232323] to-[#2a2a2a]">
+                    <div className="flex items-center gap-3 lg:gap-4">
+                      <div className="w-8 h-8 lg:w-10 lg:h-10 bg-[#1DB954] rounded-xl flex items-center justify-center flex-shrink-0">
+                        <svg className="w-4 h-4 lg:w-5 lg:h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                        </svg>
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <h2 className="text-xl lg:text-3xl font-bold text-white">Top Artists</h2>
+                        <p className="text-gray-400 text-sm lg:text-base mt-1">Most featured artists in your playlist</p>
+                      </div>
                     </div>
                   </div>
-                </div>
-                <div className="p-4 lg:p-8">
-                  <div className="space-y-3">
-                    {analytics.topArtists.slice(0, 5).map((artist, index) => (
-                      <div key={artist.name} className="flex items-center justify-between">
-                        <div className="flex items-center gap-3">
-                          <div className="w-6 h-6 bg-[#1DB954] rounded-full flex items-center justify-center text-xs font-bold">
-                            {index + 1}
+                  <div className="p-4 lg:p-8">
+                    <div className="space-y-3">
+                      {analytics.topArtists.slice(0, 5).map((artist, index) => (
+                        <div key={artist.name} className="flex items-center justify-between">
+                          <div className="flex items-center gap-3">
+                            <div className="w-6 h-6 bg-[#1DB954] rounded-full flex items-center justify-center text-xs font-bold">
+                              {index + 1}
+                            </div>
+                            <span className="font-medium text-white">{artist.name}</span>
                           </div>
-                          <span className="font-medium text-white">{artist.name}</span>
+                          <span className="text-sm text-gray-400">{artist.trackCount} tracks</span>
                         </div>
-                        <span className="text-sm text-gray-400">{artist.trackCount} tracks</span>
-                      </div>
-                    ))}
+                      ))}
+                    </div>
                   </div>
-                </div>
-              </section>
+                </section>
+              )}
 
               {/* Mood Distribution */}
-              {analytics.moodDistribution.length > 0 && (
+              {analytics.moodDistribution && analytics.moodDistribution.length > 0 && (
                 <section className="bg-[#232323] rounded-2xl lg:rounded-3xl shadow-2xl border border-[#282828] overflow-hidden">
                   <div className="p-4 lg:p-8 border-b border-[#282828] bg-gradient-to-r from-[#232323] to-[#2a2a2a]">
                     <div className="flex items-center gap-3 lg:gap-4">
@@ -369,7 +511,7 @@ export default function PlaylistAnalysisPage() {
               )}
 
               {/* Energy Distribution */}
-              {analytics.energyDistribution.length > 0 && (
+              {analytics.energyDistribution && analytics.energyDistribution.length > 0 && (
                 <section className="bg-[#232323] rounded-2xl lg:rounded-3xl shadow-2xl border border-[#282828] overflow-hidden">
                   <div className="p-4 lg:p-8 border-b border-[#282828] bg-gradient-to-r from-[#232323] to-[#2a2a2a]">
                     <div className="flex items-center gap-3 lg:gap-4">
@@ -398,7 +540,7 @@ export default function PlaylistAnalysisPage() {
               )}
 
               {/* Danceability Distribution */}
-              {analytics.danceabilityDistribution.length > 0 && (
+              {analytics.danceabilityDistribution && analytics.danceabilityDistribution.length > 0 && (
                 <section className="bg-[#232323] rounded-2xl lg:rounded-3xl shadow-2xl border border-[#282828] overflow-hidden">
                   <div className="p-4 lg:p-8 border-b border-[#282828] bg-gradient-to-r from-[#232323] to-[#2a2a2a]">
                     <div className="flex items-center gap-3 lg:gap-4">
@@ -577,9 +719,21 @@ export default function PlaylistAnalysisPage() {
                 </section>
               )}
             </div>
+            )}
           </div>
         </main>
       </div>
+
+      <PlaylistConflictModal
+        conflict={pendingAdd?.conflict ?? null}
+        playlistName={analyticsData?.playlist.name}
+        onClose={() => setPendingAdd(null)}
+        onReload={() => {
+          setPendingAdd(null);
+          fetchPlaylistAnalytics();
+        }}
+        onForce={handleForceAdd}
+      />
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../auth/authOptions';
+import { apiErrorResponse, errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { unlinkAccount } from '@/lib/linkedAccounts';
+import { createRequestLogger } from '@/lib/logger';
+
+// Unlinks an account; the stored tokens are dropped right away
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ accountId: string }> }
+) {
+  const log = createRequestLogger(request, 'DELETE /api/accounts/[accountId]');
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.accessToken) {
+      return unauthenticatedResponse();
+    }
+
+    const { accountId } = await params;
+    if (!session.user?.id || !(await unlinkAccount(session.user.id, accountId))) {
+      return apiErrorResponse('ACCOUNT_NOT_LINKED', { accountId });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error('Error unlinking account', { error });
+    return errorResponse(error, 'Failed to unlink account');
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../../auth/authOptions';
+import { unauthenticatedResponse } from '@/lib/apiErrors';
+import { LINK_STATE_COOKIE, linkRedirectUri, linkResultUrl, parseLinkState } from '@/lib/accountLinking';
+import { linkAccount } from '@/lib/linkedAccounts';
+import { createRequestLogger } from '@/lib/logger';
+import { SpotifyService } from '@/lib/spotify';
+import { exchangeSpotifyCode } from '@/lib/spotifyTokens';
+
+// Spotify redirects here after the user approved (or declined) linking an account.
+// Always ends with a redirect back to the page linking started from.
+export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/accounts/link/callback');
+  const session = await getServerSession(authOptions);
+  if (!session?.accessToken) {
+    return unauthenticatedResponse();
+  }
+
+  const params = request.nextUrl.searchParams;
+  const linkState = parseLinkState(request.cookies.get(LINK_STATE_COOKIE)?.value);
+  const returnTo = linkState?.returnTo ?? '/';
+  const finish = (status: 'linked' | 'failed', error?: string) => {
+    const response = NextResponse.redirect(linkResultUrl(request.url, returnTo, status, error));
+    response.cookies.delete({ name: LINK_STATE_COOKIE, path: '/api/accounts/link' });
+    return response;
+  };
+
+  if (!linkState || linkState.state !== params.get('state')) {
+    log.warn('Account link callback with a missing or wrong state');
+    return finish('failed', 'expired');
+  }
+  const code = params.get('code');
+  if (!code) {
+    // The user declined on Spotify's consent page
+    return finish('failed', params.get('error') ?? 'denied');
+  }
+
+  const ownerId = session.user?.id;
+  if (!ownerId) {
+    return finish('failed', 'session');
+  }
+
+  try {
+    const tokens = await exchangeSpotifyCode(code, linkRedirectUri(request.url));
+    const account = await new SpotifyService(tokens.accessToken, { logger: log }).getAccount();
+    if (account.id === ownerId) {
+      return finish('failed', 'same-account');
+    }
+
+    await linkAccount(ownerId, account, tokens);
+    return finish('linked');
+  } catch (error) {
+    log.error('Error linking Spotify account', { error });
+    return finish('failed', 'spotify');
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../auth/authOptions';
+import { apiErrorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import {
+  LINK_STATE_COOKIE,
+  LINK_STATE_MAX_AGE_SECONDS,
+  createLinkState,
+  linkRedirectUri,
+  spotifyLinkAuthorizeUrl
+} from '@/lib/accountLinking';
+import { createRequestLogger } from '@/lib/logger';
+
+// Starts linking another Spotify account: sends the browser to Spotify's consent
+// page, which comes back to /api/accounts/link/callback. `returnTo` is the page
+// to go back to afterwards.
+export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/accounts/link');
+  const session = await getServerSession(authOptions);
+  if (!session?.accessToken) {
+    return unauthenticatedResponse();
+  }
+  if (!session.user?.id) {
+    return apiErrorResponse('BAD_REQUEST', { error: 'Your Spotify account details are not loaded yet, try again in a moment' });
+  }
+  // Demo visitors all share the demo identity, so nothing can be linked to it
+  if (session.demo) {
+    return apiErrorResponse('BAD_REQUEST', { error: 'Accounts cannot be linked in the demo' });
+  }
+
+  const linkState = createLinkState(request.nextUrl.searchParams.get('returnTo'));
+  log.info('Starting account link', { ownerId: session.user.id });
+
+  const response = NextResponse.redirect(spotifyLinkAuthorizeUrl(linkState.state, linkRedirectUri(request.url)));
+  response.cookies.set(LINK_STATE_COOKIE, JSON.stringify(linkState), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/api/accounts/link',
+    maxAge: LINK_STATE_MAX_AGE_SECONDS
+  });
+  return response;
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../auth/authOptions';
+import { errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { listLinkedAccounts } from '@/lib/linkedAccounts';
+import { createRequestLogger } from '@/lib/logger';
+
+// The signed-in Spotify account followed by every account linked to it
+export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/accounts');
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.accessToken) {
+      return unauthenticatedResponse();
+    }
+
+    const user = session.user;
+    const primary = {
+      id: user?.id ?? null,
+      displayName: user?.name ?? 'Spotify account',
+      product: user?.product ?? null,
+      country: user?.country ?? null,
+      primary: true
+    };
+    const linked = user?.id ? await listLinkedAccounts(user.id) : [];
+
+    return NextResponse.json({
+      accounts: [primary, ...linked.map(account => ({ ...account, primary: false }))]
+    });
+  } catch (error) {
+    log.error('Error listing linked accounts', { error });
+    return errorResponse(error, 'Failed to list accounts');
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '../../../auth/requestSession';
+import { apiErrorResponse, errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { dataOwnerId } from '@/lib/dataStore';
+import { cancelAnalysisJob, getAnalysisJob } from '@/lib/analysisJobs';
+
+const jobNotFound = () =>
+  apiErrorResponse('NOT_FOUND', { message: 'That analysis does not exist or was deleted.' });
+
+// The analysis' status and progress, with the result once it succeeded
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const log = createRequestLogger(request, 'GET /api/analysis/jobs/[id]');
+  try {
+    const session = await getRequestSession(request, 'GET /api/analysis/jobs/[id]');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    const { id } = await params;
+    const found = await getAnalysisJob(ownerId, id);
+    if (!found) return jobNotFound();
+
+    return NextResponse.json(found);
+  } catch (error) {
+    log.error('Error fetching analysis job', { error });
+    return errorResponse(error, 'Failed to fetch analysis job');
+  }
+}
+
+// Cancels the analysis if it hasn't finished
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const log = createRequestLogger(request, 'DELETE /api/analysis/jobs/[id]');
+  try {
+    const session = await getRequestSession(request, 'DELETE /api/analysis/jobs/[id]');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    const { id } = await params;
+    const job = await cancelAnalysisJob(ownerId, id);
+    if (!job) return jobNotFound();
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    log.error('Error cancelling analysis job', { error });
+    return errorResponse(error, 'Failed to cancel analysis job');
+  }
+}
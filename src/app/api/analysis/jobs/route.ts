@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '../../auth/requestSession';
+import { apiErrorResponse, errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
+import { dataOwnerId } from '@/lib/dataStore';
+import { listAnalysisJobs, submitAnalysisJob } from '@/lib/analysisJobs';
+import { backgroundWorkUnavailable } from '@/lib/backgroundWork';
+
+// The user's recent analyses, without results
+export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/analysis/jobs');
+  try {
+    const session = await getRequestSession(request, 'GET /api/analysis/jobs');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    return NextResponse.json({ jobs: await listAnalysisJobs(ownerId) });
+  } catch (error) {
+    log.error('Error listing analysis jobs', { error });
+    return errorResponse(error, 'Failed to list analysis jobs');
+  }
+}
+
+// Queues the analysis of `{ playlistId, refresh? }` and answers 202 with the job;
+// its progress is read from GET /api/analysis/jobs/[id]. When a result is saved
+// for the playlist's current version (and `refresh` isn't asked for), the job is
+// already finished and the answer is 200 with `result`. Where background work
+// can't run (see backgroundWork.ts) it answers 503 JOBS_UNAVAILABLE, and the
+// analysis is done by GET /api/analysis/playlist/[id] instead.
+export async function POST(request: NextRequest) {
+  const log = createRequestLogger(request, 'POST /api/analysis/jobs');
+  try {
+    const session = await getRequestSession(request, 'POST /api/analysis/jobs');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    const unavailable = backgroundWorkUnavailable();
+    if (unavailable) {
+      log.warn('Refusing analysis job, background work cannot run here', { reason: unavailable });
+      return apiErrorResponse('JOBS_UNAVAILABLE', { details: unavailable });
+    }
+
+    const body = await request.json().catch(() => null);
+    const playlistId = body?.playlistId;
+    if (typeof playlistId !== 'string' || !playlistId.trim()) {
+      return apiErrorResponse('BAD_REQUEST', { error: 'playlistId is required' });
+    }
+
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const { job, result } = await submitAnalysisJob(ownerId, playlistId.trim(), access, { refresh: body.refresh === true });
+    return result
+      ? NextResponse.json({ job, result })
+      : NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    log.error('Error submitting analysis job', { error });
+    return errorResponse(error, 'Failed to start playlist analysis');
+  }
+}
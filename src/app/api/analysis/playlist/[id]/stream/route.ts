@@ -0,0 +1,98 @@
+import { NextRequest } from 'next/server';
+import { SpotifyService } from '@/lib/spotify';
+import { getRequestSession } from '../../../../auth/requestSession';
+import { apiErrorResponse, errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
+import { dataOwnerId } from '@/lib/dataStore';
+import { snapshotRecorder } from '@/lib/playlistHistory';
+import { EmptyPlaylistError } from '@/lib/playlistAnalysis';
+import { analyzePlaylistCached } from '@/lib/analysisCache';
+
+// The same analysis as GET /api/analysis/playlist/[id], as Server-Sent Events:
+// `progress` with how far it got, one event for each part of the result as soon as
+// it is ready (`playlist`, `artists`, `genres`, `audio`, `recommendations`) and
+// finally `result` with the full response or `failed` with the API error body.
+// The analysis is cancelled if the client disconnects. A result saved for the
+// playlist's current version arrives straight away as `result`, unless
+// `?refresh=true` is passed.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const log = createRequestLogger(request, 'GET /api/analysis/playlist/[id]/stream');
+  let spotifyService: SpotifyService;
+  let playlistId: string;
+  let ownerId: string | null;
+  try {
+    // Check that the user is signed in
+    const session = await getRequestSession(request, 'GET /api/analysis/playlist/[id]/stream');
+    if (!session?.accessToken) {
+      return unauthenticatedResponse();
+    }
+
+    playlistId = (await params).id;
+    ownerId = dataOwnerId(session);
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    spotifyService = new SpotifyService(access.accessToken, {
+      logger: log,
+      market: access.market,
+      onPlaylistItems: snapshotRecorder(ownerId)
+    });
+  } catch (error) {
+    log.error('Error starting playlist analysis stream', { error });
+    return errorResponse(error, 'Failed to analyze playlist');
+  }
+
+  const abort = new AbortController();
+  request.signal.addEventListener('abort', () => abort.abort(), { once: true });
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const run = async () => {
+        try {
+          const result = await analyzePlaylistCached(spotifyService, playlistId, {
+            logger: log,
+            ownerId,
+            refresh: request.nextUrl.searchParams.get('refresh') === 'true',
+            signal: abort.signal,
+            onProgress: progress => send('progress', progress),
+            onSection: ({ section, ...data }) => send(section, data)
+          });
+          send('result', result);
+        } catch (error) {
+          if (abort.signal.aborted) {
+            log.info('Client disconnected, analysis cancelled', { playlistId });
+            return;
+          }
+          log.error('Error analyzing playlist', { error });
+          const response = error instanceof EmptyPlaylistError
+            ? apiErrorResponse('BAD_REQUEST', { error: 'Playlist is empty' })
+            : errorResponse(error, 'Failed to analyze playlist');
+          send('failed', await response.json());
+        }
+        if (!abort.signal.aborted) controller.close();
+      };
+      void run();
+    },
+    cancel() {
+      abort.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Without this some proxies (nginx) hold the events back until the end
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -1,103 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../../../auth/authOptions';
-import { SpotifyService } from '@/lib/spotify';
+import { getRequestSession } from '../../../../auth/requestSession';
+import { SpotifyService, SpotifyTrack } from '@/lib/spotify';
+import { errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ genre: string }> }
 ) {
+  const log = createRequestLogger(request, 'GET /api/analytics/genres/[genre]/tracks');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'GET /api/analytics/genres/[genre]/tracks');
     
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return unauthenticatedResponse();
     }
 
     const { genre } = await params;
     const decodedGenre = decodeURIComponent(genre);
     
-    console.log(`🎵 Genre Tracks API: Fetching tracks for genre: ${decodedGenre}`);
-    console.log(`🎵 Genre Tracks API: Original genre param: ${genre}`);
-    console.log(`🎵 Genre Tracks API: Decoded genre: ${decodedGenre}`);
+    log.info('Fetching tracks for genre', { genre: decodedGenre });
 
-    const spotifyService = new SpotifyService(session.accessToken);
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
 
-    // Get ALL user's playlists using pagination
-    const getAllPlaylists = async () => {
-      const allPlaylists = [];
-      let offset = 0;
-      const limit = 50;
-      
-      while (true) {
-        const playlistsResponse = await fetch(`https://api.spotify.com/v1/me/playlists?limit=${limit}&offset=${offset}`, {
-          headers: {
-            'Authorization': `Bearer ${session.accessToken}`
-          }
-        });
-
-        if (!playlistsResponse.ok) {
-          throw new Error('Failed to fetch playlists');
-        }
+    // Stream every playlist and its tracks page by page, looking up genres for the
+    // artists on each page and keeping only the tracks that match
+    const artistGenres: Record<string, string[]> = {};
+    const genreTracks: Array<SpotifyTrack & { playlistName: string; playlistId: string }> = [];
+    let scannedTracks = 0;
 
-        const playlistsData = await playlistsResponse.json();
-        const playlists = playlistsData.items;
-        
-        if (playlists.length === 0) {
-          break; // No more playlists
-        }
-        
-        allPlaylists.push(...playlists);
-        offset += limit;
-        
-        if (playlists.length < limit) {
-          break; // Last batch
-        }
-      }
-      
-      return allPlaylists;
-    };
+    for await (const playlistsPage of spotifyService.iterateUserPlaylists({ maxItems: 1000 })) {
+      for (const playlist of playlistsPage.items) {
+        try {
+          for await (const page of spotifyService.iteratePlaylistTracks(playlist.id, { maxItems: 2000 })) {
+            scannedTracks += page.items.length;
 
-    const playlists = await getAllPlaylists();
+            const unknownArtistIds = Array.from(new Set(page.items.flatMap(track => track.artists.map(a => a.id))))
+              .filter(id => !(id in artistGenres));
+            if (unknownArtistIds.length > 0) {
+              const artists = await spotifyService.getArtists(unknownArtistIds);
+              unknownArtistIds.forEach(id => { artistGenres[id] = []; });
+              artists.forEach(artist => {
+                artistGenres[artist.id] = artist.genres;
+              });
+            }
 
-    // Get tracks from all playlists
-    const allTracks: any[] = [];
-    
-    for (const playlist of playlists) {
-      try {
-        const tracks = await spotifyService.getAllPlaylistTracks(playlist.id, 2000);
-        allTracks.push(...tracks.map(track => ({
-          ...track,
-          playlistName: playlist.name,
-          playlistId: playlist.id
-        })));
-      } catch (error) {
-        console.warn(`Failed to fetch tracks for playlist ${playlist.id}:`, error);
+            // Filter tracks by the specific genre
+            genreTracks.push(...page.items
+              .filter(track => track.artists.some(artist => artistGenres[artist.id]?.includes(decodedGenre)))
+              .map(track => ({ ...track, playlistName: playlist.name, playlistId: playlist.id })));
+          }
+        } catch (error) {
+          log.warn('Failed to fetch tracks for playlist', { playlistId: playlist.id, error });
+        }
       }
     }
 
-    // Get unique artist IDs
-    const artistIds = Array.from(new Set(allTracks.flatMap(track => track.artists.map((a: any) => a.id))));
-    
-    // Fetch artist details and genres
-    const artists = await spotifyService.getArtists(artistIds);
-    const artistGenres: Record<string, string[]> = {};
-    artists.forEach(artist => {
-      artistGenres[artist.id] = artist.genres;
-    });
-
-    // Filter tracks by the specific genre
-    const genreTracks = allTracks.filter(track => {
-      const trackGenres = track.artists.flatMap((artist: any) => artistGenres[artist.id] || []);
-      return trackGenres.includes(decodedGenre);
-    });
-
-    console.log(`🎵 Genre Tracks API: Found ${genreTracks.length} tracks for genre "${decodedGenre}"`);
-    console.log(`🎵 Genre Tracks API: Available genres in artistGenres:`, Object.keys(artistGenres).slice(0, 10));
-    console.log(`🎵 Genre Tracks API: Sample track genres:`, allTracks.slice(0, 3).map(track => ({
-      track: track.name,
-      genres: track.artists.flatMap((artist: any) => artistGenres[artist.id] || [])
-    })));
+    log.info('Found tracks for genre', { genre: decodedGenre, count: genreTracks.length, scannedTracks });
 
     // Remove duplicates based on track ID
     const uniqueTracks = genreTracks.filter((track, index, self) => 
@@ -121,7 +82,7 @@ export async function GET(
     });
 
   } catch (error) {
-    console.error('Genre Tracks API error:', error);
-    return NextResponse.json({ error: 'Failed to fetch genre tracks' }, { status: 500 });
+    log.error('Genre Tracks API error', { error });
+    return errorResponse(error, 'Failed to fetch genre tracks');
   }
 } 
\ No newline at end of file
@@ -1,71 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/authOptions';
-import { SpotifyService } from '@/lib/spotify';
+import { getRequestSession } from '@/app/api/auth/requestSession';
+import { SpotifyService, SpotifyArtist } from '@/lib/spotify';
+import { errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
 
 export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/analytics/genres');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'GET /api/analytics/genres');
     
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return unauthenticatedResponse();
     }
 
     // Create SpotifyService instance with the user's access token
-    const spotifyService = new SpotifyService(session.accessToken);
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
 
-    console.log('🎵 Genres API: Starting genres fetch...');
+    log.info('Starting genres fetch');
 
-    // Get user's playlists (reduced limit to avoid rate limits)
-    const playlists = await spotifyService.getAllUserPlaylists(20);
-    console.log(`🎵 Genres API: Fetched ${playlists.length} playlists`);
+    // Get tracks from the first 4 playlists, streaming playlists page by page so we
+    // stop asking Spotify for more as soon as we have enough
+    const playlistsToProcess = 4;
+    const allTracks: any[] = [];
+    let processedPlaylists = 0;
 
-    if (playlists.length === 0) {
-      return NextResponse.json({
-        genres: [],
-        totalGenres: 0,
-        totalTracks: 0
-      });
-    }
+    for await (const page of spotifyService.iterateUserPlaylists({ maxItems: playlistsToProcess })) {
+      for (const playlist of page.items) {
+        processedPlaylists++;
+        log.debug('Processing playlist', { playlistId: playlist.id });
 
-    // Get tracks from fewer playlists to avoid rate limits (reduced from 8 to 4)
-    const allTracks: any[] = [];
-    const playlistsToProcess = playlists.slice(0, 4);
-    
-    for (const playlist of playlistsToProcess) {
-      try {
-        console.log(`🎵 Genres API: Processing playlist: ${playlist.name}`);
-        
         // Get tracks from this playlist (reduced limit from 50 to 30 to avoid rate limits)
         try {
-          const tracks = await spotifyService.getAllPlaylistTracks(playlist.id, 30);
-          
-          const tracksWithPlaylistInfo = tracks.map((track: any) => ({
-            ...track,
-            playlistName: playlist.name,
-            playlistId: playlist.id
-          }));
-
-          allTracks.push(...tracksWithPlaylistInfo);
-          console.log(`🎵 Genres API: Added ${tracks.length} tracks from playlist "${playlist.name}"`);
+          for await (const tracksPage of spotifyService.iteratePlaylistTracks(playlist.id, { maxItems: 30 })) {
+            allTracks.push(...tracksPage.items.map(track => ({
+              ...track,
+              playlistName: playlist.name,
+              playlistId: playlist.id
+            })));
+            log.debug('Added tracks from playlist', { playlistId: playlist.id, count: tracksPage.items.length });
+          }
         } catch (error) {
-          console.warn(`🎵 Genres API: Error fetching tracks for playlist "${playlist.name}":`, error);
-          continue;
+          log.warn('Error fetching tracks for playlist', { playlistId: playlist.id, error });
         }
-        
-        // Longer delay to avoid rate limits
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-      } catch (error) {
-        console.warn(`🎵 Genres API: Failed to fetch tracks for playlist ${playlist.id}:`, error);
       }
     }
 
-    console.log(`🎵 Genres API: Total tracks collected: ${allTracks.length}`);
+    if (processedPlaylists === 0) {
+      return NextResponse.json({
+        genres: [],
+        totalGenres: 0,
+        totalTracks: 0
+      });
+    }
+
+    log.debug('Collected tracks', { processedPlaylists, count: allTracks.length });
 
     // If we couldn't get any tracks, provide a fallback with basic genre data
     if (allTracks.length === 0) {
-      console.log('🎵 Genres API: No tracks collected, providing fallback data');
+      log.info('No tracks collected, providing fallback data');
       return NextResponse.json({
         genres: [
           { genre: 'Pop', trackCount: 1, tracks: [] },
@@ -80,7 +74,7 @@ export async function GET(request: NextRequest) {
 
     // Get unique artist IDs
     const artistIds = Array.from(new Set(allTracks.flatMap((track: any) => track.artists.map((a: any) => a.id))));
-    console.log(`🎵 Genres API: Found ${artistIds.length} unique artists`);
+    log.debug('Found unique artists', { count: artistIds.length });
 
     if (artistIds.length === 0) {
       return NextResponse.json({
@@ -91,25 +85,12 @@ export async function GET(request: NextRequest) {
     }
 
     // Try to fetch artist details and genres (reduced limit from 30 to 20 artists to avoid rate limits)
-    let artists: any[] = [];
+    let artists: SpotifyArtist[] = [];
     try {
-      const artistsToFetch = artistIds.slice(0, 20);
-      const artistsResponse = await fetch(
-        `https://api.spotify.com/v1/artists?ids=${artistsToFetch.join(',')}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${session.accessToken}`
-          }
-        }
-      );
-
-      if (artistsResponse.ok) {
-        const artistsData = await artistsResponse.json();
-        artists = artistsData.artists;
-        console.log(`🎵 Genres API: Successfully fetched ${artists.length} artists`);
-      }
+      artists = await spotifyService.getArtists(artistIds.slice(0, 20));
+      log.debug('Fetched artists', { count: artists.length });
     } catch (error) {
-      console.warn('🎵 Genres API: Failed to fetch artists, using fallback genre data');
+      log.warn('Failed to fetch artists, using fallback genre data', { error });
       // Provide fallback genre data based on track names
       const fallbackGenres = ['Pop', 'Rock', 'Hip Hop', 'Electronic', 'R&B'];
       const genreTracks: Record<string, any[]> = {};
@@ -140,8 +121,8 @@ export async function GET(request: NextRequest) {
 
     // Create artist-genre mapping
     const artistGenres: Record<string, string[]> = {};
-    artists.forEach((artist: any) => {
-      if (artist && artist.genres) {
+    artists.forEach(artist => {
+      if (artist.genres) {
         artistGenres[artist.id] = artist.genres;
       }
     });
@@ -178,7 +159,7 @@ export async function GET(request: NextRequest) {
 
     genresWithTracks.sort((a, b) => b.trackCount - a.trackCount);
 
-    console.log(`🎵 Genres API: Successfully processed ${genresWithTracks.length} genres`);
+    log.info('Processed genres', { count: genresWithTracks.length });
 
     return NextResponse.json({
       genres: genresWithTracks,
@@ -188,10 +169,7 @@ export async function GET(request: NextRequest) {
     });
 
   } catch (error) {
-    console.error('🎵 Genres API: Error:', error);
-    return NextResponse.json({ 
-      error: 'Failed to fetch genres',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 });
+    log.error('Genres API error', { error });
+    return errorResponse(error, 'Failed to fetch genres');
   }
 } 
\ No newline at end of file
@@ -1,67 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/authOptions';
-
+import { getRequestSession } from '@/app/api/auth/requestSession';
+import { SpotifyService } from '@/lib/spotify';
+import { apiErrorResponse, errorResponse, requireScopes, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
+import { getPlayHistorySummary, listeningStats, localTimeParts, playHistoryId, playsWithHistory } from '@/lib/playHistory';
+import { isCollectingHistory } from '@/lib/historyCollector';
+
+// `tracks` son las últimas reproducciones de Spotify (máximo 50); el resto se
+// calcula sobre el historial guardado. `days` limita ese historial a los últimos
+// N días y `timeZone` (IANA, por defecto UTC) fija los días y horas de `history.stats`.
 export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/analytics/listening-history');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'GET /api/analytics/listening-history');
     
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return unauthenticatedResponse();
     }
 
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '50');
     const maxLimit = Math.min(limit, 50); // Spotify API max is 50
 
-    console.log(`📊 Listening History: Fetching last ${maxLimit} played tracks`);
+    const timeZone = searchParams.get('timeZone') || 'UTC';
+    try {
+      localTimeParts(new Date(), timeZone);
+    } catch {
+      return apiErrorResponse('BAD_REQUEST', { error: 'timeZone must be an IANA time zone such as Europe/Madrid' });
+    }
+    const days = searchParams.get('days') ? Number(searchParams.get('days')) : null;
+    if (days !== null && !(Number.isInteger(days) && days > 0)) {
+      return apiErrorResponse('BAD_REQUEST', { error: 'days must be a positive whole number' });
+    }
+    const since = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
 
-    // Get user's recently played tracks (real data)
-    const recentlyPlayedResponse = await fetch(
-      `https://api.spotify.com/v1/me/player/recently-played?limit=${maxLimit}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${session.accessToken}`
-        }
-      }
-    );
+    log.info('Fetching recently played tracks', { limit: maxLimit });
 
-    if (!recentlyPlayedResponse.ok) {
-      if (recentlyPlayedResponse.status === 429) {
-        console.warn('Rate limit hit while fetching listening history, waiting and retrying...');
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        
-        // Retry once
-        const retryResponse = await fetch(
-          `https://api.spotify.com/v1/me/player/recently-played?limit=${maxLimit}`,
-          {
-            headers: {
-              'Authorization': `Bearer ${session.accessToken}`
-            }
-          }
-        );
-        
-        if (!retryResponse.ok) {
-          throw new Error(`Failed to fetch listening history: ${retryResponse.status}`);
-        }
-        
-        const retryData = await retryResponse.json();
-        return NextResponse.json({ 
-          tracks: retryData.items || [],
-          total: retryData.items?.length || 0
-        });
-      }
-      
-      throw new Error(`Failed to fetch listening history: ${recentlyPlayedResponse.status}`);
+    // Get user's recently played tracks (real data)
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const scopeError = requireScopes(access, 'GET /api/analytics/listening-history');
+    if (scopeError) {
+      return scopeError;
     }
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
+    const tracks = await spotifyService.getRecentlyPlayed(maxLimit);
 
-    const listeningHistoryData = await recentlyPlayedResponse.json();
-    const tracks = listeningHistoryData.items || [];
+    log.debug('Fetched recently played tracks', { count: tracks.length });
 
-    console.log(`📊 Listening History: Successfully fetched ${tracks.length} tracks`);
+    // Guardar lo recién obtenido y trabajar con todo el historial acumulado
+    const historyId = playHistoryId(session, access);
+    const plays = await playsWithHistory(historyId, tracks, { since });
 
     // Process and enrich the listening history
-    const enrichedHistory = tracks.map((item: any, index: number) => {
+    const enrichedHistory = tracks.map((item, index) => {
       const track = item.track;
       const playedAt = new Date(item.played_at);
       const now = new Date();
@@ -82,47 +74,51 @@ export async function GET(request: NextRequest) {
       };
     });
 
-    // Group tracks by time periods for insights
+    // Group plays by time periods for insights
+    const now = Date.now();
+    const minutesAgo = plays.map(play => (now - new Date(play.playedAt).getTime()) / (1000 * 60));
     const timeGroups = {
-      lastHour: enrichedHistory.filter((track: any) => track.timeAgo < 60).length,
-      lastDay: enrichedHistory.filter((track: any) => track.timeAgo < 1440).length, // 24 hours
-      lastWeek: enrichedHistory.filter((track: any) => track.timeAgo < 10080).length, // 7 days
-      older: enrichedHistory.filter((track: any) => track.timeAgo >= 10080).length
+      lastHour: minutesAgo.filter(minutes => minutes < 60).length,
+      lastDay: minutesAgo.filter(minutes => minutes < 1440).length, // 24 hours
+      lastWeek: minutesAgo.filter(minutes => minutes < 10080).length, // 7 days
+      older: minutesAgo.filter(minutes => minutes >= 10080).length
     };
 
-    // Get unique artists from recent history
-    const uniqueArtists = Array.from(new Set(
-      enrichedHistory.flatMap((track: any) => track.artists.map((artist: any) => artist.name))
-    ));
-
-    // Get unique albums from recent history
-    const uniqueAlbums = Array.from(new Set(
-      enrichedHistory.map((track: any) => track.album.name)
-    ));
+    const stats = listeningStats(plays, timeZone);
+    // Days the history spans, at least one
+    const oldest = plays.length > 0 ? new Date(plays[plays.length - 1].playedAt).getTime() : now;
+    const spanDays = Math.max(1, Math.ceil((now - oldest) / (24 * 60 * 60 * 1000)));
 
     return NextResponse.json({
       tracks: enrichedHistory,
       total: tracks.length,
       timeGroups,
-      uniqueArtists: uniqueArtists.length,
-      uniqueAlbums: uniqueAlbums.length,
+      uniqueArtists: stats.uniqueArtists,
+      uniqueAlbums: stats.uniqueAlbums,
       listeningInsights: {
         mostActivePeriod: getMostActivePeriod(timeGroups),
-        averageTracksPerDay: Math.round(tracks.length / 7), // Assuming 7 days of history
+        averageTracksPerDay: Math.round(plays.length / spanDays),
         diversity: {
-          artists: uniqueArtists.length,
-          albums: uniqueAlbums.length,
+          artists: stats.uniqueArtists,
+          albums: stats.uniqueAlbums,
           genres: 'Not available' // Spotify doesn't provide this in recently played
         }
+      },
+      history: {
+        collecting: historyId ? await isCollectingHistory(historyId) : false,
+        ...(historyId ? await getPlayHistorySummary(historyId) : {
+          totalPlays: plays.length,
+          firstPlayedAt: plays[plays.length - 1]?.playedAt ?? null,
+          lastPlayedAt: plays[0]?.playedAt ?? null
+        }),
+        timeZone,
+        stats
       }
     });
 
   } catch (error) {
-    console.error('Listening History API error:', error);
-    return NextResponse.json({ 
-      error: 'Failed to fetch listening history',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 });
+    log.error('Listening History API error', { error });
+    return errorResponse(error, 'Failed to fetch listening history');
   }
 }
 
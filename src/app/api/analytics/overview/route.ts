@@ -1,65 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../auth/authOptions';
+import { getRequestSession } from '../../auth/requestSession';
+import { SpotifyService } from '@/lib/spotify';
+import { errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
 
 export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/analytics/overview');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'GET /api/analytics/overview');
     
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return unauthenticatedResponse();
     }
 
-    // Get user's playlists (increased limit for better analytics)
-    const getPlaylists = async () => {
-      const allPlaylists = [];
-      let offset = 0;
-      const limit = 50;
-      const maxPlaylists = 500; // Increased to 500 playlists for better analytics
-      
-      while (allPlaylists.length < maxPlaylists) {
-        const playlistsResponse = await fetch(`https://api.spotify.com/v1/me/playlists?limit=${limit}&offset=${offset}`, {
-          headers: {
-            'Authorization': `Bearer ${session.accessToken}`
-          }
-        });
-
-        if (!playlistsResponse.ok) {
-          if (playlistsResponse.status === 429) {
-            console.warn('Rate limit hit while fetching playlists, waiting and retrying...');
-            // Wait 2 seconds before retrying
-            await new Promise(resolve => setTimeout(resolve, 2000));
-            continue;
-          }
-          throw new Error('Failed to fetch playlists');
-        }
-
-        const playlistsData = await playlistsResponse.json();
-        const playlists = playlistsData.items;
-        
-        if (playlists.length === 0) {
-          break; // No more playlists
-        }
-        
-        allPlaylists.push(...playlists);
-        offset += limit;
-        
-        // Add a small delay between requests to be respectful to the API
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-        if (playlists.length < limit) {
-          break; // Last batch
-        }
-      }
-      
-      return allPlaylists;
-    };
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
 
-    const playlists = await getPlaylists();
-    console.log(`📊 Analytics: Fetched ${playlists.length} total playlists`);
+    // Get user's playlists (increased limit for better analytics)
+    const playlists = await spotifyService.getAllUserPlaylists(500);
+    log.debug('Fetched playlists', { count: playlists.length });
     
     if (playlists.length === 0) {
-      console.log('📊 Analytics: No playlists found');
+      log.info('No playlists found');
       return NextResponse.json({
         totalPlaylists: 0,
         totalTracks: 0,
@@ -72,60 +35,12 @@ export async function GET(request: NextRequest) {
       });
     }
 
-        // Get detailed playlist data with tracks (using pagination for each playlist)
+    // Get detailed playlist data with tracks (5000 tracks per playlist supports very large playlists)
     const playlistsWithTracks = await Promise.all(
-      playlists.map(async (playlist: any) => {
-        const getTracksForPlaylist = async (playlistId: string) => {
-          const allTracks = [];
-          let offset = 0;
-          const limit = 100;
-          const maxTracks = 5000; // Increased to 5000 tracks per playlist for better analytics (supports very large playlists)
-          
-          while (allTracks.length < maxTracks) {
-            const tracksResponse = await fetch(`https://api.spotify.com/v1/playlists/${playlistId}/tracks?limit=${limit}&offset=${offset}`, {
-              headers: {
-                'Authorization': `Bearer ${session.accessToken}`
-              }
-            });
-
-            if (!tracksResponse.ok) {
-              if (tracksResponse.status === 429) {
-                console.warn(`Rate limit hit while fetching tracks for playlist ${playlistId}, waiting and retrying...`);
-                // Wait 1 second before retrying
-                await new Promise(resolve => setTimeout(resolve, 1000));
-                continue;
-              }
-              console.warn(`Failed to fetch tracks for playlist ${playlistId}`);
-              break;
-            }
-
-            const tracksData = await tracksResponse.json();
-            const tracks = tracksData.items.map((item: any) => item.track).filter(Boolean);
-            
-            if (tracks.length === 0) {
-              break; // No more tracks
-            }
-            
-            allTracks.push(...tracks);
-            offset += limit;
-            
-            // Add a small delay between requests to be respectful to the API
-            await new Promise(resolve => setTimeout(resolve, 50));
-            
-            if (tracks.length < limit) {
-              break; // Last batch
-            }
-          }
-          
-          return allTracks;
-        };
-
-        const tracks = await getTracksForPlaylist(playlist.id);
-        return {
-          ...playlist,
-          tracks
-        };
-      })
+      playlists.map(async playlist => ({
+        ...playlist,
+        tracks: await spotifyService.getAllPlaylistTracks(playlist.id, 5000)
+      }))
     );
 
     // Calculate analytics
@@ -133,16 +48,14 @@ export async function GET(request: NextRequest) {
     const totalTracks = playlistsWithTracks.reduce((sum, playlist) => sum + (playlist.tracks?.length || 0), 0);
     const averagePlaylistLength = totalPlaylists > 0 ? Math.round(totalTracks / totalPlaylists) : 0;
     
-    console.log(`📊 Analytics: Total tracks across all playlists: ${totalTracks}`);
-    console.log(`📊 Analytics: Average playlist length: ${averagePlaylistLength} tracks`);
-    console.log(`📊 Analytics: Estimated listening time: ${Math.floor(totalTracks * 4.2)} minutes (${Math.floor(totalTracks * 4.2 / 60)} hours)`);
+    log.info('Computed playlist totals', { totalPlaylists, totalTracks, averagePlaylistLength });
 
     // Get unique artists and their track counts
     const artistCounts: { [key: string]: number } = {};
     playlistsWithTracks.forEach(playlist => {
-      playlist.tracks?.forEach((track: any) => {
+      playlist.tracks?.forEach(track => {
         if (track?.artists) {
-          track.artists.forEach((artist: any) => {
+          track.artists.forEach(artist => {
             artistCounts[artist.name] = (artistCounts[artist.name] || 0) + 1;
           });
         }
@@ -165,15 +78,10 @@ export async function GET(request: NextRequest) {
     
     if (allTrackIds.length > 0) {
       // Get audio features for tracks to determine genres
-      const featuresResponse = await fetch(`https://api.spotify.com/v1/audio-features?ids=${allTrackIds.join(',')}`, {
-        headers: {
-          'Authorization': `Bearer ${session.accessToken}`
-        }
-      });
+      const features = await spotifyService.getAudioFeatures(allTrackIds);
+
+      if (features.length > 0) {
 
-      if (featuresResponse.ok) {
-        const featuresData = await featuresResponse.json();
-        
         // For now, we'll use energy and valence to determine mood
         const moodDistribution = {
           energetic: 0,
@@ -182,13 +90,11 @@ export async function GET(request: NextRequest) {
           melancholic: 0
         };
 
-        featuresData.audio_features.forEach((feature: any) => {
-          if (feature) {
-            if (feature.energy > 0.7 && feature.valence > 0.6) moodDistribution.energetic++;
-            else if (feature.energy < 0.4 && feature.valence < 0.4) moodDistribution.melancholic++;
-            else if (feature.valence > 0.6) moodDistribution.happy++;
-            else moodDistribution.chill++;
-          }
+        features.forEach(feature => {
+          if (feature.energy > 0.7 && feature.valence > 0.6) moodDistribution.energetic++;
+          else if (feature.energy < 0.4 && feature.valence < 0.4) moodDistribution.melancholic++;
+          else if (feature.valence > 0.6) moodDistribution.happy++;
+          else moodDistribution.chill++;
         });
 
         // Convert mood distribution to array format
@@ -225,7 +131,7 @@ export async function GET(request: NextRequest) {
     });
 
   } catch (error) {
-    console.error('Analytics API error:', error);
-    return NextResponse.json({ error: 'Failed to fetch analytics data' }, { status: 500 });
+    log.error('Analytics API error', { error });
+    return errorResponse(error, 'Failed to fetch analytics data');
   }
 } 
\ No newline at end of file
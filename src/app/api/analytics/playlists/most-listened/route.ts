@@ -1,33 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../../auth/authOptions';
+import { getRequestSession } from '../../../auth/requestSession';
 import { SpotifyService } from '@/lib/spotify';
+import { errorResponse, requireScopes, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
+import { SpotifyScopeError } from '@/lib/spotifyErrors';
+import { countPlays, playCountHistory, playHistoryId, playlistIdOf } from '@/lib/playHistory';
 
 export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/analytics/playlists/most-listened');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'GET /api/analytics/playlists/most-listened');
     
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return unauthenticatedResponse();
     }
 
     // Create SpotifyService instance with the user's access token
-    const spotifyService = new SpotifyService(session.accessToken);
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const scopeError = requireScopes(access, 'GET /api/analytics/playlists/most-listened');
+    if (scopeError) {
+      return scopeError;
+    }
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
 
-    console.log('📊 Most Listened Playlists: Starting analysis...');
+    log.info('Starting most listened playlists analysis');
 
     // Get user playlists using the new service method (increased limit for better data)
     let playlists: any[] = [];
     try {
       playlists = await spotifyService.getAllUserPlaylists(50);
-      console.log(`📊 Most Listened: Fetched ${playlists.length} playlists`);
-    } catch (error: any) {
-      console.error('📊 Most Listened: Error fetching playlists:', error);
-      console.error('📊 Most Listened: Error details:', {
-        message: error.message,
-        statusCode: error.statusCode,
-        stack: error.stack
-      });
+      log.debug('Fetched playlists', { count: playlists.length });
+    } catch (error) {
+      log.error('Error fetching playlists, returning fallback data', { error });
       
       // Return fallback data instead of failing completely
       return NextResponse.json({
@@ -60,34 +65,27 @@ export async function GET(request: NextRequest) {
     }
     
     // Log successful playlist fetch
-    console.log(`📊 Most Listened: Successfully fetched ${playlists.length} playlists`);
 
     // Get user's top tracks to calculate more realistic play counts
-    let topTracks: any[] = [];
+    let topTracks: SpotifyApi.TrackObjectFull[] = [];
     try {
-      const topTracksResponse = await fetch(
-        `https://api.spotify.com/v1/me/top/tracks?time_range=medium_term&limit=50`,
-        {
-          headers: {
-            'Authorization': `Bearer ${session.accessToken}`
-          }
-        }
-      );
-      
-      if (topTracksResponse.ok) {
-        const topTracksData = await topTracksResponse.json();
-        topTracks = topTracksData.items || [];
-        console.log(`📊 Most Listened: Fetched ${topTracks.length} top tracks for play count calculation`);
-      }
+      topTracks = await spotifyService.getTopTracks('medium_term', 50);
+      log.debug('Fetched top tracks for play count calculation', { count: topTracks.length });
     } catch (error) {
-      console.warn('Failed to fetch top tracks for play count calculation:', error);
+      // A token without the scope gets an answer the UI can act on, not made-up counts
+      if (error instanceof SpotifyScopeError) throw error;
+      log.warn('Failed to fetch top tracks for play count calculation', { error });
     }
 
+    // Con suficiente historial guardado, las reproducciones de cada playlist son reales
+    const history = await playCountHistory(playHistoryId(session, access));
+    const playlistPlays = history && countPlays(history, playlistIdOf);
+
     // Get playlist details with better metrics and realistic play counts
     const playlistsWithDetails = await Promise.all(
       playlists.map(async (playlist: any, index: number) => {
         try {
-          console.log(`📊 Processing playlist ${index + 1}/${playlists.length}: ${playlist.name}`);
+          log.debug('Processing playlist', { playlistId: playlist.id, index: index + 1, total: playlists.length });
           
           // Get playlist tracks using the service method (much more conservative limit)
           const tracks = await spotifyService.getAllPlaylistTracks(playlist.id, 50);
@@ -141,8 +139,8 @@ export async function GET(request: NextRequest) {
             followers: playlist.followers?.total || 0,
             createdAt: playlist.created_at,
             popularityScore: Math.round(popularityScore),
-            // Realistic play count based on actual usage patterns
-            plays: totalPlays,
+            // Plays from the stored history, or the estimate above without one
+            plays: playlistPlays ? playlistPlays.get(playlist.id) ?? 0 : totalPlays,
             // Add image field for compatibility
             image: playlist.images && playlist.images.length > 0 ? playlist.images[0].url : null,
             // Additional info for debugging
@@ -152,30 +150,34 @@ export async function GET(request: NextRequest) {
             activityBonus
           };
         } catch (error) {
-          console.warn(`Failed to get details for playlist ${playlist.id}:`, error);
+          log.warn('Failed to get details for playlist', { playlistId: playlist.id, error });
           return null;
         }
       })
     );
 
-    // Filter out failed playlists and sort by popularity
+    // Filter out failed playlists and sort by real plays when known, then popularity
     const validPlaylists = playlistsWithDetails
       .filter(Boolean)
       .sort((a, b) => {
         if (!a || !b) return 0;
+        if (playlistPlays && b.plays !== a.plays) return b.plays - a.plays;
         return b.popularityScore - a.popularityScore;
       })
       .slice(0, 10); // Top 10
 
-    console.log(`📊 Most Listened: Processed ${validPlaylists.length} playlists`);
+    log.info('Processed playlists', { count: validPlaylists.length });
 
     return NextResponse.json({
       playlists: validPlaylists,
-      note: "Play counts are calculated based on how many of your top tracks appear in each playlist, track count, and other factors"
+      source: playlistPlays ? 'history' : 'estimate',
+      note: playlistPlays
+        ? `Play counts are your actual plays from each playlist since ${history[history.length - 1].playedAt}`
+        : "Play counts are calculated based on how many of your top tracks appear in each playlist, track count, and other factors"
     });
 
   } catch (error) {
-    console.error('Most Listened Playlists API error:', error);
-    return NextResponse.json({ error: 'Failed to fetch most listened playlists' }, { status: 500 });
+    log.error('Most listened playlists analysis failed', { error });
+    return errorResponse(error, 'Failed to fetch most listened playlists');
   }
 }
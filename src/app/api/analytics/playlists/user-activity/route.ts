@@ -1,106 +1,82 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/authOptions';
+import { getRequestSession } from '@/app/api/auth/requestSession';
+import { SpotifyService } from '@/lib/spotify';
+import { errorResponse, requireScopes, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
+import { SpotifyScopeError } from '@/lib/spotifyErrors';
+import { countPlays, playCountHistory, playHistoryId, playlistIdOf, playsFrom, recordPlays } from '@/lib/playHistory';
 
 export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/analytics/playlists/user-activity');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'GET /api/analytics/playlists/user-activity');
     
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return unauthenticatedResponse();
     }
 
-    console.log(`📊 User Playlist Activity: Starting analysis`);
+    log.info('Starting playlist activity analysis');
 
-    // Get user's playlists
-    const getPlaylists = async () => {
-      const allPlaylists = [];
-      let offset = 0;
-      const limit = 50;
-      const maxPlaylists = 200;
-      
-      while (allPlaylists.length < maxPlaylists) {
-        const playlistsResponse = await fetch(`https://api.spotify.com/v1/me/playlists?limit=${limit}&offset=${offset}`, {
-          headers: {
-            'Authorization': `Bearer ${session.accessToken}`
-          }
-        });
-
-        if (!playlistsResponse.ok) {
-          if (playlistsResponse.status === 429) {
-            console.warn('Rate limit hit while fetching playlists, waiting and retrying...');
-            await new Promise(resolve => setTimeout(resolve, 2000));
-            continue;
-          }
-          throw new Error('Failed to fetch playlists');
-        }
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const scopeError = requireScopes(access, 'GET /api/analytics/playlists/user-activity');
+    if (scopeError) {
+      return scopeError;
+    }
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
 
-        const playlistsData = await playlistsResponse.json();
-        const playlists = playlistsData.items;
-        
-        if (playlists.length === 0) break;
-        
-        allPlaylists.push(...playlists);
-        offset += limit;
-        
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-        if (playlists.length < limit) break;
-      }
-      
-      return allPlaylists;
-    };
-
-    const playlists = await getPlaylists();
-    console.log(`📊 User Playlist Activity: Fetched ${playlists.length} playlists`);
+    // Get user's playlists
+    const playlists = await spotifyService.getAllUserPlaylists(200);
+    log.debug('Fetched playlists', { count: playlists.length });
 
     if (playlists.length === 0) {
       return NextResponse.json({ playlists: [] });
     }
 
     // Get recently played tracks to see which playlists are most active
-            const recentlyPlayedResponse = await fetch('https://api.spotify.com/v1/me/player/recently-played?limit=10', {
-      headers: {
-        'Authorization': `Bearer ${session.accessToken}`
-      }
-    });
-
-    let recentlyPlayedTracks: any[] = [];
-    if (recentlyPlayedResponse.ok) {
-      const recentlyPlayedData = await recentlyPlayedResponse.json();
-      recentlyPlayedTracks = recentlyPlayedData.items || [];
-      console.log(`📊 User Playlist Activity: Found ${recentlyPlayedTracks.length} recently played tracks`);
+    let recentlyPlayedTracks: SpotifyApi.PlayHistoryObject[] = [];
+    try {
+      recentlyPlayedTracks = await spotifyService.getRecentlyPlayed(10);
+      log.debug('Fetched recently played tracks', { count: recentlyPlayedTracks.length });
+    } catch (error) {
+      // A token without the scope gets an answer the UI can act on, not empty data
+      if (error instanceof SpotifyScopeError) throw error;
+      log.warn('Failed to fetch recently played tracks', { error });
     }
 
+    // Guardar las reproducciones y, con suficiente historial, contar las de cada playlist
+    const historyId = playHistoryId(session, access);
+    if (historyId) await recordPlays(historyId, recentlyPlayedTracks);
+    const history = await playCountHistory(historyId);
+    const playlistPlays = history && countPlays(history, playlistIdOf);
+    const recentPlaylistPlays = countPlays(playsFrom(recentlyPlayedTracks), playlistIdOf);
+
     // Analyze playlist activity based on multiple factors
     const playlistsWithActivity = await Promise.all(
-      playlists.map(async (playlist: any) => {
+      playlists.map(async playlist => {
         try {
-          // Get playlist details
-          const playlistResponse = await fetch(`https://api.spotify.com/v1/playlists/${playlist.id}?fields=tracks.total,description,images,owner,public,collaborative,created_at,followers`, {
-            headers: {
-              'Authorization': `Bearer ${session.accessToken}`
-            }
-          });
-
-          let playlistDetails = playlist;
-          if (playlistResponse.ok) {
-            playlistDetails = await playlistResponse.json();
+          // Get playlist details (follower counts are only on the full playlist object)
+          let playlistDetails: { trackCount: number; followers: number; collaborative: boolean; public: boolean; created_at?: string } = {
+            ...playlist,
+            trackCount: playlist.tracks.total,
+            followers: 0
+          };
+          try {
+            playlistDetails = await spotifyService.getPlaylist(playlist.id);
+          } catch (error) {
+            log.warn('Failed to fetch playlist details, using basic data', { playlistId: playlist.id, error });
           }
 
           // Calculate activity score based on multiple real factors
-          const trackCount = playlistDetails.tracks?.total || 0;
-          const followers = playlistDetails.followers?.total || 0;
+          const trackCount = playlistDetails.trackCount;
+          const followers = playlistDetails.followers;
           const isCollaborative = playlistDetails.collaborative || false;
           const isPublic = playlistDetails.public || false;
-          const createdAt = new Date(playlistDetails.created_at);
+          const createdAt = new Date(playlistDetails.created_at ?? NaN);
           const daysSinceCreation = Math.max(1, (new Date().getTime() - createdAt.getTime()) / (1000 * 60 * 60 * 24));
 
-          // Check if any tracks from this playlist were recently played
-          const recentlyPlayedFromPlaylist = recentlyPlayedTracks.filter(item => {
-            // This is a simplified check - in a real implementation you'd need to track playlist usage
-            return item.track && item.track.album && item.track.album.name;
-          }).length;
+          // Recent plays that Spotify says were played from this playlist
+          const recentlyPlayedFromPlaylist = recentPlaylistPlays.get(playlist.id) ?? 0;
 
           // Calculate activity score using real user behavior indicators
           const activityScore = (
@@ -118,8 +94,9 @@ export async function GET(request: NextRequest) {
             (Math.min(followers, 100) * 0.2)
           );
 
-          // Calculate estimated total plays based on activity score and track count
-          const estimatedTotalPlays = Math.round(
+          // Calculate estimated total plays based on activity score and track count,
+          // or take the real ones from the stored history when there is enough of it
+          const estimatedTotalPlays = playlistPlays ? playlistPlays.get(playlist.id) ?? 0 : Math.round(
             (activityScore * 2) + 
             (trackCount * 0.8) + 
             (recentlyPlayedFromPlaylist * 15) +
@@ -146,7 +123,7 @@ export async function GET(request: NextRequest) {
             estimatedTotalPlays
           };
         } catch (error) {
-          console.warn(`Failed to get details for playlist ${playlist.id}:`, error);
+          log.warn('Failed to get details for playlist', { playlistId: playlist.id, error });
           return null;
         }
       })
@@ -161,19 +138,17 @@ export async function GET(request: NextRequest) {
       })
       .slice(0, 10); // Top 10 most active
 
-    console.log(`📊 User Playlist Activity: Processed ${validPlaylists.length} playlists`);
+    log.info('Processed playlists', { count: validPlaylists.length });
 
     return NextResponse.json({
       playlists: validPlaylists,
       totalPlaylists: playlists.length,
-      recentlyPlayedTracks: recentlyPlayedTracks.length
+      recentlyPlayedTracks: recentlyPlayedTracks.length,
+      source: playlistPlays ? 'history' : 'estimate'
     });
 
   } catch (error) {
-    console.error('User Playlist Activity API error:', error);
-    return NextResponse.json({ 
-      error: 'Failed to fetch user playlist activity',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 });
+    log.error('User Playlist Activity API error', { error });
+    return errorResponse(error, 'Failed to fetch user playlist activity');
   }
 }
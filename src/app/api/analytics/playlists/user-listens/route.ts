@@ -1,58 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/authOptions';
-
-// Utility function to fetch with retry and rate limit handling
-async function fetchWithRetry(url: string, options: RequestInit, maxRetries = 3): Promise<Response> {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      const response = await fetch(url, options);
-      
-      if (response.status === 429) {
-        // Rate limited - wait longer and retry
-        const retryAfter = response.headers.get('Retry-After');
-        const waitTime = retryAfter ? parseInt(retryAfter) * 1000 : Math.pow(2, attempt) * 1000;
-        console.log(`🎵 Rate limited, waiting ${waitTime}ms before retry ${attempt}`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        continue;
-      }
-      
-      return response;
-    } catch (error) {
-      if (attempt === maxRetries) throw error;
-      console.log(`🎵 Fetch attempt ${attempt} failed, retrying...`);
-      await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
-    }
-  }
-  
-  throw new Error('Max retries exceeded');
-}
+import { getRequestSession } from '@/app/api/auth/requestSession';
+import { SpotifyService, SpotifyTrack } from '@/lib/spotify';
+import { errorResponse, requireScopes, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
+import { SpotifyScopeError } from '@/lib/spotifyErrors';
+import { countPlays, playCountHistory, playHistoryId, playlistIdOf, recordPlays } from '@/lib/playHistory';
 
 export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/analytics/playlists/user-listens');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'GET /api/analytics/playlists/user-listens');
     
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return unauthenticatedResponse();
     }
 
-    console.log('🎵 User Listens API: Starting playlist listens fetch...');
+    log.info('Starting playlist listens fetch');
 
-    // Get user's playlists (limit to first 20 for performance)
-    const playlistsResponse = await fetchWithRetry('https://api.spotify.com/v1/me/playlists?limit=20', {
-      headers: {
-        'Authorization': `Bearer ${session.accessToken}`
-      }
-    });
-
-    if (!playlistsResponse.ok) {
-      console.error('🎵 User Listens API: Failed to fetch playlists:', playlistsResponse.status);
-      throw new Error('Failed to fetch playlists');
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const scopeError = requireScopes(access, 'GET /api/analytics/playlists/user-listens');
+    if (scopeError) {
+      return scopeError;
     }
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
 
-    const playlistsData = await playlistsResponse.json();
-    const playlists = playlistsData.items;
-    console.log(`🎵 User Listens API: Fetched ${playlists.length} playlists`);
+    // Get user's playlists (limit to first 20 for performance)
+    const playlists = await spotifyService.getUserPlaylists(20);
+    log.debug('Fetched playlists', { count: playlists.length });
 
     if (playlists.length === 0) {
       return NextResponse.json({
@@ -62,39 +37,30 @@ export async function GET(request: NextRequest) {
     }
 
     // Try to get user's recently played tracks (limit to 20 for performance)
-    let recentlyPlayedTracks: any[] = [];
+    let recentlyPlayedTracks: SpotifyApi.PlayHistoryObject[] = [];
     try {
-      const recentlyPlayedResponse = await fetchWithRetry('https://api.spotify.com/v1/me/player/recently-played?limit=20', {
-        headers: {
-          'Authorization': `Bearer ${session.accessToken}`
-        }
-      });
-
-      if (recentlyPlayedResponse.ok) {
-        const recentlyPlayedData = await recentlyPlayedResponse.json();
-        recentlyPlayedTracks = recentlyPlayedData.items || [];
-        console.log(`🎵 User Listens API: Found ${recentlyPlayedTracks.length} recently played tracks`);
-      }
+      recentlyPlayedTracks = await spotifyService.getRecentlyPlayed(20);
+      log.debug('Fetched recently played tracks', { count: recentlyPlayedTracks.length });
     } catch (error) {
-      console.warn('🎵 User Listens API: Failed to fetch recently played tracks, continuing with basic data');
+      // A token without the scope gets an answer the UI can act on, not empty data
+      if (error instanceof SpotifyScopeError) throw error;
+      log.warn('Failed to fetch recently played tracks, continuing with basic data', { error });
     }
 
+    // Guardar las reproducciones y, con suficiente historial, contar las de cada playlist
+    const historyId = playHistoryId(session, access);
+    if (historyId) await recordPlays(historyId, recentlyPlayedTracks);
+    const history = await playCountHistory(historyId);
+    const playlistPlays = history && countPlays(history, playlistIdOf);
+
     // Try to get user's top tracks (limit to 20 for performance)
-    let topTracks: any[] = [];
+    let topTracks: SpotifyApi.TrackObjectFull[] = [];
     try {
-      const topTracksResponse = await fetchWithRetry('https://api.spotify.com/v1/me/top/tracks?limit=20&time_range=medium_term', {
-        headers: {
-          'Authorization': `Bearer ${session.accessToken}`
-        }
-      });
-
-      if (topTracksResponse.ok) {
-        const topTracksData = await topTracksResponse.json();
-        topTracks = topTracksData.items || [];
-        console.log(`🎵 User Listens API: Found ${topTracks.length} top tracks`);
-      }
+      topTracks = await spotifyService.getTopTracks('medium_term', 20);
+      log.debug('Fetched top tracks', { count: topTracks.length });
     } catch (error) {
-      console.warn('🎵 User Listens API: Failed to fetch top tracks, continuing with basic data');
+      if (error instanceof SpotifyScopeError) throw error;
+      log.warn('Failed to fetch top tracks, continuing with basic data', { error });
     }
 
     // Process only first 10 playlists to avoid rate limits
@@ -103,44 +69,32 @@ export async function GET(request: NextRequest) {
 
     for (const playlist of playlistsToProcess) {
       try {
-        console.log(`🎵 User Listens API: Processing playlist: ${playlist.name}`);
-        
+        log.debug('Processing playlist', { playlistId: playlist.id });
+
         // Get tracks from this playlist (limit to 50 tracks)
-        let playlistTracks: any[] = [];
+        let playlistTracks: SpotifyTrack[] = [];
         
         // Fetch playlist tracks
         try {
-          const tracksResponse = await fetchWithRetry(`https://api.spotify.com/v1/playlists/${playlist.id}/tracks?limit=10`, {
-            headers: {
-              'Authorization': `Bearer ${session.accessToken}`
-            }
-          });
-
-          if (!tracksResponse.ok) {
-            if (tracksResponse.status === 403) {
-              console.warn(`🎵 User Listens API: 403 Forbidden for playlist "${playlist.name}" - skipping`);
-              // Skip this playlist if we don't have permission
-              continue;
-            }
-            console.warn(`🎵 User Listens API: Failed to fetch tracks for playlist "${playlist.name}" - status: ${tracksResponse.status}`);
-            // Continue with basic data
-          } else {
-            const tracksData = await tracksResponse.json();
-            playlistTracks = tracksData.items.map((item: any) => item.track).filter((track: any) => track);
+          playlistTracks = await spotifyService.getPlaylistTracks(playlist.id, 10);
+        } catch (error: any) {
+          if (error.statusCode === 403) {
+            log.warn('Access to playlist forbidden, skipping it', { playlistId: playlist.id });
+            // Skip this playlist if we don't have permission
+            continue;
           }
-        } catch (error) {
-          console.warn(`🎵 User Listens API: Error fetching tracks for playlist "${playlist.name}":`, error);
+          log.warn('Error fetching tracks for playlist', { playlistId: playlist.id, error });
           // Continue with basic data
         }
 
         // Count how many tracks from this playlist the user has recently played
-        const recentlyPlayedFromPlaylist = recentlyPlayedTracks.filter((recentTrack: any) =>
-          playlistTracks.some((playlistTrack: any) => playlistTrack.id === recentTrack.track.id)
+        const recentlyPlayedFromPlaylist = recentlyPlayedTracks.filter(recentTrack =>
+          playlistTracks.some(playlistTrack => playlistTrack.id === recentTrack.track.id)
         ).length;
 
         // Count how many tracks from this playlist are in user's top tracks
-        const topTracksFromPlaylist = topTracks.filter((topTrack: any) =>
-          playlistTracks.some((playlistTrack: any) => playlistTrack.id === topTrack.id)
+        const topTracksFromPlaylist = topTracks.filter(topTrack =>
+          playlistTracks.some(playlistTrack => playlistTrack.id === topTrack.id)
         ).length;
 
         // Simplified calculation: focus on actual user activity
@@ -162,6 +116,11 @@ export async function GET(request: NextRequest) {
           actualListens = Math.max(1, Math.floor(playlistTracks.length / 10)); // At least 1 listen per 10 tracks
         }
 
+        // With enough stored history, the plays actually made from this playlist instead
+        if (playlistPlays) {
+          actualListens = playlistPlays.get(playlist.id) ?? 0;
+        }
+
         const playlistWithListens = {
           id: playlist.id,
           name: playlist.name,
@@ -173,9 +132,7 @@ export async function GET(request: NextRequest) {
           topTracksFromPlaylist,
           owner: playlist.owner,
           public: playlist.public,
-          collaborative: playlist.collaborative,
-          followers: playlist.followers?.total || 0,
-          createdAt: playlist.created_at
+          collaborative: playlist.collaborative
         };
 
         playlistsWithListens.push(playlistWithListens);
@@ -184,7 +141,7 @@ export async function GET(request: NextRequest) {
         await new Promise(resolve => setTimeout(resolve, 200));
         
       } catch (error) {
-        console.warn(`🎵 User Listens API: Failed to process playlist ${playlist.id}:`, error);
+        log.warn('Failed to process playlist', { playlistId: playlist.id, error });
         // Add playlist with basic data if processing fails
         playlistsWithListens.push({
           id: playlist.id,
@@ -202,18 +159,16 @@ export async function GET(request: NextRequest) {
     // Sort by actual listens (descending)
     playlistsWithListens.sort((a, b) => b.actualListens - a.actualListens);
 
-    console.log(`🎵 User Listens API: Returning ${playlistsWithListens.length} playlists with listen counts`);
+    log.info('Returning playlists with listen counts', { count: playlistsWithListens.length });
 
     return NextResponse.json({
       playlists: playlistsWithListens,
-      totalPlaylists: playlistsWithListens.length
+      totalPlaylists: playlistsWithListens.length,
+      source: playlistPlays ? 'history' : 'estimate'
     });
 
   } catch (error) {
-    console.error('🎵 User Listens API error:', error);
-    return NextResponse.json({ 
-      error: 'Failed to fetch playlist listens data',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 });
+    log.error('User Listens API error', { error });
+    return errorResponse(error, 'Failed to fetch playlist listens data');
   }
 }
@@ -1,33 +1,45 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../../auth/authOptions';
+import { getRequestSession } from '../../../auth/requestSession';
 import { SpotifyService } from '@/lib/spotify';
+import { errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
+import { Play, countPlays, playCountHistory, playHistoryId } from '@/lib/playHistory';
 
 export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/analytics/tracks/most-played');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'GET /api/analytics/tracks/most-played');
     
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return unauthenticatedResponse();
     }
 
     // Create SpotifyService instance with the user's access token
-    const spotifyService = new SpotifyService(session.accessToken);
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
 
-    console.log('📊 Most Played Tracks: Starting analysis...');
+    log.info('Starting most played tracks analysis');
+
+    // Con suficiente historial guardado, contar reproducciones reales
+    const history = await playCountHistory(playHistoryId(session, access));
+    if (history) {
+      const tracks = mostPlayedFromHistory(history);
+      log.info('Returning most played tracks from play history', { count: tracks.length, plays: history.length });
+      return NextResponse.json({
+        tracks,
+        source: 'history',
+        note: `Play counts are your actual plays since ${history[history.length - 1].playedAt}`
+      });
+    }
 
     // Get user playlists using the new service method (increased limit for better data)
     let playlists: any[] = [];
     try {
       playlists = await spotifyService.getAllUserPlaylists(50);
-      console.log(`📊 Most Played Tracks: Fetched ${playlists.length} playlists`);
-    } catch (error: any) {
-      console.error('📊 Most Played Tracks: Error fetching playlists:', error);
-      console.error('📊 Most Played Tracks: Error details:', {
-        message: error.message,
-        statusCode: error.statusCode,
-        stack: error.stack
-      });
+      log.debug('Fetched playlists', { count: playlists.length });
+    } catch (error) {
+      log.error('Error fetching playlists, returning fallback data', { error });
       
       // Return fallback data instead of failing completely
       return NextResponse.json({
@@ -54,7 +66,6 @@ export async function GET(request: NextRequest) {
     }
     
     // Log successful playlist fetch
-    console.log(`📊 Most Played Tracks: Successfully fetched ${playlists.length} playlists`);
 
     // Get all tracks from all playlists with better rate limiting
     const allTracks: { [key: string]: any } = {};
@@ -62,7 +73,7 @@ export async function GET(request: NextRequest) {
     
     for (const playlist of playlists) {
       try {
-        console.log(`📊 Processing playlist ${processedPlaylists + 1}/${playlists.length}: ${playlist.name}`);
+        log.debug('Processing playlist', { playlistId: playlist.id, index: processedPlaylists + 1, total: playlists.length });
         
         // Use the service method that handles rate limiting (much more conservative limit)
         const tracks = await spotifyService.getAllPlaylistTracks(playlist.id, 50);
@@ -102,12 +113,12 @@ export async function GET(request: NextRequest) {
         await new Promise(resolve => setTimeout(resolve, 100));
         
       } catch (error) {
-        console.warn(`Failed to get tracks for playlist ${playlist.id}:`, error);
+        log.warn('Failed to get tracks for playlist', { playlistId: playlist.id, error });
         processedPlaylists++;
       }
     }
 
-    console.log(`📊 Most Played Tracks: Processed ${processedPlaylists} playlists, found ${Object.keys(allTracks).length} unique tracks`);
+    log.debug('Processed playlists', { processedPlaylists, uniqueTracks: Object.keys(allTracks).length });
 
     // Convert to array and sort by play count (frequency across playlists)
     const tracksArray = Object.values(allTracks)
@@ -128,15 +139,49 @@ export async function GET(request: NextRequest) {
         ))
       }));
 
-    console.log(`📊 Most Played Tracks: Returning top ${tracksArray.length} tracks`);
+    log.info('Returning most played tracks', { count: tracksArray.length });
 
     return NextResponse.json({
       tracks: tracksArray,
+      source: 'playlists',
       note: "Play counts represent how many playlists each track appears in, not actual Spotify listening data"
     });
 
   } catch (error) {
-    console.error('Most Played Tracks API error:', error);
-    return NextResponse.json({ error: 'Failed to fetch most played tracks' }, { status: 500 });
+    log.error('Most played tracks analysis failed', { error });
+    return errorResponse(error, 'Failed to fetch most played tracks');
   }
 }
+
+// Top 25 tracks by plays in the stored history (newest first), most recently played first on ties
+function mostPlayedFromHistory(plays: Play[]) {
+  const counts = countPlays(plays, play => play.trackId);
+  const latest = new Map<string, Play>();
+  for (const play of plays) {
+    if (!latest.has(play.trackId)) latest.set(play.trackId, play);
+  }
+
+  return Array.from(latest.values())
+    .sort((a, b) => (counts.get(b.trackId) ?? 0) - (counts.get(a.trackId) ?? 0))
+    .slice(0, 25)
+    .map((play, index) => {
+      const playCount = counts.get(play.trackId) ?? 0;
+      return {
+        id: play.trackId,
+        name: play.name,
+        artists: play.artists,
+        album: {
+          id: play.album.id,
+          name: play.album.name,
+          images: play.album.imageUrl ? [{ url: play.album.imageUrl }] : []
+        },
+        duration_ms: play.durationMs,
+        playCount,
+        playlists: [],
+        external_urls: { spotify: `https://open.spotify.com/track/${play.trackId}` },
+        rank: index + 1,
+        estimatedPlays: playCount,
+        lastPlayedAt: play.playedAt
+      };
+    });
+}
@@ -1,63 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/authOptions';
+import { getRequestSession } from '@/app/api/auth/requestSession';
+import { SpotifyService, TimeRange } from '@/lib/spotify';
+import { errorResponse, requireScopes, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
 
 export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/analytics/tracks/user-top');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'GET /api/analytics/tracks/user-top');
     
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return unauthenticatedResponse();
     }
 
     const { searchParams } = new URL(request.url);
-    const timeRange = searchParams.get('time_range') || 'medium_term'; // short_term, medium_term, long_term
+    const timeRange = (searchParams.get('time_range') || 'medium_term') as TimeRange; // short_term, medium_term, long_term
 
-    console.log(`📊 User Top Tracks: Fetching for time range: ${timeRange}`);
+    log.info('Fetching top tracks', { timeRange });
 
     // Get user's top tracks from Spotify (real data, not estimates)
-    const topTracksResponse = await fetch(
-      `https://api.spotify.com/v1/me/top/tracks?time_range=${timeRange}&limit=50`,
-      {
-        headers: {
-          'Authorization': `Bearer ${session.accessToken}`
-        }
-      }
-    );
-
-    if (!topTracksResponse.ok) {
-      if (topTracksResponse.status === 429) {
-        console.warn('Rate limit hit while fetching top tracks, waiting and retrying...');
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        
-        // Retry once
-        const retryResponse = await fetch(
-          `https://api.spotify.com/v1/me/top/tracks?time_range=${timeRange}&limit=50`,
-          {
-            headers: {
-              'Authorization': `Bearer ${session.accessToken}`
-            }
-          }
-        );
-        
-        if (!retryResponse.ok) {
-          throw new Error(`Failed to fetch top tracks: ${retryResponse.status}`);
-        }
-        
-        const retryData = await retryResponse.json();
-        return NextResponse.json({ tracks: retryData.items || [] });
-      }
-      
-      throw new Error(`Failed to fetch top tracks: ${topTracksResponse.status}`);
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const scopeError = requireScopes(access, 'GET /api/analytics/tracks/user-top');
+    if (scopeError) {
+      return scopeError;
     }
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
+    const tracks = await spotifyService.getTopTracks(timeRange, 50);
 
-    const topTracksData = await topTracksResponse.json();
-    const tracks = topTracksData.items || [];
-
-    console.log(`📊 User Top Tracks: Successfully fetched ${tracks.length} tracks`);
+    log.debug('Fetched top tracks', { count: tracks.length });
 
     // Enrich tracks with additional data
-    const enrichedTracks = tracks.map((track: any, index: number) => ({
+    const enrichedTracks = tracks.map((track, index) => ({
       id: track.id,
       name: track.name,
       artists: track.artists,
@@ -88,10 +62,7 @@ export async function GET(request: NextRequest) {
     });
 
   } catch (error) {
-    console.error('User Top Tracks API error:', error);
-    return NextResponse.json({ 
-      error: 'Failed to fetch user top tracks',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 });
+    log.error('User Top Tracks API error', { error });
+    return errorResponse(error, 'Failed to fetch user top tracks');
   }
 }
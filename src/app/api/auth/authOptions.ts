@@ -1,101 +1,200 @@
-import SpotifyProvider from 'next-auth/providers/spotify';
-
-async function refreshAccessToken(token: any) {
-  try {
-    const url = 'https://accounts.spotify.com/api/token';
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        Authorization: `Basic ${Buffer.from(
-          process.env.SPOTIFY_CLIENT_ID + ':' + process.env.SPOTIFY_CLIENT_SECRET
-        ).toString('base64')}`,
-      },
-      body: new URLSearchParams({
-        grant_type: 'refresh_token',
-        refresh_token: token.refreshToken,
-      }),
-    });
-    const refreshedTokens = await response.json();
-    if (!response.ok) throw refreshedTokens;
-    return {
-      ...token,
-      accessToken: refreshedTokens.access_token,
-      expiresAt: Math.floor(Date.now() / 1000) + refreshedTokens.expires_in,
-      refreshToken: refreshedTokens.refresh_token ?? token.refreshToken,
-    };
-  } catch (error) {
-    console.error('Error refreshing access token', error);
-    return {
-      ...token,
-      error: 'RefreshAccessTokenError',
-    };
-  }
-}
-
-export const authOptions = {
-  debug: false, // Disable debug mode to reduce logging
-  providers: [
-    SpotifyProvider({
-      clientId: process.env.SPOTIFY_CLIENT_ID!,
-      clientSecret: process.env.SPOTIFY_CLIENT_SECRET!,
-      authorization: {
-        params: {
-          scope: 'user-read-private user-read-email user-read-playback-state user-modify-playback-state playlist-read-private playlist-read-collaborative playlist-modify-public playlist-modify-private user-library-read user-top-read'
-        }
-      }
-    })
-  ],
-  callbacks: {
-    async jwt({ token, account }: any) {
-      console.log('🔄 JWT callback triggered:', {
-        hasAccount: !!account,
-        hasToken: !!token,
-        tokenExpiresAt: token.expiresAt,
-        currentTime: Math.floor(Date.now() / 1000)
-      });
-
-      // Initial sign in
-      if (account) {
-        console.log('✅ Initial sign in - setting up token');
-        return {
-          ...token,
-          accessToken: account.access_token,
-          refreshToken: account.refresh_token,
-          expiresAt: account.expires_at, // in seconds since epoch
-        };
-      }
-      
-      // If token is still valid, return it
-      if (token.expiresAt && Date.now() / 1000 < token.expiresAt) {
-        console.log('✅ Token still valid');
-        return token;
-      }
-      
-      // Token expired, refresh it
-      console.log('🔄 Token expired, refreshing...');
-      return await refreshAccessToken(token);
-    },
-    async session({ session, token }: any) {
-      console.log('🔄 Session callback triggered:', {
-        hasToken: !!token,
-        hasAccessToken: !!token.accessToken,
-        tokenError: token.error
-      });
-
-      session.accessToken = token.accessToken;
-      session.error = token.error;
-      
-      // Remove the problematic Spotify API call that was causing 403 errors
-      // The access token will be validated when making actual API calls
-      
-      console.log('📤 Returning session:', {
-        hasUser: !!session.user,
-        hasAccessToken: !!session.accessToken,
-        error: session.error
-      });
-      
-      return session;
-    }
-  }
+import SpotifyProvider from 'next-auth/providers/spotify';
+import CredentialsProvider from 'next-auth/providers/credentials';
+import { logger } from '@/lib/logger';
+import { SpotifyService } from '@/lib/spotify';
+import { SIGN_IN_SCOPES, parseScopes } from '@/lib/spotifyScopes';
+import { isTokenExpiring, refreshSpotifyToken } from '@/lib/spotifyTokens';
+import { updateSignInTokens } from '@/lib/linkedAccounts';
+import { DEMO_SESSION_SECONDS, createDemoAccessToken, isDemoEnabled } from '@/lib/demoMode';
+import { enrollHistoryCollection, isHistoryCollectorEnabled } from '@/lib/historyCollector';
+import type { JWT } from 'next-auth/jwt';
+
+const log = logger.child({ component: 'auth' });
+
+// How often the account details kept in the token (plan, country, ...) are re-read
+const ACCOUNT_REFRESH_SECONDS = 60 * 60;
+
+// Stores the user's /me details in the token. A failure keeps what the token had
+// and waits for the next refresh period rather than calling /me on every request.
+async function withSpotifyUser(token: JWT): Promise<JWT> {
+  const fetchedAt = Math.floor(Date.now() / 1000);
+  try {
+    const spotifyUser = await new SpotifyService(token.accessToken, { logger: log }).getAccount();
+    return { ...token, spotifyUser, spotifyUserFetchedAt: fetchedAt };
+  } catch (error) {
+    log.warn('Could not load Spotify account details', { error });
+    return { ...token, spotifyUserFetchedAt: fetchedAt };
+  }
+}
+
+// Users with personal API tokens or a collected play history have their Spotify
+// tokens stored server-side too (see linkedAccounts.ts); keep that copy in step
+// with the session's
+async function syncStoredTokens(token: JWT): Promise<void> {
+  if (!token.spotifyUser || !token.accessToken || !token.refreshToken || !token.expiresAt) return;
+  try {
+    await updateSignInTokens(token.spotifyUser.id, {
+      accessToken: token.accessToken,
+      refreshToken: token.refreshToken,
+      expiresAt: token.expiresAt,
+      scopes: token.scopes,
+    });
+  } catch (error) {
+    log.warn('Could not update stored Spotify tokens', { error });
+  }
+}
+
+// Lets the history collector poll the account's recently-played while the user is away
+async function enrollInHistoryCollection(token: JWT): Promise<void> {
+  if (!isHistoryCollectorEnabled()) return;
+  if (!token.spotifyUser || !token.accessToken || !token.refreshToken || !token.expiresAt) return;
+  try {
+    await enrollHistoryCollection(token.spotifyUser, {
+      accessToken: token.accessToken,
+      refreshToken: token.refreshToken,
+      expiresAt: token.expiresAt,
+      scopes: token.scopes,
+    });
+  } catch (error) {
+    log.warn('Could not enroll account in history collection', { error });
+  }
+}
+
+// Demo sessions get a fresh demo (and fixture library) instead of a refresh. With
+// every demo slot taken (`accessToken` null) the session has to sign in again.
+async function withDemoTokens(token: JWT, accessToken: string | null): Promise<JWT> {
+  if (!accessToken) {
+    log.warn('No demo slot free');
+    return { ...token, demo: true, accessToken: undefined, error: 'RefreshAccessTokenError' };
+  }
+  return await withSpotifyUser({
+    ...token,
+    demo: true,
+    accessToken,
+    refreshToken: undefined,
+    expiresAt: Math.floor(Date.now() / 1000) + DEMO_SESSION_SECONDS,
+    // Unknown scopes never trigger SCOPE_REQUIRED, and the fake server checks none
+    scopes: undefined,
+    error: undefined,
+  });
+}
+
+async function refreshAccessToken(token: JWT): Promise<JWT> {
+  try {
+    const refreshed = await refreshSpotifyToken(token.refreshToken ?? '');
+    const current: JWT = {
+      ...token,
+      accessToken: refreshed.accessToken,
+      expiresAt: refreshed.expiresAt,
+      refreshToken: refreshed.refreshToken,
+      scopes: refreshed.scopes ?? token.scopes,
+      error: undefined,
+    };
+    await syncStoredTokens(current);
+    return current;
+  } catch (error) {
+    log.error('Error refreshing access token', { error });
+    return {
+      ...token,
+      error: 'RefreshAccessTokenError',
+    };
+  }
+}
+
+export const authOptions = {
+  debug: false, // Disable debug mode to reduce logging
+  providers: [
+    SpotifyProvider({
+      clientId: process.env.SPOTIFY_CLIENT_ID!,
+      clientSecret: process.env.SPOTIFY_CLIENT_SECRET!,
+      authorization: {
+        params: {
+          // Features marked optional in spotifyScopes.ts ask for their scopes when first used
+          scope: SIGN_IN_SCOPES.join(' ')
+        }
+      }
+    }),
+    // "Try demo": a session backed by the bundled fixture library (see demoMode.ts)
+    CredentialsProvider({
+      id: 'demo',
+      name: 'Demo',
+      credentials: {},
+      async authorize() {
+        if (!isDemoEnabled()) return null;
+        // Refused while every demo slot is taken
+        const accessToken = createDemoAccessToken();
+        return accessToken ? { id: 'demo-user', name: 'Demo Listener', accessToken } : null;
+      }
+    })
+  ],
+  callbacks: {
+    async jwt({ token, account, user }: any) {
+      if (account?.provider === 'demo') {
+        log.info('Demo sign in');
+        return await withDemoTokens(token, user.accessToken);
+      }
+      if (token.demo) {
+        return isTokenExpiring(token.expiresAt) ? await withDemoTokens(token, createDemoAccessToken()) : token;
+      }
+
+      // Initial sign in
+      if (account) {
+        log.info('Initial sign in, storing Spotify tokens', { expiresAt: account.expires_at });
+        const signedIn = await withSpotifyUser({
+          ...token,
+          accessToken: account.access_token,
+          refreshToken: account.refresh_token,
+          expiresAt: account.expires_at, // in seconds since epoch
+          scopes: parseScopes(account.scope),
+          error: undefined,
+        });
+        await syncStoredTokens(signedIn);
+        await enrollInHistoryCollection(signedIn);
+        return signedIn;
+      }
+      
+      // A failed refresh is final; the client asks the user to sign in again
+      if (token.error) {
+        return token;
+      }
+
+      let current: JWT = token;
+      // Token expired or about to, refresh it
+      if (isTokenExpiring(token.expiresAt)) {
+        log.info('Access token expiring, refreshing', { expiresAt: token.expiresAt });
+        current = await refreshAccessToken(token);
+        if (current.error) return current;
+      }
+
+      // Sessions from before the account was stored get it here too
+      const fetchedAt = current.spotifyUserFetchedAt ?? 0;
+      if (Date.now() / 1000 - fetchedAt >= ACCOUNT_REFRESH_SECONDS) {
+        current = await withSpotifyUser(current);
+      }
+      return current;
+    },
+    async session({ session, token }: any) {
+      // Without a usable token, API routes answer 401 right away instead of
+      // sending a dead token to Spotify
+      session.accessToken = token.error ? undefined : token.accessToken;
+      session.error = token.error;
+      session.scopes = token.scopes;
+      session.demo = token.demo === true;
+      if (token.spotifyUser) {
+        session.user = {
+          ...session.user,
+          id: token.spotifyUser.id,
+          name: token.spotifyUser.displayName,
+          product: token.spotifyUser.product,
+          country: token.spotifyUser.country,
+          explicitContent: token.spotifyUser.explicitContent,
+        };
+      }
+      
+      // Remove the problematic Spotify API call that was causing 403 errors
+      // The access token will be validated when making actual API calls
+      
+      return session;
+    }
+  }
 }; 
\ No newline at end of file
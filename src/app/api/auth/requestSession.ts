@@ -0,0 +1,37 @@
+import type { NextRequest } from 'next/server';
+import { getServerSession, type Session } from 'next-auth';
+import { authOptions } from './authOptions';
+import { InvalidApiTokenError, assertApiTokenScope, verifyApiToken } from '@/lib/apiTokens';
+import { signInAccountAccess } from '@/lib/linkedAccounts';
+
+// Session for an API route: the browser session, or, when the request carries
+// `Authorization: Bearer <token>`, one built from a personal API token and the
+// Spotify tokens stored for its owner. A token must have the scope `route` needs
+// (see routeTokenScopes); anything wrong with it is thrown for errorResponse.
+export async function getRequestSession(request: NextRequest, route: string): Promise<Session | null> {
+  const authorization = request.headers.get('authorization');
+  if (!authorization) {
+    return getServerSession(authOptions);
+  }
+
+  const bearer = /^Bearer\s+(\S+)$/i.exec(authorization);
+  if (!bearer) throw new InvalidApiTokenError();
+
+  const { ownerId, apiToken } = await verifyApiToken(bearer[1]);
+  assertApiTokenScope(apiToken, route);
+  const { account, access } = await signInAccountAccess(ownerId);
+
+  return {
+    // Only lives for this request
+    expires: new Date().toISOString(),
+    accessToken: access.accessToken,
+    scopes: access.scopes,
+    user: {
+      id: account.id,
+      name: account.displayName,
+      product: account.product,
+      country: account.country,
+      explicitContent: account.explicitContent
+    }
+  };
+}
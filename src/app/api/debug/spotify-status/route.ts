@@ -1,48 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '../../auth/authOptions';
+import { spotifyFetch } from '@/lib/spotifyTransport';
+import { apiErrorResponse, errorResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
 
 export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/debug/spotify-status');
   try {
     const session = await getServerSession(authOptions);
     
     if (!session?.accessToken) {
-      return NextResponse.json({ 
-        error: 'No session or access token',
-        hasSession: !!session,
-        hasAccessToken: !!session?.accessToken
-      }, { status: 401 });
+      return apiErrorResponse('UNAUTHENTICATED', {
+        details: session ? 'Session has no access token' : 'No session'
+      });
     }
 
-    console.log('🔍 Spotify Debug: Starting diagnostic...');
+    log.info('Starting Spotify diagnostic');
     
     // Test 1: Basic user info
     let userInfo = null;
     try {
-      const userResponse = await fetch('https://api.spotify.com/v1/me', {
-        headers: {
-          'Authorization': `Bearer ${session.accessToken}`
-        }
-      });
+      const userResponse = await spotifyFetch(session.accessToken, '/me');
       
       if (userResponse.ok) {
         userInfo = await userResponse.json();
-        console.log('✅ Spotify Debug: User info successful');
+        log.info('User info test passed');
       } else {
-        console.log('❌ Spotify Debug: User info failed:', userResponse.status, userResponse.statusText);
+        log.warn('User info test failed', { status: userResponse.status, statusText: userResponse.statusText });
       }
     } catch (error) {
-      console.log('❌ Spotify Debug: User info error:', error);
+      log.warn('User info test error', { error });
     }
 
     // Test 2: Simple playlist fetch
     let playlistTest = null;
     try {
-      const playlistResponse = await fetch('https://api.spotify.com/v1/me/playlists?limit=5', {
-        headers: {
-          'Authorization': `Bearer ${session.accessToken}`
-        }
-      });
+      const playlistResponse = await spotifyFetch(session.accessToken, '/me/playlists?limit=5');
       
       if (playlistResponse.ok) {
         const playlistData = await playlistResponse.json();
@@ -51,24 +45,19 @@ export async function GET(request: NextRequest) {
           items: playlistData.items.length,
           firstPlaylist: playlistData.items[0]?.name || 'None'
         };
-        console.log('✅ Spotify Debug: Playlist test successful');
+        log.info('Playlist test passed');
       } else {
-        console.log('❌ Spotify Debug: Playlist test failed:', playlistResponse.status, playlistResponse.statusText);
         const errorText = await playlistResponse.text();
-        console.log('❌ Spotify Debug: Playlist error details:', errorText);
+        log.warn('Playlist test failed', { status: playlistResponse.status, statusText: playlistResponse.statusText, details: errorText });
       }
     } catch (error) {
-      console.log('❌ Spotify Debug: Playlist test error:', error);
+      log.warn('Playlist test error', { error });
     }
 
     // Test 3: Top tracks
     let topTracksTest = null;
     try {
-      const topTracksResponse = await fetch('https://api.spotify.com/v1/me/top/tracks?limit=5', {
-        headers: {
-          'Authorization': `Bearer ${session.accessToken}`
-        }
-      });
+      const topTracksResponse = await spotifyFetch(session.accessToken, '/me/top/tracks?limit=5');
       
       if (topTracksResponse.ok) {
         const topTracksData = await topTracksResponse.json();
@@ -77,14 +66,13 @@ export async function GET(request: NextRequest) {
           items: topTracksData.items.length,
           firstTrack: topTracksData.items[0]?.name || 'None'
         };
-        console.log('✅ Spotify Debug: Top tracks test successful');
+        log.info('Top tracks test passed');
       } else {
-        console.log('❌ Spotify Debug: Top tracks test failed:', topTracksResponse.status, topTracksResponse.statusText);
         const errorText = await topTracksResponse.text();
-        console.log('❌ Spotify Debug: Top tracks error details:', errorText);
+        log.warn('Top tracks test failed', { status: topTracksResponse.status, statusText: topTracksResponse.statusText, details: errorText });
       }
     } catch (error) {
-      console.log('❌ Spotify Debug: Top tracks test error:', error);
+      log.warn('Top tracks test error', { error });
     }
 
     // Test 4: Check token validity
@@ -96,7 +84,7 @@ export async function GET(request: NextRequest) {
       currentTime: Date.now()
     };
 
-    console.log('🔍 Spotify Debug: Diagnostic complete');
+    log.info('Spotify diagnostic complete');
 
     return NextResponse.json({
       success: true,
@@ -121,10 +109,7 @@ export async function GET(request: NextRequest) {
     });
 
   } catch (error) {
-    console.error('❌ Spotify Debug: Unexpected error:', error);
-    return NextResponse.json({ 
-      error: 'Debug failed',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 });
+    log.error('Spotify diagnostic failed unexpectedly', { error });
+    return errorResponse(error, 'Debug failed');
   }
 }
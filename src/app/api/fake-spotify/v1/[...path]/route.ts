@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFakeSpotifyServer } from '@/lib/fakeSpotify';
+
+// Exposes the fixture-backed fake Spotify Web API over HTTP, e.g. for
+// SPOTIFY_API_BASE_URL=http://localhost:3000/api/fake-spotify/v1 or curl.
+// Only available when SPOTIFY_FAKE_API=true.
+async function handle(request: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+  if (process.env.SPOTIFY_FAKE_API !== 'true') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const { path } = await params;
+  const { search } = new URL(request.url);
+  const body = request.method === 'GET' ? undefined : await request.text();
+
+  return getFakeSpotifyServer().transport(`/${path.map(encodeURIComponent).join('/')}${search}`, {
+    method: request.method,
+    headers: request.headers,
+    body
+  });
+}
+
+export { handle as GET, handle as POST, handle as PUT, handle as DELETE };
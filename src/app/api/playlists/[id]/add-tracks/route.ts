@@ -1,37 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
 import { SpotifyService } from '@/lib/spotify';
-import { authOptions } from '../../../auth/authOptions';
+import { getRequestSession } from '../../../auth/requestSession';
+import { apiErrorResponse, errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
 
 export async function POST(request: NextRequest, context: any) {
+  const log = createRequestLogger(request, 'POST /api/playlists/[id]/add-tracks');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'POST /api/playlists/[id]/add-tracks');
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+      return unauthenticatedResponse();
     }
     
     const playlistId = context.params.id;
-    const { trackUris } = await request.json();
+    const { trackUris, expectedSnapshotId, force } = await request.json();
     
     if (!trackUris || !Array.isArray(trackUris) || trackUris.length === 0) {
-      return NextResponse.json({ error: 'trackUris array is required' }, { status: 400 });
+      return apiErrorResponse('BAD_REQUEST', { error: 'trackUris array is required' });
     }
     
-    const spotifyService = new SpotifyService(session.accessToken);
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
+    if (typeof expectedSnapshotId === 'string' && !force) {
+      await spotifyService.assertSnapshot(playlistId, expectedSnapshotId);
+    }
     
     // Add tracks to the playlist
-    await spotifyService.addTracksToPlaylist(playlistId, trackUris);
+    const snapshotId = await spotifyService.addTracksToPlaylist(playlistId, trackUris);
     
     return NextResponse.json({ 
       success: true, 
       message: `Added ${trackUris.length} track(s) to playlist`,
-      addedTracks: trackUris.length
+      addedTracks: trackUris.length,
+      snapshot_id: snapshotId
     });
   } catch (error: any) {
-    console.error('Error adding tracks to playlist:', error);
-    return NextResponse.json({ 
-      error: 'Failed to add tracks to playlist',
-      details: error.message 
-    }, { status: 500 });
+    log.error('Error adding tracks to playlist', { error });
+    return errorResponse(error, 'Failed to add tracks to playlist');
   }
 } 
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '../../../auth/requestSession';
+import { SpotifyPlaylistItem, SpotifyService } from '@/lib/spotify';
+import { apiErrorResponse, errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
+
+// Copies a playlist into another of the user's Spotify accounts. The playlist is
+// read with `?accountId=` (the signed-in account by default) and created as a new
+// private playlist in `toAccountId`. Local files can't be added through the API
+// and are skipped. When part of the playlist can't be read, nothing is created
+// and it answers 502, rather than making an incomplete copy.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const log = createRequestLogger(request, 'POST /api/playlists/[id]/copy');
+  try {
+    const session = await getRequestSession(request, 'POST /api/playlists/[id]/copy');
+    if (!session?.accessToken) {
+      return unauthenticatedResponse();
+    }
+
+    const body = await request.json().catch(() => null);
+    const toAccountId = body?.toAccountId;
+    const name = body?.name;
+    if (typeof toAccountId !== 'string' || toAccountId === '') {
+      return apiErrorResponse('BAD_REQUEST', { error: 'toAccountId is required' });
+    }
+    const { id: playlistId } = await params;
+
+    const source = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const target = await resolveSpotifyAccess(session, toAccountId);
+    if (source.accountId === target.accountId) {
+      return apiErrorResponse('BAD_REQUEST', { error: 'The playlist already belongs to that account' });
+    }
+
+    const sourceService = new SpotifyService(source.accessToken, { logger: log, market: source.market });
+    const targetService = new SpotifyService(target.accessToken, { logger: log, market: target.market });
+
+    const original = await sourceService.getPlaylist(playlistId);
+    const items: SpotifyPlaylistItem[] = [];
+    let skippedPages = 0;
+    for await (const page of sourceService.iteratePlaylistItems(playlistId)) {
+      if (page.skipped) skippedPages++;
+      items.push(...page.items);
+    }
+    if (skippedPages > 0) {
+      log.warn('Could not read the playlist in full, not copying', { playlistId, skippedPages });
+      return apiErrorResponse('SPOTIFY_ERROR', {
+        message: 'The playlist could not be read in full, so it was not copied. Nothing was created.'
+      });
+    }
+    const uris = items.filter(item => !item.is_local).map(item => item.uri);
+
+    const copy = await targetService.createPlaylist({
+      name: typeof name === 'string' && name.trim() !== '' ? name.trim() : original.name,
+      description: original.description,
+      public: false
+    });
+    const snapshotId = uris.length > 0
+      ? await targetService.addTracksToPlaylist(copy.id, uris)
+      : copy.snapshot_id;
+    log.info('Copied playlist between accounts', {
+      playlistId,
+      copyId: copy.id,
+      fromAccountId: source.accountId,
+      toAccountId: target.accountId,
+      copied: uris.length,
+      skipped: items.length - uris.length
+    });
+
+    return NextResponse.json(
+      {
+        playlist: { ...copy, snapshot_id: snapshotId, tracks: { ...copy.tracks, total: uris.length } },
+        copied: uris.length,
+        skipped: items.length - uris.length
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    log.error('Error copying playlist', { error });
+    return errorResponse(error, 'Failed to copy playlist');
+  }
+}
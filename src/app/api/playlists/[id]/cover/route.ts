@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '../../../auth/requestSession';
+import { SpotifyService } from '@/lib/spotify';
+import { apiErrorResponse, errorResponse, requireScopes, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
+
+// Replaces the playlist cover with `image`, a base64 JPEG (a data URL is accepted too)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const log = createRequestLogger(request, 'PUT /api/playlists/[id]/cover');
+  try {
+    const session = await getRequestSession(request, 'PUT /api/playlists/[id]/cover');
+    if (!session?.accessToken) {
+      return unauthenticatedResponse();
+    }
+
+    const { image } = await request.json();
+    if (typeof image !== 'string' || image.length === 0) {
+      return apiErrorResponse('BAD_REQUEST', { error: 'image must be a base64-encoded JPEG' });
+    }
+    const { id: playlistId } = await params;
+
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const scopeError = requireScopes(access, 'PUT /api/playlists/[id]/cover');
+    if (scopeError) {
+      return scopeError;
+    }
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
+    await spotifyService.uploadCoverImage(playlistId, image);
+    log.info('Uploaded playlist cover', { playlistId });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error('Error uploading playlist cover', { error });
+    return errorResponse(error, 'Failed to upload playlist cover');
+  }
+}
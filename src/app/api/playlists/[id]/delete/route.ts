@@ -1,42 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../../auth/authOptions';
+import { getRequestSession } from '../../../auth/requestSession';
+import { SpotifyService } from '@/lib/spotify';
+import { errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
 
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const log = createRequestLogger(request, 'DELETE /api/playlists/[id]/delete');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'DELETE /api/playlists/[id]/delete');
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return unauthenticatedResponse();
     }
 
     const { id: playlistId } = await params;
 
     // First, we need to unfollow the playlist (since we can't actually delete it)
-    const response = await fetch(`https://api.spotify.com/v1/playlists/${playlistId}/followers`, {
-      method: 'DELETE',
-      headers: {
-        'Authorization': `Bearer ${session.accessToken}`,
-      },
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('Spotify API error:', errorData);
-      return NextResponse.json(
-        { error: 'Failed to unfollow playlist' },
-        { status: response.status }
-      );
-    }
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
+    await spotifyService.unfollowPlaylist(playlistId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
-    console.error('Error unfollowing playlist:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    log.error('Error unfollowing playlist', { error });
+    return errorResponse(error, 'Failed to unfollow playlist');
   }
 } 
\ No newline at end of file
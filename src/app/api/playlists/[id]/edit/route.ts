@@ -1,48 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../../auth/authOptions';
+import { getRequestSession } from '../../../auth/requestSession';
+import { SpotifyService } from '@/lib/spotify';
+import { errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
 
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const log = createRequestLogger(request, 'PUT /api/playlists/[id]/edit');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'PUT /api/playlists/[id]/edit');
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return unauthenticatedResponse();
     }
 
-    const { name, description, public: isPublic } = await request.json();
+    const { name, description, public: isPublic, expectedSnapshotId, force } = await request.json();
     const { id: playlistId } = await params;
 
-    const response = await fetch(`https://api.spotify.com/v1/playlists/${playlistId}`, {
-      method: 'PUT',
-      headers: {
-        'Authorization': `Bearer ${session.accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        name,
-        description,
-        public: isPublic
-      }),
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
+    // Refuse the edit when the playlist changed since the client loaded it, unless it insists
+    if (typeof expectedSnapshotId === 'string' && !force) {
+      await spotifyService.assertSnapshot(playlistId, expectedSnapshotId);
+    }
+    await spotifyService.updatePlaylistDetails(playlistId, {
+      name,
+      description,
+      public: isPublic
     });
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('Spotify API error:', errorData);
-      return NextResponse.json(
-        { error: 'Failed to update playlist' },
-        { status: response.status }
-      );
-    }
+    // Details edits change the snapshot too; return it so the client can base its next edit on it
+    const snapshotId = await spotifyService.getSnapshotId(playlistId);
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, snapshot_id: snapshotId });
   } catch (error) {
-    console.error('Error updating playlist:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    log.error('Error updating playlist', { error });
+    return errorResponse(error, 'Failed to update playlist');
   }
 } 
\ No newline at end of file
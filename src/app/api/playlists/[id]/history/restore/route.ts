@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SpotifyPlaylistItem, SpotifyService } from '@/lib/spotify';
+import { getRequestSession } from '../../../../auth/requestSession';
+import { apiErrorResponse, errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
+import { dataOwnerId } from '@/lib/dataStore';
+import { getPlaylistVersionItems, isRestorable, recordPlaylistSnapshot, snapshotRecorder } from '@/lib/playlistHistory';
+
+const MAX_PLAYLIST_ITEMS = 10000;
+
+// Everything the playlist holds now; null when a page couldn't be read or it has
+// more than MAX_PLAYLIST_ITEMS items
+async function readCurrentItems(spotifyService: SpotifyService, playlistId: string): Promise<SpotifyPlaylistItem[] | null> {
+  const items: SpotifyPlaylistItem[] = [];
+  let total = 0;
+  for await (const page of spotifyService.iteratePlaylistItems(playlistId, { maxItems: MAX_PLAYLIST_ITEMS })) {
+    if (page.skipped) return null;
+    items.push(...page.items);
+    total = page.total;
+  }
+  return items.length < total ? null : items;
+}
+
+// Puts the playlist back the way it was at `snapshotId`, replacing all its items in
+// batches. The current version is saved first, so a restore can be undone too.
+// With `expectedSnapshotId` it answers 409 if the playlist changed since the client
+// loaded it, unless `force` is set. Local files can't be added again and are left out.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const log = createRequestLogger(request, 'POST /api/playlists/[id]/history/restore');
+  try {
+    const session = await getRequestSession(request, 'POST /api/playlists/[id]/history/restore');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    const { id: playlistId } = await params;
+    const body = await request.json().catch(() => null);
+    const { snapshotId, expectedSnapshotId, force } = body ?? {};
+    if (typeof snapshotId !== 'string' || snapshotId === '') {
+      return apiErrorResponse('BAD_REQUEST', { error: 'snapshotId is required' });
+    }
+    const version = await getPlaylistVersionItems(ownerId, playlistId, snapshotId);
+    const items = version.filter(isRestorable);
+
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const spotifyService = new SpotifyService(access.accessToken, {
+      logger: log,
+      market: access.market,
+      onPlaylistItems: snapshotRecorder(ownerId)
+    });
+    if (typeof expectedSnapshotId === 'string' && !force) {
+      await spotifyService.assertSnapshot(playlistId, expectedSnapshotId);
+    }
+    // Save what is there now before overwriting it. If it can't be read in full,
+    // nothing is restored: the current version would be lost with no way back.
+    const { snapshot_id: currentSnapshotId } = await spotifyService.getPlaylist(playlistId);
+    const currentItems = await readCurrentItems(spotifyService, playlistId);
+    if (!currentItems) {
+      log.warn('Could not read the current playlist in full, not restoring', { playlistId, snapshotId });
+      return apiErrorResponse('SPOTIFY_ERROR', {
+        message: 'The playlist could not be read in full, so its current version could not be saved. Nothing was changed.'
+      });
+    }
+    await recordPlaylistSnapshot(ownerId, playlistId, currentSnapshotId, currentItems);
+
+    const newSnapshotId = await spotifyService.replaceTracks(playlistId, items.map(item => item.uri));
+    if (newSnapshotId) {
+      await recordPlaylistSnapshot(ownerId, playlistId, newSnapshotId, items, { restoredFrom: snapshotId });
+    }
+    log.info('Restored playlist version', { playlistId, snapshotId, items: items.length });
+
+    return NextResponse.json({
+      success: true,
+      snapshot_id: newSnapshotId,
+      restoredItems: items.length,
+      skippedLocalFiles: version.length - items.length
+    });
+  } catch (error) {
+    log.error('Error restoring playlist version', { error });
+    return errorResponse(error, 'Failed to restore playlist version');
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SpotifyService } from '@/lib/spotify';
+import { getRequestSession } from '../../../auth/requestSession';
+import { errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
+import { dataOwnerId } from '@/lib/dataStore';
+import { diffPlaylistVersions, listPlaylistVersions, snapshotRecorder } from '@/lib/playlistHistory';
+
+// Spotify doesn't allow playlists of more than 10,000 items
+const MAX_PLAYLIST_ITEMS = 10000;
+
+// The playlist's saved versions, newest first, each with its changes from the one
+// before. The current version is saved first if it wasn't already. With `from`
+// (and optionally `to`, the latest by default) it returns the difference between
+// those two versions instead.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const log = createRequestLogger(request, 'GET /api/playlists/[id]/history');
+  try {
+    const session = await getRequestSession(request, 'GET /api/playlists/[id]/history');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    const { id: playlistId } = await params;
+    const { searchParams } = request.nextUrl;
+    const from = searchParams.get('from');
+
+    if (from) {
+      const to = searchParams.get('to') ?? (await listPlaylistVersions(ownerId, playlistId))[0]?.snapshotId ?? from;
+      return NextResponse.json({ from, to, diff: await diffPlaylistVersions(ownerId, playlistId, from, to) });
+    }
+
+    const access = await resolveSpotifyAccess(session, searchParams.get('accountId'));
+    const spotifyService = new SpotifyService(access.accessToken, {
+      logger: log,
+      market: access.market,
+      onPlaylistItems: snapshotRecorder(ownerId)
+    });
+    // Also checks that the account can still read the playlist
+    const currentSnapshotId = await spotifyService.getSnapshotId(playlistId);
+    await spotifyService.getAllPlaylistItems(playlistId, MAX_PLAYLIST_ITEMS);
+
+    const versions = await listPlaylistVersions(ownerId, playlistId);
+    log.debug('Listed playlist versions', { playlistId, versions: versions.length });
+    return NextResponse.json({ playlistId, currentSnapshotId, versions });
+  } catch (error) {
+    log.error('Error fetching playlist history', { error });
+    return errorResponse(error, 'Failed to fetch playlist history');
+  }
+}
@@ -1,44 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../../auth/authOptions';
+import { getRequestSession } from '../../../auth/requestSession';
+import { SpotifyService } from '@/lib/spotify';
+import { errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const log = createRequestLogger(request, 'POST /api/playlists/[id]/like');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'POST /api/playlists/[id]/like');
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return unauthenticatedResponse();
     }
 
     const { action } = await request.json(); // 'like' or 'unlike'
     const { id: playlistId } = await params;
 
-    const method = action === 'like' ? 'PUT' : 'DELETE';
-    const response = await fetch(`https://api.spotify.com/v1/playlists/${playlistId}/followers`, {
-      method,
-      headers: {
-        'Authorization': `Bearer ${session.accessToken}`,
-      },
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('Spotify API error:', errorData);
-      return NextResponse.json(
-        { error: `Failed to ${action} playlist` },
-        { status: response.status }
-      );
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
+    if (action === 'like') {
+      await spotifyService.followPlaylist(playlistId);
+    } else {
+      await spotifyService.unfollowPlaylist(playlistId);
     }
 
     return NextResponse.json({ success: true, action });
   } catch (error) {
-    console.error('Error processing playlist:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    log.error('Error processing playlist', { error });
+    return errorResponse(error, 'Failed to update playlist like status');
   }
 }
 
@@ -46,39 +38,26 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const log = createRequestLogger(request, 'GET /api/playlists/[id]/like');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'GET /api/playlists/[id]/like');
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return unauthenticatedResponse();
     }
 
     const { id: playlistId } = await params;
 
     // Check if the current user follows this playlist
-    const response = await fetch(`https://api.spotify.com/v1/playlists/${playlistId}/followers/contains?ids=${session.user?.id}`, {
-      headers: {
-        'Authorization': `Bearer ${session.accessToken}`,
-      },
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('Spotify API error:', errorData);
-      return NextResponse.json(
-        { error: 'Failed to check playlist like status' },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-    const isLiked = data[0] || false;
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
+    // The id is missing only when /me failed at sign-in, so fall back to it then
+    const userId = access.accountId || await spotifyService.getCurrentUserId();
+    const [follows] = await spotifyService.checkFollowers(playlistId, [userId]);
+    const isLiked = follows || false;
 
     return NextResponse.json({ isLiked });
   } catch (error) {
-    console.error('Error checking playlist like status:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    log.error('Error checking playlist like status', { error });
+    return errorResponse(error, 'Failed to check playlist like status');
   }
 } 
\ No newline at end of file
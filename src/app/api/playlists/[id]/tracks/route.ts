@@ -1,29 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { SpotifyService } from '@/lib/spotify';
-import { authOptions } from '../../../auth/authOptions';
+import { PlaylistTrackRemoval, SpotifyService } from '@/lib/spotify';
+import { getRequestSession } from '../../../auth/requestSession';
+import { apiErrorResponse, errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
+import { dataOwnerId } from '@/lib/dataStore';
+import { snapshotRecorder } from '@/lib/playlistHistory';
 
 export async function GET(request: NextRequest, context: any) {
+  const log = createRequestLogger(request, 'GET /api/playlists/[id]/tracks');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'GET /api/playlists/[id]/tracks');
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+      return unauthenticatedResponse();
     }
     
     const playlistId = context.params.id;
-    const spotifyService = new SpotifyService(session.accessToken);
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const spotifyService = new SpotifyService(access.accessToken, {
+      logger: log,
+      market: access.market,
+      onPlaylistItems: snapshotRecorder(dataOwnerId(session))
+    });
     
     // Fetch tracks for the playlist
-    console.log(`🎵 Fetching tracks for playlist: ${playlistId}`);
-    console.log(`🔍 Playlist ID being analyzed: ${playlistId}`);
-    
+    log.info('Fetching tracks for playlist', { playlistId });
+
     const tracks = await spotifyService.getAllPlaylistTracks(playlistId, 2000);
-    console.log(`✅ Fetched ${tracks.length} tracks from playlist ${playlistId}`);
-    
     if (tracks.length === 0) {
-      console.log(`⚠️ WARNING: No tracks found for playlist ${playlistId}`);
-    } else if (tracks.length < 100) {
-      console.log(`⚠️ WARNING: Only ${tracks.length} tracks found for playlist ${playlistId} - this might indicate an issue`);
+      log.warn('No tracks found for playlist', { playlistId });
+    } else {
+      log.debug('Fetched playlist tracks', { playlistId, count: tracks.length });
     }
     
     // Get unique artist IDs
@@ -53,7 +60,112 @@ export async function GET(request: NextRequest, context: any) {
     
     return NextResponse.json({ tracks: enrichedTracks });
   } catch (error) {
-    console.error('Error fetching playlist tracks with enrichment:', error);
-    return NextResponse.json({ error: 'Failed to fetch playlist tracks' }, { status: 500 });
+    log.error('Error fetching playlist tracks with enrichment', { error });
+    return errorResponse(error, 'Failed to fetch playlist tracks');
+  }
+}
+
+function isUriList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(uri => typeof uri === 'string');
+}
+
+function isRemovalList(value: unknown): value is Array<{ uri: string; positions?: number[] }> {
+  return Array.isArray(value) && value.every(item =>
+    typeof item?.uri === 'string' &&
+    (item.positions === undefined || (Array.isArray(item.positions) && item.positions.every((p: unknown) => Number.isInteger(p) && (p as number) >= 0)))
+  );
+}
+
+// Removes tracks by uri (`uris`) or at specific positions (`tracks: [{ uri, positions }]`).
+// Positions refer to `expectedSnapshotId` when given, so edits made in the meantime don't
+// shift them. A playlist that has moved on from that snapshot is answered with a 409
+// unless `force` is set.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const log = createRequestLogger(request, 'DELETE /api/playlists/[id]/tracks');
+  try {
+    const session = await getRequestSession(request, 'DELETE /api/playlists/[id]/tracks');
+    if (!session?.accessToken) {
+      return unauthenticatedResponse();
+    }
+
+    const { id: playlistId } = await params;
+    const { uris, tracks, expectedSnapshotId, force } = await request.json();
+
+    const removals: PlaylistTrackRemoval[] = [];
+    if (uris !== undefined) {
+      if (!isUriList(uris)) {
+        return apiErrorResponse('BAD_REQUEST', { error: 'uris must be an array of track URIs' });
+      }
+      removals.push(...uris);
+    }
+    if (tracks !== undefined) {
+      if (!isRemovalList(tracks)) {
+        return apiErrorResponse('BAD_REQUEST', { error: 'tracks must be an array of { uri, positions } objects' });
+      }
+      removals.push(...tracks);
+    }
+    if (removals.length === 0) {
+      return apiErrorResponse('BAD_REQUEST', { error: 'uris or tracks is required' });
+    }
+
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
+    if (typeof expectedSnapshotId === 'string' && !force) {
+      await spotifyService.assertSnapshot(playlistId, expectedSnapshotId);
+    }
+    const newSnapshotId = await spotifyService.removeTracks(playlistId, removals, expectedSnapshotId);
+    log.info('Removed tracks from playlist', { playlistId, removals: removals.length });
+
+    return NextResponse.json({ success: true, snapshot_id: newSnapshotId });
+  } catch (error) {
+    log.error('Error removing tracks from playlist', { error });
+    return errorResponse(error, 'Failed to remove tracks from playlist');
+  }
+}
+
+// Reorders (`rangeStart`, `insertBefore`, optional `rangeLength`) or replaces every
+// track of the playlist (`uris`). Takes `expectedSnapshotId` and `force` like DELETE.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const log = createRequestLogger(request, 'PATCH /api/playlists/[id]/tracks');
+  try {
+    const session = await getRequestSession(request, 'PATCH /api/playlists/[id]/tracks');
+    if (!session?.accessToken) {
+      return unauthenticatedResponse();
+    }
+
+    const { id: playlistId } = await params;
+    const { uris, rangeStart, insertBefore, rangeLength, expectedSnapshotId, force } = await request.json();
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
+    if (typeof expectedSnapshotId === 'string' && !force) {
+      await spotifyService.assertSnapshot(playlistId, expectedSnapshotId);
+    }
+
+    if (rangeStart !== undefined || insertBefore !== undefined) {
+      const positions = [rangeStart, insertBefore, rangeLength ?? 1];
+      if (!positions.every(value => Number.isInteger(value) && value >= 0) || rangeLength === 0) {
+        return apiErrorResponse('BAD_REQUEST', { error: 'rangeStart and insertBefore must be non-negative integers and rangeLength positive' });
+      }
+      const newSnapshotId = await spotifyService.reorderTracks(playlistId, { rangeStart, insertBefore, rangeLength }, expectedSnapshotId);
+      log.info('Reordered playlist tracks', { playlistId, rangeStart, insertBefore, rangeLength });
+      return NextResponse.json({ success: true, snapshot_id: newSnapshotId });
+    }
+
+    if (!isUriList(uris)) {
+      return apiErrorResponse('BAD_REQUEST', { error: 'Either uris or rangeStart and insertBefore are required' });
+    }
+    const newSnapshotId = await spotifyService.replaceTracks(playlistId, uris);
+    log.info('Replaced playlist tracks', { playlistId, tracks: uris.length });
+
+    return NextResponse.json({ success: true, snapshot_id: newSnapshotId });
+  } catch (error) {
+    log.error('Error updating playlist tracks', { error });
+    return errorResponse(error, 'Failed to update playlist tracks');
   }
-} 
\ No newline at end of file
+}
@@ -1,19 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
 import { SpotifyService } from '@/lib/spotify';
-import { authOptions } from '../auth/authOptions';
+import { getRequestSession } from '../auth/requestSession';
+import { apiErrorResponse, errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
+import { resolveSpotifyAccess } from '@/lib/linkedAccounts';
 
 export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/playlists');
   try {
-    const session = await getServerSession(authOptions);
-    console.log('Session:', JSON.stringify(session));
-    
+    const session = await getRequestSession(request, 'GET /api/playlists');
     if (!session?.accessToken) {
-      console.warn('No access token in session:', session);
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
+      log.warn('No access token in session');
+      return unauthenticatedResponse();
     }
 
     const { searchParams } = new URL(request.url);
@@ -21,82 +19,71 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '50');
     const offset = parseInt(searchParams.get('offset') || '0');
 
-    console.log('Fetching playlists from Spotify:', { useFullPagination, limit, offset });
-    const spotifyService = new SpotifyService(session.accessToken);
+    log.info('Fetching playlists from Spotify', { useFullPagination, limit, offset });
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
     
     let playlists;
     try {
       if (useFullPagination) {
         // Get ALL playlists using pagination
         playlists = await spotifyService.getAllUserPlaylists(1000);
-        console.log('Fetched ALL playlists using pagination:', playlists.length);
+        log.info('Fetched all playlists', { count: playlists.length });
       } else {
         // Get paginated playlists (for backward compatibility)
         playlists = await spotifyService.getUserPlaylists(limit, offset);
-        console.log('Fetched paginated playlists:', playlists.length);
-      }
-      
-      console.log('First playlist sample:', playlists[0] ? {
-        id: playlists[0].id,
-        name: playlists[0].name,
-        tracks: playlists[0].tracks.total,
-        hasImages: playlists[0].images && playlists[0].images.length > 0
-      } : 'No playlists');
-    } catch (error: any) {
-      console.error('Error in getUserPlaylists:', error && (error.body || error.message || error));
-      
-      // Handle specific error types with better messages
-      if (error.statusCode === 403 || error.message?.includes('Access forbidden')) {
-        console.log('🚫 403 Forbidden error detected');
-        return NextResponse.json(
-          { 
-            error: 'Access forbidden', 
-            message: 'Your Spotify app is in Development Mode. This means only test users can access it. To fix this: 1) Go to Spotify Developer Dashboard, 2) Add your email as a test user, or 3) Switch to Production Mode (requires business verification).',
-            code: 'FORBIDDEN',
-            solution: 'Add test users or switch to Production Mode in Spotify Developer Dashboard'
-          },
-          { status: 403 }
-        );
-      } else if (error.statusCode === 401 || error.message?.includes('Authentication failed')) {
-        console.log('🔐 401 Authentication error detected');
-        return NextResponse.json(
-          { 
-            error: 'Authentication failed', 
-            message: 'Your Spotify session has expired. Please log in again.',
-            code: 'AUTH_FAILED',
-            solution: 'Refresh the page and sign in again'
-          },
-          { status: 401 }
-        );
-      } else if (error.statusCode === 429 || error.message?.includes('rate limit')) {
-        console.log('⏰ 429 Rate limit error detected');
-        return NextResponse.json(
-          { 
-            error: 'Rate limit exceeded', 
-            message: 'Spotify API rate limit exceeded. The app will automatically retry with delays. Please wait a moment.',
-            code: 'RATE_LIMIT',
-            solution: 'Wait a few minutes for rate limits to reset, or refresh the page'
-          },
-          { status: 429 }
-        );
+        log.info('Fetched playlist page', { count: playlists.length });
       }
-      
-      // Log unknown errors for debugging
-      console.log('❌ Unknown error type:', {
-        statusCode: error.statusCode,
-        message: error.message,
-        body: error.body
-      });
-      
+    } catch (error) {
+      log.error('Error in getUserPlaylists', { error });
       throw error;
     }
 
     return NextResponse.json({ playlists });
-  } catch (error: any) {
-    console.error('Error fetching playlists:', error && (error.stack || error.message || error));
+  } catch (error) {
+    log.error('Error fetching playlists', { error });
+    return errorResponse(error, 'Failed to fetch playlists');
+  }
+}
+
+// Creates a playlist for the current user, optionally filled with tracks
+export async function POST(request: NextRequest) {
+  const log = createRequestLogger(request, 'POST /api/playlists');
+  try {
+    const session = await getRequestSession(request, 'POST /api/playlists');
+    if (!session?.accessToken) {
+      return unauthenticatedResponse();
+    }
+
+    const { name, description, public: isPublic, collaborative, trackUris = [] } = await request.json();
+    if (typeof name !== 'string' || name.trim() === '') {
+      return apiErrorResponse('BAD_REQUEST', { error: 'Playlist name is required' });
+    }
+    if (!Array.isArray(trackUris) || !trackUris.every(uri => typeof uri === 'string')) {
+      return apiErrorResponse('BAD_REQUEST', { error: 'trackUris must be an array of track URIs' });
+    }
+
+    const access = await resolveSpotifyAccess(session, request.nextUrl.searchParams.get('accountId'));
+    const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
+    const playlist = await spotifyService.createPlaylist({
+      name: name.trim(),
+      description,
+      public: isPublic,
+      collaborative
+    });
+
+    let snapshotId = playlist.snapshot_id;
+    if (trackUris.length > 0) {
+      snapshotId = await spotifyService.addTracksToPlaylist(playlist.id, trackUris);
+    }
+    log.info('Created playlist', { playlistId: playlist.id, tracks: trackUris.length });
+
     return NextResponse.json(
-      { error: 'Failed to fetch playlists', details: error && (error.stack || error.message || error) },
-      { status: 500 }
+      { playlist: { ...playlist, snapshot_id: snapshotId, tracks: { ...playlist.tracks, total: trackUris.length } }, snapshot_id: snapshotId },
+      { status: 201 }
     );
+  } catch (error) {
+    log.error('Error creating playlist', { error });
+    return errorResponse(error, 'Failed to create playlist');
   }
-} 
\ No newline at end of file
+}
@@ -1,19 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
 import { SpotifyService } from '@/lib/spotify';
-import { authOptions } from '../auth/authOptions';
+import { getRequestSession } from '../auth/requestSession';
+import { errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
 
 export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/profile');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'GET /api/profile');
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+      return unauthenticatedResponse();
     }
-    const spotifyService = new SpotifyService(session.accessToken);
+    const spotifyService = new SpotifyService(session.accessToken, { logger: log });
     const profile = await spotifyService.getCurrentUser();
     return NextResponse.json({ profile });
   } catch (error) {
-    console.error('Error fetching Spotify profile:', error);
-    return NextResponse.json({ error: 'Failed to fetch profile' }, { status: 500 });
+    log.error('Error fetching Spotify profile', { error });
+    return errorResponse(error, 'Failed to fetch profile');
   }
 } 
\ No newline at end of file
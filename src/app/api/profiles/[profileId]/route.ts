@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '../../auth/requestSession';
+import { apiErrorResponse, errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { dataOwnerId } from '@/lib/dataStore';
+import {
+  deleteSavedProfile,
+  getSavedProfile,
+  parseProfileInput,
+  updateSavedProfile
+} from '@/lib/savedProfiles';
+import { createRequestLogger } from '@/lib/logger';
+
+const profileNotFound = () =>
+  apiErrorResponse('NOT_FOUND', { message: 'That saved profile does not exist or was deleted.' });
+
+// A saved profile with its full analysis
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ profileId: string }> }
+) {
+  const log = createRequestLogger(request, 'GET /api/profiles/[profileId]');
+  try {
+    const session = await getRequestSession(request, 'GET /api/profiles/[profileId]');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    const { profileId } = await params;
+    const profile = await getSavedProfile(ownerId, profileId);
+    if (!profile) return profileNotFound();
+
+    return NextResponse.json({ profile });
+  } catch (error) {
+    log.error('Error fetching saved profile', { error });
+    return errorResponse(error, 'Failed to fetch saved profile');
+  }
+}
+
+// Replaces the analysis with `{ profile, playlistImage? }`, which must be of the same playlist
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ profileId: string }> }
+) {
+  const log = createRequestLogger(request, 'PUT /api/profiles/[profileId]');
+  try {
+    const session = await getRequestSession(request, 'PUT /api/profiles/[profileId]');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    const { profileId } = await params;
+    const { profile, playlistImage } = parseProfileInput(await request.json());
+    const updated = await updateSavedProfile(ownerId, profileId, profile, playlistImage);
+    if (!updated) return profileNotFound();
+
+    return NextResponse.json({ profile: updated });
+  } catch (error) {
+    log.error('Error updating saved profile', { error });
+    return errorResponse(error, 'Failed to update saved profile');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ profileId: string }> }
+) {
+  const log = createRequestLogger(request, 'DELETE /api/profiles/[profileId]');
+  try {
+    const session = await getRequestSession(request, 'DELETE /api/profiles/[profileId]');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    const { profileId } = await params;
+    if (!(await deleteSavedProfile(ownerId, profileId))) return profileNotFound();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error('Error deleting saved profile', { error });
+    return errorResponse(error, 'Failed to delete saved profile');
+  }
+}
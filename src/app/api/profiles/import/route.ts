@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '../../auth/requestSession';
+import { apiErrorResponse, errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { dataOwnerId, getDataStore, isDemoOwner } from '@/lib/dataStore';
+import {
+  InvalidProfileError,
+  MAX_SAVED_PROFILES,
+  parseProfileInput,
+  saveProfile
+} from '@/lib/savedProfiles';
+import { createRequestLogger } from '@/lib/logger';
+
+// One-off migration of the profiles the browser kept in localStorage
+// ('spotify-musical-profiles'). Takes `{ profiles }` with the entries as stored;
+// invalid ones are skipped and a newer profile on the server is never overwritten.
+// `persistent` tells whether the server keeps them across restarts; if not, the
+// browser keeps its copy.
+export async function POST(request: NextRequest) {
+  const log = createRequestLogger(request, 'POST /api/profiles/import');
+  try {
+    const session = await getRequestSession(request, 'POST /api/profiles/import');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    const { profiles } = await request.json();
+    if (!Array.isArray(profiles) || profiles.length > MAX_SAVED_PROFILES) {
+      return apiErrorResponse('BAD_REQUEST', { error: `profiles must be a list of at most ${MAX_SAVED_PROFILES} saved profiles` });
+    }
+
+    let imported = 0;
+    let skipped = 0;
+    for (const entry of profiles) {
+      try {
+        const { profile, playlistImage } = parseProfileInput(entry);
+        const saved = await saveProfile(ownerId, profile, { playlistImage, onlyIfNewer: true });
+        if (saved) imported++;
+        else skipped++;
+      } catch (error) {
+        if (!(error instanceof InvalidProfileError)) throw error;
+        skipped++;
+      }
+    }
+
+    // A demo's library is kept in memory and ends with the demo
+    const persistent = getDataStore().persistent && !isDemoOwner(ownerId);
+    log.info('Imported saved profiles', { imported, skipped, persistent });
+    return NextResponse.json({ imported, skipped, persistent });
+  } catch (error) {
+    log.error('Error importing saved profiles', { error });
+    return errorResponse(error, 'Failed to import saved profiles');
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '../auth/requestSession';
+import { errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { dataOwnerId } from '@/lib/dataStore';
+import { listSavedProfiles, parseProfileInput, saveProfile } from '@/lib/savedProfiles';
+import { createRequestLogger } from '@/lib/logger';
+
+// The user's saved musical profiles (summaries only, without the full analysis)
+export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/profiles');
+  try {
+    const session = await getRequestSession(request, 'GET /api/profiles');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    return NextResponse.json({ profiles: await listSavedProfiles(ownerId) });
+  } catch (error) {
+    log.error('Error listing saved profiles', { error });
+    return errorResponse(error, 'Failed to list saved profiles');
+  }
+}
+
+// Saves `{ profile, playlistImage? }`, replacing the profile already saved for the same playlist
+export async function POST(request: NextRequest) {
+  const log = createRequestLogger(request, 'POST /api/profiles');
+  try {
+    const session = await getRequestSession(request, 'POST /api/profiles');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    const { profile, playlistImage } = parseProfileInput(await request.json());
+    const saved = await saveProfile(ownerId, profile, { playlistImage });
+
+    return NextResponse.json({ profile: saved }, { status: 201 });
+  } catch (error) {
+    log.error('Error saving profile', { error });
+    return errorResponse(error, 'Failed to save profile');
+  }
+}
@@ -1,19 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorResponse, errorResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
 
 export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/proxy/image');
   try {
     const { searchParams } = new URL(request.url);
     const imageUrl = searchParams.get('url');
     
     if (!imageUrl) {
-      return NextResponse.json({ error: 'Image URL is required' }, { status: 400 });
+      return apiErrorResponse('BAD_REQUEST', { error: 'Image URL is required' });
     }
 
     // Validate that the URL is from Spotify's CDN
     const validDomains = ['i.scdn.co', 'mosaic.scdn.co', 'wrapped-images.spotifycdn.com'];
     const url = new URL(imageUrl);
     if (!validDomains.includes(url.hostname)) {
-      return NextResponse.json({ error: 'Invalid image domain' }, { status: 400 });
+      return apiErrorResponse('BAD_REQUEST', { error: 'Invalid image domain' });
     }
 
     // Fetch the image from Spotify with timeout
@@ -51,7 +54,7 @@ export async function GET(request: NextRequest) {
       },
     });
   } catch (error) {
-    console.error('Error proxying image:', error);
-    return NextResponse.json({ error: 'Failed to proxy image' }, { status: 500 });
+    log.error('Error proxying image', { error });
+    return errorResponse(error, 'Failed to proxy image');
   }
 } 
\ No newline at end of file
@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
 import { SpotifyService } from '@/lib/spotify';
-import { authOptions } from '../../auth/authOptions';
+import { getRequestSession } from '../../auth/requestSession';
+import { apiErrorResponse, errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { createRequestLogger } from '@/lib/logger';
 
 export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/search/tracks');
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request, 'GET /api/search/tracks');
     if (!session?.accessToken) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+      return unauthenticatedResponse();
     }
     
     const { searchParams } = new URL(request.url);
@@ -15,20 +17,17 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '5');
     
     if (!query) {
-      return NextResponse.json({ error: 'Query parameter "q" is required' }, { status: 400 });
+      return apiErrorResponse('BAD_REQUEST', { error: 'Query parameter "q" is required' });
     }
     
-    const spotifyService = new SpotifyService(session.accessToken);
+    const spotifyService = new SpotifyService(session.accessToken, { logger: log, market: session.user?.country });
     
     // Search for tracks
     const tracks = await spotifyService.searchTracks(query, limit);
     
     return NextResponse.json({ tracks });
   } catch (error: any) {
-    console.error('Error searching tracks:', error);
-    return NextResponse.json({ 
-      error: 'Failed to search tracks',
-      details: error.message 
-    }, { status: 500 });
+    log.error('Error searching tracks', { error });
+    return errorResponse(error, 'Failed to search tracks');
   }
 } 
\ No newline at end of file
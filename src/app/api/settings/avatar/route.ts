@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '../../auth/requestSession';
+import { apiErrorResponse, errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { dataOwnerId } from '@/lib/dataStore';
+import { MAX_AVATAR_BYTES, deleteAvatar, getAvatar, setAvatar } from '@/lib/settingsStore';
+import { createRequestLogger } from '@/lib/logger';
+
+// The custom avatar. Its URL carries `?v=` with the upload time, so the browser
+// can cache it without asking again.
+export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/settings/avatar');
+  try {
+    const session = await getRequestSession(request, 'GET /api/settings/avatar');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    const avatar = await getAvatar(ownerId);
+    if (!avatar) {
+      return apiErrorResponse('NOT_FOUND', { message: 'No custom avatar has been uploaded.' });
+    }
+
+    return new NextResponse(new Uint8Array(avatar.image), {
+      headers: {
+        'Content-Type': avatar.contentType,
+        'Cache-Control': 'private, max-age=31536000, immutable'
+      }
+    });
+  } catch (error) {
+    log.error('Error fetching avatar', { error });
+    return errorResponse(error, 'Failed to fetch avatar');
+  }
+}
+
+// Uploads the already resized image as the request body (JPEG, PNG or WebP)
+export async function PUT(request: NextRequest) {
+  const log = createRequestLogger(request, 'PUT /api/settings/avatar');
+  try {
+    const session = await getRequestSession(request, 'PUT /api/settings/avatar');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    // Refuse before reading the body when it is already known to be too large
+    if (Number(request.headers.get('content-length') ?? 0) > MAX_AVATAR_BYTES) {
+      return apiErrorResponse('BAD_REQUEST', { error: `avatar must be at most ${MAX_AVATAR_BYTES / 1024} KB` });
+    }
+
+    const image = Buffer.from(await request.arrayBuffer());
+    return NextResponse.json({ settings: await setAvatar(ownerId, image) });
+  } catch (error) {
+    log.error('Error uploading avatar', { error });
+    return errorResponse(error, 'Failed to upload avatar');
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const log = createRequestLogger(request, 'DELETE /api/settings/avatar');
+  try {
+    const session = await getRequestSession(request, 'DELETE /api/settings/avatar');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    return NextResponse.json({ settings: await deleteAvatar(ownerId) });
+  } catch (error) {
+    log.error('Error deleting avatar', { error });
+    return errorResponse(error, 'Failed to delete avatar');
+  }
+}
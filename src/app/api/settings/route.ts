@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '../auth/requestSession';
+import { errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { dataOwnerId } from '@/lib/dataStore';
+import { getUserSettings, updateUserSettings } from '@/lib/settingsStore';
+import { parseSettingsPatch } from '@/lib/userSettings';
+import { createRequestLogger } from '@/lib/logger';
+
+// The user's settings, with the defaults for anything they never saved
+export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/settings');
+  try {
+    const session = await getRequestSession(request, 'GET /api/settings');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    return NextResponse.json({ settings: await getUserSettings(ownerId) });
+  } catch (error) {
+    log.error('Error fetching settings', { error });
+    return errorResponse(error, 'Failed to fetch settings');
+  }
+}
+
+// Changes only the settings included: `{ theme?, language?, autoSaveProfiles? }`
+export async function PATCH(request: NextRequest) {
+  const log = createRequestLogger(request, 'PATCH /api/settings');
+  try {
+    const session = await getRequestSession(request, 'PATCH /api/settings');
+    const ownerId = session && dataOwnerId(session);
+    if (!session?.accessToken || !ownerId) {
+      return unauthenticatedResponse();
+    }
+
+    // A body that isn't JSON is refused like any other invalid patch (400)
+    const patch = parseSettingsPatch(await request.json().catch(() => null));
+    return NextResponse.json({ settings: await updateUserSettings(ownerId, patch) });
+  } catch (error) {
+    log.error('Error updating settings', { error });
+    return errorResponse(error, 'Failed to update settings');
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../auth/authOptions';
+import { apiErrorResponse, errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { revokeApiToken } from '@/lib/apiTokens';
+import { forgetSignInAccount } from '@/lib/linkedAccounts';
+import { isCollectingHistory } from '@/lib/historyCollector';
+import { createRequestLogger } from '@/lib/logger';
+
+// Revokes a token. Once the last one is gone the stored Spotify tokens are dropped
+// too, unless the history collector still uses them.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ tokenId: string }> }
+) {
+  const log = createRequestLogger(request, 'DELETE /api/tokens/[tokenId]');
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.accessToken || !session.user?.id) {
+      return unauthenticatedResponse();
+    }
+
+    const { tokenId } = await params;
+    const { revoked, remaining } = await revokeApiToken(session.user.id, tokenId);
+    if (!revoked) {
+      return apiErrorResponse('NOT_FOUND', { message: 'That API token does not exist or was already revoked.' });
+    }
+    if (remaining === 0 && !(await isCollectingHistory(session.user.id))) {
+      await forgetSignInAccount(session.user.id);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error('Error revoking API token', { error });
+    return errorResponse(error, 'Failed to revoke API token');
+  }
+}
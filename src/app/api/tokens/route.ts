@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { getToken } from 'next-auth/jwt';
+import { authOptions } from '../auth/authOptions';
+import { apiErrorResponse, errorResponse, unauthenticatedResponse } from '@/lib/apiErrors';
+import { API_TOKEN_SCOPES, createApiToken, isApiTokenScope, listApiTokens } from '@/lib/apiTokens';
+import { saveSignInAccount } from '@/lib/linkedAccounts';
+import { createRequestLogger } from '@/lib/logger';
+
+const MAX_TOKEN_NAME_LENGTH = 100;
+
+// Personal API tokens of the signed-in user, plus the scopes a token can have.
+// Managing tokens needs the browser session; tokens can't create more tokens.
+export async function GET(request: NextRequest) {
+  const log = createRequestLogger(request, 'GET /api/tokens');
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.accessToken || !session.user?.id) {
+      return unauthenticatedResponse();
+    }
+
+    return NextResponse.json({
+      tokens: await listApiTokens(session.user.id),
+      scopes: API_TOKEN_SCOPES
+    });
+  } catch (error) {
+    log.error('Error listing API tokens', { error });
+    return errorResponse(error, 'Failed to list API tokens');
+  }
+}
+
+// Creates a token from `{ name, scopes }`. The response holds the token itself,
+// which is never shown again.
+export async function POST(request: NextRequest) {
+  const log = createRequestLogger(request, 'POST /api/tokens');
+  try {
+    // The JWT, unlike the session, carries the refresh token the API token will use
+    const jwt = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+    if (jwt?.demo) {
+      return apiErrorResponse('BAD_REQUEST', { error: 'API tokens are not available in the demo' });
+    }
+    if (!jwt?.spotifyUser || jwt.error || !jwt.accessToken || !jwt.refreshToken || !jwt.expiresAt) {
+      return unauthenticatedResponse();
+    }
+
+    const { name, scopes } = await request.json();
+    if (typeof name !== 'string' || name.trim() === '' || name.length > MAX_TOKEN_NAME_LENGTH) {
+      return apiErrorResponse('BAD_REQUEST', { error: `name must be 1-${MAX_TOKEN_NAME_LENGTH} characters` });
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiTokenScope)) {
+      return apiErrorResponse('BAD_REQUEST', {
+        error: `scopes must list one or more of: ${Object.keys(API_TOKEN_SCOPES).join(', ')}`
+      });
+    }
+
+    await saveSignInAccount(jwt.spotifyUser, {
+      accessToken: jwt.accessToken,
+      refreshToken: jwt.refreshToken,
+      expiresAt: jwt.expiresAt,
+      scopes: jwt.scopes
+    });
+    const created = await createApiToken(jwt.spotifyUser.id, name.trim(), scopes);
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    log.error('Error creating API token', { error });
+    return errorResponse(error, 'Failed to create API token');
+  }
+}
@@ -2,6 +2,7 @@
 import { useSession, signOut } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import { useState, useEffect } from "react";
+import { useSettings } from "@/components/Providers";
 
 interface SpotifyProfile {
   id: string;
@@ -22,18 +23,12 @@ interface SpotifyPlaylist {
 export default function ProfilePage() {
   const { data: session } = useSession();
   const router = useRouter();
-  const [avatar, setAvatar] = useState<string | null>(null);
+  const { avatarUrl: avatar, uploadAvatar } = useSettings();
   const [profile, setProfile] = useState<SpotifyProfile | null>(null);
   const [playlists, setPlaylists] = useState<SpotifyPlaylist[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    // Load saved avatar
-    const savedAvatar = localStorage.getItem('userAvatar');
-    if (savedAvatar) {
-      setAvatar(savedAvatar);
-    }
-
     const fetchProfileAndPlaylists = async () => {
       if (!session?.accessToken) return;
       setLoading(true);
@@ -55,17 +50,15 @@ export default function ProfilePage() {
     fetchProfileAndPlaylists();
   }, [session]);
 
-  const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      const reader = new FileReader();
-      reader.onload = (ev) => {
-        const imageData = ev.target?.result as string;
-        setAvatar(imageData);
-        // Save to localStorage
-        localStorage.setItem('userAvatar', imageData);
-      };
-      reader.readAsDataURL(file);
+      try {
+        // Resized and stored with the user's settings
+        await uploadAvatar(file);
+      } catch (err) {
+        console.error('Error uploading avatar:', err);
+      }
     }
   };
 
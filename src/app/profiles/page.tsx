@@ -2,49 +2,96 @@
 import { useState, useEffect } from "react";
 import { useSession } from "next-auth/react";
 import MusicalProfile from "@/components/MusicalProfile";
+import type { SavedProfileSummary } from "@/lib/savedProfiles";
 
-interface SavedProfile {
-  id: string;
-  playlistId: string;
-  playlistName: string;
-  playlistImage?: string;
-  analyzedAt: string;
-  totalTracks: number;
-  dominantGenre: string;
-  mood: string;
-  energyLevel: string;
-  profile: any; // Full musical profile data
+type SavedProfile = SavedProfileSummary;
+
+// Where older versions kept saved profiles, before they moved to the server
+const LEGACY_PROFILES_KEY = 'spotify-musical-profiles';
+
+// Uploads profiles left in localStorage by older versions. The key is only
+// removed once the server has them in a store that survives restarts, so a
+// failed upload is retried and a server keeping them in memory can't lose them.
+async function migrateLocalProfiles() {
+  const saved = localStorage.getItem(LEGACY_PROFILES_KEY);
+  if (!saved) return;
+
+  let profiles: unknown;
+  try {
+    profiles = JSON.parse(saved);
+  } catch {
+    localStorage.removeItem(LEGACY_PROFILES_KEY);
+    return;
+  }
+
+  const response = await fetch('/api/profiles/import', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ profiles: Array.isArray(profiles) ? profiles : [] }),
+  });
+  if (!response.ok) throw new Error('Failed to upload saved profiles');
+  const { persistent } = await response.json();
+  if (persistent) localStorage.removeItem(LEGACY_PROFILES_KEY);
+}
+
+// Drops a deleted profile from the legacy copy too, so the next upload doesn't bring it back
+function forgetLocalProfile(playlistId: string) {
+  const saved = localStorage.getItem(LEGACY_PROFILES_KEY);
+  if (!saved) return;
+  try {
+    const profiles = JSON.parse(saved);
+    if (!Array.isArray(profiles)) return;
+    localStorage.setItem(
+      LEGACY_PROFILES_KEY,
+      JSON.stringify(profiles.filter(entry => entry?.profile?.playlistId !== playlistId))
+    );
+  } catch {
+    localStorage.removeItem(LEGACY_PROFILES_KEY);
+  }
 }
 
 export default function ProfilesPage() {
-  const { data: session } = useSession();
+  const { status } = useSession();
   const [savedProfiles, setSavedProfiles] = useState<SavedProfile[]>([]);
   const [selectedProfile, setSelectedProfile] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    loadSavedProfiles();
-  }, []);
+    const loadSavedProfiles = async () => {
+      try {
+        try {
+          await migrateLocalProfiles();
+        } catch (error) {
+          console.error('Error migrating saved profiles:', error);
+        }
 
-  const loadSavedProfiles = () => {
-    try {
-      const saved = localStorage.getItem('spotify-musical-profiles');
-      if (saved) {
-        const profiles = JSON.parse(saved);
-        setSavedProfiles(profiles);
+        const response = await fetch('/api/profiles');
+        if (!response.ok) throw new Error('Failed to load saved profiles');
+        const data = await response.json();
+        setSavedProfiles(data.profiles || []);
+      } catch (error) {
+        console.error('Error loading saved profiles:', error);
+      } finally {
+        setLoading(false);
       }
-    } catch (error) {
-      console.error('Error loading saved profiles:', error);
-    } finally {
+    };
+
+    if (status === 'authenticated') {
+      loadSavedProfiles();
+    } else if (status === 'unauthenticated') {
       setLoading(false);
     }
-  };
+  }, [status]);
 
-  const deleteProfile = (profileId: string) => {
+  const deleteProfile = async (profileId: string) => {
     try {
-      const updatedProfiles = savedProfiles.filter(p => p.id !== profileId);
-      setSavedProfiles(updatedProfiles);
-      localStorage.setItem('spotify-musical-profiles', JSON.stringify(updatedProfiles));
+      const response = await fetch(`/api/profiles/${encodeURIComponent(profileId)}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete profile');
+      const deleted = savedProfiles.find(p => p.id === profileId);
+      if (deleted) forgetLocalProfile(deleted.playlistId);
+      setSavedProfiles(prev => prev.filter(p => p.id !== profileId));
     } catch (error) {
       console.error('Error deleting profile:', error);
     }
@@ -3,70 +3,46 @@
 import { useSession } from 'next-auth/react';
 import { useState, useEffect } from 'react';
 import { useToast } from '@/components/Toast';
-import { useTheme, useLanguage } from '@/components/Providers';
+import { useTheme, useLanguage, useSettings } from '@/components/Providers';
+import ApiTokensPanel from '@/components/ApiTokensPanel';
+import type { LanguageSetting, ThemeSetting } from '@/lib/userSettings';
 
 interface Settings {
   preferences: {
-    theme: 'dark' | 'light' | 'auto';
-    language: 'en' | 'es';
+    theme: ThemeSetting;
+    language: LanguageSetting;
     autoSaveProfiles: boolean;
   };
-  customProfilePicture?: string;
 }
 
 export default function SettingsPage() {
   const { data: session } = useSession();
   const { showToast } = useToast();
-  const { theme, setTheme } = useTheme();
+  const { theme } = useTheme();
   const { language, setLanguage } = useLanguage();
+  const { settings: savedSettings, updateSettings, uploadAvatar, removeAvatar, avatarUrl: customProfilePicture } = useSettings();
   
-  // Extend user type to include product
-  type UserWithProduct = {
-    name?: string | null;
-    email?: string | null;
-    image?: string | null;
-    id?: string;
-    product?: string;
-  };
-  const user = session?.user as UserWithProduct | undefined;
+  const user = session?.user;
   
   const [settings, setSettings] = useState<Settings>({
     preferences: {
-      theme: 'dark',
-      language: 'en',
-      autoSaveProfiles: true,
+      theme: savedSettings.theme,
+      language: savedSettings.language,
+      autoSaveProfiles: savedSettings.autoSaveProfiles,
     },
   });
-  const [customProfilePicture, setCustomProfilePicture] = useState<string | null>(null);
-
-  // Load settings from localStorage on mount
-  useEffect(() => {
-    const savedSettings = localStorage.getItem('userSettings');
-    if (savedSettings) {
-      try {
-        const parsed = JSON.parse(savedSettings);
-        setSettings(parsed);
-      } catch (error) {
-        console.error('Error loading settings:', error);
-      }
-    }
-    
-    // Load custom profile picture
-    const savedCustomPicture = localStorage.getItem('customProfilePicture');
-    if (savedCustomPicture) {
-      setCustomProfilePicture(savedCustomPicture);
-    }
-  }, []);
+  const [uploadingPicture, setUploadingPicture] = useState(false);
 
-  // Sync settings with theme and language contexts
+  // Follow the saved settings when they load from the server
   useEffect(() => {
-    if (settings.preferences.theme !== theme) {
-      setTheme(settings.preferences.theme as 'light' | 'dark');
-    }
-    if (settings.preferences.language !== language) {
-      setLanguage(settings.preferences.language as 'en' | 'es');
-    }
-  }, [settings.preferences.theme, settings.preferences.language, theme, language, setTheme, setLanguage]);
+    setSettings({
+      preferences: {
+        theme: savedSettings.theme,
+        language: savedSettings.language,
+        autoSaveProfiles: savedSettings.autoSaveProfiles,
+      },
+    });
+  }, [savedSettings.theme, savedSettings.language, savedSettings.autoSaveProfiles]);
 
   const handlePreferenceChange = (key: keyof Settings['preferences'], value?: any) => {
     setSettings(prev => ({
@@ -78,37 +54,35 @@ export default function SettingsPage() {
     }));
   };
 
-  const handleProfilePictureUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleProfilePictureUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const result = e.target?.result as string;
-        setCustomProfilePicture(result);
-        localStorage.setItem('customProfilePicture', result);
-        showToast('Profile picture updated!', 'success');
-      };
-      reader.readAsDataURL(file);
+    event.target.value = '';
+    if (!file) return;
+    setUploadingPicture(true);
+    try {
+      // Resized to a small square before it is uploaded
+      await uploadAvatar(file);
+      showToast('Profile picture updated!', 'success');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to upload profile picture', 'error');
+    } finally {
+      setUploadingPicture(false);
     }
   };
 
-  const removeCustomProfilePicture = () => {
-    setCustomProfilePicture(null);
-    localStorage.removeItem('customProfilePicture');
-    showToast('Profile picture removed!', 'success');
+  const removeCustomProfilePicture = async () => {
+    try {
+      await removeAvatar();
+      showToast('Profile picture removed!', 'success');
+    } catch {
+      showToast('Failed to remove profile picture', 'error');
+    }
   };
 
   const saveSettings = async () => {
     try {
-      // Save to localStorage
-      localStorage.setItem('userSettings', JSON.stringify(settings));
-      
-      // Update autoSaveProfiles setting in localStorage
-      localStorage.setItem('autoSaveProfiles', settings.preferences.autoSaveProfiles.toString());
-      
-      // Update theme and language in contexts
-      setTheme(settings.preferences.theme as 'light' | 'dark');
-      setLanguage(settings.preferences.language as 'en' | 'es');
+      // Saved for the signed-in user; theme and language follow from it
+      await updateSettings(settings.preferences);
       
       showToast('Settings saved successfully!', 'success');
     } catch (error) {
@@ -203,7 +177,13 @@ export default function SettingsPage() {
                                 user.product.charAt(0).toUpperCase() + user.product.slice(1) : 
                                 'Account'
                               }
+                              {user?.country && <span className="text-gray-400"> · {user.country}</span>}
                             </p>
+                            {user?.explicitContent?.filterEnabled && (
+                              <p className="text-gray-400 text-xs lg:text-sm">
+                                Explicit content is filtered{user.explicitContent.filterLocked ? ' (locked by the account owner)' : ''}
+                              </p>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -233,10 +213,11 @@ export default function SettingsPage() {
                                 type="file"
                                 accept="image/*"
                                 onChange={handleProfilePictureUpload}
+                                disabled={uploadingPicture}
                                 className="hidden"
                               />
                               <span className="bg-[#1DB954] hover:bg-[#1ed760] text-white px-3 lg:px-4 py-2 rounded-lg text-sm font-medium transition-colors inline-block">
-                                {customProfilePicture ? 'Change Picture' : 'Upload Picture'}
+                                {uploadingPicture ? 'Uploading...' : customProfilePicture ? 'Change Picture' : 'Upload Picture'}
                               </span>
                             </label>
                             {customProfilePicture && (
@@ -250,7 +231,7 @@ export default function SettingsPage() {
                           </div>
                         </div>
                         <p className="text-gray-400 text-xs lg:text-sm mt-2">
-                          This picture will be used in the sidebar. Your Spotify picture will be used in the dashboard.
+                          This picture will be used in the sidebar on all your devices. Your Spotify picture will be used in the dashboard.
                         </p>
                       </div>
                     </div>
@@ -311,6 +292,9 @@ export default function SettingsPage() {
                     </div>
                   </div>
 
+                  {/* API Tokens */}
+                  {!session?.demo && <ApiTokensPanel />}
+
                   {/* Save Button */}
                   <div className="flex justify-end">
                     <button
@@ -0,0 +1,116 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useAccounts } from './Providers';
+import { useToast } from './Toast';
+
+interface AccountSwitcherProps {
+  // Which way the menu opens
+  direction?: 'down' | 'up';
+}
+
+// Picks the Spotify account playlists and analyses are read from, and links or
+// unlinks extra accounts
+export default function AccountSwitcher({ direction = 'down' }: AccountSwitcherProps) {
+  const { accounts, activeAccountId, setActiveAccountId, refreshAccounts } = useAccounts();
+  const { showToast } = useToast();
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const activeAccount = accounts.find(account => activeAccountId ? account.id === activeAccountId : account.primary);
+
+  const handleLink = () => {
+    const returnTo = window.location.pathname + window.location.search;
+    window.location.href = `/api/accounts/link?returnTo=${encodeURIComponent(returnTo)}`;
+  };
+
+  const handleUnlink = async (accountId: string) => {
+    const response = await fetch(`/api/accounts/${encodeURIComponent(accountId)}`, { method: 'DELETE' });
+    if (!response.ok) {
+      showToast('Could not unlink the account', 'error');
+      return;
+    }
+    if (activeAccountId === accountId) setActiveAccountId(null);
+    showToast('Spotify account unlinked', 'success');
+    await refreshAccounts();
+  };
+
+  if (accounts.length === 0) return null;
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="flex items-center gap-2 px-3 py-2 rounded-lg bg-[#232323] border border-[#282828] text-sm text-white hover:bg-[#282828] transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        aria-label="Switch Spotify account"
+      >
+        <span className="max-w-[8rem] truncate">{activeAccount?.displayName ?? 'Spotify account'}</span>
+        <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {open && (
+        <div className={`absolute right-0 ${direction === 'up' ? 'bottom-full mb-2' : 'mt-2'} w-64 bg-[#232323] border border-[#282828] rounded-xl shadow-xl py-2 z-50`} role="menu">
+          {accounts.map(account => {
+            const active = activeAccountId ? account.id === activeAccountId : account.primary;
+            return (
+              <div key={account.id ?? 'primary'} className="flex items-center justify-between px-4 py-2 hover:bg-[#282828]">
+                <button
+                  className="flex-1 text-left min-w-0"
+                  onClick={() => {
+                    if (account.needsRelink) {
+                      handleLink();
+                      return;
+                    }
+                    setActiveAccountId(account.primary ? null : account.id);
+                    setOpen(false);
+                  }}
+                  role="menuitem"
+                >
+                  <p className={`text-sm truncate ${active ? 'text-[#1DB954] font-semibold' : 'text-white'}`}>
+                    {account.displayName}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {account.primary ? 'Signed in' : account.needsRelink ? 'Link again to use' : 'Linked'}
+                    {account.product ? ` · ${account.product.charAt(0).toUpperCase() + account.product.slice(1)}` : ''}
+                  </p>
+                </button>
+                {!account.primary && account.id && (
+                  <button
+                    className="ml-2 text-xs text-gray-400 hover:text-red-400"
+                    onClick={() => handleUnlink(account.id as string)}
+                    aria-label={`Unlink ${account.displayName}`}
+                  >
+                    Unlink
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          <div className="border-t border-[#282828] mt-2 pt-2">
+            <button
+              className="w-full text-left px-4 py-2 text-sm text-[#1DB954] hover:bg-[#282828]"
+              onClick={handleLink}
+              role="menuitem"
+            >
+              + Link another account
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
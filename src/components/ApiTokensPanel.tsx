@@ -0,0 +1,199 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useToast } from './Toast';
+import Modal from './Modal';
+import type { ApiToken, ApiTokenScope } from '@/lib/apiTokens';
+
+// Settings section to create and revoke personal API tokens
+export default function ApiTokensPanel() {
+  const { showToast } = useToast();
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [scopeDescriptions, setScopeDescriptions] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [creating, setCreating] = useState(false);
+  // The new token, shown once
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [revokeToken, setRevokeToken] = useState<ApiToken | null>(null);
+
+  const fetchTokens = async () => {
+    try {
+      const response = await fetch('/api/tokens');
+      if (!response.ok) throw new Error('Failed to load API tokens');
+      const data = await response.json();
+      setTokens(data.tokens || []);
+      setScopeDescriptions(data.scopes || {});
+    } catch (error) {
+      console.error('Error loading API tokens:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTokens();
+  }, []);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const response = await fetch('/api/tokens', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: name.trim(), scopes }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create API token');
+      }
+      setCreatedToken(data.token);
+      setTokens(prev => [...prev, data.apiToken]);
+      setName('');
+      setScopes([]);
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to create API token', 'error');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevokeConfirm = async () => {
+    if (!revokeToken) return;
+    try {
+      const response = await fetch(`/api/tokens/${revokeToken.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to revoke API token');
+      setTokens(prev => prev.filter(token => token.id !== revokeToken.id));
+      showToast('API token revoked', 'success');
+    } catch (error) {
+      console.error('Error revoking API token:', error);
+      showToast('Failed to revoke API token', 'error');
+    } finally {
+      setRevokeToken(null);
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-[#232323] to-[#2a2a2a] rounded-xl lg:rounded-2xl p-4 lg:p-6 border border-[#282828] shadow-xl">
+      <h2 className="text-xl lg:text-2xl font-bold text-white mb-2">API Tokens</h2>
+      <p className="text-gray-400 text-xs lg:text-sm mb-4 lg:mb-6">
+        Tokens let scripts call the PlaylistIntel API with an <code>Authorization: Bearer</code> header, acting as your Spotify account.
+      </p>
+
+      {createdToken && (
+        <div className="mb-4 p-3 lg:p-4 bg-[#1DB954]/10 rounded-lg border border-[#1DB954]/20">
+          <p className="text-white text-sm mb-2">Copy your new token now. You won&apos;t be able to see it again.</p>
+          <div className="flex items-center gap-2">
+            <input
+              className="w-full px-3 py-2 rounded-lg bg-[#191414] text-white border border-[#282828] font-mono text-xs"
+              value={createdToken}
+              readOnly
+            />
+            <button
+              className="px-3 py-2 rounded-lg bg-[#1DB954] text-white font-semibold hover:bg-[#1ed760] shadow-md text-sm"
+              onClick={() => { navigator.clipboard.writeText(createdToken); showToast('Token copied!', 'success'); }}
+            >
+              Copy
+            </button>
+            <button
+              className="px-3 py-2 rounded-lg bg-gray-700 text-white hover:bg-gray-600 text-sm"
+              onClick={() => setCreatedToken(null)}
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2 mb-6">
+        {loading ? (
+          <p className="text-gray-400 text-sm">Loading tokens...</p>
+        ) : tokens.length === 0 ? (
+          <p className="text-gray-400 text-sm">You have no API tokens.</p>
+        ) : tokens.map(token => (
+          <div key={token.id} className="flex items-center justify-between gap-3 p-3 bg-[#191414] rounded-lg border border-[#282828]">
+            <div className="min-w-0 flex-1">
+              <p className="text-white font-medium text-sm truncate">{token.name}</p>
+              <p className="text-gray-400 text-xs truncate">
+                <span className="font-mono">{token.preview}…</span> · {token.scopes.join(', ')}
+              </p>
+              <p className="text-gray-500 text-xs">
+                Created {new Date(token.createdAt).toLocaleDateString()}
+                {token.lastUsedAt ? ` · Last used ${new Date(token.lastUsedAt).toLocaleString()}` : ' · Never used'}
+              </p>
+            </div>
+            <button
+              className="text-red-400 hover:text-red-300 text-xs lg:text-sm font-medium transition-colors flex-shrink-0"
+              onClick={() => setRevokeToken(token)}
+            >
+              Revoke
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-base lg:text-lg font-semibold text-white">New token</h3>
+        <input
+          className="w-full px-3 lg:px-4 py-2.5 bg-[#404040] text-white rounded-lg border border-[#282828] focus:ring-2 focus:ring-[#1DB954] text-sm lg:text-base"
+          placeholder="Token name, e.g. Nightly export"
+          value={name}
+          maxLength={100}
+          onChange={e => setName(e.target.value)}
+        />
+        <div className="space-y-2">
+          {Object.entries(scopeDescriptions).map(([scope, description]) => (
+            <label key={scope} className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-1 accent-[#1DB954]"
+                checked={scopes.includes(scope as ApiTokenScope)}
+                onChange={() => toggleScope(scope as ApiTokenScope)}
+              />
+              <span>
+                <span className="text-white text-sm font-mono">{scope}</span>
+                <span className="block text-gray-400 text-xs">{description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <button
+            className="px-6 py-2 rounded-lg bg-[#1DB954] text-white font-semibold hover:bg-[#1ed760] shadow-md disabled:opacity-50 text-sm lg:text-base"
+            onClick={handleCreate}
+            disabled={creating || !name.trim() || scopes.length === 0}
+          >
+            {creating ? 'Creating...' : 'Create Token'}
+          </button>
+        </div>
+      </div>
+
+      <Modal open={revokeToken !== null} onClose={() => setRevokeToken(null)} title="Revoke API Token?">
+        <div className="mb-6 text-white">
+          Scripts using <span className="font-bold">{revokeToken?.name}</span> will stop working right away.
+        </div>
+        <div className="flex justify-end gap-4">
+          <button
+            className="px-4 py-2 rounded-lg bg-gray-700 text-white hover:bg-gray-600"
+            onClick={() => setRevokeToken(null)}
+          >
+            Cancel
+          </button>
+          <button
+            className="px-6 py-2 rounded-lg bg-red-600 text-white font-semibold hover:bg-red-700 shadow-md"
+            onClick={handleRevokeConfirm}
+          >
+            Revoke
+          </button>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useSession, signIn, signOut } from 'next-auth/react';
 import Sidebar from './Sidebar';
 import Header from './Header';
@@ -14,6 +14,14 @@ export default function Dashboard() {
   const { data: session, status } = useSession();
   const [showSignIn, setShowSignIn] = useState(false);
   const { showToast } = useToast();
+  // NEXT_PUBLIC_DEMO_MODE: `on` offers the demo, `true` skips Spotify and opens it
+  const demoMode = process.env.NEXT_PUBLIC_DEMO_MODE;
+
+  useEffect(() => {
+    if (status === 'unauthenticated' && demoMode === 'true') {
+      signIn('demo', { callbackUrl: window.location.href });
+    }
+  }, [status, demoMode]);
 
   // Debug logging for session data
   console.log('🔍 Dashboard - Session data:', {
@@ -76,6 +84,15 @@ export default function Dashboard() {
               Connect with Spotify
             </span>
           </button>
+          {(demoMode === 'on' || demoMode === 'true') && (
+            <button
+              onClick={() => signIn('demo', { callbackUrl: window.location.href })}
+              className="mt-4 w-full px-8 py-3 rounded-2xl text-lg font-semibold text-white border border-[#1DB954]/40 hover:bg-[#1DB954]/10 transition-all duration-300"
+            >
+              Try demo
+              <span className="block text-sm font-normal text-gray-400">Explore a sample library, no Spotify account needed</span>
+            </button>
+          )}
           <button
             onClick={() => setShowSignIn(false)}
             className="mt-6 text-gray-400 hover:text-white underline transition-colors duration-200 font-medium"
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useToast } from './Toast';
+import { useAccounts } from './Providers';
 import LoadingSpinner from './LoadingSpinner';
 
 interface Track {
@@ -30,6 +31,7 @@ export default function GenreTracksModal({
   const [tracks, setTracks] = useState<Track[]>([]);
   const [loading, setLoading] = useState(false);
   const { showToast } = useToast();
+  const { withAccount } = useAccounts();
 
   useEffect(() => {
     if (isOpen && playlistId && selectedGenre) {
@@ -40,7 +42,7 @@ export default function GenreTracksModal({
   const fetchGenreTracks = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`/api/playlists/${playlistId}/tracks`);
+      const response = await fetch(withAccount(`/api/playlists/${playlistId}/tracks`));
       
       if (!response.ok) {
         if (response.status === 403) {
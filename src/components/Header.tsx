@@ -2,6 +2,7 @@
 
 import { useSession, signIn, signOut } from 'next-auth/react';
 import { useState, useEffect } from 'react';
+import AccountSwitcher from './AccountSwitcher';
 
 interface HeaderProps {
   onMenuClick?: () => void;
@@ -63,6 +64,20 @@ export default function Header({ onMenuClick }: HeaderProps) {
 
         {/* Right side - User menu */}
         <div className="flex items-center space-x-3 lg:space-x-6">
+          {/* Demo sessions show sample data and can't link accounts */}
+          {session?.demo && (
+            <span className="px-2 py-1 rounded-full bg-[#1DB954]/20 text-[#1DB954] text-xs font-semibold" title="You are exploring a sample library">
+              Demo
+            </span>
+          )}
+
+          {/* Account switcher - only once the session has accounts */}
+          {session && !session.demo && (
+            <div className="hidden md:block">
+              <AccountSwitcher />
+            </div>
+          )}
+
           {/* User info - Mobile optimized */}
           <div className="flex items-center space-x-2 lg:space-x-3 p-1 lg:p-2">
             {session?.user?.image ? (
@@ -1,10 +1,12 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { useSession } from 'next-auth/react';
+import { useSession, signIn } from 'next-auth/react';
 import { useToast } from './Toast';
+import { useAccounts } from './Providers';
 import LoadingSpinner from './LoadingSpinner';
 import PlaylistGenresModal from './PlaylistGenresModal';
+import type { ApiErrorBody } from '@/lib/apiErrors';
 
 interface SpotifyPlaylist {
   id: string;
@@ -28,9 +30,11 @@ interface SpotifyPlaylist {
 export default function MobilePlaylistView() {
   const { data: session } = useSession();
   const { showToast } = useToast();
+  const { activeAccountId, withAccount } = useAccounts();
   const [playlists, setPlaylists] = useState<SpotifyPlaylist[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [errorDetails, setErrorDetails] = useState<ApiErrorBody | null>(null);
   const [retryCount, setRetryCount] = useState(0);
   const [selectedPlaylist, setSelectedPlaylist] = useState<SpotifyPlaylist | null>(null);
   const [showActions, setShowActions] = useState(false);
@@ -44,27 +48,29 @@ export default function MobilePlaylistView() {
     if (session?.accessToken) {
       fetchPlaylists();
     }
-  }, [session]);
+  }, [session, activeAccountId]);
 
   const fetchPlaylists = async (isRetry = false, offset = 0, existingPlaylists: SpotifyPlaylist[] = []) => {
     try {
       if (offset === 0) {
         setLoading(true);
         setError(null);
+        setErrorDetails(null);
       }
       
       // Use full pagination to get ALL playlists at once
-      const response = await fetch(`/api/playlists?full=true`);
+      const response = await fetch(withAccount('/api/playlists?full=true'));
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
+        const errorData: Partial<ApiErrorBody> = await response.json().catch(() => ({}));
+        setErrorDetails(errorData.code ? errorData as ApiErrorBody : null);
         
-        if (response.status === 403) {
+        if (errorData.code === 'FORBIDDEN' || response.status === 403) {
           const errorMessage = '🚫 Access Forbidden: Your Spotify app is in Development Mode. Only test users can access it. To fix this: 1) Go to Spotify Developer Dashboard, 2) Add your email as a test user, or 3) Switch to Production Mode (requires business verification).';
           setError(errorMessage);
           showToast('Development Mode restriction detected', 'error');
           
 
-        } else if (response.status === 401) {
+        } else if (errorData.code === 'AUTH_FAILED' || errorData.code === 'UNAUTHENTICATED' || response.status === 401) {
           const errorMessage = '🔐 Authentication Failed: Your Spotify session has expired. Please refresh the page and sign in again.';
           setError(errorMessage);
           showToast('Session expired - please sign in again', 'error');
@@ -72,7 +78,8 @@ export default function MobilePlaylistView() {
 
         } else if (response.status === 429 && !isRetry && retryCount < 3) {
           setRetryCount(prev => prev + 1);
-          const retryDelay = 2000 * (retryCount + 1);
+          // Wait as long as Spotify asked us to, falling back to a growing delay
+          const retryDelay = errorData.retryAfter ? errorData.retryAfter * 1000 : 2000 * (retryCount + 1);
           showToast(`Rate limit exceeded. Retrying in ${retryDelay/1000}s...`, 'info');
           
           setTimeout(() => fetchPlaylists(true, offset, existingPlaylists), retryDelay);
@@ -128,7 +135,7 @@ export default function MobilePlaylistView() {
         
         const batchPromises = batch.map(async (playlist) => {
           try {
-            const response = await fetch(`/api/playlists/${playlist.id}/like`);
+            const response = await fetch(withAccount(`/api/playlists/${playlist.id}/like`));
             if (response.ok) {
               const data = await response.json();
               return { id: playlist.id, isLiked: data.isLiked };
@@ -182,7 +189,7 @@ export default function MobilePlaylistView() {
       const isCurrentlyLiked = likedPlaylists.has(playlistId);
       const action = isCurrentlyLiked ? 'unlike' : 'like';
       
-      const response = await fetch(`/api/playlists/${playlistId}/like`, {
+      const response = await fetch(withAccount(`/api/playlists/${playlistId}/like`), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -283,9 +290,9 @@ export default function MobilePlaylistView() {
   }
 
   if (error) {
-    const isRateLimitError = error.includes('429') || error.includes('rate limit');
-    const isPermissionError = error.includes('403') || error.includes('permission');
-    const isAuthError = error.includes('401') || error.includes('unauthorized');
+    const isRateLimitError = errorDetails?.code === 'RATE_LIMIT';
+    const isPermissionError = errorDetails?.code === 'FORBIDDEN';
+    const isAuthError = errorDetails?.code === 'AUTH_FAILED' || errorDetails?.code === 'UNAUTHENTICATED';
     
     return (
       <div className="text-center py-8 px-4">
@@ -318,23 +325,29 @@ export default function MobilePlaylistView() {
         
         <p className="text-gray-400 mb-4 text-sm max-w-sm mx-auto">
           {isRateLimitError ? 
-            'Spotify API rate limit exceeded. Please wait a moment and try again.' :
+            (errorDetails?.retryAfter !== undefined
+              ? `Spotify API rate limit exceeded. Please wait ${Math.ceil(errorDetails.retryAfter)} seconds and try again.`
+              : 'Spotify API rate limit exceeded. Please wait a moment and try again.') :
            isPermissionError ? 
             'Some playlists may not be accessible due to privacy settings. This is normal for collaborative playlists.' :
            isAuthError ? 
-            'Authentication failed. Please refresh the page and try again.' :
+            'Authentication failed. Please sign in again.' :
            error}
         </p>
+
+        {errorDetails?.solution && (
+          <p className="text-gray-500 mb-4 text-xs max-w-sm mx-auto">💡 {errorDetails.solution}</p>
+        )}
         
         <div className="flex gap-2 justify-center">
           <button 
-            onClick={handleRetry}
+            onClick={isAuthError ? () => signIn('spotify') : handleRetry}
             className="bg-[#1DB954] hover:bg-[#1ed760] text-white px-4 py-2 rounded-xl font-semibold transition-all duration-200 shadow-lg text-sm flex items-center gap-2"
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
             </svg>
-            Try Again
+            {isAuthError ? 'Sign In Again' : 'Try Again'}
           </button>
           
           {isRateLimitError && (
@@ -1,59 +1,83 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useToast } from './Toast';
-
-// Interface para el perfil musical (igual que en el endpoint)
-interface MusicalProfile {
-  playlistId: string;
-  playlistName: string;
-  totalTracks: number;
-  genreAnalysis: {
-    topGenres: Array<{ genre: string; count: number; percentage: number }>;
-    genreDiversity: number;
-    dominantGenre: string;
-  };
-  audioAnalysis: {
-    averageEnergy: number;
-    averageDanceability: number;
-    averageValence: number;
-    averageTempo: number;
-    averageAcousticness: number;
-    averageInstrumentalness: number;
-    mood: 'energetic' | 'chill' | 'happy' | 'melancholic' | 'mixed';
-  };
-  artistAnalysis: {
-    uniqueArtists: number;
-    topArtists: Array<{ name: string; trackCount: number }>;
-    artistDiversity: number;
-  };
-  recommendations: {
-    similarGenres: string[];
-    recommendedArtists: Array<{ name: string; genre: string; reason: string }>;
-    recommendedSongs: Array<{ title: string; artist: string; genre: string; reason: string; year?: number; spotifyUrl?: string }>;
-    moodSuggestions: string[];
-    energyLevel: 'low' | 'medium' | 'high';
-    playlistSuggestions: string[];
-    discoveryTips: string[];
-  };
-  analyzedAt: string;
-}
+import { useAccounts, useSettings } from './Providers';
+import type { AnalysisJob } from '@/lib/analysisJobs';
+import type { AnalysisCacheInfo } from '@/lib/analysisCache';
+import type {
+  AnalysisProgress,
+  AnalysisSections,
+  MusicalProfile as MusicalProfileData,
+  RecommendedSong
+} from '@/lib/analysis';
 
 interface MusicalProfileProps {
   playlistId: string;
   onClose?: () => void;
 }
 
+// Cada cuánto se consulta el avance del análisis
+const POLL_INTERVAL_MS = 1000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface AnalysisResultData {
+  profile: MusicalProfileData;
+  cache: AnalysisCacheInfo;
+  partial?: boolean;
+}
+
+// Texto y porcentaje de la barra para el avance de un trabajo de análisis
+function describeProgress(job: AnalysisJob): { text: string; percent: number } {
+  const progress: AnalysisProgress = job.progress;
+  const ratio = (done: number, total: number | null) => (total ? Math.min(done / total, 1) : 0);
+  if (job.status === 'queued') return { text: 'Waiting for the analysis to start...', percent: 0 };
+  switch (progress.stage) {
+    case 'tracks':
+      return {
+        text: progress.totalTracks
+          ? `Fetching tracks ${progress.tracksFetched} of ${progress.totalTracks}...`
+          : 'Fetching tracks...',
+        percent: 50 * ratio(progress.tracksFetched, progress.totalTracks)
+      };
+    case 'artists':
+      return {
+        text: `Looking up artists ${progress.artistsResolved} of ${progress.totalArtists ?? '?'}...`,
+        percent: 50 + 25 * ratio(progress.artistsResolved, progress.totalArtists)
+      };
+    case 'features':
+      return {
+        text: `Reading audio features ${progress.featuresFetched} of ${progress.totalFeatures ?? '?'}...`,
+        percent: 75 + 20 * ratio(progress.featuresFetched, progress.totalFeatures)
+      };
+    default:
+      return { text: 'Building recommendations...', percent: 95 };
+  }
+}
+
 export default function MusicalProfile({ playlistId, onClose }: MusicalProfileProps) {
-  const [profile, setProfile] = useState<MusicalProfile | null>(null);
+  const [profile, setProfile] = useState<MusicalProfileData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [progress, setProgress] = useState<string>('');
+  const [progress, setProgress] = useState<{ text: string; percent: number } | null>(null);
+  // De dónde salió el perfil mostrado: análisis nuevo o guardado, y si ya es viejo
+  const [cacheInfo, setCacheInfo] = useState<AnalysisCacheInfo | null>(null);
+  // Al análisis le faltaron datos de Spotify; no se guardó en la caché
+  const [partial, setPartial] = useState(false);
+  // Partes del análisis ya listas, que se muestran mientras termina
+  const [sections, setSections] = useState<AnalysisSections>({});
+  // Trabajo de análisis en curso, para poder cancelarlo
+  const jobIdRef = useRef<string | null>(null);
+  // Se incrementa para dejar de consultar un análisis anterior
+  const pollGenerationRef = useRef(0);
   const { showToast } = useToast();
+  const { withAccount } = useAccounts();
+  const { settings } = useSettings();
 
   // Add playlist selection state
   const [showAddToPlaylistModal, setShowAddToPlaylistModal] = useState(false);
-  const [selectedSong, setSelectedSong] = useState<{ title: string; artist: string; genre: string; reason: string; year?: number; spotifyUrl?: string } | null>(null);
+  const [selectedSong, setSelectedSong] = useState<RecommendedSong | null>(null);
   const [userPlaylists, setUserPlaylists] = useState<Array<{ id: string; name: string; tracks: { total: number } }>>([]);
   const [loadingPlaylists, setLoadingPlaylists] = useState(false);
   const [addingToPlaylist, setAddingToPlaylist] = useState(false);
@@ -62,65 +86,144 @@ export default function MusicalProfile({ playlistId, onClose }: MusicalProfilePr
 
   // Cargar el perfil musical cuando el componente se monta
   useEffect(() => {
+    const pollGeneration = pollGenerationRef;
     fetchMusicalProfile();
+    // Al desmontar se deja de consultar; el análisis sigue en el servidor y se
+    // retoma si el perfil se vuelve a abrir
+    return () => {
+      pollGeneration.current++;
+    };
   }, [playlistId]);
 
-  const fetchMusicalProfile = async () => {
+  // Análisis en la misma petición, para servidores sin trabajos en segundo plano
+  const analyzeInRequest = async (refresh: boolean): Promise<AnalysisResultData> => {
+    setProgress({ text: 'Analyzing playlist...', percent: 10 });
+    const url = `/api/analysis/playlist/${encodeURIComponent(playlistId)}${refresh ? '?refresh=true' : ''}`;
+    const response = await fetch(withAccount(url));
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || data.error || 'Failed to analyze playlist');
+    }
+    return data;
+  };
+
+  // Consulta el avance del trabajo hasta que termine; null si se canceló o si
+  // otro análisis lo reemplazó
+  const followJob = async (
+    submitted: { job: AnalysisJob; result?: AnalysisResultData },
+    generation: number
+  ): Promise<AnalysisResultData | null> => {
+    jobIdRef.current = submitted.job.id;
+    // Con un resultado guardado para esta versión de la playlist, el trabajo ya viene terminado
+    let data: { job: AnalysisJob; result: AnalysisResultData | null } = {
+      job: submitted.job,
+      result: submitted.result ?? null
+    };
+    while (data.job.status === 'queued' || data.job.status === 'running') {
+      setProgress(describeProgress(data.job));
+      setSections(data.job.sections);
+      await wait(POLL_INTERVAL_MS);
+      if (generation !== pollGenerationRef.current) return null;
+
+      const response = await fetch(`/api/analysis/jobs/${data.job.id}`);
+      data = await response.json();
+      if (!response.ok) {
+        throw new Error((data as { message?: string }).message || 'Failed to analyze playlist');
+      }
+    }
+    if (generation !== pollGenerationRef.current) return null;
+    jobIdRef.current = null;
+
+    if (data.job.status === 'cancelled') {
+      setError('The analysis was cancelled');
+      return null;
+    }
+    if (data.job.status === 'failed' || !data.result) {
+      throw new Error(data.job.error?.message || 'Failed to analyze playlist');
+    }
+    return data.result;
+  };
+
+  // `refresh` vuelve a analizar aunque haya un resultado guardado
+  const fetchMusicalProfile = async (refresh = false) => {
+    const generation = ++pollGenerationRef.current;
     try {
       setLoading(true);
       setError(null);
-      setProgress('Starting analysis...');
+      setProgress({ text: 'Starting analysis...', percent: 0 });
+      setSections({});
       
       console.log('🎵 Fetching musical profile for playlist:', playlistId);
       
-      // Simulate progress updates for large playlists
-      const progressInterval = setInterval(() => {
-        setProgress(prev => {
-          if (prev.includes('Fetching tracks')) {
-            const current = parseInt(prev.match(/\d+/)?.[0] || '0');
-            return `Fetching tracks ${current + 100}-${current + 200}...`;
-          }
-          return 'Analyzing genres and artists...';
-        });
-      }, 2000);
-
-      const response = await fetch(`/api/analysis/playlist/${playlistId}`);
-      const data = await response.json();
-
-      clearInterval(progressInterval);
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to analyze playlist');
+      // El análisis corre en segundo plano y se sigue su avance; un servidor que
+      // no puede tener trabajos en segundo plano lo hace en la misma petición
+      const submitResponse = await fetch(withAccount('/api/analysis/jobs'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playlistId, refresh })
+      });
+      const submitted = await submitResponse.json();
+      let result: AnalysisResultData | null;
+      if (submitted.code === 'JOBS_UNAVAILABLE') {
+        result = await analyzeInRequest(refresh);
+      } else if (!submitResponse.ok) {
+        throw new Error(submitted.error || 'Failed to analyze playlist');
+      } else {
+        result = await followJob(submitted, generation);
       }
+      if (!result || generation !== pollGenerationRef.current) return;
 
-      setProfile(data.profile);
-      console.log('✅ Musical profile loaded successfully:', data.profile);
+      setProfile(result.profile);
+      setCacheInfo(result.cache);
+      setPartial(result.partial === true);
+      console.log('✅ Musical profile loaded successfully:', result.profile);
       
-      // Save profile to localStorage
-      await saveProfileToStorage(data.profile);
+      // Save profile to the user's library; a cached one was saved when it was analyzed
+      if (!result.cache.cached) {
+        await saveProfileToLibrary(result.profile);
+      }
     } catch (err: any) {
+      if (generation !== pollGenerationRef.current) return;
       console.error('❌ Error fetching musical profile:', err);
       setError(err.message || 'Failed to analyze playlist');
       showToast(err.message || 'Failed to analyze playlist', 'error');
     } finally {
-      setLoading(false);
-      setProgress('');
+      // Un análisis abandonado no debe tocar el estado del que lo reemplazó
+      if (generation === pollGenerationRef.current) {
+        setLoading(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  // Cancela el análisis en curso en el servidor
+  const cancelAnalysis = async () => {
+    const jobId = jobIdRef.current;
+    pollGenerationRef.current++;
+    jobIdRef.current = null;
+    setLoading(false);
+    setProgress(null);
+    setError('The analysis was cancelled');
+    if (!jobId) return;
+    try {
+      await fetch(`/api/analysis/jobs/${jobId}`, { method: 'DELETE' });
+    } catch (err) {
+      console.error('❌ Error cancelling analysis:', err);
     }
   };
 
-  // Function to save profile to localStorage
-  const saveProfileToStorage = async (profileData: MusicalProfile) => {
+  // Function to save profile to the user's library on the server
+  const saveProfileToLibrary = async (profileData: MusicalProfileData) => {
     try {
       // Check if auto-save is enabled
-      const autoSaveEnabled = localStorage.getItem('autoSaveProfiles');
-      if (autoSaveEnabled === 'false') {
+      if (!settings.autoSaveProfiles) {
         return; // Don't save if auto-save is disabled
       }
       
       // Get playlist information to get the image
       let playlistImage = '';
       try {
-        const response = await fetch('/api/playlists');
+        const response = await fetch(withAccount('/api/playlists'));
         if (response.ok) {
           const data = await response.json();
           const playlist = data.playlists?.find((p: any) => p.id === profileData.playlistId);
@@ -132,34 +235,18 @@ export default function MusicalProfile({ playlistId, onClose }: MusicalProfilePr
         console.error('Error fetching playlist image:', error);
       }
       
-      const savedProfiles = localStorage.getItem('spotify-musical-profiles');
-      const profiles = savedProfiles ? JSON.parse(savedProfiles) : [];
-      
-      // Check if profile already exists
-      const existingIndex = profiles.findIndex((p: any) => p.playlistId === profileData.playlistId);
-      
-      const profileToSave = {
-        id: `${profileData.playlistId}-${Date.now()}`,
-        playlistId: profileData.playlistId,
-        playlistName: profileData.playlistName,
-        playlistImage: playlistImage,
-        analyzedAt: profileData.analyzedAt,
-        totalTracks: profileData.totalTracks,
-        dominantGenre: profileData.genreAnalysis.dominantGenre,
-        mood: profileData.audioAnalysis.mood,
-        energyLevel: profileData.recommendations.energyLevel,
-        profile: profileData
-      };
-      
-      if (existingIndex >= 0) {
-        // Update existing profile
-        profiles[existingIndex] = profileToSave;
-      } else {
-        // Add new profile
-        profiles.push(profileToSave);
+      // The server replaces any profile already saved for this playlist
+      const response = await fetch('/api/profiles', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ profile: profileData, playlistImage: playlistImage || undefined }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to save profile');
       }
-      
-      localStorage.setItem('spotify-musical-profiles', JSON.stringify(profiles));
       showToast('Profile saved to your library', 'success');
     } catch (error) {
       console.error('Error saving profile:', error);
@@ -223,7 +310,7 @@ export default function MusicalProfile({ playlistId, onClose }: MusicalProfilePr
   const fetchUserPlaylists = async () => {
     try {
       setLoadingPlaylists(true);
-              const response = await fetch('/api/playlists?limit=10');
+              const response = await fetch(withAccount('/api/playlists?limit=10'));
       if (!response.ok) {
         throw new Error('Failed to fetch playlists');
       }
@@ -265,7 +352,7 @@ export default function MusicalProfile({ playlistId, onClose }: MusicalProfilePr
       }
 
       // Add track to playlist
-      const response = await fetch(`/api/playlists/${playlistId}/add-tracks`, {
+      const response = await fetch(withAccount(`/api/playlists/${playlistId}/add-tracks`), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -293,7 +380,7 @@ export default function MusicalProfile({ playlistId, onClose }: MusicalProfilePr
   };
 
   // Function to open add to playlist modal
-  const handleAddToPlaylist = (song: { title: string; artist: string; genre: string; reason: string; year?: number; spotifyUrl?: string }) => {
+  const handleAddToPlaylist = (song: RecommendedSong) => {
     setSelectedSong(song);
     setShowAddToPlaylistModal(true);
     fetchUserPlaylists();
@@ -309,12 +396,49 @@ export default function MusicalProfile({ playlistId, onClose }: MusicalProfilePr
           <div className="w-8 h-8 border-4 border-[#1DB954] border-t-transparent rounded-full animate-spin"></div>
           <p className="text-white text-lg text-center">Analyzing your music...</p>
           {progress && (
-            <p className="text-gray-400 text-sm text-center">{progress}</p>
+            <p className="text-gray-400 text-sm text-center">{progress.text}</p>
           )}
           <div className="w-full max-w-xs bg-[#404040] rounded-full h-2">
-            <div className="bg-[#1DB954] h-2 rounded-full animate-pulse" style={{ width: '60%' }}></div>
+            <div className="bg-[#1DB954] h-2 rounded-full transition-all duration-500" style={{ width: `${Math.max(progress?.percent ?? 0, 5)}%` }}></div>
           </div>
+          <button
+            onClick={cancelAnalysis}
+            className="text-gray-400 hover:text-white text-sm underline transition-colors"
+          >
+            Cancel
+          </button>
         </div>
+
+        {(sections.artists || sections.genres || sections.audio) && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4 mt-6">
+            {sections.artists && (
+              <div className="bg-[#282828] rounded-lg p-3 sm:p-4">
+                <div className="text-gray-400 text-xs sm:text-sm mb-2">Top Artists</div>
+                {sections.artists.artistAnalysis.topArtists.slice(0, 3).map(artist => (
+                  <div key={artist.name} className="text-white text-sm truncate">{artist.name}</div>
+                ))}
+              </div>
+            )}
+            {sections.genres && (
+              <div className="bg-[#282828] rounded-lg p-3 sm:p-4">
+                <div className="text-gray-400 text-xs sm:text-sm mb-2">Top Genres</div>
+                {sections.genres.genreAnalysis.topGenres.slice(0, 3).map(genre => (
+                  <div key={genre.genre} className="text-white text-sm truncate">
+                    {genre.genre} <span className="text-gray-400">{formatPercentage(genre.percentage)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {sections.audio && (
+              <div className="bg-[#282828] rounded-lg p-3 sm:p-4">
+                <div className="text-gray-400 text-xs sm:text-sm mb-2">General Mood</div>
+                <div className={`text-xl font-bold ${getMoodColor(sections.audio.audioAnalysis.mood)}`}>
+                  {getMoodIcon(sections.audio.audioAnalysis.mood)} {sections.audio.audioAnalysis.mood}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
       </div>
     );
   }
@@ -330,7 +454,7 @@ export default function MusicalProfile({ playlistId, onClose }: MusicalProfilePr
           <h3 className="text-xl font-bold text-white mb-2">Analysis Error</h3>
           <p className="text-gray-400 mb-4">{error}</p>
           <button
-            onClick={fetchMusicalProfile}
+            onClick={() => fetchMusicalProfile()}
             className="bg-[#1DB954] hover:bg-[#1ed760] text-white px-6 py-2 rounded-lg font-semibold transition-colors"
           >
             Try Again
@@ -370,7 +494,24 @@ export default function MusicalProfile({ playlistId, onClose }: MusicalProfilePr
             <h2 className="text-xl sm:text-2xl font-bold text-white">Musical Profile</h2>
             <p className="text-white/80 text-xs sm:text-sm">
               Analyzed on {formatDate(profile.analyzedAt)}
+              {cacheInfo?.stale && (
+                <span className="ml-2 bg-yellow-400/90 text-black px-2 py-0.5 rounded-full text-xs font-semibold">Stale</span>
+              )}
+              {partial && (
+                <span
+                  className="ml-2 bg-orange-400/90 text-black px-2 py-0.5 rounded-full text-xs font-semibold"
+                  title="Some data could not be loaded from Spotify. Re-analyze to try again."
+                >
+                  Partial
+                </span>
+              )}
             </p>
+            <button
+              onClick={() => fetchMusicalProfile(true)}
+              className="mt-1 text-white text-xs sm:text-sm underline hover:text-gray-200 transition-colors"
+            >
+              Re-analyze
+            </button>
           </div>
           <div className="text-right">
             <div className="text-white text-2xl sm:text-3xl font-bold">{profile.totalTracks}</div>
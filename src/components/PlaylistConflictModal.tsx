@@ -0,0 +1,87 @@
+'use client';
+
+import Modal from './Modal';
+import type { ApiErrorBody } from '@/lib/apiErrors';
+
+export type PlaylistConflict = NonNullable<ApiErrorBody['conflict']>;
+
+interface PlaylistConflictModalProps {
+  conflict: PlaylistConflict | null;
+  playlistName?: string;
+  onClose: () => void;
+  // Drop the pending change and load the playlist as it is now
+  onReload: () => void;
+  // Send the pending change again without the snapshot check
+  onForce: () => void;
+}
+
+// Shown when an edit is answered with 409 CONFLICT: the playlist was changed
+// elsewhere since it was loaded, so the user picks between reloading and
+// applying the change anyway.
+export default function PlaylistConflictModal({
+  conflict,
+  playlistName,
+  onClose,
+  onReload,
+  onForce
+}: PlaylistConflictModalProps) {
+  const diff = conflict?.diff;
+
+  return (
+    <Modal open={conflict !== null} onClose={onClose} title="Playlist changed">
+      <div className="mb-4 text-white">
+        {playlistName ? <span className="font-bold">{playlistName}</span> : 'This playlist'} was changed in Spotify since you loaded it.
+      </div>
+
+      {diff ? (
+        <div className="mb-6 space-y-3 text-sm text-gray-300">
+          {diff.addedCount > 0 && (
+            <div>
+              <div className="font-semibold text-[#1DB954]">{diff.addedCount} track(s) added</div>
+              <ul className="mt-1 max-h-32 overflow-y-auto">
+                {diff.added.map(entry => (
+                  <li key={`added-${entry.uri}-${entry.position}`} className="truncate">
+                    + {entry.name}{entry.artists && ` - ${entry.artists}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {diff.removedCount > 0 && (
+            <div>
+              <div className="font-semibold text-red-400">{diff.removedCount} track(s) removed</div>
+              <ul className="mt-1 max-h-32 overflow-y-auto">
+                {diff.removed.map(entry => (
+                  <li key={`removed-${entry.uri}-${entry.position}`} className="truncate">
+                    - {entry.name}{entry.artists && ` - ${entry.artists}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {diff.reordered && <div>Some tracks were moved.</div>}
+          {diff.addedCount === 0 && diff.removedCount === 0 && !diff.reordered && (
+            <div>The tracks are the same; the name, description or other details may have changed.</div>
+          )}
+        </div>
+      ) : (
+        <div className="mb-6 text-sm text-gray-300">The changes can&apos;t be listed because the previous version is no longer available.</div>
+      )}
+
+      <div className="flex justify-end gap-4">
+        <button
+          className="px-4 py-2 rounded-lg bg-gray-700 text-white hover:bg-gray-600"
+          onClick={onReload}
+        >
+          Reload
+        </button>
+        <button
+          className="px-6 py-2 rounded-lg bg-[#1DB954] text-white font-semibold hover:bg-[#1ed760] shadow-md"
+          onClick={onForce}
+        >
+          Apply anyway
+        </button>
+      </div>
+    </Modal>
+  );
+}
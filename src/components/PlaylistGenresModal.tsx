@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useToast } from './Toast';
+import { useAccounts } from './Providers';
 import LoadingSpinner from './LoadingSpinner';
 import GenreTracksModal from './GenreTracksModal';
 
@@ -29,6 +30,7 @@ export default function PlaylistGenresModal({
   const [selectedGenre, setSelectedGenre] = useState<string>('');
   const [showGenreTracks, setShowGenreTracks] = useState(false);
   const { showToast } = useToast();
+  const { withAccount } = useAccounts();
 
   useEffect(() => {
     if (isOpen && playlistId) {
@@ -39,7 +41,7 @@ export default function PlaylistGenresModal({
   const fetchPlaylistGenres = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`/api/playlists/${playlistId}/tracks`);
+      const response = await fetch(withAccount(`/api/playlists/${playlistId}/tracks`));
       
       if (!response.ok) {
         if (response.status === 403) {
@@ -1,9 +1,12 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback, Fragment } from 'react';
-import { useSession } from 'next-auth/react';
+import { useSession, signIn } from 'next-auth/react';
 import { useToast } from './Toast';
 import Modal from './Modal';
+import { useAccounts } from './Providers';
+import PlaylistConflictModal, { PlaylistConflict } from './PlaylistConflictModal';
+import type { ApiErrorBody } from '@/lib/apiErrors';
 
 import MusicalProfile from './MusicalProfile';
 
@@ -34,7 +37,7 @@ interface PlaylistGridProps {
   viewMode?: 'grid' | 'compact';
 }
 
-function PlaylistContextMenu({ onEdit, onDelete, onShare, onClose, anchorRef }: any) {
+function PlaylistContextMenu({ onEdit, onDelete, onShare, onCopy, onClose, anchorRef }: any) {
   // Close on click outside
   useEffect(() => {
     function handle(e: MouseEvent) {
@@ -49,6 +52,9 @@ function PlaylistContextMenu({ onEdit, onDelete, onShare, onClose, anchorRef }:
       <button className="w-full text-left px-4 py-2 hover:bg-[#1DB954]/20 text-white" onClick={onEdit}>Edit</button>
       <button className="w-full text-left px-4 py-2 hover:bg-red-600/20 text-red-400" onClick={onDelete}>Delete</button>
       <button className="w-full text-left px-4 py-2 hover:bg-[#1DB954]/20 text-white" onClick={onShare}>Share</button>
+      {onCopy && (
+        <button className="w-full text-left px-4 py-2 hover:bg-[#1DB954]/20 text-white" onClick={onCopy}>Copy to account</button>
+      )}
     </div>
   );
 }
@@ -56,10 +62,12 @@ function PlaylistContextMenu({ onEdit, onDelete, onShare, onClose, anchorRef }:
 export default function PlaylistGrid({ playlists: propPlaylists, customTitle, viewMode: propViewMode }: PlaylistGridProps) {
   const { data: session } = useSession();
   const { showToast } = useToast();
+  const { accounts, activeAccountId, setActiveAccountId, withAccount } = useAccounts();
 
   const [playlists, setPlaylists] = useState<SpotifyPlaylist[]>(propPlaylists || []);
   const [loading, setLoading] = useState(!propPlaylists);
   const [error, setError] = useState<string | null>(null);
+  const [errorDetails, setErrorDetails] = useState<ApiErrorBody | null>(null);
   const [retryCount, setRetryCount] = useState(0);
   const [selectedPlaylist, setSelectedPlaylist] = useState<SpotifyPlaylist | null>(null);
   const [menuOpenId, setMenuOpenId] = useState<string | null>(null);
@@ -69,12 +77,18 @@ export default function PlaylistGrid({ playlists: propPlaylists, customTitle, vi
   const [editPlaylist, setEditPlaylist] = useState<SpotifyPlaylist | null>(null);
   const [editName, setEditName] = useState('');
   const [editDesc, setEditDesc] = useState('');
+  // Set when the playlist changed in Spotify after it was loaded
+  const [editConflict, setEditConflict] = useState<PlaylistConflict | null>(null);
   // Delete confirmation state
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [deletePlaylist, setDeletePlaylist] = useState<SpotifyPlaylist | null>(null);
   // Share modal state
   const [shareModalOpen, setShareModalOpen] = useState(false);
   const [sharePlaylist, setSharePlaylist] = useState<SpotifyPlaylist | null>(null);
+  // Copy-to-account modal state
+  const [copyPlaylist, setCopyPlaylist] = useState<SpotifyPlaylist | null>(null);
+  const [copyTargetId, setCopyTargetId] = useState('');
+  const [copying, setCopying] = useState(false);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [typeFilter, setTypeFilter] = useState<'all' | 'mixed' | 'regular' | 'favorites'>('all');
   const [searchQuery, setSearchQuery] = useState('');
@@ -97,35 +111,43 @@ export default function PlaylistGrid({ playlists: propPlaylists, customTitle, vi
       setPlaylists(propPlaylists);
       setLoading(false);
     }
-  }, [session, propPlaylists]);
+  }, [session, propPlaylists, activeAccountId]);
 
   const fetchPlaylists = async (isRetry = false, offset = 0, existingPlaylists: SpotifyPlaylist[] = []) => {
     try {
       if (offset === 0) {
         setLoading(true);
         setError(null);
+        setErrorDetails(null);
       } else {
         setIsLoadingMore(true);
       }
       
       // Use full pagination to get ALL playlists at once
-      const response = await fetch(`/api/playlists?full=true`);
+      const response = await fetch(withAccount('/api/playlists?full=true'));
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
+        const errorData: Partial<ApiErrorBody> = await response.json().catch(() => ({}));
+        setErrorDetails(errorData.code ? errorData as ApiErrorBody : null);
         
-        if (response.status === 403) {
+        if (errorData.code === 'FORBIDDEN' || response.status === 403) {
           const errorMessage = '🚫 Access Forbidden: Your Spotify app is in Development Mode. Only test users can access it. To fix this: 1) Go to Spotify Developer Dashboard, 2) Add your email as a test user, or 3) Switch to Production Mode (requires business verification).';
           setError(errorMessage);
           showToast('Development Mode restriction detected', 'error');
           
 
-        } else if (response.status === 401) {
+        } else if (errorData.code === 'AUTH_FAILED' || errorData.code === 'UNAUTHENTICATED' || response.status === 401) {
           const errorMessage = '🔐 Authentication Failed: Your Spotify session has expired. Please refresh the page and sign in again.';
           setError(errorMessage);
           showToast('Session expired - please sign in again', 'error');
           
+        } else if (errorData.code === 'ACCOUNT_RELINK_REQUIRED') {
+          setError('🔗 This Spotify account has to be linked again. Pick it in the account menu to link it.');
+          showToast('Linked account needs to be linked again', 'error');
+        } else if (errorData.code === 'ACCOUNT_NOT_LINKED') {
+          // The account was unlinked elsewhere; go back to the signed-in one
+          setActiveAccountId(null);
 
-        } else if (response.status === 429) {
+        } else if (errorData.code === 'RATE_LIMIT' || response.status === 429) {
 
           
 
@@ -133,7 +155,8 @@ export default function PlaylistGrid({ playlists: propPlaylists, customTitle, vi
           if (!isRetry && retryCount < 2) {
             // Retry rate limit errors up to 2 times with longer delays
             setRetryCount(prev => prev + 1);
-            const delay = 5000 * (retryCount + 1); // 5s, 10s delays
+            // Wait as long as Spotify asked us to, or 5s, 10s when it didn't say
+            const delay = errorData.retryAfter ? errorData.retryAfter * 1000 : 5000 * (retryCount + 1);
             showToast(`⏰ Rate limit exceeded. Retrying in ${delay/1000}s...`, 'info');
             setTimeout(() => fetchPlaylists(true, offset, existingPlaylists), delay);
             return;
@@ -202,10 +225,10 @@ export default function PlaylistGrid({ playlists: propPlaylists, customTitle, vi
     setEditModalOpen(true);
     setMenuOpenId(null);
   }, []);
-  const handleEditSave = async () => {
+  const handleEditSave = async (force = false) => {
     if (editPlaylist) {
       try {
-        const response = await fetch(`/api/playlists/${editPlaylist.id}/edit`, {
+        const response = await fetch(withAccount(`/api/playlists/${editPlaylist.id}/edit`), {
           method: 'PUT',
           headers: {
             'Content-Type': 'application/json',
@@ -213,16 +236,26 @@ export default function PlaylistGrid({ playlists: propPlaylists, customTitle, vi
           body: JSON.stringify({
             name: editName,
             description: editDesc,
-            public: editPlaylist.public
+            public: editPlaylist.public,
+            expectedSnapshotId: editPlaylist.snapshot_id,
+            force
           }),
         });
 
+        if (response.status === 409) {
+          const data: ApiErrorBody = await response.json();
+          if (data.conflict) {
+            setEditConflict(data.conflict);
+            return;
+          }
+        }
         if (!response.ok) {
           throw new Error('Failed to update playlist');
         }
+        const { snapshot_id } = await response.json();
 
         // Update local state
-        setPlaylists(prev => prev.map(p => p.id === editPlaylist.id ? { ...p, name: editName, description: editDesc } : p));
+        setPlaylists(prev => prev.map(p => p.id === editPlaylist.id ? { ...p, name: editName, description: editDesc, snapshot_id: snapshot_id ?? p.snapshot_id } : p));
         setEditModalOpen(false);
         showToast('Playlist updated successfully!', 'success');
       } catch (error) {
@@ -241,7 +274,7 @@ export default function PlaylistGrid({ playlists: propPlaylists, customTitle, vi
   const handleDeleteConfirm = async () => {
     if (deletePlaylist) {
       try {
-        const response = await fetch(`/api/playlists/${deletePlaylist.id}/delete`, {
+        const response = await fetch(withAccount(`/api/playlists/${deletePlaylist.id}/delete`), {
           method: 'DELETE',
         });
 
@@ -267,6 +300,44 @@ export default function PlaylistGrid({ playlists: propPlaylists, customTitle, vi
     setMenuOpenId(null);
   }, []);
 
+  // Copy logic: the other accounts the playlist can be copied into
+  const copyTargets = accounts.filter(account =>
+    account.id && !account.needsRelink && (activeAccountId ? account.id !== activeAccountId : !account.primary)
+  );
+  const handleCopy = useCallback((playlist: SpotifyPlaylist) => {
+    setCopyPlaylist(playlist);
+    setCopyTargetId('');
+    setMenuOpenId(null);
+  }, []);
+  const handleCopyConfirm = async () => {
+    if (!copyPlaylist || !copyTargetId) return;
+    setCopying(true);
+    try {
+      const response = await fetch(withAccount(`/api/playlists/${copyPlaylist.id}/copy`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ toAccountId: copyTargetId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to copy playlist');
+      }
+      const target = accounts.find(account => account.id === copyTargetId);
+      showToast(
+        `Copied ${data.copied} tracks to ${target?.displayName ?? 'the other account'}${data.skipped ? ` (${data.skipped} local files skipped)` : ''}`,
+        'success'
+      );
+      setCopyPlaylist(null);
+    } catch (error) {
+      console.error('Error copying playlist:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to copy playlist', 'error');
+    } finally {
+      setCopying(false);
+    }
+  };
+
   // Selection logic
   const toggleSelect = (id: string) => {
     setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
@@ -280,7 +351,7 @@ export default function PlaylistGrid({ playlists: propPlaylists, customTitle, vi
       const isCurrentlyLiked = likedPlaylists.has(playlistId);
       const action = isCurrentlyLiked ? 'unlike' : 'like';
       
-      const response = await fetch(`/api/playlists/${playlistId}/like`, {
+      const response = await fetch(withAccount(`/api/playlists/${playlistId}/like`), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -314,7 +385,7 @@ export default function PlaylistGrid({ playlists: propPlaylists, customTitle, vi
   const checkLikeStatuses = async () => {
     try {
       const promises = playlists.map(async (playlist) => {
-        const response = await fetch(`/api/playlists/${playlist.id}/like`);
+        const response = await fetch(withAccount(`/api/playlists/${playlist.id}/like`));
         if (response.ok) {
           const data = await response.json();
           return { id: playlist.id, isLiked: data.isLiked };
@@ -406,7 +477,7 @@ export default function PlaylistGrid({ playlists: propPlaylists, customTitle, vi
   const showGenresForPlaylist = async (playlist: SpotifyPlaylist) => {
     try {
       // Fetch enriched tracks for the playlist (with genres)
-      const response = await fetch(`/api/playlists/${playlist.id}/tracks`);
+      const response = await fetch(withAccount(`/api/playlists/${playlist.id}/tracks`));
       const data = await response.json();
       if (!response.ok) throw new Error(data.error || 'Failed to fetch tracks');
       // Aggregate genres
@@ -460,13 +531,40 @@ export default function PlaylistGrid({ playlists: propPlaylists, customTitle, vi
             </svg>
           </div>
           <h3 className="text-lg font-bold text-white mb-2">Error loading playlists</h3>
-          <p className="text-gray-400 mb-6">{error}</p>
-          <button 
-            onClick={handleRetry}
-            className="bg-[#1DB954] hover:bg-[#1ed760] text-white px-6 py-2 rounded-full font-semibold transition-colors shadow-md"
-          >
-            Try Again
-          </button>
+          <p className="text-gray-400 mb-2">{error}</p>
+          {errorDetails?.solution && (
+            <p className="text-gray-500 text-sm mb-6">💡 {errorDetails.solution}</p>
+          )}
+          {errorDetails?.code === 'RATE_LIMIT' && errorDetails.retryAfter !== undefined && (
+            <p className="text-orange-400 text-sm mb-6">Spotify asked us to wait {Math.ceil(errorDetails.retryAfter)} seconds before trying again.</p>
+          )}
+          <div className="flex gap-3 justify-center">
+            {errorDetails?.code === 'AUTH_FAILED' || errorDetails?.code === 'UNAUTHENTICATED' ? (
+              <button 
+                onClick={() => signIn('spotify')}
+                className="bg-[#1DB954] hover:bg-[#1ed760] text-white px-6 py-2 rounded-full font-semibold transition-colors shadow-md"
+              >
+                Sign in again
+              </button>
+            ) : (
+              <button 
+                onClick={handleRetry}
+                className="bg-[#1DB954] hover:bg-[#1ed760] text-white px-6 py-2 rounded-full font-semibold transition-colors shadow-md"
+              >
+                Try Again
+              </button>
+            )}
+            {errorDetails?.code === 'FORBIDDEN' && (
+              <a 
+                href="https://developer.spotify.com/dashboard"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="bg-[#2a2a2a] hover:bg-[#333333] text-white px-6 py-2 rounded-full font-semibold transition-colors border border-[#282828]"
+              >
+                Open Developer Dashboard
+              </a>
+            )}
+          </div>
         </div>
       </section>
     );
@@ -896,6 +994,7 @@ export default function PlaylistGrid({ playlists: propPlaylists, customTitle, vi
                     onEdit={() => handleEdit(playlist)}
                     onDelete={() => handleDelete(playlist)}
                     onShare={() => handleShare(playlist)}
+                    onCopy={copyTargets.length > 0 ? () => handleCopy(playlist) : undefined}
                     onClose={() => setMenuOpenId(null)}
                     anchorRef={{ current: menuButtonRefs.current[playlist.id] }}
                   />
@@ -957,6 +1056,22 @@ export default function PlaylistGrid({ playlists: propPlaylists, customTitle, vi
         </form>
       </Modal>
 
+      {/* Edit Conflict Modal */}
+      <PlaylistConflictModal
+        conflict={editConflict}
+        playlistName={editPlaylist?.name}
+        onClose={() => setEditConflict(null)}
+        onReload={() => {
+          setEditConflict(null);
+          setEditModalOpen(false);
+          fetchPlaylists();
+        }}
+        onForce={() => {
+          setEditConflict(null);
+          handleEditSave(true);
+        }}
+      />
+
       {/* Delete Confirmation Modal */}
       <Modal open={deleteConfirmOpen} onClose={() => setDeleteConfirmOpen(false)} title="Delete Playlist?">
         <div className="mb-6 text-white">Are you sure you want to delete <span className="font-bold">{deletePlaylist?.name}</span>? This cannot be undone.</div>
@@ -1006,6 +1121,38 @@ export default function PlaylistGrid({ playlists: propPlaylists, customTitle, vi
         </div>
       </Modal>
 
+      {/* Copy to Account Modal */}
+      <Modal open={copyPlaylist !== null} onClose={() => setCopyPlaylist(null)} title="Copy Playlist to Account">
+        <div className="mb-4 text-white">
+          Copy <span className="font-bold">{copyPlaylist?.name}</span> as a new private playlist in:
+        </div>
+        <select
+          className="w-full mb-6 px-4 py-2 rounded-lg bg-[#191414] text-white border border-[#282828] focus:ring-2 focus:ring-[#1DB954]"
+          value={copyTargetId}
+          onChange={e => setCopyTargetId(e.target.value)}
+        >
+          <option value="" disabled>Choose an account</option>
+          {copyTargets.map(account => (
+            <option key={account.id} value={account.id ?? ''}>{account.displayName}</option>
+          ))}
+        </select>
+        <div className="flex justify-end gap-4">
+          <button
+            className="px-4 py-2 rounded-lg bg-gray-700 text-white hover:bg-gray-600"
+            onClick={() => setCopyPlaylist(null)}
+          >
+            Cancel
+          </button>
+          <button
+            className="px-6 py-2 rounded-lg bg-[#1DB954] text-white font-semibold hover:bg-[#1ed760] shadow-md disabled:opacity-50"
+            onClick={handleCopyConfirm}
+            disabled={!copyTargetId || copying}
+          >
+            {copying ? 'Copying...' : 'Copy'}
+          </button>
+        </div>
+      </Modal>
+
       {/* Genres Modal */}
       {genresModalOpen && genresModalData && (
         <Modal open={genresModalOpen} onClose={() => setGenresModalOpen(false)} title={`Genres in "${genresModalData.playlistName}"`}>
@@ -0,0 +1,222 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Modal from './Modal';
+import LoadingSpinner from './LoadingSpinner';
+import PlaylistConflictModal, { PlaylistConflict } from './PlaylistConflictModal';
+import { useToast } from './Toast';
+import { useAccounts } from './Providers';
+import type { ApiErrorBody } from '@/lib/apiErrors';
+import type { PlaylistVersion } from '@/lib/playlistHistory';
+
+interface PlaylistHistoryProps {
+  playlistId: string;
+  playlistName?: string;
+  // Called after a restore changed the playlist
+  onRestored?: () => void;
+}
+
+// History tab of the playlist page: every stored version of the playlist with
+// the tracks added and removed since the one before, and a restore button.
+export default function PlaylistHistory({ playlistId, playlistName, onRestored }: PlaylistHistoryProps) {
+  const [versions, setVersions] = useState<PlaylistVersion[]>([]);
+  const [currentSnapshotId, setCurrentSnapshotId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState<PlaylistVersion | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [conflict, setConflict] = useState<{ version: PlaylistVersion; conflict: PlaylistConflict } | null>(null);
+  const { showToast } = useToast();
+  const { withAccount } = useAccounts();
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(withAccount(`/api/playlists/${playlistId}/history`));
+      if (!response.ok) throw new Error(`Failed to load playlist history (${response.status})`);
+      const data = await response.json();
+      setVersions(data.versions);
+      setCurrentSnapshotId(data.currentSnapshotId);
+    } catch (error) {
+      console.error('Error loading playlist history:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load playlist history');
+    } finally {
+      setLoading(false);
+    }
+  }, [playlistId, withAccount]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const restore = async (version: PlaylistVersion, force = false) => {
+    setRestoring(true);
+    try {
+      const response = await fetch(withAccount(`/api/playlists/${playlistId}/history/restore`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ snapshotId: version.snapshotId, expectedSnapshotId: currentSnapshotId, force })
+      });
+      if (response.status === 409) {
+        const data: ApiErrorBody = await response.json();
+        if (data.conflict) {
+          setConflict({ version, conflict: data.conflict });
+          return;
+        }
+      }
+      if (!response.ok) throw new Error('Failed to restore playlist');
+
+      const data = await response.json();
+      showToast(
+        data.skippedLocalFiles > 0
+          ? `Playlist restored; ${data.skippedLocalFiles} local file(s) could not be added back`
+          : 'Playlist restored',
+        'success'
+      );
+      await loadHistory();
+      onRestored?.();
+    } catch (error) {
+      console.error('Error restoring playlist:', error);
+      showToast('Failed to restore playlist', 'error');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center p-8">
+        <p className="text-gray-400 mb-4 text-sm">{error}</p>
+        <button
+          onClick={loadHistory}
+          className="bg-[#1DB954] hover:bg-[#1ed760] text-white px-4 py-2 rounded-xl font-semibold transition-all duration-200 shadow-lg text-sm"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-gray-400 text-sm">
+        A version is saved each time PlaylistIntel sees the playlist changed. Changes made while nobody opened it show up as one version.
+      </p>
+
+      {versions.map((version, index) => {
+        const changes = version.changes;
+        const isCurrent = version.snapshotId === currentSnapshotId;
+        return (
+          <div key={version.snapshotId} className="bg-[#1a1a1a] rounded-lg p-4 border border-[#282828]">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <div className="font-medium text-white">
+                  {new Date(version.seenAt).toLocaleString()}
+                  {isCurrent && <span className="ml-2 text-xs text-[#1DB954] font-semibold">Current</span>}
+                </div>
+                <div className="text-gray-400 text-xs">
+                  {version.itemCount} tracks
+                  {version.restoredFrom && ' • restored from an earlier version'}
+                </div>
+              </div>
+              {!isCurrent && (
+                <button
+                  onClick={() => setConfirming(version)}
+                  disabled={restoring}
+                  className="bg-[#2a2a2a] hover:bg-[#333] text-white px-3 py-1.5 rounded-lg text-xs font-bold transition-colors disabled:opacity-50 whitespace-nowrap"
+                >
+                  Restore this version
+                </button>
+              )}
+            </div>
+
+            {changes ? (
+              <div className="mt-3 space-y-2 text-sm text-gray-300">
+                {changes.addedCount > 0 && (
+                  <div>
+                    <div className="font-semibold text-[#1DB954]">{changes.addedCount} track(s) added</div>
+                    <ul className="mt-1 max-h-32 overflow-y-auto">
+                      {changes.added.map(entry => (
+                        <li key={`added-${entry.uri}-${entry.position}`} className="truncate">
+                          + {entry.name}{entry.artists && ` - ${entry.artists}`}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {changes.removedCount > 0 && (
+                  <div>
+                    <div className="font-semibold text-red-400">{changes.removedCount} track(s) removed</div>
+                    <ul className="mt-1 max-h-32 overflow-y-auto">
+                      {changes.removed.map(entry => (
+                        <li key={`removed-${entry.uri}-${entry.position}`} className="truncate">
+                          - {entry.name}{entry.artists && ` - ${entry.artists}`}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {changes.reordered && <div>Some tracks were moved.</div>}
+                {changes.addedCount === 0 && changes.removedCount === 0 && !changes.reordered && (
+                  <div>Same tracks; the name, description or other details may have changed.</div>
+                )}
+              </div>
+            ) : (
+              index === versions.length - 1 && <div className="mt-3 text-sm text-gray-400">First version saved.</div>
+            )}
+          </div>
+        );
+      })}
+
+      <Modal open={confirming !== null} onClose={() => setConfirming(null)} title="Restore this version?">
+        <div className="mb-6 text-white text-sm">
+          {playlistName ? <span className="font-bold">{playlistName}</span> : 'The playlist'} will be rewritten
+          to the {confirming?.itemCount} tracks it had on {confirming && new Date(confirming.seenAt).toLocaleString()}.
+          The current version stays in the history, so this can be undone.
+        </div>
+        <div className="flex justify-end gap-4">
+          <button
+            className="px-4 py-2 rounded-lg bg-gray-700 text-white hover:bg-gray-600"
+            onClick={() => setConfirming(null)}
+          >
+            Cancel
+          </button>
+          <button
+            className="px-6 py-2 rounded-lg bg-[#1DB954] text-white font-semibold hover:bg-[#1ed760] shadow-md"
+            onClick={() => {
+              const version = confirming;
+              setConfirming(null);
+              if (version) restore(version);
+            }}
+          >
+            Restore
+          </button>
+        </div>
+      </Modal>
+
+      <PlaylistConflictModal
+        conflict={conflict?.conflict ?? null}
+        playlistName={playlistName}
+        onClose={() => setConflict(null)}
+        onReload={() => {
+          setConflict(null);
+          loadHistory();
+        }}
+        onForce={() => {
+          const pending = conflict;
+          setConflict(null);
+          if (pending) restore(pending.version, true);
+        }}
+      />
+    </div>
+  );
+}
@@ -1,12 +1,41 @@
 'use client';
 
-import { SessionProvider } from 'next-auth/react';
-import { ReactNode, createContext, useContext, useEffect, useState } from 'react';
+import { SessionProvider, signIn, useSession } from 'next-auth/react';
+import { ReactNode, createContext, useCallback, useContext, useEffect, useState } from 'react';
+import Modal from './Modal';
+import { useToast } from './Toast';
+import { resizeToSquare } from '@/lib/imageResize';
+import {
+  DEFAULT_SETTINGS,
+  SettingsPatch,
+  UserSettings,
+  avatarUrl as settingsAvatarUrl,
+  parseSettings
+} from '@/lib/userSettings';
 
 interface ProvidersProps {
   children: ReactNode;
 }
 
+// Settings of the signed-in user, stored server-side (see src/lib/userSettings.ts)
+interface SettingsContextType {
+  settings: UserSettings;
+  // Applies the change right away and saves it for the signed-in user
+  updateSettings: (patch: SettingsPatch) => Promise<void>;
+  // Resizes the image and stores it as the custom avatar
+  uploadAvatar: (image: Blob) => Promise<void>;
+  removeAvatar: () => Promise<void>;
+  // URL of the custom avatar, null without one
+  avatarUrl: string | null;
+}
+const SettingsContext = createContext<SettingsContextType>({
+  settings: DEFAULT_SETTINGS,
+  updateSettings: async () => {},
+  uploadAvatar: async () => {},
+  removeAvatar: async () => {},
+  avatarUrl: null
+});
+
 // Theme context and provider
 interface ThemeContextType {
   theme: 'light' | 'dark';
@@ -29,6 +58,36 @@ const LanguageContext = createContext<LanguageContextType>({
   setLanguage: () => {} 
 });
 
+// Spotify accounts of the session: the one signed in with plus linked ones
+export interface SpotifyAccountSummary {
+  id: string | null;
+  displayName: string;
+  product: string | null;
+  country: string | null;
+  primary: boolean;
+  needsRelink?: boolean;
+}
+interface AccountContextType {
+  accounts: SpotifyAccountSummary[];
+  // null means the signed-in account
+  activeAccountId: string | null;
+  setActiveAccountId: (accountId: string | null) => void;
+  refreshAccounts: () => Promise<void>;
+  // Adds `accountId` to an API url when a linked account is active
+  withAccount: (url: string) => string;
+}
+const AccountContext = createContext<AccountContextType>({
+  accounts: [],
+  activeAccountId: null,
+  setActiveAccountId: () => {},
+  refreshAccounts: async () => {},
+  withAccount: (url) => url
+});
+
+export function useSettings() {
+  return useContext(SettingsContext);
+}
+
 export function useTheme() {
   return useContext(ThemeContext);
 }
@@ -37,30 +96,182 @@ export function useLanguage() {
   return useContext(LanguageContext);
 }
 
-function ThemeProvider({ children }: { children: ReactNode }) {
-  const [theme, setThemeState] = useState<'light' | 'dark'>('dark');
+export function useAccounts() {
+  return useContext(AccountContext);
+}
+
+// Last settings seen, so the theme and language apply before /api/settings
+// answers and on signed-out pages
+const SETTINGS_CACHE_KEY = 'playlistintel-settings';
+// Where older versions kept settings, one key each
+const LEGACY_SETTINGS_KEYS = ['userSettings', 'autoSaveProfiles', 'theme', 'language', 'customProfilePicture', 'userAvatar'];
+// Custom avatars are stored at this many pixels square
+const AVATAR_SIZE = 256;
+
+async function putAvatar(image: Blob): Promise<UserSettings> {
+  const resized = await resizeToSquare(image, AVATAR_SIZE);
+  const response = await fetch('/api/settings/avatar', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': resized.type,
+    },
+    body: resized,
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to upload avatar');
+  }
+  return parseSettings(data.settings);
+}
+
+// Uploads the settings older versions left in localStorage, for a user who has
+// never saved settings on the server. Returns the result, or null when there
+// was nothing to upload.
+async function migrateLegacySettings(): Promise<UserSettings | null> {
+  let preferences: Record<string, unknown> = {};
+  try {
+    preferences = JSON.parse(localStorage.getItem('userSettings') ?? '{}')?.preferences ?? {};
+  } catch {
+    // Unreadable, use the other keys
+  }
+
+  // The theme and language keys are what the app applied, so they win over the
+  // settings page's copy
+  const patch: SettingsPatch = {};
+  const theme = localStorage.getItem('theme') ?? preferences.theme;
+  if (theme === 'dark' || theme === 'light') patch.theme = theme;
+  const language = localStorage.getItem('language') ?? preferences.language;
+  if (language === 'en' || language === 'es') patch.language = language;
+  const autoSave = localStorage.getItem('autoSaveProfiles');
+  if (autoSave === 'true' || autoSave === 'false') patch.autoSaveProfiles = autoSave === 'true';
+  else if (typeof preferences.autoSaveProfiles === 'boolean') patch.autoSaveProfiles = preferences.autoSaveProfiles;
+  // The sidebar showed userAvatar, so it is the one the user saw
+  const avatar = localStorage.getItem('userAvatar') ?? localStorage.getItem('customProfilePicture');
+
+  let migrated: UserSettings | null = null;
+  if (Object.keys(patch).length > 0) {
+    const response = await fetch('/api/settings', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(patch),
+    });
+    if (!response.ok) throw new Error('Failed to upload settings');
+    migrated = parseSettings((await response.json()).settings);
+  }
+  if (avatar?.startsWith('data:image/')) {
+    try {
+      migrated = await putAvatar(await (await fetch(avatar)).blob());
+    } catch (error) {
+      // Not worth keeping the other settings back for
+      console.error('Error uploading saved avatar:', error);
+    }
+  }
+  return migrated;
+}
+
+function SettingsProvider({ children }: { children: ReactNode }) {
+  const { status } = useSession();
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
   const [mounted, setMounted] = useState(false);
 
   useEffect(() => {
-    const storedTheme = (typeof window !== 'undefined' && localStorage.getItem('theme')) as 'light' | 'dark' | null;
-    setThemeState(storedTheme || 'dark');
+    try {
+      setSettings(parseSettings(JSON.parse(localStorage.getItem(SETTINGS_CACHE_KEY) ?? 'null')));
+    } catch {
+      // Start from the defaults
+    }
     setMounted(true);
   }, []);
 
   useEffect(() => {
     if (!mounted) return;
-    
+    localStorage.setItem(SETTINGS_CACHE_KEY, JSON.stringify(settings));
+  }, [settings, mounted]);
+
+  // The server's copy wins over the cached one, except that settings from older
+  // versions are uploaded once for a user who has none stored yet
+  useEffect(() => {
+    if (status !== 'authenticated') return;
+    let cancelled = false;
+    const loadSettings = async () => {
+      try {
+        const response = await fetch('/api/settings');
+        if (!response.ok) return;
+        let loaded = parseSettings((await response.json()).settings);
+        if (LEGACY_SETTINGS_KEYS.some(key => localStorage.getItem(key) !== null)) {
+          try {
+            if (loaded.updatedAt === null) {
+              loaded = (await migrateLegacySettings()) ?? loaded;
+            }
+            LEGACY_SETTINGS_KEYS.forEach(key => localStorage.removeItem(key));
+          } catch (error) {
+            // Keep the old keys and try again on the next visit
+            console.error('Error uploading saved settings:', error);
+          }
+        }
+        if (!cancelled) setSettings(loaded);
+      } catch (error) {
+        console.error('Error loading settings:', error);
+      }
+    };
+    loadSettings();
+    return () => {
+      cancelled = true;
+    };
+  }, [status]);
+
+  const updateSettings = useCallback(async (patch: SettingsPatch) => {
+    setSettings(current => ({ ...current, ...patch }));
+    // Signed out, the change only lives in this browser
+    if (status !== 'authenticated') return;
+
+    const response = await fetch('/api/settings', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(patch),
+    });
+    if (!response.ok) throw new Error('Failed to save settings');
+    setSettings(parseSettings((await response.json()).settings));
+  }, [status]);
+
+  const uploadAvatar = useCallback(async (image: Blob) => {
+    setSettings(await putAvatar(image));
+  }, []);
+
+  const removeAvatar = useCallback(async () => {
+    const response = await fetch('/api/settings/avatar', { method: 'DELETE' });
+    if (!response.ok) throw new Error('Failed to remove avatar');
+    setSettings(parseSettings((await response.json()).settings));
+  }, []);
+
+  if (!mounted) return null;
+
+  return (
+    <SettingsContext.Provider value={{ settings, updateSettings, uploadAvatar, removeAvatar, avatarUrl: settingsAvatarUrl(settings) }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+function ThemeProvider({ children }: { children: ReactNode }) {
+  const { settings, updateSettings } = useSettings();
+  const theme = settings.theme;
+
+  useEffect(() => {
     // Remove both classes first
     document.documentElement.classList.remove('light', 'dark');
     // Add the current theme class
     document.documentElement.classList.add(theme);
-    localStorage.setItem('theme', theme);
-  }, [theme, mounted]);
+  }, [theme]);
 
-  const toggleTheme = () => setThemeState((t) => (t === 'dark' ? 'light' : 'dark'));
-  const setTheme = (newTheme: 'light' | 'dark') => setThemeState(newTheme);
-
-  if (!mounted) return null;
+  const setTheme = (newTheme: 'light' | 'dark') => {
+    updateSettings({ theme: newTheme }).catch(error => console.error('Error saving theme:', error));
+  };
+  const toggleTheme = () => setTheme(theme === 'dark' ? 'light' : 'dark');
 
   return (
     <ThemeContext.Provider value={{ theme, toggleTheme, setTheme }}>
@@ -70,39 +281,149 @@ function ThemeProvider({ children }: { children: ReactNode }) {
 }
 
 function LanguageProvider({ children }: { children: ReactNode }) {
-  const [language, setLanguageState] = useState<'en' | 'es'>('en');
-  const [mounted, setMounted] = useState(false);
+  const { settings, updateSettings } = useSettings();
+  const language = settings.language;
+
+  const setLanguage = (newLanguage: 'en' | 'es') => {
+    updateSettings({ language: newLanguage }).catch(error => console.error('Error saving language:', error));
+  };
+
+  return (
+    <LanguageContext.Provider value={{ language, setLanguage }}>
+      {children}
+    </LanguageContext.Provider>
+  );
+}
+
+// Messages for the `linkError` the link callback sends back
+const LINK_ERRORS: Record<string, string> = {
+  expired: 'The link request expired. Please try again.',
+  access_denied: 'Spotify access was not granted.',
+  denied: 'Spotify access was not granted.',
+  session: 'Sign in before linking another account.',
+  'same-account': 'That is the account you are signed in with.',
+  spotify: 'Spotify could not link the account. Please try again.'
+};
+
+function AccountProvider({ children }: { children: ReactNode }) {
+  const { status } = useSession();
+  const { showToast } = useToast();
+  const [accounts, setAccounts] = useState<SpotifyAccountSummary[]>([]);
+  const [activeAccountId, setActiveAccountIdState] = useState<string | null>(null);
 
   useEffect(() => {
-    const storedLanguage = (typeof window !== 'undefined' && localStorage.getItem('language')) as 'en' | 'es' | null;
-    setLanguageState(storedLanguage || 'en');
-    setMounted(true);
+    setActiveAccountIdState(localStorage.getItem('activeAccountId'));
+  }, []);
+
+  const refreshAccounts = useCallback(async () => {
+    const response = await fetch('/api/accounts');
+    if (!response.ok) return;
+    const data = await response.json();
+    const list: SpotifyAccountSummary[] = data.accounts || [];
+    setAccounts(list);
+    // Fall back to the signed-in account when the stored one was unlinked
+    setActiveAccountIdState(current =>
+      current && list.some(account => !account.primary && account.id === current) ? current : null
+    );
   }, []);
 
   useEffect(() => {
-    if (!mounted) return;
-    localStorage.setItem('language', language);
-  }, [language, mounted]);
+    if (status === 'authenticated') refreshAccounts();
+  }, [status, refreshAccounts]);
 
-  const setLanguage = (newLanguage: 'en' | 'es') => setLanguageState(newLanguage);
+  // Report the outcome of a link round trip once, then drop the parameters
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const linkStatus = url.searchParams.get('linkStatus');
+    if (!linkStatus) return;
+    if (linkStatus === 'linked') {
+      showToast('Spotify account linked', 'success');
+    } else {
+      const error = url.searchParams.get('linkError') ?? '';
+      showToast(LINK_ERRORS[error] ?? 'Could not link the Spotify account', 'error');
+    }
+    url.searchParams.delete('linkStatus');
+    url.searchParams.delete('linkError');
+    window.history.replaceState(null, '', url.pathname + url.search + url.hash);
+  }, [showToast]);
 
-  if (!mounted) return null;
+  const setActiveAccountId = (accountId: string | null) => {
+    const linked = accountId && accounts.some(account => !account.primary && account.id === accountId) ? accountId : null;
+    setActiveAccountIdState(linked);
+    if (linked) {
+      localStorage.setItem('activeAccountId', linked);
+    } else {
+      localStorage.removeItem('activeAccountId');
+    }
+  };
+
+  const withAccount = useCallback((url: string) => {
+    if (!activeAccountId) return url;
+    return `${url}${url.includes('?') ? '&' : '?'}accountId=${encodeURIComponent(activeAccountId)}`;
+  }, [activeAccountId]);
 
   return (
-    <LanguageContext.Provider value={{ language, setLanguage }}>
+    <AccountContext.Provider value={{ accounts, activeAccountId, setActiveAccountId, refreshAccounts, withAccount }}>
       {children}
-    </LanguageContext.Provider>
+    </AccountContext.Provider>
+  );
+}
+
+// Re-reads the session every few minutes, so the server refreshes the Spotify
+// token before it expires even while the tab sits idle
+const SESSION_REFETCH_INTERVAL_SECONDS = 4 * 60;
+
+// Asks the user to sign in again once the server could no longer refresh their
+// Spotify token, and brings them back to the page they were on afterwards
+function SessionWatcher() {
+  const { data: session } = useSession();
+  const [dismissed, setDismissed] = useState(false);
+  const expired = session?.error === 'RefreshAccessTokenError';
+
+  useEffect(() => {
+    if (!expired) setDismissed(false);
+  }, [expired]);
+
+  const handleSignIn = () => {
+    signIn('spotify', { callbackUrl: window.location.href });
+  };
+
+  return (
+    <Modal open={expired && !dismissed} onClose={() => setDismissed(true)} title="Spotify session expired">
+      <div className="mb-6 text-white">
+        Your connection to Spotify has expired. Sign in again to keep using PlaylistIntel; you&apos;ll come back to this page.
+      </div>
+      <div className="flex justify-end gap-4">
+        <button
+          className="px-4 py-2 rounded-lg bg-gray-700 text-white hover:bg-gray-600"
+          onClick={() => setDismissed(true)}
+        >
+          Later
+        </button>
+        <button
+          className="px-6 py-2 rounded-lg bg-[#1DB954] text-white font-semibold hover:bg-[#1ed760] shadow-md"
+          onClick={handleSignIn}
+        >
+          Sign in with Spotify
+        </button>
+      </div>
+    </Modal>
   );
 }
 
 export default function Providers({ children }: ProvidersProps) {
   return (
-    <SessionProvider>
-      <ThemeProvider>
-        <LanguageProvider>
-          {children}
-        </LanguageProvider>
-      </ThemeProvider>
+    <SessionProvider refetchInterval={SESSION_REFETCH_INTERVAL_SECONDS}>
+      <SettingsProvider>
+        <ThemeProvider>
+          <LanguageProvider>
+            <AccountProvider>
+              {children}
+              <SessionWatcher />
+            </AccountProvider>
+          </LanguageProvider>
+        </ThemeProvider>
+      </SettingsProvider>
     </SessionProvider>
   );
 } 
\ No newline at end of file
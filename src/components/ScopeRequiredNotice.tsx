@@ -0,0 +1,47 @@
+'use client';
+
+import { signIn, useSession } from 'next-auth/react';
+import type { ApiErrorBody } from '@/lib/apiErrors';
+
+interface ScopeRequiredNoticeProps {
+  // Body of a SCOPE_REQUIRED response
+  error: ApiErrorBody;
+}
+
+// Explains which extra Spotify access a feature needs and sends the user through
+// Spotify's consent screen for it. The scopes the session already has are asked
+// for again so the new token keeps them; Spotify only prompts for the new ones.
+export default function ScopeRequiredNotice({ error }: ScopeRequiredNoticeProps) {
+  const { data: session } = useSession();
+
+  const handleGrant = () => {
+    const callbackUrl = window.location.href;
+    if (!error.missingScopes) {
+      // Spotify refused a token whose scopes we didn't know; a fresh sign-in asks for all of them
+      signIn('spotify', { callbackUrl });
+      return;
+    }
+    const scope = Array.from(new Set([...(session?.scopes ?? []), ...error.missingScopes])).join(' ');
+    signIn('spotify', { callbackUrl }, { scope });
+  };
+
+  return (
+    <div className="text-center py-8">
+      <p className="text-white font-semibold mb-2">{error.error}</p>
+      <p className="text-gray-400 text-sm mb-4">{error.message}</p>
+      {error.features && error.features.length > 0 && (
+        <ul className="text-gray-300 text-sm mb-4">
+          {error.features.map(feature => (
+            <li key={feature}>{feature}</li>
+          ))}
+        </ul>
+      )}
+      <button
+        onClick={handleGrant}
+        className="px-6 py-3 bg-[#1DB954] hover:bg-[#1ed760] text-white rounded-lg text-sm font-medium transition-colors"
+      >
+        Grant access on Spotify
+      </button>
+    </div>
+  );
+}
@@ -2,6 +2,8 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { useSession } from 'next-auth/react';
+import AccountSwitcher from './AccountSwitcher';
+import { useSettings } from './Providers';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -11,29 +13,13 @@ interface SidebarProps {
 export default function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
   const { data: session } = useSession();
   const sidebarRef = useRef<HTMLDivElement>(null);
+  const { avatarUrl } = useSettings();
   const [customProfilePicture, setCustomProfilePicture] = useState<string | null>(null);
 
-  // Load custom profile picture from localStorage
+  // Custom profile picture from the user's settings
   useEffect(() => {
-    const savedCustomPicture = localStorage.getItem('userAvatar');
-    if (savedCustomPicture) {
-      setCustomProfilePicture(savedCustomPicture);
-    }
-
-    // Listen for changes to custom profile picture
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'userAvatar') {
-        if (e.newValue) {
-          setCustomProfilePicture(e.newValue);
-        } else {
-          setCustomProfilePicture(null);
-        }
-      }
-    };
-
-    window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
-  }, []);
+    setCustomProfilePicture(avatarUrl);
+  }, [avatarUrl]);
 
   // Debug session data
   useEffect(() => {
@@ -155,6 +141,12 @@ export default function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
 
         {/* User section */}
         <div className="absolute bottom-0 left-0 right-0 p-4 lg:p-6 border-t border-[#282828] bg-[#191414]">
+          {/* Account switcher for small screens, where the header hides it */}
+          {session && !session.demo && (
+            <div className="md:hidden mb-4">
+              <AccountSwitcher direction="up" />
+            </div>
+          )}
           <div className="flex items-center space-x-3">
             {/* Custom profile picture (priority) */}
             {customProfilePicture && (
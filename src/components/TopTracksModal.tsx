@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react';
 import Modal from './Modal';
 import LoadingSpinner from './LoadingSpinner';
+import ScopeRequiredNotice from './ScopeRequiredNotice';
+import type { ApiErrorBody } from '@/lib/apiErrors';
 
 interface Track {
   id: string;
@@ -29,6 +31,7 @@ export default function TopTracksModal({ isOpen, onClose }: TopTracksModalProps)
   const [tracks, setTracks] = useState<Track[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [scopeError, setScopeError] = useState<ApiErrorBody | null>(null);
 
   useEffect(() => {
     if (isOpen && tracks.length === 0) {
@@ -40,8 +43,16 @@ export default function TopTracksModal({ isOpen, onClose }: TopTracksModalProps)
     try {
       setLoading(true);
       setError(null);
+      setScopeError(null);
       
       const response = await fetch('/api/analytics/tracks/user-top?time_range=medium_term');
+      if (response.status === 403) {
+        const data: ApiErrorBody = await response.json();
+        if (data.code === 'SCOPE_REQUIRED') {
+          setScopeError(data);
+          return;
+        }
+      }
       if (!response.ok) {
         throw new Error('Failed to fetch top tracks');
       }
@@ -103,6 +114,8 @@ export default function TopTracksModal({ isOpen, onClose }: TopTracksModalProps)
               <LoadingSpinner size="lg" />
               <p className="text-gray-400 mt-4 text-lg">Loading your top tracks...</p>
             </div>
+          ) : scopeError ? (
+            <ScopeRequiredNotice error={scopeError} />
           ) : error ? (
             <div className="text-center py-12">
               <p className="text-red-400 mb-4 text-lg">{error}</p>
@@ -0,0 +1,12 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // The collector needs Node timers and the DataStore, which the edge runtime lacks
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startHistoryCollector } = await import('./lib/historyCollector');
+    startHistoryCollector();
+
+    // Analyses that were queued or running when the server last stopped
+    const { resumeAnalysisJobs } = await import('./lib/analysisJobs');
+    await resumeAnalysisJobs();
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { linkResultUrl, parseLinkState, safeReturnTo } from './accountLinking';
+
+const callbackUrl = 'https://playlistintel.example/api/accounts/link/callback?code=abc&state=xyz';
+
+describe('safeReturnTo', () => {
+  it('keeps paths on the site', () => {
+    expect(safeReturnTo('/settings')).toBe('/settings');
+    expect(safeReturnTo('/playlists/pl-1?tab=history#top')).toBe('/playlists/pl-1?tab=history#top');
+  });
+
+  it('falls back to the home page without a path', () => {
+    expect(safeReturnTo(undefined)).toBe('/');
+    expect(safeReturnTo(null)).toBe('/');
+    expect(safeReturnTo('')).toBe('/');
+  });
+
+  it('refuses paths that leave the site', () => {
+    for (const value of [
+      '//evil.com',
+      '//evil.com/settings',
+      '/\\evil.com',
+      '/\\/evil.com',
+      '/\t/evil.com',
+      '/\n/evil.com',
+      'https://evil.com',
+      'http://evil.com/settings',
+      'javascript:alert(1)',
+      'evil.com'
+    ]) {
+      expect(safeReturnTo(value)).toBe('/');
+    }
+  });
+});
+
+describe('linkResultUrl', () => {
+  it('adds the result to a path on the site', () => {
+    const url = linkResultUrl(callbackUrl, '/settings?tab=accounts', 'failed', 'access_denied');
+
+    expect(url.href).toBe('https://playlistintel.example/settings?tab=accounts&linkStatus=failed&linkError=access_denied');
+  });
+
+  it('never sends the user to another origin', () => {
+    for (const returnTo of ['//evil.com', '/\\evil.com', 'https://evil.com/settings']) {
+      const url = linkResultUrl(callbackUrl, returnTo, 'linked');
+
+      expect(url.origin).toBe('https://playlistintel.example');
+      expect(url.pathname).toBe('/');
+    }
+  });
+});
+
+describe('parseLinkState', () => {
+  it('cleans the return path stored in the cookie', () => {
+    expect(parseLinkState(JSON.stringify({ state: 'xyz', returnTo: '//evil.com' }))).toEqual({ state: 'xyz', returnTo: '/' });
+    expect(parseLinkState('not json')).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { randomBytes } from 'crypto';
+import { SPOTIFY_ACCOUNTS_BASE_URL } from './spotifyTransport';
+import { SIGN_IN_SCOPES } from './spotifyScopes';
+
+// OAuth round trip used to link another Spotify account. It runs beside NextAuth
+// rather than through it, so the session keeps its own account while Spotify
+// authorizes the new one. The state travels in a short-lived cookie.
+
+export const LINK_STATE_COOKIE = 'playlistintel.link-state';
+export const LINK_STATE_MAX_AGE_SECONDS = 10 * 60;
+
+export interface LinkState {
+  state: string;
+  // Path the user is sent back to once the account is linked
+  returnTo: string;
+}
+
+// Must be registered as a redirect URI of the Spotify app
+export function linkRedirectUri(requestUrl: string): string {
+  const base = process.env.NEXTAUTH_URL || new URL(requestUrl).origin;
+  return `${base.replace(/\/$/, '')}/api/accounts/link/callback`;
+}
+
+// Only same-site paths, so the callback can't be used as an open redirect.
+// Browsers read `\` as `/` and drop tabs and newlines, so `/\evil.com` would
+// leave the site; paths with either are refused.
+export function safeReturnTo(value: string | null | undefined): string {
+  if (!value || !value.startsWith('/') || value.startsWith('//')) return '/';
+  return /[\\\u0000-\u001f\u007f]/.test(value) ? '/' : value;
+}
+
+export function createLinkState(returnTo: string | null | undefined): LinkState {
+  return { state: randomBytes(16).toString('base64url'), returnTo: safeReturnTo(returnTo) };
+}
+
+export function parseLinkState(cookie: string | undefined): LinkState | null {
+  if (!cookie) return null;
+  try {
+    const value = JSON.parse(cookie);
+    return typeof value?.state === 'string' ? { state: value.state, returnTo: safeReturnTo(value.returnTo) } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Spotify consent page. show_dialog lets the user pick a different account than
+// the one their browser is logged in to.
+export function spotifyLinkAuthorizeUrl(state: string, redirectUri: string): string {
+  const params = new URLSearchParams({
+    client_id: process.env.SPOTIFY_CLIENT_ID ?? '',
+    response_type: 'code',
+    redirect_uri: redirectUri,
+    scope: SIGN_IN_SCOPES.join(' '),
+    state,
+    show_dialog: 'true'
+  });
+  return `${SPOTIFY_ACCOUNTS_BASE_URL}/authorize?${params}`;
+}
+
+// Adds `linkStatus` (and the error, if any) to the return path for the UI to report
+export function linkResultUrl(requestUrl: string, returnTo: string, status: 'linked' | 'failed', error?: string): URL {
+  const origin = new URL(requestUrl).origin;
+  let url = new URL(safeReturnTo(returnTo), origin);
+  // Whatever got past safeReturnTo, never leave the app's own origin
+  if (url.origin !== origin) url = new URL('/', origin);
+  url.searchParams.set('linkStatus', status);
+  if (error) url.searchParams.set('linkError', error);
+  return url;
+}
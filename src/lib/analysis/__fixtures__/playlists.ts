@@ -0,0 +1,83 @@
+import type { AnalysisArtist, AnalysisAudioFeatures, AnalysisTrack } from '../types';
+
+// Playlists pequeñas con resultados fáciles de calcular a mano, para los tests del motor
+
+export interface PlaylistFixture {
+  id: string;
+  name: string;
+  tracks: AnalysisTrack[];
+  artists: AnalysisArtist[];
+  features: AnalysisAudioFeatures[];
+}
+
+const feature = (id: string, values: Partial<AnalysisAudioFeatures> = {}): AnalysisAudioFeatures => ({
+  id,
+  energy: 0.5,
+  danceability: 0.5,
+  valence: 0.5,
+  tempo: 110,
+  acousticness: 0.5,
+  instrumentalness: 0.5,
+  ...values
+});
+
+const neon = { id: 'art-neon', name: 'Neon Coast' };
+const midnight = { id: 'art-midnight', name: 'Midnight Arcade' };
+const velvet = { id: 'art-velvet', name: 'Velvet Static' };
+
+// Synthwave con mucha energía: 3 artistas, 3 géneros y características de audio para todos
+export const synthNightDrive: PlaylistFixture = {
+  id: 'fx-synth-night-drive',
+  name: 'Synth Night Drive',
+  tracks: [
+    { id: 'trk-1', duration_ms: 200_000, artists: [neon] },
+    { id: 'trk-2', duration_ms: 220_000, artists: [neon, midnight] },
+    { id: 'trk-3', duration_ms: 240_000, artists: [midnight] },
+    { id: 'trk-4', duration_ms: 260_000, artists: [velvet] }
+  ],
+  artists: [
+    { id: neon.id, genres: ['synthwave', 'electronic'] },
+    { id: midnight.id, genres: ['synthwave'] },
+    { id: velvet.id, genres: ['darkwave'] }
+  ],
+  features: [
+    feature('trk-1', { energy: 0.9, danceability: 0.8, tempo: 130 }),
+    feature('trk-2', { energy: 0.8, danceability: 0.7, tempo: 126 }),
+    feature('trk-3', { energy: 0.7, danceability: 0.6, tempo: 124 }),
+    feature('trk-4', { energy: 0.8, danceability: 0.5, tempo: 128 })
+  ]
+};
+
+const quartet = { id: 'art-quartet', name: 'Blue Room Quartet' };
+const trio = { id: 'art-trio', name: 'Late Set Trio' };
+
+// Jazz sin características de audio, como cuando Spotify las restringe
+export const jazzWithoutFeatures: PlaylistFixture = {
+  id: 'fx-jazz-no-features',
+  name: 'Quiet Jazz',
+  tracks: [
+    { id: 'trk-10', duration_ms: 300_000, artists: [quartet] },
+    { id: 'trk-11', duration_ms: 330_000, artists: [quartet] },
+    { id: 'trk-12', duration_ms: 310_000, artists: [trio] }
+  ],
+  artists: [
+    { id: quartet.id, genres: ['jazz', 'cool jazz'] },
+    { id: trio.id, genres: ['jazz'] }
+  ],
+  features: []
+};
+
+// Características de otros tracks: hay datos de audio, pero ninguno de esta playlist
+export const unmatchedFeatures: PlaylistFixture = {
+  ...jazzWithoutFeatures,
+  id: 'fx-unmatched-features',
+  features: [feature('trk-other', { energy: 0.95, tempo: 140 })]
+};
+
+export const emptyPlaylist: PlaylistFixture = {
+  id: 'fx-empty',
+  name: 'Empty',
+  tracks: [],
+  artists: [],
+  features: []
+};
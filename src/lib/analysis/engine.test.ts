@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import type { AnalysisSection } from './types';
+import { analyzeArtists, analyzeAudio, analyzeGenres, analyzePlaylist } from './engine';
+import {
+  PlaylistFixture,
+  emptyPlaylist,
+  jazzWithoutFeatures,
+  synthNightDrive,
+  unmatchedFeatures
+} from './__fixtures__/playlists';
+
+const analyzedAt = new Date('2024-05-01T12:00:00.000Z');
+
+function analyzeFixture(fixture: PlaylistFixture, onSection?: (section: AnalysisSection) => void) {
+  return analyzePlaylist(fixture.tracks, fixture.artists, fixture.features, {
+    playlistId: fixture.id,
+    playlistName: fixture.name,
+    analyzedAt,
+    onSection
+  });
+}
+
+describe('analyzePlaylist', () => {
+  it('builds every section of the profile for a playlist with audio features', async () => {
+    const profile = await analyzeFixture(synthNightDrive);
+
+    expect(profile).toMatchObject({
+      playlistId: 'fx-synth-night-drive',
+      playlistName: 'Synth Night Drive',
+      totalTracks: 4,
+      averageDuration: 230,
+      analyzedAt: '2024-05-01T12:00:00.000Z'
+    });
+
+    expect(profile.artistAnalysis.uniqueArtists).toBe(3);
+    expect(profile.artistAnalysis.topArtists).toEqual([
+      { name: 'Neon Coast', trackCount: 2 },
+      { name: 'Midnight Arcade', trackCount: 2 },
+      { name: 'Velvet Static', trackCount: 1 }
+    ]);
+
+    expect(profile.genreAnalysis.dominantGenre).toBe('synthwave');
+    expect(profile.genreAnalysis.topGenres.map(({ genre, count }) => [genre, count])).toEqual([
+      ['synthwave', 3],
+      ['electronic', 2],
+      ['darkwave', 1]
+    ]);
+    expect(profile.genreAnalysis.topGenres[0].percentage).toBeCloseTo(50);
+
+    expect(profile.audioAnalysis.averageEnergy).toBeCloseTo(0.8);
+    expect(profile.audioAnalysis.averageDanceability).toBeCloseTo(0.65);
+    expect(profile.audioAnalysis.averageTempo).toBeCloseTo(127);
+    expect(profile.audioAnalysis.mood).toBe('energetic');
+
+    expect(profile.recommendations.energyLevel).toBe('high');
+    expect(profile.recommendations.similarGenres).toContain('house');
+    expect(profile.recommendations.moodSuggestions).toContain('Workout & Fitness Mix');
+    expect(profile.recommendations.recommendedSongs.length).toBeGreaterThan(0);
+  });
+
+  it('derives mood and energy from the genres when there are no audio features', async () => {
+    const profile = await analyzeFixture(jazzWithoutFeatures);
+
+    expect(profile.totalTracks).toBe(3);
+    expect(profile.averageDuration).toBe(313);
+    expect(profile.genreAnalysis.topGenres).toEqual([
+      { genre: 'jazz', count: 3, percentage: 60 },
+      { genre: 'cool jazz', count: 2, percentage: 40 }
+    ]);
+    expect(profile.audioAnalysis).toEqual({
+      averageEnergy: 0,
+      averageDanceability: 0,
+      averageValence: 0,
+      averageTempo: 0,
+      averageAcousticness: 0,
+      averageInstrumentalness: 0,
+      mood: 'chill'
+    });
+    expect(profile.recommendations.energyLevel).toBe('low');
+  });
+
+  it('keeps a mixed mood when the audio features match none of the tracks', async () => {
+    const profile = await analyzeFixture(unmatchedFeatures);
+
+    expect(profile.audioAnalysis.mood).toBe('mixed');
+    expect(profile.audioAnalysis.averageEnergy).toBe(0);
+  });
+
+  it('returns an empty profile for a playlist without tracks', async () => {
+    const profile = await analyzeFixture(emptyPlaylist);
+
+    expect(profile.totalTracks).toBe(0);
+    expect(profile.averageDuration).toBe(0);
+    expect(profile.artistAnalysis).toEqual({ uniqueArtists: 0, topArtists: [], artistDiversity: 0 });
+    expect(profile.genreAnalysis).toEqual({ topGenres: [], genreDiversity: 0, dominantGenre: 'unknown' });
+    expect(profile.recommendations.energyLevel).toBe('medium');
+  });
+
+  it('reports the sections in order, matching the finished profile', async () => {
+    const sections: AnalysisSection[] = [];
+    const profile = await analyzeFixture(synthNightDrive, section => sections.push(section));
+
+    expect(sections.map(section => section.section)).toEqual(['artists', 'genres', 'audio', 'recommendations']);
+    expect(sections).toEqual([
+      { section: 'artists', artistAnalysis: profile.artistAnalysis },
+      { section: 'genres', genreAnalysis: profile.genreAnalysis },
+      { section: 'audio', audioAnalysis: profile.audioAnalysis, averageDuration: profile.averageDuration },
+      { section: 'recommendations', recommendations: profile.recommendations }
+    ]);
+  });
+
+  it('gives the same profile when artists and features arrive later', async () => {
+    const fixture = synthNightDrive;
+    const deferred = await analyzePlaylist(
+      fixture.tracks,
+      Promise.resolve(fixture.artists),
+      async () => fixture.features,
+      { playlistId: fixture.id, playlistName: fixture.name, analyzedAt }
+    );
+
+    expect(deferred).toEqual(await analyzeFixture(fixture));
+  });
+});
+
+describe('analysis stages', () => {
+  it('keeps diversity between 0 and 1 and genre percentages summing to 100', () => {
+    for (const fixture of [synthNightDrive, jazzWithoutFeatures]) {
+      const artistAnalysis = analyzeArtists(fixture.tracks);
+      const genreAnalysis = analyzeGenres(fixture.tracks, fixture.artists);
+
+      for (const diversity of [artistAnalysis.artistDiversity, genreAnalysis.genreDiversity]) {
+        expect(diversity).toBeGreaterThanOrEqual(0);
+        expect(diversity).toBeLessThanOrEqual(1);
+      }
+      const total = genreAnalysis.topGenres.reduce((sum, genre) => sum + genre.percentage, 0);
+      expect(total).toBeCloseTo(100);
+    }
+  });
+
+  it('ignores artists without genre data', () => {
+    const genreAnalysis = analyzeGenres(synthNightDrive.tracks, []);
+
+    expect(genreAnalysis.topGenres).toEqual([]);
+    expect(analyzeAudio(synthNightDrive.tracks, [], genreAnalysis).mood).toBe('mixed');
+  });
+});
@@ -0,0 +1,274 @@
+import { generateRecommendations } from './recommendations';
+import type {
+  AnalysisArtist,
+  AnalysisAudioFeatures,
+  AnalysisSection,
+  AnalysisTrack,
+  ArtistAnalysis,
+  AudioAnalysis,
+  GenreAnalysis,
+  GenreCount,
+  Mood,
+  MusicalProfile,
+  Recommendations
+} from './types';
+
+// Motor del análisis: funciones puras sobre tracks, artistas y características de
+// audio, sin llamadas a Spotify. analyzePlaylist encadena las etapas y arma el
+// perfil; runPlaylistAnalysis (playlistAnalysis.ts) le pasa lo que descarga.
+
+// Versión del análisis: subirla al cambiar cómo se calcula el resultado, para que
+// los resultados guardados por analysisCache.ts se vuelvan a calcular
+export const ANALYSIS_VERSION = 2;
+
+// Artistas más frecuentes y diversidad; solo necesita los tracks
+export function analyzeArtists(tracks: AnalysisTrack[]): ArtistAnalysis {
+  const artistCounts: Record<string, number> = {};
+  tracks.forEach(track => {
+    track.artists.forEach(artist => {
+      artistCounts[artist.name] = (artistCounts[artist.name] || 0) + 1;
+    });
+  });
+
+  const uniqueArtists = Object.keys(artistCounts).length;
+  const topArtists = Object.entries(artistCounts)
+    .map(([name, count]) => ({ name, trackCount: count }))
+    .sort((a, b) => b.trackCount - a.trackCount)
+    .slice(0, 20); // Top 20 artistas (aumentado para mostrar más variedad)
+
+  const artistDiversity = calculateDiversity(Object.values(artistCounts));
+  return { uniqueArtists, topArtists, artistDiversity };
+}
+
+// Géneros más frecuentes según los géneros de los artistas de cada track
+export function analyzeGenres(tracks: AnalysisTrack[], artists: AnalysisArtist[]): GenreAnalysis {
+  // Crear mapa de géneros por artista para acceso rápido
+  const artistGenres: Record<string, string[]> = {};
+  artists.forEach(artist => {
+    artistGenres[artist.id] = artist.genres;
+  });
+
+  const genreCounts: Record<string, number> = {};
+  let totalGenreOccurrences = 0;
+
+  tracks.forEach(track => {
+    // Obtener géneros de todos los artistas del track
+    const trackGenres = Array.from(new Set(
+      track.artists.flatMap(artist => artistGenres[artist.id] || [])
+    ));
+    
+    // Contar cada género
+    trackGenres.forEach((genre: string) => {
+      genreCounts[genre] = (genreCounts[genre] || 0) + 1;
+      totalGenreOccurrences++;
+    });
+  });
+
+  // Calcular top géneros y diversidad
+  const topGenres = Object.entries(genreCounts)
+    .map(([genre, count]) => ({
+      genre,
+      count,
+      percentage: (count / totalGenreOccurrences) * 100
+    }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 20); // Top 20 géneros (aumentado para mostrar más variedad)
+
+  const dominantGenre = topGenres[0]?.genre || 'unknown';
+  
+  // Calcular diversidad de géneros (usando índice de Shannon)
+  const genreDiversity = calculateDiversity(Object.values(genreCounts));
+  return { topGenres, genreDiversity, dominantGenre };
+}
+
+// Promedios de las características de audio y mood. Sin características (Spotify
+// las restringe a algunas apps) el mood se deduce de los géneros.
+export function analyzeAudio(
+  tracks: AnalysisTrack[],
+  features: AnalysisAudioFeatures[],
+  genreAnalysis: GenreAnalysis
+): AudioAnalysis {
+  let audioAnalysis: AudioAnalysis = {
+    averageEnergy: 0,
+    averageDanceability: 0,
+    averageValence: 0,
+    averageTempo: 0,
+    averageAcousticness: 0,
+    averageInstrumentalness: 0,
+    mood: 'mixed'
+  };
+
+  if (features.length > 0) {
+    const audioFeaturesMap: Record<string, AnalysisAudioFeatures> = {};
+    features.forEach(feature => {
+      audioFeaturesMap[feature.id] = feature;
+    });
+
+    const analyzableTracks = tracks.filter(track => audioFeaturesMap[track.id]);
+    if (analyzableTracks.length > 0) {
+      const audioFeaturesList = analyzableTracks.map(track => audioFeaturesMap[track.id]);
+      
+      // Calcular promedios de características de audio
+      audioAnalysis = {
+        averageEnergy: average(audioFeaturesList.map(f => f.energy)),
+        averageDanceability: average(audioFeaturesList.map(f => f.danceability)),
+        averageValence: average(audioFeaturesList.map(f => f.valence)),
+        averageTempo: average(audioFeaturesList.map(f => f.tempo)),
+        averageAcousticness: average(audioFeaturesList.map(f => f.acousticness)),
+        averageInstrumentalness: average(audioFeaturesList.map(f => f.instrumentalness)),
+        mood: determineMood(
+          average(audioFeaturesList.map(f => f.energy)),
+          average(audioFeaturesList.map(f => f.valence)),
+          average(audioFeaturesList.map(f => f.tempo))
+        )
+      };
+    }
+  } else {
+    // Determinar mood basado en géneros si no hay audio features
+    audioAnalysis.mood = determineMoodFromGenres(genreAnalysis.topGenres);
+  }
+  return audioAnalysis;
+}
+
+// Duración media de los tracks, en segundos
+export function averageDuration(tracks: AnalysisTrack[]): number {
+  const totalDurationMs = tracks.reduce((sum, track) => sum + (track.duration_ms || 0), 0);
+  const averageDurationMs = tracks.length > 0 ? totalDurationMs / tracks.length : 0;
+  return Math.round(averageDurationMs / 1000);
+}
+
+// Recomendaciones a partir de las otras tres partes del análisis
+export function recommend(
+  genreAnalysis: GenreAnalysis,
+  artistAnalysis: ArtistAnalysis,
+  audioAnalysis: AudioAnalysis
+): Recommendations {
+  return generateRecommendations(
+    genreAnalysis.topGenres,
+    artistAnalysis.topArtists,
+    audioAnalysis.mood,
+    audioAnalysis.averageEnergy,
+    genreAnalysis.genreDiversity
+  );
+}
+
+export interface AnalyzePlaylistOptions {
+  // Lo que identifica lo analizado en el perfil; para un álbum o la biblioteca, el suyo
+  playlistId: string;
+  playlistName: string;
+  // Por defecto, al terminar el análisis
+  analyzedAt?: Date;
+  // Cada parte del perfil en cuanto está calculada, en el orden de AnalysisSection
+  onSection?: (section: AnalysisSection) => void;
+}
+
+// Perfil musical completo de los tracks; el único sitio donde se arma. `artists`
+// son los de los tracks, con sus géneros; `features` puede quedar vacío cuando no
+// hay características de audio. Ambos pueden llegar después que los tracks: los
+// artistas como promesa ya en marcha y las características con una función que
+// se llama al terminar los géneros, para que onSection muestre antes cada parte.
+export async function analyzePlaylist(
+  tracks: AnalysisTrack[],
+  artists: AnalysisArtist[] | Promise<AnalysisArtist[]>,
+  features: AnalysisAudioFeatures[] | (() => Promise<AnalysisAudioFeatures[]>),
+  options: AnalyzePlaylistOptions
+): Promise<MusicalProfile> {
+  const { onSection } = options;
+
+  const artistAnalysis = analyzeArtists(tracks);
+  onSection?.({ section: 'artists', artistAnalysis });
+
+  const genreAnalysis = analyzeGenres(tracks, await artists);
+  onSection?.({ section: 'genres', genreAnalysis });
+
+  const audioFeatures = typeof features === 'function' ? await features() : features;
+  const audioAnalysis = analyzeAudio(tracks, audioFeatures, genreAnalysis);
+  const averageDurationSeconds = averageDuration(tracks);
+  onSection?.({ section: 'audio', audioAnalysis, averageDuration: averageDurationSeconds });
+
+  const recommendations = recommend(genreAnalysis, artistAnalysis, audioAnalysis);
+  onSection?.({ section: 'recommendations', recommendations });
+
+  return {
+    playlistId: options.playlistId,
+    playlistName: options.playlistName,
+    totalTracks: tracks.length,
+    averageDuration: averageDurationSeconds,
+    genreAnalysis,
+    audioAnalysis,
+    artistAnalysis,
+    recommendations,
+    analyzedAt: (options.analyzedAt ?? new Date()).toISOString()
+  };
+}
+
+// Función auxiliar para calcular el promedio de un array de números
+function average(numbers: number[]): number {
+  if (numbers.length === 0) return 0;
+  return numbers.reduce((sum, num) => sum + num, 0) / numbers.length;
+}
+
+// Función para calcular la diversidad usando el índice de Shannon
+function calculateDiversity(counts: number[]): number {
+  if (counts.length === 0) return 0;
+  
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+
+  // Calcular proporciones
+  const proportions = counts.map(count => count / total);
+  
+  // Calcular índice de Shannon
+  const shannonIndex = -proportions.reduce((sum, p) => {
+    if (p === 0) return sum;
+    return sum + (p * Math.log(p));
+  }, 0);
+
+  // Normalizar a 0-1 (dividir por el logaritmo del número de categorías)
+  const maxDiversity = Math.log(counts.length);
+  return maxDiversity > 0 ? shannonIndex / maxDiversity : 0;
+}
+
+// Función para determinar el mood basado en características de audio
+function determineMood(energy: number, valence: number, tempo: number): Mood {
+  // Lógica para determinar el mood:
+  // - Energetic: alta energía, tempo rápido
+  // - Happy: alta positividad (valence)
+  // - Chill: baja energía, tempo lento
+  // - Melancholic: baja positividad
+  // - Mixed: combinación de características
+
+  if (energy > 0.7 && tempo > 120) return 'energetic';
+  if (valence > 0.7) return 'happy';
+  if (energy < 0.4 && tempo < 100) return 'chill';
+  if (valence < 0.3) return 'melancholic';
+  return 'mixed';
+}
+
+// Función para determinar mood basado en géneros cuando no hay audio features
+function determineMoodFromGenres(topGenres: GenreCount[]): Mood {
+  const dominantGenre = topGenres[0]?.genre.toLowerCase() || '';
+  
+  // Géneros energéticos
+  if (dominantGenre.includes('rock') || dominantGenre.includes('metal') || dominantGenre.includes('electronic') || dominantGenre.includes('dance')) {
+    return 'energetic';
+  }
+  
+  // Géneros felices
+  if (dominantGenre.includes('pop') || dominantGenre.includes('reggaeton') || dominantGenre.includes('salsa') || dominantGenre.includes('funk')) {
+    return 'happy';
+  }
+  
+  // Géneros relajados
+  if (dominantGenre.includes('ambient') || dominantGenre.includes('chill') || dominantGenre.includes('lofi') || dominantGenre.includes('jazz')) {
+    return 'chill';
+  }
+  
+  // Géneros melancólicos
+  if (dominantGenre.includes('blues') || dominantGenre.includes('sad') || dominantGenre.includes('emo') || dominantGenre.includes('indie')) {
+    return 'melancholic';
+  }
+  
+  // Por defecto, mixed
+  return 'mixed';
+}
@@ -0,0 +1,14 @@
+// Análisis de playlists: el esquema del resultado (types.ts) y el motor que lo
+// calcula (engine.ts). No depende de Spotify; lo que descarga los datos está en
+// playlistAnalysis.ts.
+export * from './types';
+export {
+  ANALYSIS_VERSION,
+  analyzeArtists,
+  analyzeAudio,
+  analyzeGenres,
+  analyzePlaylist,
+  averageDuration,
+  recommend
+} from './engine';
+export type { AnalyzePlaylistOptions } from './engine';
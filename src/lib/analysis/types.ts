@@ -0,0 +1,156 @@
+// Esquema del análisis de playlists, el mismo para las rutas de la API, los
+// trabajos en segundo plano, MusicalProfile y /analytics/playlist/[id]. Solo
+// contiene tipos, así que los componentes del cliente pueden importarlo.
+
+export type Mood = 'energetic' | 'chill' | 'happy' | 'melancholic' | 'mixed';
+export type EnergyLevel = 'low' | 'medium' | 'high';
+
+export interface GenreCount {
+  genre: string;
+  // Tracks con al menos un artista de este género
+  count: number;
+  percentage: number;
+}
+
+export interface ArtistCount {
+  name: string;
+  trackCount: number;
+}
+
+export interface RecommendedArtist {
+  name: string;
+  genre: string;
+  reason: string;
+}
+
+export interface RecommendedSong {
+  title: string;
+  artist: string;
+  genre: string;
+  reason: string;
+  year?: number;
+  spotifyUrl?: string;
+}
+
+// Análisis de géneros
+export interface GenreAnalysis {
+  topGenres: GenreCount[];
+  genreDiversity: number; // 0-1, donde 1 es muy diverso
+  dominantGenre: string;
+}
+
+// Análisis de características de audio; los promedios quedan en 0 cuando
+// Spotify no da características de audio y el mood sale de los géneros
+export interface AudioAnalysis {
+  averageEnergy: number;
+  averageDanceability: number;
+  averageValence: number; // Positividad/humor
+  averageTempo: number;
+  averageAcousticness: number;
+  averageInstrumentalness: number;
+  mood: Mood;
+}
+
+// Análisis de artistas
+export interface ArtistAnalysis {
+  uniqueArtists: number;
+  topArtists: ArtistCount[];
+  artistDiversity: number; // 0-1, donde 1 es muy diverso
+}
+
+// Recomendaciones generadas
+export interface Recommendations {
+  similarGenres: string[];
+  recommendedArtists: RecommendedArtist[];
+  recommendedSongs: RecommendedSong[];
+  moodSuggestions: string[];
+  energyLevel: EnergyLevel;
+  playlistSuggestions: string[];
+  discoveryTips: string[];
+}
+
+// Perfil musical de una playlist (o de cualquier conjunto de tracks)
+export interface MusicalProfile {
+  playlistId: string;
+  playlistName: string;
+  totalTracks: number;
+  // Duración media de los tracks en segundos; falta en perfiles guardados antes de añadirse
+  averageDuration?: number;
+  genreAnalysis: GenreAnalysis;
+  audioAnalysis: AudioAnalysis;
+  artistAnalysis: ArtistAnalysis;
+  recommendations: Recommendations;
+  // Timestamp de cuando se generó el análisis
+  analyzedAt: string;
+}
+
+// La playlist analizada, como la muestra la cabecera de /analytics/playlist/[id]
+export interface AnalyzedPlaylist {
+  id: string;
+  name: string;
+  description: string;
+  images: Array<{ url: string; width?: number; height?: number }>;
+  snapshot_id: string;
+  // Tracks analizados
+  tracks: { total: number };
+  owner: { display_name: string };
+}
+
+// Respuesta de GET /api/analysis/playlist/[id] y resultado de un trabajo de análisis
+export interface PlaylistAnalysisResult {
+  playlist: AnalyzedPlaylist;
+  profile: MusicalProfile;
+  // Parte de los datos no se pudo descargar (páginas de tracks, artistas o
+  // características de audio que fallaron tras los reintentos). Un resultado
+  // parcial no se guarda en la caché de análisis.
+  partial?: boolean;
+}
+
+// Etapa en curso y cuánto lleva hecho cada una. Los totales de artistas y
+// características de audio se conocen al terminar de descargar los tracks.
+export interface AnalysisProgress {
+  stage: 'tracks' | 'artists' | 'features' | 'recommendations' | 'done';
+  tracksFetched: number;
+  totalTracks: number | null;
+  artistsResolved: number;
+  totalArtists: number | null;
+  featuresFetched: number;
+  totalFeatures: number | null;
+}
+
+// Parte del resultado que ya está lista, para mostrarla antes de que termine el
+// análisis. Llegan en este orden: playlist, artists, genres, audio, recommendations.
+export type AnalysisSection =
+  | { section: 'playlist'; playlist: AnalyzedPlaylist }
+  | { section: 'artists'; artistAnalysis: ArtistAnalysis }
+  | { section: 'genres'; genreAnalysis: GenreAnalysis }
+  // averageDuration en segundos, como en MusicalProfile
+  | { section: 'audio'; audioAnalysis: AudioAnalysis; averageDuration: number }
+  | { section: 'recommendations'; recommendations: Recommendations };
+
+// Las partes recibidas hasta ahora, por nombre de sección
+export type AnalysisSections = { [S in AnalysisSection as S['section']]?: Omit<S, 'section'> };
+
+// Lo que el motor necesita de cada track, artista y característica de audio. Los
+// tipos de SpotifyService encajan, pero también sirven datos de otras fuentes
+// (álbumes, la biblioteca, importaciones sin conexión).
+export interface AnalysisTrack {
+  id: string;
+  duration_ms: number;
+  artists: Array<{ id: string; name: string }>;
+}
+
+export interface AnalysisArtist {
+  id: string;
+  genres: string[];
+}
+
+export interface AnalysisAudioFeatures {
+  id: string;
+  energy: number;
+  danceability: number;
+  valence: number;
+  tempo: number;
+  acousticness: number;
+  instrumentalness: number;
+}
@@ -0,0 +1,114 @@
+import { getDataStore } from './dataStore';
+import { logger as rootLogger } from './logger';
+import { ANALYSIS_VERSION, PlaylistAnalysisResult } from './analysis';
+import { PlaylistAnalysisOptions, runPlaylistAnalysis } from './playlistAnalysis';
+import type { SpotifyService } from './spotify';
+
+// Analysis results kept per user and playlist, so opening the same playlist's
+// profile again doesn't repeat the whole analysis. A stored result is served
+// only while the playlist's snapshot_id and ANALYSIS_VERSION still match the
+// ones it was computed for; otherwise the playlist is analyzed again and the
+// new result replaces it. Only the latest result per playlist is kept, and a
+// partial result (some data couldn't be fetched) is never stored.
+
+// Past this age a cached result is still served but marked stale: artist genres
+// and the recommendations drift even while the playlist stays the same
+export const ANALYSIS_STALE_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface CachedAnalysisEntry {
+  snapshotId: string;
+  analysisVersion: number;
+  analyzedAt: string;
+  result: PlaylistAnalysisResult;
+}
+
+export interface AnalysisCacheInfo {
+  // Whether the result came from the cache rather than a new analysis
+  cached: boolean;
+  analyzedAt: string;
+  snapshotId: string;
+  analysisVersion: number;
+  // Old enough that a re-analysis is worth offering
+  stale: boolean;
+}
+
+// An analysis result with where it came from
+export interface CachedPlaylistAnalysis extends PlaylistAnalysisResult {
+  cache: AnalysisCacheInfo;
+}
+
+const cacheKey = (ownerId: string, playlistId: string) => `analysis-cache:${ownerId}:${playlistId}`;
+
+function withCacheInfo(entry: CachedAnalysisEntry, cached: boolean): CachedPlaylistAnalysis {
+  return {
+    ...entry.result,
+    cache: {
+      cached,
+      analyzedAt: entry.analyzedAt,
+      snapshotId: entry.snapshotId,
+      analysisVersion: entry.analysisVersion,
+      stale: Date.now() - Date.parse(entry.analyzedAt) > ANALYSIS_STALE_AFTER_MS
+    }
+  };
+}
+
+// The stored result for the playlist at `snapshotId`, or null when there is none
+// for that snapshot and the current ANALYSIS_VERSION
+export async function getCachedAnalysis(
+  ownerId: string,
+  playlistId: string,
+  snapshotId: string
+): Promise<CachedPlaylistAnalysis | null> {
+  const entry = await getDataStore().get<CachedAnalysisEntry>(cacheKey(ownerId, playlistId));
+  if (!entry || entry.snapshotId !== snapshotId || entry.analysisVersion !== ANALYSIS_VERSION) return null;
+  return withCacheInfo(entry, true);
+}
+
+export async function storeAnalysis(ownerId: string, result: PlaylistAnalysisResult): Promise<CachedPlaylistAnalysis> {
+  const entry: CachedAnalysisEntry = {
+    snapshotId: result.playlist.snapshot_id,
+    analysisVersion: ANALYSIS_VERSION,
+    analyzedAt: result.profile.analyzedAt,
+    result
+  };
+  await getDataStore().set(cacheKey(ownerId, result.playlist.id), entry);
+  return withCacheInfo(entry, false);
+}
+
+export interface CachedAnalysisOptions extends PlaylistAnalysisOptions {
+  // Whose cache to use; without one nothing is cached
+  ownerId: string | null;
+  // Analyze again even when a result for the current snapshot is stored
+  refresh?: boolean;
+}
+
+// Returns the stored result when the playlist hasn't changed since, otherwise
+// runs runPlaylistAnalysis and stores what it returns
+export async function analyzePlaylistCached(
+  spotifyService: SpotifyService,
+  playlistId: string,
+  options: CachedAnalysisOptions
+): Promise<CachedPlaylistAnalysis> {
+  const { ownerId, refresh, ...analysisOptions } = options;
+  const log = options.logger ?? rootLogger;
+
+  if (ownerId && !refresh) {
+    // Costs one more request for the playlist, which the analysis fetches again if it runs
+    const { snapshot_id } = await spotifyService.getPlaylist(playlistId);
+    const cached = await getCachedAnalysis(ownerId, playlistId, snapshot_id);
+    if (cached) {
+      log.info('Serving cached playlist analysis', { playlistId, analyzedAt: cached.cache.analyzedAt });
+      return cached;
+    }
+  }
+
+  const result = await runPlaylistAnalysis(spotifyService, playlistId, analysisOptions);
+  if (!ownerId || result.partial) {
+    if (result.partial) log.warn('Not caching partial playlist analysis', { playlistId });
+    return withCacheInfo(
+      { snapshotId: result.playlist.snapshot_id, analysisVersion: ANALYSIS_VERSION, analyzedAt: result.profile.analyzedAt, result },
+      false
+    );
+  }
+  return storeAnalysis(ownerId, result);
+}
@@ -0,0 +1,410 @@
+import { randomUUID } from 'crypto';
+import { AnalysisProgress, AnalysisSections } from './analysis';
+import { CachedPlaylistAnalysis, analyzePlaylistCached, getCachedAnalysis } from './analysisCache';
+import { backgroundWorkUnavailable } from './backgroundWork';
+import { DEMO_OWNER_PREFIX, getDataStore, isDemoOwner, withDataLock } from './dataStore';
+import { SpotifyAccess, storedAccountAccess } from './linkedAccounts';
+import { logger } from './logger';
+import { snapshotRecorder } from './playlistHistory';
+import { AnalysisCheckpoint, EmptyPlaylistError } from './playlistAnalysis';
+import { openSecret, sealSecret } from './secretBox';
+import { SpotifyService } from './spotify';
+import { SpotifyApiError } from './spotifyErrors';
+
+const log = logger.child({ component: 'analysis-jobs' });
+
+// Playlist analyses run in the background, so large playlists don't depend on
+// one request staying open. Jobs and their progress are kept in the DataStore;
+// jobs that were queued or running when the server stopped are started again by
+// resumeAnalysisJobs() (from instrumentation.ts). What a job has fetched is saved
+// after each stage (tracks, artists, audio features), so a restarted job carries
+// on from the last finished stage while the playlist is unchanged, using the
+// account's stored refresh token since its session token has likely expired by
+// then. Results go through analysisCache.ts, so a playlist that hasn't changed
+// isn't analyzed again.
+//
+// The queue lives in this process, so jobs need a long-running server and a
+// persistent DataStore (see backgroundWork.ts). Where either is missing, the jobs
+// route refuses new jobs and analyses run in the request instead.
+//
+// PLAYLISTINTEL_ANALYSIS_WORKERS: analyses run at once in this process (default 2)
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface AnalysisJob {
+  id: string;
+  playlistId: string;
+  // Spotify account the playlist is read with
+  accountId: string;
+  status: AnalysisJobStatus;
+  progress: AnalysisProgress;
+  // Parts of the result already worked out, to show before the job finishes
+  sections: AnalysisSections;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  // Times the job was started, more than one after a server restart
+  attempts: number;
+  // Why the job failed; `code` is an API error code such as AUTH_FAILED
+  error: { code: string; message: string } | null;
+}
+
+interface StoredAnalysisJob extends AnalysisJob {
+  ownerId: string;
+  // The session's access token, sealed with secretBox. It lasts an hour, so a
+  // resumed job uses the account's stored tokens instead when there are any.
+  accessToken: string;
+  market: string | null;
+  // Analyze again even when a cached result matches the playlist
+  refresh?: boolean;
+}
+
+// Finished jobs kept per user; older ones are deleted with their results
+const MAX_JOBS_PER_OWNER = 20;
+// Progress is written at most this often while a stage is under way
+const PROGRESS_SAVE_INTERVAL_MS = 1000;
+
+const jobKey = (jobId: string) => `analysis-job:${jobId}`;
+const resultKey = (jobId: string) => `analysis-job-result:${jobId}`;
+const checkpointKey = (jobId: string) => `analysis-job-checkpoint:${jobId}`;
+const ownerKey = (ownerId: string) => `analysis-jobs:${ownerId}`;
+// Held while looking for a running job of the playlist and creating one
+const submitLock = (ownerId: string, playlistId: string) => `analysis-jobs:${ownerId}:${playlistId}:submit`;
+const ACTIVE_KEY = 'analysis-jobs:active';
+
+const INITIAL_PROGRESS: AnalysisProgress = {
+  stage: 'tracks',
+  tracksFetched: 0,
+  totalTracks: null,
+  artistsResolved: 0,
+  totalArtists: null,
+  featuresFetched: 0,
+  totalFeatures: null
+};
+
+function workerCount(): number {
+  const value = Number(process.env.PLAYLISTINTEL_ANALYSIS_WORKERS);
+  return Number.isInteger(value) && value > 0 ? value : 2;
+}
+
+export function isFinished(job: AnalysisJob): boolean {
+  return job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+function publicJob(stored: StoredAnalysisJob): AnalysisJob {
+  return {
+    id: stored.id,
+    playlistId: stored.playlistId,
+    accountId: stored.accountId,
+    status: stored.status,
+    progress: stored.progress,
+    sections: stored.sections ?? {},
+    createdAt: stored.createdAt,
+    updatedAt: stored.updatedAt,
+    startedAt: stored.startedAt,
+    finishedAt: stored.finishedAt,
+    attempts: stored.attempts,
+    error: stored.error
+  };
+}
+
+// Applies `change` to the stored job, one change at a time per job; returns the
+// updated job, or null when it doesn't exist
+function updateJob(jobId: string, change: (job: StoredAnalysisJob) => StoredAnalysisJob): Promise<StoredAnalysisJob | null> {
+  return withDataLock(jobKey(jobId), async () => {
+    const job = await getDataStore().get<StoredAnalysisJob>(jobKey(jobId));
+    if (!job) return null;
+    const updated = change(job);
+    if (updated !== job) {
+      await getDataStore().set(jobKey(jobId), { ...updated, updatedAt: new Date().toISOString() });
+    }
+    return updated;
+  });
+}
+
+function updateList(key: string, change: (ids: string[]) => string[]): Promise<string[]> {
+  return withDataLock(key, async () => {
+    const ids = change((await getDataStore().get<string[]>(key)) ?? []);
+    await getDataStore().set(key, ids);
+    return ids;
+  });
+}
+
+// Worker state lives on globalThis: route bundles and instrumentation.ts may each
+// load their own copy of this module, but there is one queue per process
+interface WorkerState {
+  queue: string[];
+  running: Map<string, AbortController>;
+}
+const globalForJobs = globalThis as { analysisJobWorker?: WorkerState };
+const worker: WorkerState = globalForJobs.analysisJobWorker ??= { queue: [], running: new Map() };
+
+function enqueue(jobId: string): void {
+  if (worker.queue.includes(jobId) || worker.running.has(jobId)) return;
+  worker.queue.push(jobId);
+  pump();
+}
+
+function pump(): void {
+  while (worker.running.size < workerCount() && worker.queue.length > 0) {
+    const jobId = worker.queue.shift()!;
+    const controller = new AbortController();
+    worker.running.set(jobId, controller);
+    runJob(jobId, controller.signal)
+      .catch(error => log.error('Analysis job crashed', { jobId, error }))
+      .finally(() => {
+        worker.running.delete(jobId);
+        pump();
+      });
+  }
+}
+
+// The access token to run the job with. A resumed job was most likely submitted
+// more than an hour ago, so it gets a fresh token from the account's stored
+// refresh token; without one (as in the demo) it tries the session's.
+async function jobAccessToken(job: StoredAnalysisJob, jobLog: typeof log): Promise<string> {
+  if (job.attempts > 1) {
+    try {
+      return (await storedAccountAccess(job.ownerId, job.accountId)).accessToken;
+    } catch (error) {
+      jobLog.warn('No stored Spotify tokens for resumed analysis job, using the session token', { error });
+    }
+  }
+  return openSecret(job.accessToken);
+}
+
+function errorCode(error: unknown): string {
+  if (error instanceof EmptyPlaylistError) return 'BAD_REQUEST';
+  if (error instanceof SpotifyApiError) return error.code;
+  return 'INTERNAL_ERROR';
+}
+
+async function runJob(jobId: string, signal: AbortSignal): Promise<void> {
+  const job = await updateJob(jobId, current => current.status === 'queued'
+    ? { ...current, status: 'running', startedAt: new Date().toISOString(), attempts: current.attempts + 1, progress: INITIAL_PROGRESS, sections: {} }
+    : current);
+  if (!job || job.status !== 'running') {
+    await updateList(ACTIVE_KEY, ids => ids.filter(id => id !== jobId));
+    return;
+  }
+
+  const jobLog = log.child({ jobId, playlistId: job.playlistId });
+  let lastSave = 0;
+  let lastStage = job.progress.stage;
+  let latest = job.progress;
+  const saveProgress = (progress: AnalysisProgress) => {
+    latest = progress;
+    const now = Date.now();
+    if (progress.stage === lastStage && now - lastSave < PROGRESS_SAVE_INTERVAL_MS) return;
+    lastSave = now;
+    lastStage = progress.stage;
+    // Never overwrite a cancellation that landed in the meantime
+    updateJob(jobId, current => current.status === 'running' ? { ...current, progress } : current)
+      .catch(error => jobLog.warn('Could not save analysis progress', { error }));
+  };
+
+  let outcome: Partial<StoredAnalysisJob>;
+  try {
+    const checkpoint = await getDataStore().get<AnalysisCheckpoint>(checkpointKey(jobId));
+    const spotifyService = new SpotifyService(await jobAccessToken(job, jobLog), {
+      logger: jobLog,
+      market: job.market,
+      onPlaylistItems: snapshotRecorder(job.ownerId)
+    });
+    const result = await analyzePlaylistCached(spotifyService, job.playlistId, {
+      logger: jobLog,
+      ownerId: job.ownerId,
+      refresh: job.refresh,
+      signal,
+      checkpoint,
+      // A checkpoint that can't be saved only costs a longer resume
+      onCheckpoint: async update => {
+        await getDataStore().set(checkpointKey(jobId), update)
+          .catch(error => jobLog.warn('Could not save analysis checkpoint', { error }));
+      },
+      onProgress: saveProgress,
+      // Sections are few, so each one is saved right away
+      onSection: ({ section, ...data }) => {
+        updateJob(jobId, current => current.status === 'running'
+          ? { ...current, sections: { ...current.sections, [section]: data } }
+          : current)
+          .catch(error => jobLog.warn('Could not save analysis section', { error }));
+      }
+    });
+    await getDataStore().set<CachedPlaylistAnalysis>(resultKey(jobId), result);
+    outcome = { status: 'succeeded' };
+    jobLog.info('Analysis job succeeded');
+  } catch (error) {
+    if (signal.aborted) {
+      outcome = { status: 'cancelled' };
+      jobLog.info('Analysis job cancelled');
+    } else {
+      outcome = { status: 'failed', error: { code: errorCode(error), message: error instanceof Error ? error.message : 'Unknown error' } };
+      jobLog.warn('Analysis job failed', { error });
+    }
+  }
+
+  await updateJob(jobId, current => isFinished(current)
+    ? current
+    : { ...current, ...outcome, progress: latest, finishedAt: new Date().toISOString() });
+  await getDataStore().delete(checkpointKey(jobId));
+  await updateList(ACTIVE_KEY, ids => ids.filter(id => id !== jobId));
+}
+
+function completedProgress(result: CachedPlaylistAnalysis): AnalysisProgress {
+  const tracks = result.profile.totalTracks;
+  const artists = result.profile.artistAnalysis.uniqueArtists;
+  return {
+    stage: 'done',
+    tracksFetched: tracks,
+    totalTracks: tracks,
+    artistsResolved: artists,
+    totalArtists: artists,
+    featuresFetched: tracks,
+    totalFeatures: tracks
+  };
+}
+
+// Queues an analysis of the playlist. A job for the same playlist and account
+// that is still queued or running is returned instead of starting another.
+// When a cached result matches the playlist (and `refresh` isn't set), the job
+// is created already succeeded and its result is returned with it.
+export function submitAnalysisJob(
+  ownerId: string,
+  playlistId: string,
+  access: SpotifyAccess,
+  options: { refresh?: boolean } = {}
+): Promise<{ job: AnalysisJob; result: CachedPlaylistAnalysis | null }> {
+  return withDataLock(submitLock(ownerId, playlistId), async () => {
+    for (const existing of await listAnalysisJobs(ownerId)) {
+      if (!isFinished(existing) && existing.playlistId === playlistId && existing.accountId === access.accountId) {
+        return { job: existing, result: null };
+      }
+    }
+
+    let cached: CachedPlaylistAnalysis | null = null;
+    if (!options.refresh) {
+      const spotifyService = new SpotifyService(access.accessToken, { logger: log, market: access.market });
+      const { snapshot_id } = await spotifyService.getPlaylist(playlistId);
+      cached = await getCachedAnalysis(ownerId, playlistId, snapshot_id);
+    }
+
+    const now = new Date().toISOString();
+    const job: StoredAnalysisJob = {
+      // Marked like the owner, so a demo's jobs stay with its other data in memory
+      id: isDemoOwner(ownerId) ? `${DEMO_OWNER_PREFIX}${randomUUID()}` : randomUUID(),
+      ownerId,
+      playlistId,
+      accountId: access.accountId,
+      accessToken: sealSecret(access.accessToken),
+      market: access.market,
+      ...(options.refresh ? { refresh: true } : {}),
+      status: cached ? 'succeeded' : 'queued',
+      progress: cached ? completedProgress(cached) : INITIAL_PROGRESS,
+      sections: {},
+      createdAt: now,
+      updatedAt: now,
+      startedAt: cached ? now : null,
+      finishedAt: cached ? now : null,
+      attempts: 0,
+      error: null
+    };
+    if (cached) await getDataStore().set(resultKey(job.id), cached);
+    await getDataStore().set(jobKey(job.id), job);
+
+    const ids = await updateList(ownerKey(ownerId), ids => [job.id, ...ids]);
+    await pruneJobs(ownerId, ids);
+
+    if (cached) {
+      log.info('Answered analysis job from the cache', { jobId: job.id, playlistId });
+      return { job: publicJob(job), result: cached };
+    }
+
+    await updateList(ACTIVE_KEY, ids => [...ids, job.id]);
+    log.info('Queued analysis job', { jobId: job.id, playlistId });
+    enqueue(job.id);
+    return { job: publicJob(job), result: null };
+  });
+}
+
+// Deletes the owner's oldest finished jobs beyond MAX_JOBS_PER_OWNER
+async function pruneJobs(ownerId: string, ids: string[]): Promise<void> {
+  if (ids.length <= MAX_JOBS_PER_OWNER) return;
+  const dropped: string[] = [];
+  for (const id of ids.slice(MAX_JOBS_PER_OWNER)) {
+    const job = await getDataStore().get<StoredAnalysisJob>(jobKey(id));
+    if (job && !isFinished(job)) continue;
+    await getDataStore().delete(jobKey(id));
+    await getDataStore().delete(resultKey(id));
+    await getDataStore().delete(checkpointKey(id));
+    dropped.push(id);
+  }
+  await updateList(ownerKey(ownerId), current => current.filter(id => !dropped.includes(id)));
+}
+
+async function getOwnedJob(ownerId: string, jobId: string): Promise<StoredAnalysisJob | null> {
+  const job = await getDataStore().get<StoredAnalysisJob>(jobKey(jobId));
+  return job && job.ownerId === ownerId ? job : null;
+}
+
+// The job and, once it succeeded, its result; null for a job the owner doesn't have
+export async function getAnalysisJob(
+  ownerId: string,
+  jobId: string
+): Promise<{ job: AnalysisJob; result: CachedPlaylistAnalysis | null } | null> {
+  const job = await getOwnedJob(ownerId, jobId);
+  if (!job) return null;
+  const result = job.status === 'succeeded'
+    ? (await getDataStore().get<CachedPlaylistAnalysis>(resultKey(jobId))) ?? null
+    : null;
+  return { job: publicJob(job), result };
+}
+
+// The owner's jobs, newest first, without results
+export async function listAnalysisJobs(ownerId: string): Promise<AnalysisJob[]> {
+  const ids = (await getDataStore().get<string[]>(ownerKey(ownerId))) ?? [];
+  const jobs = await Promise.all(ids.map(id => getDataStore().get<StoredAnalysisJob>(jobKey(id))));
+  return jobs.filter((job): job is StoredAnalysisJob => job !== undefined).map(publicJob);
+}
+
+// Cancels a queued or running job; finished jobs are returned unchanged.
+// Returns null for a job the owner doesn't have.
+export async function cancelAnalysisJob(ownerId: string, jobId: string): Promise<AnalysisJob | null> {
+  if (!(await getOwnedJob(ownerId, jobId))) return null;
+
+  const job = await updateJob(jobId, current => isFinished(current)
+    ? current
+    : { ...current, status: 'cancelled', finishedAt: new Date().toISOString() });
+  if (!job) return null;
+
+  worker.queue = worker.queue.filter(id => id !== jobId);
+  worker.running.get(jobId)?.abort();
+  await updateList(ACTIVE_KEY, ids => ids.filter(id => id !== jobId));
+  return publicJob(job);
+}
+
+// Queues again the jobs that were queued or running when the server stopped
+export async function resumeAnalysisJobs(): Promise<number> {
+  const unavailable = backgroundWorkUnavailable();
+  if (unavailable) {
+    log.info('Not resuming analysis jobs, background work cannot run here', { reason: unavailable });
+    return 0;
+  }
+  const ids = (await getDataStore().get<string[]>(ACTIVE_KEY)) ?? [];
+  const gone: string[] = [];
+  let resumed = 0;
+  for (const id of ids) {
+    const job = await updateJob(id, current => current.status === 'running' ? { ...current, status: 'queued' } : current);
+    if (job && !isFinished(job)) {
+      enqueue(id);
+      resumed++;
+    } else if (!job) {
+      // Demo jobs, kept in memory only
+      gone.push(id);
+    }
+  }
+  if (gone.length > 0) await updateList(ACTIVE_KEY, current => current.filter(id => !gone.includes(id)));
+  if (resumed > 0) log.info('Resumed analysis jobs', { count: resumed });
+  return resumed;
+}
@@ -0,0 +1,241 @@
+import { NextResponse } from 'next/server';
+import { PlaylistConflictError, SpotifyApiError, SpotifyErrorCode, SpotifyRateLimitedError } from './spotifyErrors';
+import type { PlaylistSnapshotDiff } from './spotify';
+import { featuresNeedingScopes, missingScopes } from './spotifyScopes';
+import { AccountNotLinkedError, AccountRelinkRequiredError } from './linkedAccounts';
+import { ApiTokenScopeError, InvalidApiTokenError } from './apiTokens';
+import { InvalidProfileError } from './savedProfiles';
+import { InvalidSettingsError } from './userSettings';
+import { PlaylistVersionNotFoundError } from './playlistHistory';
+
+export type ApiErrorCode =
+  | SpotifyErrorCode
+  | 'UNAUTHENTICATED'
+  | 'ACCOUNT_NOT_LINKED'
+  | 'ACCOUNT_RELINK_REQUIRED'
+  | 'INVALID_API_TOKEN'
+  | 'TOKEN_SCOPE_REQUIRED'
+  | 'BAD_REQUEST'
+  | 'JOBS_UNAVAILABLE'
+  | 'INTERNAL_ERROR';
+
+// JSON body of every error returned by an /api/* route
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  message: string;
+  solution: string;
+  // Seconds to wait before retrying (RATE_LIMIT only)
+  retryAfter?: number;
+  // Scopes to add to the session and the features they unlock (SCOPE_REQUIRED only).
+  // Both are missing when Spotify refused a token whose scopes we didn't know.
+  missingScopes?: string[];
+  features?: string[];
+  // Linked account the request was for (ACCOUNT_NOT_LINKED and ACCOUNT_RELINK_REQUIRED)
+  accountId?: string;
+  // API token scope the route needs (TOKEN_SCOPE_REQUIRED only, missing when no scope allows it)
+  requiredScope?: string;
+  // What changed since the caller's snapshot (CONFLICT only)
+  conflict?: {
+    expectedSnapshotId: string;
+    currentSnapshotId: string;
+    diff: PlaylistSnapshotDiff | null;
+  };
+  details?: string;
+}
+
+const defaults: Record<ApiErrorCode, { status: number; error: string; message: string; solution: string }> = {
+  UNAUTHENTICATED: {
+    status: 401,
+    error: 'Authentication required',
+    message: 'You need to sign in with Spotify to use this feature.',
+    solution: 'Sign in with Spotify and try again'
+  },
+  AUTH_FAILED: {
+    status: 401,
+    error: 'Authentication failed',
+    message: 'Your Spotify session has expired. Please log in again.',
+    solution: 'Refresh the page and sign in again'
+  },
+  FORBIDDEN: {
+    status: 403,
+    error: 'Access forbidden',
+    message: 'Your Spotify app is in Development Mode. This means only test users can access it. To fix this: 1) Go to Spotify Developer Dashboard, 2) Add your email as a test user, or 3) Switch to Production Mode (requires business verification).',
+    solution: 'Add test users or switch to Production Mode in Spotify Developer Dashboard'
+  },
+  RATE_LIMIT: {
+    status: 429,
+    error: 'Rate limit exceeded',
+    message: 'Spotify API rate limit exceeded. Please wait a moment before trying again.',
+    solution: 'Wait for the rate limit to reset, then refresh the page'
+  },
+  NOT_FOUND: {
+    status: 404,
+    error: 'Not found',
+    message: 'The requested item could not be found on Spotify.',
+    solution: 'Check that it still exists and that your account can access it'
+  },
+  SPOTIFY_UNAVAILABLE: {
+    status: 503,
+    error: 'Spotify unavailable',
+    message: 'Spotify is having trouble right now.',
+    solution: 'Try again in a few minutes'
+  },
+  SPOTIFY_ERROR: {
+    status: 502,
+    error: 'Spotify request failed',
+    message: 'Spotify rejected the request.',
+    solution: 'Refresh the page and try again'
+  },
+  CONFLICT: {
+    status: 409,
+    error: 'Playlist changed',
+    message: 'This playlist was changed in Spotify since you loaded it, so your edit could apply to the wrong tracks.',
+    solution: 'Reload the playlist, or apply your change anyway'
+  },
+  SCOPE_REQUIRED: {
+    status: 403,
+    error: 'More Spotify access needed',
+    message: 'This feature needs permissions you have not granted PlaylistIntel yet.',
+    solution: 'Grant the extra access on Spotify, then try again'
+  },
+  ACCOUNT_NOT_LINKED: {
+    status: 404,
+    error: 'Account not linked',
+    message: 'That Spotify account is not linked to your PlaylistIntel account.',
+    solution: 'Pick another account, or link this one from the account menu'
+  },
+  ACCOUNT_RELINK_REQUIRED: {
+    status: 401,
+    error: 'Account needs linking again',
+    message: 'Spotify no longer accepts the saved access for this linked account.',
+    solution: 'Link the account again from the account menu'
+  },
+  INVALID_API_TOKEN: {
+    status: 401,
+    error: 'Invalid API token',
+    message: 'The API token is not valid or has been revoked.',
+    solution: 'Create a new token on the settings page'
+  },
+  TOKEN_SCOPE_REQUIRED: {
+    status: 403,
+    error: 'API token scope missing',
+    message: 'This API token was not given the scope this route needs.',
+    solution: 'Create a token with the required scope on the settings page'
+  },
+  BAD_REQUEST: {
+    status: 400,
+    error: 'Invalid request',
+    message: 'The request is missing required data or contains invalid values.',
+    solution: 'Check the request and try again'
+  },
+  JOBS_UNAVAILABLE: {
+    status: 503,
+    error: 'Background analysis unavailable',
+    message: 'This server cannot run analyses in the background.',
+    solution: 'Analyze the playlist with GET /api/analysis/playlist/[id] instead'
+  },
+  INTERNAL_ERROR: {
+    status: 500,
+    error: 'Internal server error',
+    message: 'Something went wrong on our side.',
+    solution: 'Refresh the page and try again'
+  }
+};
+
+// Builds an error response with the standard envelope; unspecified fields use the code's defaults
+export function apiErrorResponse(
+  code: ApiErrorCode,
+  overrides: Partial<Omit<ApiErrorBody, 'code'>> & { status?: number } = {}
+): NextResponse<ApiErrorBody> {
+  const { status, ...fields } = overrides;
+  const base = defaults[code];
+  const body: ApiErrorBody = {
+    error: base.error,
+    message: base.message,
+    solution: base.solution,
+    ...fields,
+    code
+  };
+
+  const headers: Record<string, string> = {};
+  if (body.retryAfter !== undefined) {
+    headers['Retry-After'] = String(Math.ceil(body.retryAfter));
+  }
+  return NextResponse.json(body, { status: status ?? base.status, headers });
+}
+
+// Response for requests without a signed-in Spotify session
+export function unauthenticatedResponse(): NextResponse<ApiErrorBody> {
+  return apiErrorResponse('UNAUTHENTICATED');
+}
+
+// SCOPE_REQUIRED response when the session's granted scopes don't cover what
+// `route` needs (see routeFeatures), or null when the route can go ahead
+export function requireScopes(session: { scopes?: string[] }, route: string): NextResponse<ApiErrorBody> | null {
+  const missing = missingScopes(route, session.scopes);
+  if (missing.length === 0) return null;
+  return apiErrorResponse('SCOPE_REQUIRED', {
+    missingScopes: missing,
+    features: featuresNeedingScopes(route, missing)
+  });
+}
+
+// Maps anything thrown inside a route to the standard envelope. Spotify errors
+// keep their code and status; everything else becomes a 500 with `fallbackError`.
+export function errorResponse(error: unknown, fallbackError: string): NextResponse<ApiErrorBody> {
+  if (error instanceof SpotifyRateLimitedError) {
+    return apiErrorResponse('RATE_LIMIT', {
+      message: `Spotify API rate limit exceeded. Try again in ${Math.ceil(error.retryAfter)} seconds.`,
+      retryAfter: error.retryAfter
+    });
+  }
+
+  if (error instanceof AccountNotLinkedError) {
+    return apiErrorResponse('ACCOUNT_NOT_LINKED', { accountId: error.accountId });
+  }
+
+  if (error instanceof AccountRelinkRequiredError) {
+    return apiErrorResponse('ACCOUNT_RELINK_REQUIRED', { accountId: error.accountId });
+  }
+
+  if (error instanceof InvalidApiTokenError) {
+    return apiErrorResponse('INVALID_API_TOKEN');
+  }
+
+  if (error instanceof ApiTokenScopeError) {
+    return error.requiredScope
+      ? apiErrorResponse('TOKEN_SCOPE_REQUIRED', { requiredScope: error.requiredScope })
+      : apiErrorResponse('TOKEN_SCOPE_REQUIRED', { message: 'This route can only be used from the PlaylistIntel app, not with an API token.' });
+  }
+
+  if (error instanceof InvalidProfileError || error instanceof InvalidSettingsError) {
+    return apiErrorResponse('BAD_REQUEST', { error: error.message });
+  }
+
+  if (error instanceof PlaylistVersionNotFoundError) {
+    return apiErrorResponse('NOT_FOUND', { message: 'That version of the playlist is not in its history.' });
+  }
+
+  if (error instanceof PlaylistConflictError) {
+    return apiErrorResponse('CONFLICT', {
+      conflict: {
+        expectedSnapshotId: error.expectedSnapshotId,
+        currentSnapshotId: error.currentSnapshotId,
+        diff: error.diff
+      }
+    });
+  }
+
+  if (error instanceof SpotifyApiError) {
+    // Generic Spotify errors are 4xx responses we passed on unchanged, keep their status
+    return error.code === 'SPOTIFY_ERROR'
+      ? apiErrorResponse('SPOTIFY_ERROR', { status: error.statusCode, details: error.message })
+      : apiErrorResponse(error.code);
+  }
+
+  return apiErrorResponse('INTERNAL_ERROR', {
+    error: fallbackError,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
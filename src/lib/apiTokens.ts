@@ -0,0 +1,204 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { getDataStore, withDataLock } from './dataStore';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'api-tokens' });
+
+// Personal API tokens let scripts call the REST API with `Authorization: Bearer`
+// instead of a browser session. Only a SHA-256 hash of each token is stored; the
+// token itself is shown once, when it is created.
+
+export type ApiTokenScope = 'read:playlists' | 'write:playlists' | 'read:analysis';
+
+export const API_TOKEN_SCOPES: Record<ApiTokenScope, string> = {
+  'read:playlists': 'List playlists, their tracks, likes and past versions, and search tracks',
+  'write:playlists': 'Create, edit, copy, restore and delete playlists',
+  'read:analysis': 'Playlist analysis, saved profiles and listening analytics'
+};
+
+// Scope a token needs for each route, keyed like routeFeatures in spotifyScopes.ts.
+// Routes missing here (account linking, token management, ...) refuse API tokens.
+export const routeTokenScopes: Record<string, ApiTokenScope> = {
+  'GET /api/playlists': 'read:playlists',
+  'GET /api/playlists/[id]/tracks': 'read:playlists',
+  'GET /api/playlists/[id]/like': 'read:playlists',
+  'GET /api/playlists/[id]/history': 'read:playlists',
+  'GET /api/search/tracks': 'read:playlists',
+  'GET /api/profile': 'read:playlists',
+  'POST /api/playlists': 'write:playlists',
+  'POST /api/playlists/[id]/add-tracks': 'write:playlists',
+  'POST /api/playlists/[id]/copy': 'write:playlists',
+  'POST /api/playlists/[id]/like': 'write:playlists',
+  'PUT /api/playlists/[id]/cover': 'write:playlists',
+  'PUT /api/playlists/[id]/edit': 'write:playlists',
+  'DELETE /api/playlists/[id]/delete': 'write:playlists',
+  'DELETE /api/playlists/[id]/tracks': 'write:playlists',
+  'PATCH /api/playlists/[id]/tracks': 'write:playlists',
+  'POST /api/playlists/[id]/history/restore': 'write:playlists',
+  'GET /api/analysis/playlist/[id]': 'read:analysis',
+  'GET /api/analysis/playlist/[id]/stream': 'read:analysis',
+  // Jobs only read from Spotify, so starting or cancelling one is a read too
+  'GET /api/analysis/jobs': 'read:analysis',
+  'POST /api/analysis/jobs': 'read:analysis',
+  'GET /api/analysis/jobs/[id]': 'read:analysis',
+  'DELETE /api/analysis/jobs/[id]': 'read:analysis',
+  'GET /api/analytics/overview': 'read:analysis',
+  'GET /api/analytics/genres': 'read:analysis',
+  'GET /api/analytics/genres/[genre]/tracks': 'read:analysis',
+  'GET /api/analytics/listening-history': 'read:analysis',
+  'GET /api/analytics/playlists/most-listened': 'read:analysis',
+  'GET /api/analytics/playlists/user-activity': 'read:analysis',
+  'GET /api/analytics/playlists/user-listens': 'read:analysis',
+  'GET /api/analytics/tracks/most-played': 'read:analysis',
+  'GET /api/analytics/tracks/user-top': 'read:analysis',
+  'GET /api/profiles': 'read:analysis',
+  'GET /api/profiles/[profileId]': 'read:analysis'
+};
+
+const TOKEN_PREFIX = 'pit_';
+// lastUsedAt is written at most this often, so busy scripts don't write on every call
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  scopes: ApiTokenScope[];
+  // First characters of the token, to tell tokens apart in the UI
+  preview: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+interface StoredApiToken extends ApiToken {
+  hash: string;
+}
+
+// Lookup from a token's hash to its owner
+interface ApiTokenIndexEntry {
+  ownerId: string;
+  tokenId: string;
+}
+
+// The bearer token isn't one we issued, or it was revoked
+export class InvalidApiTokenError extends Error {
+  constructor() {
+    super('Invalid or revoked API token');
+    this.name = 'InvalidApiTokenError';
+  }
+}
+
+// The token is valid but wasn't given the scope the route needs
+export class ApiTokenScopeError extends Error {
+  // Undefined when the route can't be used with API tokens at all
+  readonly requiredScope?: ApiTokenScope;
+
+  constructor(requiredScope?: ApiTokenScope) {
+    super(requiredScope ? `API token lacks the ${requiredScope} scope` : 'This route is not available to API tokens');
+    this.name = 'ApiTokenScopeError';
+    this.requiredScope = requiredScope;
+  }
+}
+
+const tokensKey = (ownerId: string) => `api-tokens:${ownerId}`;
+const indexKey = (hash: string) => `api-token-hash:${hash}`;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+async function loadTokens(ownerId: string): Promise<StoredApiToken[]> {
+  return (await getDataStore().get<StoredApiToken[]>(tokensKey(ownerId))) ?? [];
+}
+
+async function saveTokens(ownerId: string, tokens: StoredApiToken[]): Promise<void> {
+  await getDataStore().set(tokensKey(ownerId), tokens);
+}
+
+function withoutHash(stored: StoredApiToken): ApiToken {
+  return {
+    id: stored.id,
+    name: stored.name,
+    scopes: stored.scopes,
+    preview: stored.preview,
+    createdAt: stored.createdAt,
+    lastUsedAt: stored.lastUsedAt
+  };
+}
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === 'string' && value in API_TOKEN_SCOPES;
+}
+
+export async function listApiTokens(ownerId: string): Promise<ApiToken[]> {
+  return (await loadTokens(ownerId)).map(withoutHash);
+}
+
+// Issues a token for `ownerId`. The returned secret can't be recovered later.
+export async function createApiToken(
+  ownerId: string,
+  name: string,
+  scopes: ApiTokenScope[]
+): Promise<{ token: string; apiToken: ApiToken }> {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const stored: StoredApiToken = {
+    id: randomUUID(),
+    name,
+    scopes: [...new Set(scopes)],
+    preview: token.slice(0, TOKEN_PREFIX.length + 6),
+    createdAt: new Date().toISOString(),
+    hash: hashToken(token)
+  };
+  await withDataLock(tokensKey(ownerId), async () => {
+    await getDataStore().set<ApiTokenIndexEntry>(indexKey(stored.hash), { ownerId, tokenId: stored.id });
+    await saveTokens(ownerId, [...(await loadTokens(ownerId)), stored]);
+  });
+  log.info('Created API token', { ownerId, tokenId: stored.id, scopes: stored.scopes });
+  return { token, apiToken: withoutHash(stored) };
+}
+
+// Returns false when the token didn't exist; `remaining` is how many are left
+export function revokeApiToken(ownerId: string, tokenId: string): Promise<{ revoked: boolean; remaining: number }> {
+  return withDataLock(tokensKey(ownerId), async () => {
+    const tokens = await loadTokens(ownerId);
+    const revoked = tokens.find(token => token.id === tokenId);
+    if (!revoked) return { revoked: false, remaining: tokens.length };
+
+    const remaining = tokens.filter(token => token.id !== tokenId);
+    await getDataStore().delete(indexKey(revoked.hash));
+    await saveTokens(ownerId, remaining);
+    log.info('Revoked API token', { ownerId, tokenId });
+    return { revoked: true, remaining: remaining.length };
+  });
+}
+
+// Owner and scopes of a bearer token. Throws InvalidApiTokenError for anything
+// we didn't issue or that has been revoked.
+export async function verifyApiToken(token: string): Promise<{ ownerId: string; apiToken: ApiToken }> {
+  if (!token.startsWith(TOKEN_PREFIX)) throw new InvalidApiTokenError();
+
+  const hash = hashToken(token);
+  const entry = await getDataStore().get<ApiTokenIndexEntry>(indexKey(hash));
+  if (!entry) throw new InvalidApiTokenError();
+
+  // Under the owner's lock, so recording lastUsedAt can't undo a create or revoke running alongside
+  return withDataLock(tokensKey(entry.ownerId), async () => {
+    const tokens = await loadTokens(entry.ownerId);
+    const stored = tokens.find(candidate => candidate.id === entry.tokenId && candidate.hash === hash);
+    if (!stored) throw new InvalidApiTokenError();
+
+    const now = Date.now();
+    if (!stored.lastUsedAt || now - Date.parse(stored.lastUsedAt) >= LAST_USED_RESOLUTION_MS) {
+      stored.lastUsedAt = new Date(now).toISOString();
+      await saveTokens(entry.ownerId, tokens);
+    }
+    return { ownerId: entry.ownerId, apiToken: withoutHash(stored) };
+  });
+}
+
+// Throws ApiTokenScopeError unless `apiToken` may call `route`
+export function assertApiTokenScope(apiToken: ApiToken, route: string): void {
+  const required = routeTokenScopes[route];
+  if (!required || !apiToken.scopes.includes(required)) {
+    throw new ApiTokenScopeError(required);
+  }
+}
@@ -0,0 +1,21 @@
+import { getDataStore } from './dataStore';
+
+// Work the server does between requests (the play history collector, analysis
+// jobs) needs a process that keeps running after it answers, and a DataStore
+// that outlives it. Serverless functions are frozen or torn down after each
+// response, so there that work would never finish, or never start.
+
+// Set by the serverless platforms this app is deployed to (netlify.toml, Vercel,
+// AWS Lambda, Azure Functions)
+const SERVERLESS_ENV_VARS = ['NETLIFY', 'VERCEL', 'AWS_LAMBDA_FUNCTION_NAME', 'FUNCTIONS_WORKER_RUNTIME'];
+
+export function isServerlessRuntime(): boolean {
+  return SERVERLESS_ENV_VARS.some(name => Boolean(process.env[name]));
+}
+
+// Why background work can't run in this process, or null when it can
+export function backgroundWorkUnavailable(): string | null {
+  if (isServerlessRuntime()) return 'the server runs on serverless functions';
+  if (!getDataStore().persistent) return 'the DataStore keeps data in memory only';
+  return null;
+}
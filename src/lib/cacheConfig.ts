@@ -0,0 +1,24 @@
+// How long SpotifyService keeps Spotify responses around. Playlist track lists are
+// keyed by snapshot_id, so they never go stale; their TTL only bounds storage.
+// Artists and audio features have no version marker and expire after a TTL.
+
+export interface CacheConfig {
+  // Directory for the file-backed store; the in-memory store is used when unset
+  directory?: string;
+  playlistTracksTtlSeconds: number;
+  artistTtlSeconds: number;
+  audioFeaturesTtlSeconds: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const cacheConfig: CacheConfig = {
+  directory: process.env.SPOTIFY_CACHE_DIR || undefined,
+  playlistTracksTtlSeconds: envNumber('SPOTIFY_CACHE_PLAYLIST_TTL', 7 * 24 * 60 * 60),
+  artistTtlSeconds: envNumber('SPOTIFY_CACHE_ARTIST_TTL', 24 * 60 * 60),
+  // Audio features are computed once per recording and essentially never change
+  audioFeaturesTtlSeconds: envNumber('SPOTIFY_CACHE_AUDIO_FEATURES_TTL', 30 * 24 * 60 * 60)
+};
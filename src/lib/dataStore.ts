@@ -0,0 +1,217 @@
+import { createHash } from 'crypto';
+import { accessSync, constants, mkdirSync, promises as fs } from 'fs';
+import path from 'path';
+import type { Session } from 'next-auth';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'data-store' });
+
+// Storage for data the app owns (linked accounts, ...). Unlike the Spotify cache,
+// entries never expire and can't be fetched again, so a write failure is an error.
+// The default is a FileDataStore in PLAYLISTINTEL_DATA_DIR (DEFAULT_DATA_DIR when
+// unset). `memory`, or a directory the server can't write to, keeps entries in
+// process memory instead; anything else can be plugged in with setDataStore().
+// Demo data never reaches that store: see DemoRoutingDataStore.
+export interface DataStore {
+  // Whether entries survive a restart of the server
+  readonly persistent: boolean;
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export class InMemoryDataStore implements DataStore {
+  readonly persistent = false;
+  private entries = new Map<string, unknown>();
+
+  async get<T>(key: string): Promise<T | undefined> {
+    // Hand out copies so callers can't change stored values by accident
+    const value = this.entries.get(key);
+    return value === undefined ? undefined : structuredClone(value as T);
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    this.entries.set(key, structuredClone(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+// One JSON file per key, named after a hash of the key
+export class FileDataStore implements DataStore {
+  readonly persistent = true;
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(key), 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write then rename so concurrent readers never see a half-written file
+    const file = this.fileFor(key);
+    const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(value), { mode: 0o600 });
+    await fs.rename(tempFile, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+}
+
+// In-memory store that forgets entries `ttlMs` after their last write, and the
+// least recently written ones beyond `maxEntries`
+export class ExpiringMemoryDataStore implements DataStore {
+  readonly persistent = false;
+  // In write order, so the oldest entries come first
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+  private ttlMs: number;
+  private maxEntries: number;
+
+  constructor(ttlMs: number, maxEntries: number) {
+    this.ttlMs = ttlMs;
+    this.maxEntries = maxEntries;
+  }
+
+  private evict(now: number) {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt > now && this.entries.size <= this.maxEntries) break;
+      this.entries.delete(key);
+    }
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return structuredClone(entry.value as T);
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, { value: structuredClone(value), expiresAt: now + this.ttlMs });
+    this.evict(now);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+// Owner ids (and ids of what they own, such as analysis jobs) of demo visitors
+// start with this, so their entries can be told apart by key
+export const DEMO_OWNER_PREFIX = 'demo:';
+
+// Who owns the data a session reads and writes (saved profiles, settings, ...):
+// the Spotify user id, except in the demo, where every visitor is the same
+// fixture user and gets data of their own for as long as their demo lasts
+export function dataOwnerId(session: Session): string | null {
+  if (session.demo) return session.accessToken ? `${DEMO_OWNER_PREFIX}${session.accessToken}` : null;
+  return session.user?.id ?? null;
+}
+
+export function isDemoOwner(ownerId: string): boolean {
+  return ownerId.startsWith(DEMO_OWNER_PREFIX);
+}
+
+// Demo data lasts about as long as the demo session (DEMO_SESSION_SECONDS in
+// demoMode.ts), and all demos together keep at most this many entries
+const DEMO_DATA_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_DEMO_ENTRIES = 1000;
+
+// Sends entries of demo visitors to a bounded in-memory store and everything else
+// to the configured one, so anonymous visitors can't fill the disk
+class DemoRoutingDataStore implements DataStore {
+  private demo = new ExpiringMemoryDataStore(DEMO_DATA_TTL_MS, MAX_DEMO_ENTRIES);
+  private store: DataStore;
+
+  constructor(store: DataStore) {
+    this.store = store;
+  }
+
+  get persistent(): boolean {
+    return this.store.persistent;
+  }
+
+  private storeFor(key: string): DataStore {
+    return key.includes(DEMO_OWNER_PREFIX) ? this.demo : this.store;
+  }
+
+  get<T>(key: string): Promise<T | undefined> {
+    return this.storeFor(key).get<T>(key);
+  }
+
+  set<T>(key: string, value: T): Promise<void> {
+    return this.storeFor(key).set(key, value);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.storeFor(key).delete(key);
+  }
+}
+
+// Read-modify-write updates of the same entries from several requests (or a
+// background job) at once would overwrite each other; run them one at a time per `lock`
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+export function withDataLock<T>(lock: string, task: () => Promise<T>): Promise<T> {
+  const previous = pendingUpdates.get(lock) ?? Promise.resolve();
+  const next = previous.then(task, task);
+  const settled = next.catch(() => undefined);
+  pendingUpdates.set(lock, settled);
+  settled.then(() => {
+    if (pendingUpdates.get(lock) === settled) pendingUpdates.delete(lock);
+  });
+  return next;
+}
+
+// Relative to the directory the server starts in
+export const DEFAULT_DATA_DIR = '.playlistintel-data';
+
+let sharedStore: DemoRoutingDataStore | null = null;
+
+function createDataStore(): DataStore {
+  const setting = process.env.PLAYLISTINTEL_DATA_DIR?.trim() || DEFAULT_DATA_DIR;
+  if (setting === 'memory') return new InMemoryDataStore();
+
+  const directory = path.resolve(setting);
+  try {
+    mkdirSync(directory, { recursive: true });
+    accessSync(directory, constants.W_OK);
+  } catch (error) {
+    // Read-only filesystems, as on serverless hosts
+    log.warn('Data directory is not writable, keeping data in memory', { directory, error });
+    return new InMemoryDataStore();
+  }
+  return new FileDataStore(directory);
+}
+
+export function getDataStore(): DataStore {
+  if (!sharedStore) sharedStore = new DemoRoutingDataStore(createDataStore());
+  return sharedStore;
+}
+
+// Swap the backing store, e.g. for a SQLite or Redis implementation
+export function setDataStore(store: DataStore) {
+  sharedStore = new DemoRoutingDataStore(store);
+}
@@ -0,0 +1,77 @@
+import { randomBytes } from 'crypto';
+import { FakeSpotifyServer } from './fakeSpotify';
+import type { SpotifyTransport } from './spotifyTransport';
+
+// Demo mode lets people use PlaylistIntel without a Spotify app or account. A
+// demo sign-in gets an access token that SpotifyService sends to a fake server of
+// its own, seeded from the bundled fixture library, so one visitor's edits never
+// show up for another.
+//
+// NEXT_PUBLIC_DEMO_MODE: off unless set. `on` offers a "Try demo" button next to
+// the Spotify sign-in, and `true` signs every visitor in to the demo.
+
+const DEMO_TOKEN_PREFIX = 'demo_';
+// Demos running at once. Each holds its slot until its session ends, so a new
+// demo is refused while all are taken rather than ending someone else's.
+const MAX_DEMOS = 50;
+// How long a demo access token lasts before the session gets a fresh demo
+export const DEMO_SESSION_SECONDS = 24 * 60 * 60;
+
+interface Demo {
+  // Created on the demo's first Spotify call
+  server: FakeSpotifyServer | null;
+  expiresAt: number;
+}
+
+const demos = new Map<string, Demo>();
+
+export function isDemoEnabled(): boolean {
+  const mode = process.env.NEXT_PUBLIC_DEMO_MODE;
+  return mode === 'on' || mode === 'true';
+}
+
+function dropEndedDemos(now: number) {
+  for (const [accessToken, demo] of demos) {
+    if (demo.expiresAt <= now) demos.delete(accessToken);
+  }
+}
+
+// Takes a demo slot for `accessToken`; false when all slots are taken
+function claimDemo(accessToken: string): boolean {
+  const now = Date.now();
+  dropEndedDemos(now);
+  if (demos.size >= MAX_DEMOS) return false;
+  demos.set(accessToken, { server: null, expiresAt: now + DEMO_SESSION_SECONDS * 1000 });
+  return true;
+}
+
+// Access token of a new demo, or null when MAX_DEMOS demos are running already
+export function createDemoAccessToken(): string | null {
+  const accessToken = `${DEMO_TOKEN_PREFIX}${randomBytes(16).toString('base64url')}`;
+  return claimDemo(accessToken) ? accessToken : null;
+}
+
+export function isDemoAccessToken(accessToken: string): boolean {
+  return accessToken.startsWith(DEMO_TOKEN_PREFIX);
+}
+
+// The demo's fake server, or null once the demo has ended. A demo of a session
+// from before a restart gets a slot again if one is free.
+export function getDemoServer(accessToken: string): FakeSpotifyServer | null {
+  let demo = demos.get(accessToken);
+  if (demo && demo.expiresAt <= Date.now()) {
+    demos.delete(accessToken);
+    return null;
+  }
+  if (!demo) {
+    if (!claimDemo(accessToken)) return null;
+    demo = demos.get(accessToken)!;
+  }
+  demo.server ??= new FakeSpotifyServer(undefined, { snapshotTag: `${accessToken.slice(DEMO_TOKEN_PREFIX.length, DEMO_TOKEN_PREFIX.length + 8)}.` });
+  return demo.server;
+}
+
+// Answers every call of a demo that has ended like Spotify does an expired token,
+// so the session is asked to sign in again
+export const endedDemoTransport: SpotifyTransport = async () =>
+  Response.json({ error: { status: 401, message: 'The demo has ended' } }, { status: 401 });
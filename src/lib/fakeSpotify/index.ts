@@ -0,0 +1,644 @@
+import type { SpotifyTransport } from '../spotifyTransport';
+import meFixture from './fixtures/me.json';
+import usersFixture from './fixtures/users.json';
+import artistsFixture from './fixtures/artists.json';
+import tracksFixture from './fixtures/tracks.json';
+import audioFeaturesFixture from './fixtures/audio-features.json';
+import playlistsFixture from './fixtures/playlists.json';
+import recentlyPlayedFixture from './fixtures/recently-played.json';
+import topFixture from './fixtures/top.json';
+import followersFixture from './fixtures/followers.json';
+
+// Fixture shapes. Tracks and playlist items reference artists/tracks by id and
+// are expanded into full Spotify objects when served.
+export interface FakeUser {
+  id: string;
+  display_name: string;
+}
+
+export interface FakeArtist {
+  id: string;
+  name: string;
+  genres: string[];
+  popularity: number;
+  followers: { total: number };
+}
+
+export interface FakeTrack {
+  id: string;
+  name: string;
+  artists: string[];
+  album: { id: string; name: string; release_date: string };
+  duration_ms: number;
+  popularity: number;
+  explicit: boolean;
+  isrc: string;
+}
+
+export interface FakePlaylistItem {
+  track: string | null;
+  added_at: string;
+  added_by: string;
+  // Local files and podcast episodes have no catalog track and are described inline
+  local?: { name: string; artist: string; album: string; duration_ms: number };
+  episode?: { id: string; name: string; show: string; duration_ms: number; release_date: string };
+}
+
+export interface FakePlaylist {
+  id: string;
+  name: string;
+  description: string;
+  owner: string;
+  public: boolean;
+  collaborative: boolean;
+  followers: number;
+  tracks: FakePlaylistItem[];
+  // Cover uploaded through PUT /playlists/{id}/images, as a data: URL
+  image?: string;
+}
+
+export interface FakePlay {
+  track: string;
+  played_at: string;
+  context: string | null;
+}
+
+export interface FakeSpotifyLibrary {
+  me: typeof meFixture;
+  users: Record<string, FakeUser>;
+  artists: FakeArtist[];
+  tracks: FakeTrack[];
+  audioFeatures: Array<{ id: string } & Record<string, number | string>>;
+  playlists: FakePlaylist[];
+  recentlyPlayed: FakePlay[];
+  top: { tracks: string[]; artists: string[] };
+  followers: Record<string, string[]>;
+}
+
+interface FakeResponse {
+  status: number;
+  body?: unknown;
+}
+
+type RouteHandler = (match: RegExpMatchArray, url: URL, body: unknown) => FakeResponse;
+
+// Returns a deep copy of the bundled fixtures so each server can mutate its own state
+export function loadFixtureLibrary(): FakeSpotifyLibrary {
+  return JSON.parse(JSON.stringify({
+    me: meFixture,
+    users: usersFixture,
+    artists: artistsFixture,
+    tracks: tracksFixture,
+    audioFeatures: audioFeaturesFixture,
+    playlists: playlistsFixture,
+    recentlyPlayed: recentlyPlayedFixture,
+    top: topFixture,
+    followers: followersFixture
+  }));
+}
+
+const FAKE_API_ROOT = 'https://fake.spotify.local/v1';
+
+function error(status: number, message: string): FakeResponse {
+  return { status, body: { error: { status, message } } };
+}
+
+// In-memory stand-in for the Spotify Web API backed by fixture files. It speaks the
+// same paths and JSON shapes as api.spotify.com for the endpoints PlaylistIntel uses.
+export class FakeSpotifyServer {
+  private library: FakeSpotifyLibrary;
+  private artists: Map<string, FakeArtist>;
+  private tracks: Map<string, FakeTrack>;
+  private snapshotVersions = new Map<string, number>();
+  // Item list of every snapshot handed out, so positions sent with an older
+  // snapshot_id resolve the way Spotify resolves them
+  private snapshotItems = new Map<string, FakePlaylistItem[]>();
+  private routes: Array<[string, RegExp, RouteHandler]>;
+  // Part of every snapshot_id, so servers sharing one response cache don't hand
+  // out the same snapshot_id for different item lists
+  private snapshotTag: string;
+
+  constructor(library: FakeSpotifyLibrary = loadFixtureLibrary(), options: { snapshotTag?: string } = {}) {
+    this.library = library;
+    this.snapshotTag = options.snapshotTag ?? '';
+    this.artists = new Map(library.artists.map(artist => [artist.id, artist]));
+    this.tracks = new Map(library.tracks.map(track => [track.id, track]));
+
+    this.routes = [
+      ['GET', /^\/me$/, () => ({ status: 200, body: this.library.me })],
+      ['GET', /^\/me\/playlists$/, (_m, url) => this.listPlaylists(this.library.me.id, url)],
+      ['GET', /^\/users\/([^/]+)\/playlists$/, (m, url) => this.listPlaylists(m[1], url)],
+      ['GET', /^\/users\/([^/]+)$/, m => this.getUser(m[1])],
+      ['GET', /^\/me\/top\/tracks$/, (_m, url) => this.page(url, this.library.top.tracks.map(id => this.toTrack(id)), 20, 50)],
+      ['GET', /^\/me\/top\/artists$/, (_m, url) => this.page(url, this.library.top.artists.map(id => this.toArtist(id)), 20, 50)],
+      ['GET', /^\/me\/player\/recently-played$/, (_m, url) => this.recentlyPlayed(url)],
+      ['GET', /^\/playlists\/([^/]+)$/, m => this.getPlaylist(m[1])],
+      ['PUT', /^\/playlists\/([^/]+)$/, (m, _url, body) => this.updatePlaylist(m[1], body)],
+      ['GET', /^\/playlists\/([^/]+)\/tracks$/, (m, url) => this.getPlaylistItems(m[1], url)],
+      ['POST', /^\/playlists\/([^/]+)\/tracks$/, (m, url, body) => this.addPlaylistItems(m[1], url, body)],
+      ['DELETE', /^\/playlists\/([^/]+)\/tracks$/, (m, _url, body) => this.removePlaylistItems(m[1], body)],
+      ['PUT', /^\/playlists\/([^/]+)\/tracks$/, (m, url, body) => this.updatePlaylistItems(m[1], url, body)],
+      ['PUT', /^\/playlists\/([^/]+)\/images$/, (m, _url, body) => this.uploadCoverImage(m[1], body)],
+      ['POST', /^\/users\/([^/]+)\/playlists$/, (m, _url, body) => this.createPlaylist(m[1], body)],
+      ['PUT', /^\/playlists\/([^/]+)\/followers$/, m => this.setFollowing(m[1], true)],
+      ['DELETE', /^\/playlists\/([^/]+)\/followers$/, m => this.setFollowing(m[1], false)],
+      ['GET', /^\/playlists\/([^/]+)\/followers\/contains$/, (m, url) => this.checkFollowers(m[1], url)],
+      ['GET', /^\/artists$/, (_m, url) => this.byIds(url, 50, 'artists', id => this.artists.has(id) ? this.toArtist(id) : null)],
+      ['GET', /^\/artists\/([^/]+)$/, m => this.artists.has(m[1]) ? { status: 200, body: this.toArtist(m[1]) } : error(404, 'Non existing id')],
+      ['GET', /^\/tracks$/, (_m, url) => this.byIds(url, 50, 'tracks', id => this.tracks.has(id) ? this.toTrack(id) : null)],
+      ['GET', /^\/tracks\/([^/]+)$/, m => this.tracks.has(m[1]) ? { status: 200, body: this.toTrack(m[1]) } : error(404, 'Non existing id')],
+      ['GET', /^\/audio-features$/, (_m, url) => this.byIds(url, 100, 'audio_features', id => this.library.audioFeatures.find(f => f.id === id) ?? null)],
+      ['GET', /^\/search$/, (_m, url) => this.search(url)]
+    ];
+  }
+
+  // Transport that can be handed to SpotifyService or spotifyFetch
+  transport: SpotifyTransport = async (path, init = {}) => {
+    const headers = new Headers(init.headers);
+    const method = (init.method || 'GET').toUpperCase();
+    let body: unknown;
+    if (typeof init.body === 'string' && headers.get('Content-Type')?.startsWith('image/')) {
+      body = init.body;
+    } else if (typeof init.body === 'string' && init.body.length > 0) {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        return this.toResponse(error(400, 'Error parsing JSON.'));
+      }
+    }
+    return this.toResponse(this.handle(method, path, headers.get('Authorization'), body));
+  };
+
+  handle(method: string, path: string, authorization: string | null, body?: unknown): FakeResponse {
+    if (!authorization || !/^Bearer\s+\S+/.test(authorization)) {
+      return error(401, 'No token provided');
+    }
+
+    const url = new URL(path.replace(/^\/v1(?=\/)/, ''), FAKE_API_ROOT + '/');
+    const pathname = url.pathname.replace(/^\/v1/, '').replace(/\/+$/, '') || '/';
+
+    for (const [routeMethod, pattern, handler] of this.routes) {
+      const match = pathname.match(pattern);
+      if (match && routeMethod === method) {
+        return handler(match, url, body);
+      }
+    }
+    return error(404, 'Service not found');
+  }
+
+  private toResponse({ status, body }: FakeResponse): Response {
+    return new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  private findPlaylist(playlistId: string) {
+    return this.library.playlists.find(playlist => playlist.id === playlistId);
+  }
+
+  private snapshotId(playlistId: string) {
+    const snapshotId = `${playlistId}:${this.snapshotTag}v${this.snapshotVersions.get(playlistId) ?? 1}`;
+    const playlist = this.findPlaylist(playlistId);
+    if (playlist && !this.snapshotItems.has(snapshotId)) {
+      this.snapshotItems.set(snapshotId, [...playlist.tracks]);
+    }
+    return snapshotId;
+  }
+
+  // Callers record the outgoing version with snapshotId() before changing the items
+  private bumpSnapshot(playlistId: string) {
+    this.snapshotVersions.set(playlistId, (this.snapshotVersions.get(playlistId) ?? 1) + 1);
+    return this.snapshotId(playlistId);
+  }
+
+  private canModify(playlist: FakePlaylist) {
+    return playlist.owner === this.library.me.id || playlist.collaborative;
+  }
+
+  private itemUri(item: FakePlaylistItem) {
+    if (item.episode) return `spotify:episode:${item.episode.id}`;
+    if (item.local) return this.toLocalTrack(item.local).uri;
+    return item.track ? `spotify:track:${item.track}` : null;
+  }
+
+  private toUser(userId: string) {
+    const user = this.library.users[userId] ?? { id: userId, display_name: userId };
+    return {
+      ...user,
+      type: 'user',
+      uri: `spotify:user:${user.id}`,
+      external_urls: { spotify: `https://open.spotify.com/user/${user.id}` }
+    };
+  }
+
+  private toArtist(artistId: string) {
+    const artist = this.artists.get(artistId);
+    return {
+      ...artist,
+      id: artistId,
+      type: 'artist',
+      images: [],
+      uri: `spotify:artist:${artistId}`,
+      external_urls: { spotify: `https://open.spotify.com/artist/${artistId}` }
+    };
+  }
+
+  private toTrack(trackId: string) {
+    const track = this.tracks.get(trackId);
+    if (!track) return null;
+
+    const artists = track.artists.map(id => ({
+      id,
+      name: this.artists.get(id)?.name ?? 'Unknown Artist',
+      type: 'artist',
+      uri: `spotify:artist:${id}`
+    }));
+
+    return {
+      id: track.id,
+      name: track.name,
+      type: 'track',
+      uri: `spotify:track:${track.id}`,
+      href: `${FAKE_API_ROOT}/tracks/${track.id}`,
+      external_urls: { spotify: `https://open.spotify.com/track/${track.id}` },
+      external_ids: { isrc: track.isrc },
+      artists,
+      album: {
+        ...track.album,
+        type: 'album',
+        album_type: 'album',
+        release_date_precision: 'day',
+        images: [],
+        artists: artists.slice(0, 1),
+        uri: `spotify:album:${track.album.id}`
+      },
+      duration_ms: track.duration_ms,
+      popularity: track.popularity,
+      explicit: track.explicit,
+      is_local: false,
+      is_playable: true,
+      disc_number: 1,
+      track_number: 1,
+      preview_url: null
+    };
+  }
+
+  private toPlaylist(playlist: FakePlaylist) {
+    return {
+      id: playlist.id,
+      name: playlist.name,
+      description: playlist.description,
+      type: 'playlist',
+      uri: `spotify:playlist:${playlist.id}`,
+      href: `${FAKE_API_ROOT}/playlists/${playlist.id}`,
+      external_urls: { spotify: `https://open.spotify.com/playlist/${playlist.id}` },
+      images: playlist.image ? [{ url: playlist.image, width: null, height: null }] : [],
+      owner: this.toUser(playlist.owner),
+      public: playlist.public,
+      collaborative: playlist.collaborative,
+      followers: { href: null, total: playlist.followers },
+      snapshot_id: this.snapshotId(playlist.id),
+      tracks: { href: `${FAKE_API_ROOT}/playlists/${playlist.id}/tracks`, total: playlist.tracks.length }
+    };
+  }
+
+  // Local file as Spotify serves it: no ids, no images, uri built from the tags
+  private toLocalTrack(local: NonNullable<FakePlaylistItem['local']>) {
+    const tag = (value: string) => encodeURIComponent(value).replace(/%20/g, '+');
+    return {
+      id: null,
+      name: local.name,
+      type: 'track',
+      uri: `spotify:local:${tag(local.artist)}:${tag(local.album)}:${tag(local.name)}:${Math.round(local.duration_ms / 1000)}`,
+      href: null,
+      external_urls: {},
+      external_ids: {},
+      artists: [{ id: null, name: local.artist, type: 'artist', uri: null }],
+      album: { id: null, name: local.album, type: 'album', album_type: null, release_date: null, images: [], artists: [], uri: null },
+      duration_ms: local.duration_ms,
+      popularity: 0,
+      explicit: false,
+      is_local: true,
+      disc_number: 0,
+      track_number: 0,
+      preview_url: null
+    };
+  }
+
+  private toEpisode(episode: NonNullable<FakePlaylistItem['episode']>) {
+    const showId = `show-${episode.show.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+    return {
+      id: episode.id,
+      name: episode.name,
+      type: 'episode',
+      uri: `spotify:episode:${episode.id}`,
+      href: `${FAKE_API_ROOT}/episodes/${episode.id}`,
+      external_urls: { spotify: `https://open.spotify.com/episode/${episode.id}` },
+      duration_ms: episode.duration_ms,
+      release_date: episode.release_date,
+      explicit: false,
+      is_playable: true,
+      images: [],
+      show: { id: showId, name: episode.show, type: 'show', uri: `spotify:show:${showId}`, images: [] }
+    };
+  }
+
+  private toPlaylistItem(item: FakePlaylistItem) {
+    let track: unknown = null;
+    if (item.local) {
+      track = this.toLocalTrack(item.local);
+    } else if (item.episode) {
+      track = this.toEpisode(item.episode);
+    } else if (item.track) {
+      track = this.toTrack(item.track);
+    }
+    return {
+      added_at: item.added_at,
+      added_by: this.toUser(item.added_by),
+      is_local: !!item.local,
+      track
+    };
+  }
+
+  private page<T>(url: URL, all: T[], defaultLimit: number, maxLimit: number): FakeResponse {
+    const limit = Number(url.searchParams.get('limit') ?? defaultLimit);
+    const offset = Number(url.searchParams.get('offset') ?? 0);
+    if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+      return error(400, 'Invalid limit');
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return error(400, 'Invalid offset');
+    }
+
+    const pageUrl = (pageOffset: number) => {
+      const next = new URL(url.toString());
+      next.searchParams.set('offset', String(pageOffset));
+      next.searchParams.set('limit', String(limit));
+      return next.toString();
+    };
+
+    return {
+      status: 200,
+      body: {
+        href: url.toString(),
+        items: all.slice(offset, offset + limit),
+        limit,
+        offset,
+        total: all.length,
+        next: offset + limit < all.length ? pageUrl(offset + limit) : null,
+        previous: offset > 0 ? pageUrl(Math.max(0, offset - limit)) : null
+      }
+    };
+  }
+
+  private byIds(url: URL, maxIds: number, key: string, lookup: (id: string) => unknown): FakeResponse {
+    const ids = (url.searchParams.get('ids') ?? '').split(',').filter(Boolean);
+    if (ids.length === 0) return error(400, 'invalid request');
+    if (ids.length > maxIds) return error(400, 'Too many ids requested');
+    return { status: 200, body: { [key]: ids.map(lookup) } };
+  }
+
+  private getUser(userId: string): FakeResponse {
+    if (!this.library.users[userId]) return error(404, 'No such user');
+    return { status: 200, body: { ...this.toUser(userId), followers: { total: 0 }, images: [] } };
+  }
+
+  private listPlaylists(userId: string, url: URL): FakeResponse {
+    const followed = Object.entries(this.library.followers)
+      .filter(([, users]) => users.includes(userId))
+      .map(([playlistId]) => playlistId);
+    const playlists = this.library.playlists
+      .filter(playlist => playlist.owner === userId || followed.includes(playlist.id))
+      .map(playlist => this.toPlaylist(playlist));
+    return this.page(url, playlists, 20, 50);
+  }
+
+  private getPlaylist(playlistId: string): FakeResponse {
+    const playlist = this.findPlaylist(playlistId);
+    if (!playlist) return error(404, 'Not found.');
+    return {
+      status: 200,
+      body: {
+        ...this.toPlaylist(playlist),
+        tracks: this.page(new URL(`${FAKE_API_ROOT}/playlists/${playlistId}/tracks`), playlist.tracks.map(item => this.toPlaylistItem(item)), 100, 100).body
+      }
+    };
+  }
+
+  private getPlaylistItems(playlistId: string, url: URL): FakeResponse {
+    const playlist = this.findPlaylist(playlistId);
+    if (!playlist) return error(404, 'Not found.');
+    return this.page(url, playlist.tracks.map(item => this.toPlaylistItem(item)), 100, 100);
+  }
+
+  private updatePlaylist(playlistId: string, body: unknown): FakeResponse {
+    const playlist = this.findPlaylist(playlistId);
+    if (!playlist) return error(404, 'Not found.');
+    if (playlist.owner !== this.library.me.id) return error(403, 'You cannot edit a playlist you do not own.');
+
+    const details = (body ?? {}) as Partial<Pick<FakePlaylist, 'name' | 'description' | 'public' | 'collaborative'>>;
+    if (typeof details.name === 'string') playlist.name = details.name;
+    if (typeof details.description === 'string') playlist.description = details.description;
+    if (typeof details.public === 'boolean') playlist.public = details.public;
+    if (typeof details.collaborative === 'boolean') playlist.collaborative = details.collaborative;
+    return { status: 200 };
+  }
+
+  private addPlaylistItems(playlistId: string, url: URL, body: unknown): FakeResponse {
+    const playlist = this.findPlaylist(playlistId);
+    if (!playlist) return error(404, 'Not found.');
+    if (!this.canModify(playlist)) {
+      return error(403, 'You cannot add tracks to a playlist you do not own.');
+    }
+
+    const requestBody = (body ?? {}) as { uris?: string[]; position?: number };
+    const uris = requestBody.uris ?? (url.searchParams.get('uris') ?? '').split(',').filter(Boolean);
+    if (uris.length === 0 || uris.length > 100) return error(400, 'You can add a maximum of 100 tracks per request.');
+
+    const trackIds: string[] = [];
+    for (const uri of uris) {
+      const trackId = uri.startsWith('spotify:track:') ? uri.slice('spotify:track:'.length) : '';
+      if (!this.tracks.has(trackId)) return error(400, `Invalid track uri: ${uri}`);
+      trackIds.push(trackId);
+    }
+
+    const addedAt = new Date().toISOString();
+    const items = trackIds.map(track => ({ track, added_at: addedAt, added_by: this.library.me.id }));
+    const position = requestBody.position ?? Number(url.searchParams.get('position') ?? playlist.tracks.length);
+    this.snapshotId(playlistId);
+    playlist.tracks.splice(Math.min(position, playlist.tracks.length), 0, ...items);
+    return { status: 201, body: { snapshot_id: this.bumpSnapshot(playlistId) } };
+  }
+
+  private removePlaylistItems(playlistId: string, body: unknown): FakeResponse {
+    const playlist = this.findPlaylist(playlistId);
+    if (!playlist) return error(404, 'Not found.');
+    if (!this.canModify(playlist)) return error(403, 'You cannot remove tracks from a playlist you do not own.');
+
+    const requestBody = (body ?? {}) as { tracks?: Array<{ uri: string; positions?: number[] }>; snapshot_id?: string };
+    const tracks = requestBody.tracks ?? [];
+    if (tracks.length === 0 || tracks.length > 100) return error(400, 'You can remove a maximum of 100 tracks per request.');
+
+    const base = requestBody.snapshot_id ? this.snapshotItems.get(requestBody.snapshot_id) : [...playlist.tracks];
+    if (!base) return error(400, 'Invalid snapshot id');
+
+    // Resolve what to remove against the requested snapshot, then drop those exact entries
+    const toRemove = new Set<FakePlaylistItem>();
+    for (const { uri, positions } of tracks) {
+      if (positions) {
+        for (const position of positions) {
+          if (base[position] === undefined || this.itemUri(base[position]) !== uri) {
+            return error(400, `Could not remove track ${uri} at position ${position}`);
+          }
+          toRemove.add(base[position]);
+        }
+      } else {
+        base.filter(item => this.itemUri(item) === uri).forEach(item => toRemove.add(item));
+      }
+    }
+
+    this.snapshotId(playlistId);
+    playlist.tracks = playlist.tracks.filter(item => !toRemove.has(item));
+    return { status: 200, body: { snapshot_id: this.bumpSnapshot(playlistId) } };
+  }
+
+  // PUT /playlists/{id}/tracks reorders when given range_start, otherwise replaces
+  private updatePlaylistItems(playlistId: string, url: URL, body: unknown): FakeResponse {
+    const playlist = this.findPlaylist(playlistId);
+    if (!playlist) return error(404, 'Not found.');
+    if (!this.canModify(playlist)) return error(403, 'You cannot modify a playlist you do not own.');
+
+    const requestBody = (body ?? {}) as { uris?: string[]; range_start?: number; insert_before?: number; range_length?: number };
+    this.snapshotId(playlistId);
+
+    if (requestBody.range_start !== undefined) {
+      const { range_start: start, insert_before: insertBefore = -1, range_length: length = 1 } = requestBody;
+      const size = playlist.tracks.length;
+      if (start < 0 || length < 1 || start + length > size || insertBefore < 0 || insertBefore > size) {
+        return error(400, 'Invalid range');
+      }
+      const moved = playlist.tracks.splice(start, length);
+      const target = insertBefore > start ? insertBefore - length : insertBefore;
+      playlist.tracks.splice(Math.max(target, 0), 0, ...moved);
+      return { status: 200, body: { snapshot_id: this.bumpSnapshot(playlistId) } };
+    }
+
+    const uris = requestBody.uris ?? (url.searchParams.get('uris') ?? '').split(',').filter(Boolean);
+    if (uris.length > 100) return error(400, 'You can set a maximum of 100 tracks per request.');
+    const trackIds: string[] = [];
+    for (const uri of uris) {
+      const trackId = uri.startsWith('spotify:track:') ? uri.slice('spotify:track:'.length) : '';
+      if (!this.tracks.has(trackId)) return error(400, `Invalid track uri: ${uri}`);
+      trackIds.push(trackId);
+    }
+
+    const addedAt = new Date().toISOString();
+    playlist.tracks = trackIds.map(track => ({ track, added_at: addedAt, added_by: this.library.me.id }));
+    return { status: 201, body: { snapshot_id: this.bumpSnapshot(playlistId) } };
+  }
+
+  private uploadCoverImage(playlistId: string, body: unknown): FakeResponse {
+    const playlist = this.findPlaylist(playlistId);
+    if (!playlist) return error(404, 'Not found.');
+    if (!this.canModify(playlist)) return error(403, 'You cannot change the cover of a playlist you do not own.');
+    if (typeof body !== 'string' || body.length === 0) return error(400, 'Image data is required');
+    if (body.length > 256 * 1024) return error(413, 'Image too large');
+    if (!/^[A-Za-z0-9+/]+={0,2}$/.test(body)) return error(400, 'Image data must be base64 encoded');
+
+    playlist.image = `data:image/jpeg;base64,${body}`;
+    return { status: 202 };
+  }
+
+  private createPlaylist(userId: string, body: unknown): FakeResponse {
+    if (userId !== this.library.me.id) return error(403, 'You cannot create a playlist for another user.');
+    const details = (body ?? {}) as Partial<Pick<FakePlaylist, 'name' | 'description' | 'public' | 'collaborative'>>;
+    if (typeof details.name !== 'string' || details.name.trim() === '') return error(400, 'Missing required field: name');
+
+    const playlist: FakePlaylist = {
+      id: `pl-created-${this.library.playlists.length + 1}`,
+      name: details.name,
+      description: details.description ?? '',
+      owner: userId,
+      public: details.public ?? true,
+      collaborative: details.collaborative ?? false,
+      followers: 0,
+      tracks: []
+    };
+    this.library.playlists.push(playlist);
+    return { status: 201, body: this.toPlaylist(playlist) };
+  }
+
+  private setFollowing(playlistId: string, follow: boolean): FakeResponse {
+    if (!this.findPlaylist(playlistId)) return error(404, 'Not found.');
+    const followers = this.library.followers[playlistId] ?? [];
+    const userId = this.library.me.id;
+    this.library.followers[playlistId] = follow
+      ? Array.from(new Set([...followers, userId]))
+      : followers.filter(id => id !== userId);
+    return { status: 200 };
+  }
+
+  private checkFollowers(playlistId: string, url: URL): FakeResponse {
+    const playlist = this.findPlaylist(playlistId);
+    if (!playlist) return error(404, 'Not found.');
+    const ids = (url.searchParams.get('ids') ?? '').split(',').filter(Boolean);
+    if (ids.length === 0) return error(400, 'Missing ids');
+    const followers = this.library.followers[playlistId] ?? [];
+    return { status: 200, body: ids.map(id => followers.includes(id) || playlist.owner === id) };
+  }
+
+  private recentlyPlayed(url: URL): FakeResponse {
+    const limit = Math.min(Number(url.searchParams.get('limit') ?? 20), 50);
+    const before = url.searchParams.get('before');
+    const after = url.searchParams.get('after');
+    const plays = this.library.recentlyPlayed
+      .filter(play => !before || Date.parse(play.played_at) < Number(before))
+      .filter(play => !after || Date.parse(play.played_at) > Number(after))
+      .slice(0, limit);
+
+    return {
+      status: 200,
+      body: {
+        href: url.toString(),
+        limit,
+        next: null,
+        cursors: plays.length > 0
+          ? { after: String(Date.parse(plays[0].played_at)), before: String(Date.parse(plays[plays.length - 1].played_at)) }
+          : null,
+        items: plays.map(play => ({
+          track: this.toTrack(play.track),
+          played_at: play.played_at,
+          context: play.context ? { type: 'playlist', uri: `spotify:playlist:${play.context}` } : null
+        }))
+      }
+    };
+  }
+
+  private search(url: URL): FakeResponse {
+    const query = (url.searchParams.get('q') ?? '').toLowerCase();
+    const types = (url.searchParams.get('type') ?? '').split(',');
+    if (!query) return error(400, 'No search query');
+    if (!types.includes('track')) return error(400, 'Only track search is supported by the fake server');
+
+    const words = query.split(/\s+/).filter(Boolean);
+    const matches = this.library.tracks
+      .filter(track => {
+        const haystack = [track.name, ...track.artists.map(id => this.artists.get(id)?.name ?? '')].join(' ').toLowerCase();
+        return words.some(word => haystack.includes(word));
+      })
+      .map(track => this.toTrack(track.id));
+
+    return { status: 200, body: { tracks: this.page(url, matches, 20, 50).body } };
+  }
+}
+
+let sharedServer: FakeSpotifyServer | null = null;
+
+// Process-wide fake server so writes made by one request are visible to the next
+export function getFakeSpotifyServer(): FakeSpotifyServer {
+  if (!sharedServer) {
+    sharedServer = new FakeSpotifyServer();
+  }
+  return sharedServer;
+}
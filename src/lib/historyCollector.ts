@@ -0,0 +1,136 @@
+import { backgroundWorkUnavailable } from './backgroundWork';
+import { getDataStore, withDataLock } from './dataStore';
+import { signInAccountAccess, saveSignInAccount } from './linkedAccounts';
+import { logger } from './logger';
+import { getPlayHistorySummary, recordPlays } from './playHistory';
+import { SpotifyAccount, SpotifyService } from './spotify';
+import { SpotifyUnauthorizedError } from './spotifyErrors';
+import type { SpotifyTokenSet } from './spotifyTokens';
+
+const log = logger.child({ component: 'history-collector' });
+
+// Background job that keeps play histories (playHistory.ts) growing while nobody
+// has the app open. Spotify only remembers the last 50 plays, so every account
+// that signed in is polled for recently-played every few minutes, using the
+// sign-in tokens stored with linkedAccounts.ts.
+//
+// PLAYLISTINTEL_HISTORY_POLL_MINUTES: off unless set. Minutes between polls, or
+// `on` for DEFAULT_POLL_MINUTES; only while it is on do sign-ins store tokens for
+// the collector. It also stays off where background work can't run (see
+// backgroundWork.ts): on serverless functions, or with an in-memory DataStore.
+
+const DEFAULT_POLL_MINUTES = 30;
+const RECENTLY_PLAYED_SCOPE = 'user-read-recently-played';
+const ACCOUNTS_KEY = 'history-collector:accounts';
+
+function pollMinutes(): number {
+  const raw = process.env.PLAYLISTINTEL_HISTORY_POLL_MINUTES;
+  if (raw === 'on') return DEFAULT_POLL_MINUTES;
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+export function isHistoryCollectorEnabled(): boolean {
+  return pollMinutes() > 0 && backgroundWorkUnavailable() === null;
+}
+
+async function collectedAccounts(): Promise<string[]> {
+  return (await getDataStore().get<string[]>(ACCOUNTS_KEY)) ?? [];
+}
+
+// Stores the account's tokens and adds it to the accounts polled
+export async function enrollHistoryCollection(account: SpotifyAccount, tokens: SpotifyTokenSet): Promise<void> {
+  await saveSignInAccount(account, tokens);
+  await withDataLock(ACCOUNTS_KEY, async () => {
+    const accounts = await collectedAccounts();
+    if (accounts.includes(account.id)) return;
+    await getDataStore().set(ACCOUNTS_KEY, [...accounts, account.id]);
+    log.info('Collecting play history', { accountId: account.id });
+  });
+}
+
+export async function isCollectingHistory(accountId: string): Promise<boolean> {
+  return isHistoryCollectorEnabled() && (await collectedAccounts()).includes(accountId);
+}
+
+// Stops polling the account. Its stored tokens are left alone, since personal
+// API tokens may still use them; the history already collected is kept.
+export function stopHistoryCollection(accountId: string): Promise<void> {
+  return withDataLock(ACCOUNTS_KEY, async () => {
+    const accounts = await collectedAccounts();
+    if (!accounts.includes(accountId)) return;
+    await getDataStore().set(ACCOUNTS_KEY, accounts.filter(id => id !== accountId));
+    log.info('Stopped collecting play history', { accountId });
+  });
+}
+
+// Fetches the plays since the last one stored; returns how many were new
+async function collectAccount(accountId: string): Promise<number> {
+  const { access } = await signInAccountAccess(accountId);
+  // Tokens from before the scope was requested can't read recently-played
+  if (access.scopes && !access.scopes.includes(RECENTLY_PLAYED_SCOPE)) {
+    log.debug('Skipping account without the recently-played scope', { accountId });
+    return 0;
+  }
+
+  const { lastPlayedAt } = await getPlayHistorySummary(accountId);
+  const spotify = new SpotifyService(access.accessToken, { logger: log, market: access.market });
+  const items = await spotify.getRecentlyPlayed(50, lastPlayedAt ? { after: Date.parse(lastPlayedAt) } : {});
+  return recordPlays(accountId, items);
+}
+
+// Polls every enrolled account once. Accounts whose refresh token stopped
+// working are dropped until their user signs in again.
+export async function collectOnce(): Promise<{ accounts: number; added: number }> {
+  const accounts = await collectedAccounts();
+  let added = 0;
+  for (const accountId of accounts) {
+    try {
+      added += await collectAccount(accountId);
+    } catch (error) {
+      if (error instanceof SpotifyUnauthorizedError) {
+        log.warn('Stored Spotify tokens no longer work', { accountId });
+        await stopHistoryCollection(accountId);
+      } else {
+        log.warn('Could not collect play history', { accountId, error });
+      }
+    }
+  }
+  if (accounts.length > 0) log.info('Collected play history', { accounts: accounts.length, added });
+  return { accounts: accounts.length, added };
+}
+
+// Kept on globalThis so hot reloads in development don't start a second timer
+const globalForCollector = globalThis as { playHistoryCollector?: NodeJS.Timeout };
+
+// Starts polling in the background; does nothing when already started or turned off
+export function startHistoryCollector(): void {
+  if (globalForCollector.playHistoryCollector || pollMinutes() === 0) return;
+  const unavailable = backgroundWorkUnavailable();
+  if (unavailable) {
+    log.warn('Play history collector is turned on but cannot run here, not starting it', { reason: unavailable });
+    return;
+  }
+
+  let running = false;
+  const run = async () => {
+    // A slow poll (many accounts, rate limiting) shouldn't overlap the next one
+    if (running) return;
+    running = true;
+    try {
+      await collectOnce();
+    } catch (error) {
+      log.error('Play history collection failed', { error });
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, pollMinutes() * 60 * 1000);
+  // Never keep the process alive just for the collector
+  timer.unref();
+  globalForCollector.playHistoryCollector = timer;
+  log.info('Started play history collector', { pollMinutes: pollMinutes() });
+  // First poll right away rather than a whole interval after startup
+  run();
+}
@@ -0,0 +1,34 @@
+// Browser-only helpers for images the user uploads
+
+// Crops `image` to a centered square and scales it to `size` pixels, as a JPEG.
+// Smaller images are only cropped, never scaled up.
+export async function resizeToSquare(image: Blob, size: number, quality = 0.85): Promise<Blob> {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const side = Math.min(bitmap.width, bitmap.height);
+    const target = Math.min(side, size);
+    const canvas = document.createElement('canvas');
+    canvas.width = target;
+    canvas.height = target;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not supported');
+
+    context.drawImage(
+      bitmap,
+      (bitmap.width - side) / 2,
+      (bitmap.height - side) / 2,
+      side,
+      side,
+      0,
+      0,
+      target,
+      target
+    );
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the image')), 'image/jpeg', quality);
+    });
+  } finally {
+    bitmap.close();
+  }
+}
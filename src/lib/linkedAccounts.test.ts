@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { InMemoryDataStore, setDataStore } from './dataStore';
+import { AccountRelinkRequiredError, linkAccount, listLinkedAccounts, saveSignInAccount, signInAccountAccess, storedAccountAccess } from './linkedAccounts';
+import type { SpotifyAccount } from './spotify';
+import { SpotifyUnauthorizedError } from './spotifyErrors';
+
+function account(id: string): SpotifyAccount {
+  return { id, displayName: id, product: 'premium', country: 'ES', explicitContent: null };
+}
+
+// A token that is nowhere near expiring, so no refresh is attempted
+const tokens = {
+  accessToken: 'BQD-access',
+  refreshToken: 'AQB-refresh',
+  expiresAt: Math.floor(Date.now() / 1000) + 3600
+};
+
+describe('stored Spotify tokens', () => {
+  const originalSecret = process.env.NEXTAUTH_SECRET;
+
+  beforeEach(() => {
+    process.env.NEXTAUTH_SECRET = 'secret-before-rotation';
+    setDataStore(new InMemoryDataStore());
+  });
+
+  afterEach(() => {
+    process.env.NEXTAUTH_SECRET = originalSecret;
+  });
+
+  it('opens the tokens sealed with the current secret', async () => {
+    await saveSignInAccount(account('listener'), tokens);
+
+    const { access } = await signInAccountAccess('listener');
+
+    expect(access.accessToken).toBe('BQD-access');
+  });
+
+  it('asks to link an account again once the secret has changed', async () => {
+    await linkAccount('listener', account('second'), tokens);
+    process.env.NEXTAUTH_SECRET = 'secret-after-rotation';
+
+    await expect(storedAccountAccess('listener', 'second')).rejects.toBeInstanceOf(AccountRelinkRequiredError);
+    expect((await listLinkedAccounts('listener'))[0].needsRelink).toBe(true);
+  });
+
+  it('asks to sign in again once the secret has changed', async () => {
+    await saveSignInAccount(account('listener'), tokens);
+    process.env.NEXTAUTH_SECRET = 'secret-after-rotation';
+
+    await expect(signInAccountAccess('listener')).rejects.toBeInstanceOf(SpotifyUnauthorizedError);
+  });
+});
@@ -0,0 +1,241 @@
+import type { Session } from 'next-auth';
+import { getDataStore, withDataLock } from './dataStore';
+import { logger } from './logger';
+import { openSecret, sealSecret } from './secretBox';
+import type { SpotifyAccount } from './spotify';
+import { SpotifyUnauthorizedError } from './spotifyErrors';
+import { SpotifyTokenSet, isTokenExpiring, refreshSpotifyToken } from './spotifyTokens';
+
+const log = logger.child({ component: 'linked-accounts' });
+
+// Extra Spotify accounts linked to a PlaylistIntel identity. The identity is the
+// Spotify account the user signs in with (session.user.id); its own tokens live in
+// the session cookie, while linked accounts' tokens are kept server-side, sealed.
+// The sign-in account's tokens are stored too, but only while the user has
+// personal API tokens or the history collector polls the account, neither of
+// which has a session cookie to read them from.
+
+export interface LinkedAccount extends SpotifyAccount {
+  linkedAt: string;
+  scopes?: string[];
+  // The refresh token stopped working; the account has to be linked again
+  needsRelink?: boolean;
+}
+
+interface SealedTokens {
+  // Both sealed with secretBox
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+  scopes?: string[];
+  needsRelink?: boolean;
+}
+
+interface StoredLinkedAccount extends LinkedAccount, SealedTokens {}
+
+interface StoredSignInAccount extends SpotifyAccount, SealedTokens {}
+
+// Spotify access for one of the identity's accounts
+export interface SpotifyAccess {
+  accountId: string;
+  accessToken: string;
+  market: string | null;
+  // Granted scopes, undefined when unknown (see requireScopes)
+  scopes?: string[];
+}
+
+// The account id is neither the signed-in account nor one linked to it
+export class AccountNotLinkedError extends Error {
+  readonly accountId: string;
+
+  constructor(accountId: string) {
+    super(`Spotify account ${accountId} is not linked`);
+    this.name = 'AccountNotLinkedError';
+    this.accountId = accountId;
+  }
+}
+
+// Spotify rejected the linked account's refresh token
+export class AccountRelinkRequiredError extends Error {
+  readonly accountId: string;
+
+  constructor(accountId: string) {
+    super(`Spotify account ${accountId} has to be linked again`);
+    this.name = 'AccountRelinkRequiredError';
+    this.accountId = accountId;
+  }
+}
+
+const storeKey = (ownerId: string) => `linked-accounts:${ownerId}`;
+const signInKey = (ownerId: string) => `sign-in-account:${ownerId}`;
+
+function sealTokens(tokens: SpotifyTokenSet): SealedTokens {
+  return {
+    accessToken: sealSecret(tokens.accessToken),
+    refreshToken: sealSecret(tokens.refreshToken),
+    expiresAt: tokens.expiresAt,
+    scopes: tokens.scopes
+  };
+}
+
+async function loadAccounts(ownerId: string): Promise<StoredLinkedAccount[]> {
+  return (await getDataStore().get<StoredLinkedAccount[]>(storeKey(ownerId))) ?? [];
+}
+
+async function saveAccounts(ownerId: string, accounts: StoredLinkedAccount[]): Promise<void> {
+  await getDataStore().set(storeKey(ownerId), accounts);
+}
+
+function withoutTokens(stored: StoredLinkedAccount): LinkedAccount {
+  return {
+    id: stored.id,
+    displayName: stored.displayName,
+    product: stored.product,
+    country: stored.country,
+    explicitContent: stored.explicitContent,
+    linkedAt: stored.linkedAt,
+    scopes: stored.scopes,
+    needsRelink: stored.needsRelink
+  };
+}
+
+export async function listLinkedAccounts(ownerId: string): Promise<LinkedAccount[]> {
+  return (await loadAccounts(ownerId)).map(withoutTokens);
+}
+
+// Links `account` to the identity, replacing the tokens if it was linked before
+export function linkAccount(ownerId: string, account: SpotifyAccount, tokens: SpotifyTokenSet): Promise<LinkedAccount> {
+  return withDataLock(storeKey(ownerId), async () => {
+    const stored: StoredLinkedAccount = {
+      ...account,
+      linkedAt: new Date().toISOString(),
+      ...sealTokens(tokens)
+    };
+    const accounts = (await loadAccounts(ownerId)).filter(existing => existing.id !== account.id);
+    await saveAccounts(ownerId, [...accounts, stored]);
+    log.info('Linked Spotify account', { ownerId, accountId: account.id });
+    return withoutTokens(stored);
+  });
+}
+
+// Returns false when the account wasn't linked
+export function unlinkAccount(ownerId: string, accountId: string): Promise<boolean> {
+  return withDataLock(storeKey(ownerId), async () => {
+    const accounts = await loadAccounts(ownerId);
+    const remaining = accounts.filter(account => account.id !== accountId);
+    if (remaining.length === accounts.length) return false;
+    await saveAccounts(ownerId, remaining);
+    log.info('Unlinked Spotify account', { ownerId, accountId });
+    return true;
+  });
+}
+
+// Opens the stored access token, refreshing it first when it is about to expire.
+// `save` persists the updated record; returns null when the refresh was rejected
+// or the tokens can't be opened, as after NEXTAUTH_SECRET was changed.
+async function openTokens(
+  stored: SpotifyAccount & SealedTokens,
+  save: () => Promise<void>
+): Promise<SpotifyAccess | null> {
+  try {
+    if (!isTokenExpiring(stored.expiresAt)) {
+      return { accountId: stored.id, accessToken: openSecret(stored.accessToken), market: stored.country, scopes: stored.scopes };
+    }
+
+    const refreshed = await refreshSpotifyToken(openSecret(stored.refreshToken));
+    Object.assign(stored, sealTokens({ ...refreshed, scopes: refreshed.scopes ?? stored.scopes }));
+    await save();
+    return { accountId: stored.id, accessToken: refreshed.accessToken, market: stored.country, scopes: stored.scopes };
+  } catch (error) {
+    log.warn('Could not open or refresh stored Spotify token', { accountId: stored.id, error });
+    stored.needsRelink = true;
+    await save();
+    return null;
+  }
+}
+
+// Runs under the owner's lock, refresh included, so a refresh neither races a
+// link or unlink nor spends a rotated refresh token twice
+function linkedAccess(ownerId: string, accountId: string): Promise<SpotifyAccess> {
+  return withDataLock(storeKey(ownerId), async () => {
+    const accounts = await loadAccounts(ownerId);
+    const stored = accounts.find(account => account.id === accountId);
+    if (!stored) throw new AccountNotLinkedError(accountId);
+    if (stored.needsRelink) throw new AccountRelinkRequiredError(accountId);
+
+    const access = await openTokens(stored, () => saveAccounts(ownerId, accounts));
+    if (!access) throw new AccountRelinkRequiredError(accountId);
+    return access;
+  });
+}
+
+// Stores the sign-in account's tokens, replacing any stored before
+export function saveSignInAccount(account: SpotifyAccount, tokens: SpotifyTokenSet): Promise<void> {
+  return withDataLock(signInKey(account.id), async () => {
+    const stored: StoredSignInAccount = { ...account, ...sealTokens(tokens) };
+    await getDataStore().set(signInKey(account.id), stored);
+  });
+}
+
+// Replaces the stored tokens after the session refreshed them, so both keep
+// working when Spotify rotates the refresh token. Does nothing when none are stored.
+export function updateSignInTokens(accountId: string, tokens: SpotifyTokenSet): Promise<void> {
+  return withDataLock(signInKey(accountId), async () => {
+    const stored = await getDataStore().get<StoredSignInAccount>(signInKey(accountId));
+    if (!stored) return;
+    await getDataStore().set(signInKey(accountId), { ...stored, ...sealTokens(tokens), needsRelink: false });
+  });
+}
+
+export function forgetSignInAccount(accountId: string): Promise<void> {
+  return withDataLock(signInKey(accountId), () => getDataStore().delete(signInKey(accountId)));
+}
+
+// Access for requests without a session (personal API tokens), from the stored
+// sign-in account. Throws SpotifyUnauthorizedError when the user has to sign in
+// again for the stored refresh token to work.
+export function signInAccountAccess(accountId: string): Promise<{ account: SpotifyAccount; access: SpotifyAccess }> {
+  return withDataLock(signInKey(accountId), async () => {
+    const stored = await getDataStore().get<StoredSignInAccount>(signInKey(accountId));
+    if (!stored || stored.needsRelink) throw new SpotifyUnauthorizedError();
+
+    const access = await openTokens(stored, () => getDataStore().set(signInKey(accountId), stored));
+    if (!access) throw new SpotifyUnauthorizedError();
+    return {
+      account: {
+        id: stored.id,
+        displayName: stored.displayName,
+        product: stored.product,
+        country: stored.country,
+        explicitContent: stored.explicitContent
+      },
+      access
+    };
+  });
+}
+
+// Access for `accountId` without a session, from the stored tokens: the sign-in
+// account's own when it is `ownerId`, otherwise those of an account linked to it
+export async function storedAccountAccess(ownerId: string, accountId: string): Promise<SpotifyAccess> {
+  if (accountId === ownerId) return (await signInAccountAccess(ownerId)).access;
+  return linkedAccess(ownerId, accountId);
+}
+
+// Access token and market for `accountId`: the signed-in account when it is
+// omitted or names that account, otherwise one linked to it
+export async function resolveSpotifyAccess(session: Session, accountId?: string | null): Promise<SpotifyAccess> {
+  if (!session.accessToken) throw new SpotifyUnauthorizedError();
+  const ownerId = session.user?.id;
+
+  if (!accountId || accountId === ownerId) {
+    return {
+      accountId: ownerId ?? '',
+      accessToken: session.accessToken,
+      market: session.user?.country ?? null,
+      scopes: session.scopes
+    };
+  }
+  // Linking needs the identity's id, which is missing only if /me failed at sign-in
+  if (!ownerId) throw new AccountNotLinkedError(accountId);
+  return linkedAccess(ownerId, accountId);
+}
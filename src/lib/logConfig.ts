@@ -0,0 +1,38 @@
+// Server-side logging settings. Production defaults to JSON lines at `info` so the
+// output can be shipped to a log collector; development defaults to readable lines
+// at `debug`. Both can be overridden through env vars.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFormat = 'json' | 'pretty';
+
+export interface LogConfig {
+  // Entries below this level are dropped; 'silent' drops everything
+  level: LogLevel | 'silent';
+  format: LogFormat;
+  // Header used to read and return the request correlation id
+  requestIdHeader: string;
+}
+
+// Ids accepted from a client's request id header; anything else is replaced
+export const requestIdPattern = /^[\w.-]{1,64}$/;
+
+const levels = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+
+function envLevel(name: string, fallback: LogConfig['level']): LogConfig['level'] {
+  const value = process.env[name]?.toLowerCase();
+  return levels.find(level => level === value) ?? fallback;
+}
+
+function envFormat(name: string, fallback: LogFormat): LogFormat {
+  const value = process.env[name]?.toLowerCase();
+  return value === 'json' || value === 'pretty' ? value : fallback;
+}
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+export const logConfig: LogConfig = {
+  level: envLevel('LOG_LEVEL', isProduction ? 'info' : 'debug'),
+  format: envFormat('LOG_FORMAT', isProduction ? 'json' : 'pretty'),
+  requestIdHeader: 'x-request-id'
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { redact } from './logger';
+
+describe('redact', () => {
+  it('replaces credential fields, whatever their case or plural', () => {
+    expect(redact({
+      accessToken: 'BQD-access',
+      refresh_tokens: ['AQB-refresh'],
+      Authorization: 'Bearer BQD-access',
+      clientSecret: 'shh',
+      cookie: 'next-auth.session-token=abc',
+      codeVerifier: 'pkce',
+      playlistId: 'pl-1'
+    })).toEqual({
+      accessToken: '[REDACTED]',
+      refresh_tokens: '[REDACTED]',
+      Authorization: '[REDACTED]',
+      clientSecret: '[REDACTED]',
+      cookie: '[REDACTED]',
+      codeVerifier: '[REDACTED]',
+      playlistId: 'pl-1'
+    });
+  });
+
+  it('keeps empty credential fields so their absence still shows', () => {
+    expect(redact({ refreshToken: null, accessToken: undefined })).toEqual({ refreshToken: null, accessToken: undefined });
+  });
+
+  it('masks email addresses in email fields and inside strings', () => {
+    expect(redact({
+      email: 'listener@example.com',
+      message: 'Sent to listener@example.com with Bearer BQD.abc-123'
+    })).toEqual({
+      email: 'l***@example.com',
+      message: 'Sent to l***@example.com with Bearer [REDACTED]'
+    });
+  });
+
+  it('redacts nested objects, arrays and error bodies', () => {
+    const error = Object.assign(new Error('Spotify said no to listener@example.com'), {
+      statusCode: 401,
+      body: { error: { message: 'bad token' }, token: 'BQD' }
+    });
+
+    // The stack is only written at debug level, so it isn't compared here
+    expect(redact({ accounts: [{ id: 'acc-1', accessToken: 'BQD' }], error })).toMatchObject({
+      accounts: [{ id: 'acc-1', accessToken: '[REDACTED]' }],
+      error: {
+        name: 'Error',
+        message: 'Spotify said no to l***@example.com',
+        statusCode: 401,
+        body: { error: { message: 'bad token' }, token: '[REDACTED]' }
+      }
+    });
+  });
+
+  it('stops at a depth limit instead of following deep or circular values', () => {
+    const circular: Record<string, unknown> = { id: 'loop' };
+    circular.self = circular;
+
+    const redacted = JSON.stringify(redact(circular));
+
+    expect(redacted).toContain('[Truncated]');
+  });
+});
@@ -0,0 +1,119 @@
+import { randomUUID } from 'crypto';
+import { logConfig, LogConfig, LogLevel, requestIdPattern } from './logConfig';
+
+export type LogFields = Record<string, unknown>;
+
+const levelOrder: Record<LogConfig['level'], number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 50
+};
+
+// Keys whose values are credentials (accessToken, refresh_token, Authorization, ...)
+// and are never written out
+const secretKeyPattern = /(token|secret|password|authorization|cookie|verifier)s?$/i;
+const emailKeyPattern = /email/i;
+const emailPattern = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+const bearerPattern = /(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi;
+const maxDepth = 6;
+
+function redactString(value: string): string {
+  return value.replace(bearerPattern, '$1 [REDACTED]').replace(emailPattern, '$1***@$2');
+}
+
+function serializeError(error: Error, depth: number): LogFields {
+  const fields: LogFields = { name: error.name, message: redactString(error.message) };
+  const extra = error as Error & { statusCode?: unknown; code?: unknown; body?: unknown };
+  if (extra.statusCode !== undefined) fields.statusCode = extra.statusCode;
+  if (extra.code !== undefined) fields.code = extra.code;
+  if (extra.body !== undefined) fields.body = redact(extra.body, depth + 1);
+  if (levelOrder[logConfig.level] <= levelOrder.debug && error.stack) {
+    fields.stack = redactString(error.stack);
+  }
+  return fields;
+}
+
+// Copies a value with tokens removed and email addresses masked
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= maxDepth) return '[Truncated]';
+  if (value instanceof Error) return serializeError(value, depth);
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  const result: LogFields = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (secretKeyPattern.test(key) && item !== undefined && item !== null) {
+      result[key] = '[REDACTED]';
+    } else if (emailKeyPattern.test(key) && typeof item === 'string') {
+      result[key] = item.replace(/^(.).*@/, '$1***@');
+    } else {
+      result[key] = redact(item, depth + 1);
+    }
+  }
+  return result;
+}
+
+// Levelled logger that writes one entry per call. Fields bound with `child` (the
+// request id, the route, ...) are added to every entry it and its children write.
+export class Logger {
+  private bindings: LogFields;
+  private config: LogConfig;
+
+  constructor(bindings: LogFields = {}, config: LogConfig = logConfig) {
+    this.bindings = bindings;
+    this.config = config;
+  }
+
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...fields }, this.config);
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return levelOrder[level] >= levelOrder[this.config.level];
+  }
+
+  debug(message: string, fields?: LogFields) {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields) {
+    if (!this.isLevelEnabled(level)) return;
+
+    const entry = redact({ ...this.bindings, ...fields }) as LogFields;
+    const output = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+
+    if (this.config.format === 'json') {
+      output(JSON.stringify({ time: new Date().toISOString(), level, msg: redactString(message), ...entry }));
+      return;
+    }
+
+    const context = Object.keys(entry).length > 0 ? ` ${JSON.stringify(entry)}` : '';
+    output(`${level.toUpperCase().padEnd(5)} ${redactString(message)}${context}`);
+  }
+}
+
+export const logger = new Logger();
+
+// Logger for one API request. Reuses the x-request-id that src/middleware.ts set
+// (the caller's own when it sent one, and returned on the response), so a request
+// can be followed from the client through every Spotify call it makes.
+export function createRequestLogger(request: Request | undefined, route: string): Logger {
+  const incoming = request?.headers.get(logConfig.requestIdHeader);
+  const requestId = incoming && requestIdPattern.test(incoming) ? incoming : randomUUID();
+  return logger.child({ requestId, route });
+}
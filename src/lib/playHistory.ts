@@ -0,0 +1,283 @@
+import type { Session } from 'next-auth';
+import { dataOwnerId, getDataStore, withDataLock } from './dataStore';
+import type { SpotifyAccess } from './linkedAccounts';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'play-history' });
+
+// Every play we have seen for a Spotify account. Spotify only ever returns the
+// last 50, so each fetch of recently-played (by the analytics routes or the
+// collector in historyCollector.ts) is appended here, de-duplicated by
+// played_at. Plays are kept in one entry per calendar month (UTC) so that
+// appending never rewrites the whole history.
+
+export interface Play {
+  playedAt: string;
+  trackId: string;
+  name: string;
+  artists: Array<{ id: string; name: string }>;
+  album: { id: string; name: string; imageUrl: string | null };
+  durationMs: number;
+  // Playlist, album or artist the track was played from, when Spotify knows
+  contextUri: string | null;
+}
+
+interface PlayHistoryIndex {
+  // Months with plays, as YYYY-MM, oldest first
+  months: string[];
+  totalPlays: number;
+  firstPlayedAt: string | null;
+  lastPlayedAt: string | null;
+}
+
+export interface PlayHistorySummary {
+  totalPlays: number;
+  firstPlayedAt: string | null;
+  lastPlayedAt: string | null;
+}
+
+const indexKey = (historyId: string) => `play-history:${historyId}`;
+const monthKey = (historyId: string, month: string) => `play-history:${historyId}:${month}`;
+const monthOf = (playedAt: string) => playedAt.slice(0, 7);
+
+// Below this many stored plays (one recently-played fetch), the analytics routes
+// keep estimating play counts from playlists and top tracks
+export const MIN_HISTORY_PLAYS = 50;
+
+const EMPTY_INDEX: PlayHistoryIndex = { months: [], totalPlays: 0, firstPlayedAt: null, lastPlayedAt: null };
+
+// Whose history a request reads: the Spotify account it acts as. Demo visitors
+// all act as the same fixture account, so each demo gets a history of its own.
+export function playHistoryId(session: Session, access: SpotifyAccess): string | null {
+  if (session.demo) return dataOwnerId(session);
+  return access.accountId || null;
+}
+
+function toPlay(item: SpotifyApi.PlayHistoryObject): Play | null {
+  const track = item.track;
+  // Local files and unavailable tracks have no id to count plays by
+  if (!track?.id || !item.played_at) return null;
+  return {
+    playedAt: new Date(item.played_at).toISOString(),
+    trackId: track.id,
+    name: track.name,
+    artists: (track.artists || []).map(artist => ({ id: artist.id, name: artist.name })),
+    album: {
+      id: track.album?.id ?? '',
+      name: track.album?.name ?? '',
+      imageUrl: track.album?.images?.[0]?.url ?? null
+    },
+    durationMs: track.duration_ms,
+    contextUri: item.context?.uri ?? null
+  };
+}
+
+// Recently-played items as plays, skipping those without a track id
+export function playsFrom(items: SpotifyApi.PlayHistoryObject[]): Play[] {
+  return items.map(toPlay).filter((play): play is Play => play !== null);
+}
+
+// Adds the plays not stored yet and returns how many were new
+export function recordPlays(historyId: string, items: SpotifyApi.PlayHistoryObject[]): Promise<number> {
+  const plays = playsFrom(items);
+  if (plays.length === 0) return Promise.resolve(0);
+
+  // Routes and the collector append at once; neither may overwrite the other's month
+  return withDataLock(indexKey(historyId), async () => {
+    const store = getDataStore();
+    const index = (await store.get<PlayHistoryIndex>(indexKey(historyId))) ?? { ...EMPTY_INDEX, months: [] };
+
+    const byMonth = new Map<string, Play[]>();
+    for (const play of plays) {
+      const month = monthOf(play.playedAt);
+      byMonth.set(month, [...(byMonth.get(month) ?? []), play]);
+    }
+
+    let added = 0;
+    for (const [month, incoming] of byMonth) {
+      const stored = (await store.get<Play[]>(monthKey(historyId, month))) ?? [];
+      const seen = new Set(stored.map(play => play.playedAt));
+      const fresh: Play[] = [];
+      for (const play of incoming) {
+        if (seen.has(play.playedAt)) continue;
+        seen.add(play.playedAt);
+        fresh.push(play);
+      }
+      if (fresh.length === 0) continue;
+
+      await store.set(monthKey(historyId, month), [...stored, ...fresh].sort((a, b) => a.playedAt.localeCompare(b.playedAt)));
+      if (!index.months.includes(month)) index.months = [...index.months, month].sort();
+      for (const play of fresh) {
+        if (!index.firstPlayedAt || play.playedAt < index.firstPlayedAt) index.firstPlayedAt = play.playedAt;
+        if (!index.lastPlayedAt || play.playedAt > index.lastPlayedAt) index.lastPlayedAt = play.playedAt;
+      }
+      added += fresh.length;
+    }
+
+    if (added > 0) {
+      index.totalPlays += added;
+      await store.set(indexKey(historyId), index);
+      log.debug('Recorded plays', { historyId, added, totalPlays: index.totalPlays });
+    }
+    return added;
+  });
+}
+
+export async function getPlayHistorySummary(historyId: string): Promise<PlayHistorySummary> {
+  const index = (await getDataStore().get<PlayHistoryIndex>(indexKey(historyId))) ?? EMPTY_INDEX;
+  return { totalPlays: index.totalPlays, firstPlayedAt: index.firstPlayedAt, lastPlayedAt: index.lastPlayedAt };
+}
+
+// Stored plays, newest first; with `since`, only those played at or after it
+export async function readPlays(historyId: string, options: { since?: Date } = {}): Promise<Play[]> {
+  const store = getDataStore();
+  const index = await store.get<PlayHistoryIndex>(indexKey(historyId));
+  if (!index) return [];
+
+  const since = options.since?.toISOString();
+  const months = since ? index.months.filter(month => month >= monthOf(since)) : index.months;
+  const plays: Play[] = [];
+  for (const month of months) {
+    const stored = (await store.get<Play[]>(monthKey(historyId, month))) ?? [];
+    plays.push(...(since ? stored.filter(play => play.playedAt >= since) : stored));
+  }
+  return plays.reverse();
+}
+
+// What the analytics routes work from: records the recently-played `items` they
+// just fetched and returns the whole stored history (since `since`). Without a
+// history id, just the fetched items.
+export async function playsWithHistory(
+  historyId: string | null,
+  items: SpotifyApi.PlayHistoryObject[],
+  options: { since?: Date } = {}
+): Promise<Play[]> {
+  if (!historyId) {
+    const since = options.since?.toISOString();
+    return playsFrom(items).filter(play => !since || play.playedAt >= since);
+  }
+  await recordPlays(historyId, items);
+  return readPlays(historyId, options);
+}
+
+// The stored plays when there are enough to count from, otherwise null
+export async function playCountHistory(historyId: string | null): Promise<Play[] | null> {
+  if (!historyId) return null;
+  const { totalPlays } = await getPlayHistorySummary(historyId);
+  return totalPlays >= MIN_HISTORY_PLAYS ? readPlays(historyId) : null;
+}
+
+// Id of the playlist a play came from, null when it wasn't played from one
+export function playlistIdOf(play: Play): string | null {
+  const match = /^spotify:(?:user:[^:]+:)?playlist:([^:]+)$/.exec(play.contextUri ?? '');
+  return match ? match[1] : null;
+}
+
+// How many times each key occurs among the plays; plays mapping to null are skipped
+export function countPlays(plays: Play[], keyOf: (play: Play) => string | null): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const play of plays) {
+    const key = keyOf(play);
+    if (key !== null) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export interface ListeningStats {
+  totalPlays: number;
+  uniqueTracks: number;
+  uniqueArtists: number;
+  uniqueAlbums: number;
+  totalListeningMs: number;
+  // Days with at least one play
+  activeDays: number;
+  // Consecutive days with plays; the current streak still counts when today has
+  // no plays yet but yesterday did
+  streaks: { current: number; longest: number };
+  // Plays per hour of the day (0-23) and per weekday (0 = Sunday)
+  hourOfDay: number[];
+  dayOfWeek: number[];
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Throws RangeError for a time zone Intl doesn't know
+export function localTimeParts(date: Date, timeZone: string): { day: string; hour: number; weekday: number } {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+      weekday: 'short'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+  return {
+    day: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour) % 24,
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+function previousDay(day: string): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - 1);
+  return date.toISOString().slice(0, 10);
+}
+
+// Counts, streaks and time-of-day spread of `plays`, with days and hours taken
+// in `timeZone`
+export function listeningStats(plays: Play[], timeZone = 'UTC', now = new Date()): ListeningStats {
+  const hourOfDay = new Array<number>(24).fill(0);
+  const dayOfWeek = new Array<number>(7).fill(0);
+  const days = new Set<string>();
+  let totalListeningMs = 0;
+
+  for (const play of plays) {
+    const { day, hour, weekday } = localTimeParts(new Date(play.playedAt), timeZone);
+    days.add(day);
+    hourOfDay[hour]++;
+    if (weekday >= 0) dayOfWeek[weekday]++;
+    totalListeningMs += play.durationMs;
+  }
+
+  let longest = 0;
+  for (const day of days) {
+    // Only count from the first day of each run
+    if (days.has(previousDay(day))) continue;
+    let length = 1;
+    const next = new Date(`${day}T00:00:00Z`);
+    for (;;) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      if (!days.has(next.toISOString().slice(0, 10))) break;
+      length++;
+    }
+    longest = Math.max(longest, length);
+  }
+
+  let current = 0;
+  const today = localTimeParts(now, timeZone).day;
+  let cursor = days.has(today) ? today : previousDay(today);
+  while (days.has(cursor)) {
+    current++;
+    cursor = previousDay(cursor);
+  }
+
+  return {
+    totalPlays: plays.length,
+    uniqueTracks: new Set(plays.map(play => play.trackId)).size,
+    uniqueArtists: new Set(plays.flatMap(play => play.artists.map(artist => artist.id))).size,
+    uniqueAlbums: new Set(plays.map(play => play.album.id)).size,
+    totalListeningMs,
+    activeDays: days.size,
+    streaks: { current, longest },
+    hourOfDay,
+    dayOfWeek
+  };
+}
@@ -0,0 +1,244 @@
+import { SpotifyService, SpotifyArtist, SpotifyAudioFeatures } from './spotify';
+import { Logger, logger as rootLogger } from './logger';
+import { SpotifyForbiddenError } from './spotifyErrors';
+import {
+  AnalysisArtist,
+  AnalysisAudioFeatures,
+  AnalysisProgress,
+  AnalysisSection,
+  AnalysisTrack,
+  AnalyzedPlaylist,
+  PlaylistAnalysisResult,
+  analyzePlaylist
+} from './analysis';
+
+// Análisis de una playlist de Spotify: descarga tracks, artistas y características
+// de audio y pasa cada parte al motor de src/lib/analysis en cuanto la tiene. Lo
+// usan tanto GET /api/analysis/playlist/[id], que responde en la misma petición,
+// como los trabajos en segundo plano de analysisJobs.ts.
+
+// Lo ya descargado de una playlist, para que un análisis interrumpido siga desde
+// la última etapa terminada. Solo vale para el snapshot en que se descargó.
+export interface AnalysisCheckpoint {
+  snapshotId: string;
+  tracks: AnalysisTrack[];
+  artists?: AnalysisArtist[];
+  features?: AnalysisAudioFeatures[];
+  // A lo ya descargado le falta algo, así que el resultado será parcial
+  partial?: boolean;
+}
+
+export interface PlaylistAnalysisOptions {
+  logger?: Logger;
+  onProgress?: (progress: AnalysisProgress) => void;
+  onSection?: (section: AnalysisSection) => void;
+  // Aborta el análisis entre peticiones a Spotify
+  signal?: AbortSignal;
+  // Punto desde el que seguir; se ignora si la playlist cambió desde entonces
+  checkpoint?: AnalysisCheckpoint;
+  // Llamado al terminar de descargar los tracks, los artistas y las características de audio
+  onCheckpoint?: (checkpoint: AnalysisCheckpoint) => Promise<void>;
+}
+
+// Soporte hasta 5000 tracks para playlists muy grandes
+export const MAX_ANALYSIS_TRACKS = 5000;
+// Características de audio pedidas por tanda, para poder informar del avance
+const FEATURES_BATCH = 500;
+
+export class EmptyPlaylistError extends Error {
+  constructor() {
+    super('Playlist is empty');
+    this.name = 'EmptyPlaylistError';
+  }
+}
+
+export async function runPlaylistAnalysis(
+  spotifyService: SpotifyService,
+  playlistId: string,
+  options: PlaylistAnalysisOptions = {}
+): Promise<PlaylistAnalysisResult> {
+  const log = options.logger ?? rootLogger;
+  const { signal } = options;
+  const progress: AnalysisProgress = {
+    stage: 'tracks',
+    tracksFetched: 0,
+    totalTracks: null,
+    artistsResolved: 0,
+    totalArtists: null,
+    featuresFetched: 0,
+    totalFeatures: null
+  };
+  const report = (update: Partial<AnalysisProgress> = {}) => {
+    Object.assign(progress, update);
+    options.onProgress?.({ ...progress });
+  };
+
+  signal?.throwIfAborted();
+  log.info('Starting playlist analysis', { playlistId });
+  report();
+
+  // Paso 1: Obtener información de la playlist y tracks
+  const playlistInfo = await spotifyService.getPlaylist(playlistId);
+  const playlistSummary = (total: number): AnalyzedPlaylist => ({
+    id: playlistId,
+    name: playlistInfo.name,
+    description: playlistInfo.description || `Analysis of ${total} tracks`,
+    images: playlistInfo.images,
+    snapshot_id: playlistInfo.snapshot_id,
+    tracks: {
+      total
+    },
+    owner: {
+      display_name: playlistInfo.owner.display_name
+    }
+  });
+  options.onSection?.({ section: 'playlist', playlist: playlistSummary(Math.min(playlistInfo.trackCount, MAX_ANALYSIS_TRACKS)) });
+
+  // Solo el checkpoint del snapshot actual: con otro, los tracks ya no son los mismos
+  const resume = options.checkpoint?.snapshotId === playlistInfo.snapshot_id ? options.checkpoint : undefined;
+  // Si falló algo tras los reintentos (una página de tracks, un lote de artistas o
+  // de características de audio), el análisis sigue con lo demás y el resultado es parcial
+  let partial = resume?.partial === true;
+  const markPartial = (what: string, count: number) => {
+    partial = true;
+    log.warn('Analysis data missing, the result will be partial', { playlistId, what, count });
+  };
+  let checkpoint: AnalysisCheckpoint = { snapshotId: playlistInfo.snapshot_id, tracks: [] };
+  const saveCheckpoint = async (update: Partial<AnalysisCheckpoint>) => {
+    checkpoint = { ...checkpoint, ...update, ...(partial ? { partial: true } : {}) };
+    await options.onCheckpoint?.(checkpoint);
+  };
+
+  // Los tracks llegan por páginas; los artistas nuevos de cada página se piden en
+  // cuanto llega, mientras se siguen descargando las siguientes
+  const maxTracks = MAX_ANALYSIS_TRACKS;
+  const tracks: AnalysisTrack[] = [];
+  const seenArtistIds = new Set<string>();
+  const artistRequests: Promise<SpotifyArtist[]>[] = [];
+  const requestArtists = (artistIds: string[]) => {
+    const newArtistIds = Array.from(new Set(artistIds)).filter(id => !seenArtistIds.has(id));
+    newArtistIds.forEach(id => seenArtistIds.add(id));
+    if (newArtistIds.length > 0 && !resume?.artists) {
+      artistRequests.push(spotifyService.getArtists(newArtistIds, {
+        onSkipped: ids => markPartial('artists', ids.length)
+      }).then(artists => {
+        report({ artistsResolved: progress.artistsResolved + newArtistIds.length });
+        return artists;
+      }));
+    }
+  };
+
+  if (resume) {
+    log.info('Resuming playlist analysis from checkpoint', {
+      playlistId,
+      tracks: resume.tracks.length,
+      artists: resume.artists !== undefined,
+      features: resume.features !== undefined
+    });
+    tracks.push(...resume.tracks);
+    requestArtists(tracks.flatMap(track => track.artists.map(a => a.id)));
+    report({ tracksFetched: tracks.length, totalTracks: tracks.length });
+  } else {
+    for await (const page of spotifyService.iteratePlaylistTracks(playlistId, { maxItems: maxTracks })) {
+      signal?.throwIfAborted();
+      if (page.skipped) markPartial('track pages', 1);
+      tracks.push(...page.items.map(track => ({
+        id: track.id,
+        duration_ms: track.duration_ms,
+        artists: track.artists.map(artist => ({ id: artist.id, name: artist.name }))
+      })));
+      requestArtists(page.items.flatMap(track => track.artists.map(a => a.id)));
+
+      log.debug('Loaded page of tracks', { loaded: tracks.length, total: Math.min(page.total, maxTracks) });
+      report({ tracksFetched: tracks.length, totalTracks: Math.min(page.total, maxTracks) });
+    }
+  }
+  log.debug('Loaded all tracks', { playlistId, count: tracks.length });
+
+  if (tracks.length === 0) {
+    log.warn('No tracks found for playlist, it may be empty or inaccessible', { playlistId });
+    throw new EmptyPlaylistError();
+  }
+  await saveCheckpoint({ tracks });
+
+  // Paso 2: El motor calcula cada parte en cuanto tiene sus datos: los artistas
+  // (con sus géneros) pedidos durante la descarga y después las características de audio
+  report({ stage: 'artists', totalTracks: tracks.length, totalArtists: seenArtistIds.size });
+  if (resume?.artists) report({ artistsResolved: seenArtistIds.size });
+  const artists = (resume?.artists ? Promise.resolve(resume.artists) : Promise.all(artistRequests).then(responses => {
+    signal?.throwIfAborted();
+    const fetched = responses.flat();
+    log.debug('Fetched artists', { requested: seenArtistIds.size, count: fetched.length });
+    log.debug('Artists with genres', { withGenres: fetched.filter(artist => artist.genres.length > 0).length, total: fetched.length });
+    return fetched.map(artist => ({ id: artist.id, genres: artist.genres }));
+  })).then(async fetched => {
+    await saveCheckpoint({ artists: fetched });
+    return fetched;
+  });
+
+  // Paso 3: Obtener características de audio de los tracks (OPCIONAL)
+  let audioFeaturesAvailable = false;
+  const fetchAudioFeatures = async (): Promise<AnalysisAudioFeatures[]> => {
+    const trackIds = tracks.map(track => track.id);
+    report({ stage: 'features', totalFeatures: trackIds.length });
+    if (resume?.features) {
+      report({ featuresFetched: trackIds.length });
+      audioFeaturesAvailable = resume.features.length > 0;
+      return resume.features;
+    }
+    const audioFeatures: SpotifyAudioFeatures[] = [];
+    try {
+      for (let i = 0; i < trackIds.length; i += FEATURES_BATCH) {
+        signal?.throwIfAborted();
+        const batch = trackIds.slice(i, i + FEATURES_BATCH);
+        audioFeatures.push(...await spotifyService.getAudioFeatures(batch, {
+          // Un 403 es la restricción de Spotify a las características de audio, no un fallo
+          onSkipped: (ids, error) => {
+            if (!(error instanceof SpotifyForbiddenError)) markPartial('audio features', ids.length);
+          }
+        }));
+        report({ featuresFetched: i + batch.length });
+      }
+      audioFeaturesAvailable = audioFeatures.length > 0;
+      if (!audioFeaturesAvailable) {
+        log.info('No audio features returned, using genre-based analysis');
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      log.info('Audio features not available (Spotify restriction), using genre-based analysis', { error });
+    }
+    const features = audioFeatures.map(({ id, energy, danceability, valence, tempo, acousticness, instrumentalness }) => (
+      { id, energy, danceability, valence, tempo, acousticness, instrumentalness }
+    ));
+    await saveCheckpoint({ features });
+    return features;
+  };
+
+  // Paso 4: Construir el perfil musical completo
+  const profile = await analyzePlaylist(tracks, artists, fetchAudioFeatures, {
+    playlistId,
+    playlistName: playlistInfo.name, // Usar el nombre real de la playlist
+    onSection: section => {
+      if (section.section === 'genres' && section.genreAnalysis.topGenres.length === 0) {
+        log.warn('No genres found, artist data may be incomplete', { playlistId });
+      }
+      if (section.section === 'audio') {
+        signal?.throwIfAborted();
+        report({ stage: 'recommendations' });
+      }
+      options.onSection?.(section);
+    }
+  });
+
+  log.info('Playlist analysis completed', {
+    playlistId,
+    tracks: tracks.length,
+    genres: profile.genreAnalysis.topGenres.length,
+    uniqueArtists: profile.artistAnalysis.uniqueArtists,
+    audioFeaturesAvailable,
+    partial
+  });
+
+  report({ stage: 'done' });
+  return { playlist: playlistSummary(profile.totalTracks), profile, ...(partial ? { partial: true } : {}) };
+}
@@ -0,0 +1,126 @@
+import { getDataStore, withDataLock } from './dataStore';
+import { logger } from './logger';
+import { PlaylistSnapshotDiff, SpotifyPlaylistItem, diffPlaylistItems } from './spotify';
+
+const log = logger.child({ component: 'playlist-history' });
+
+// Past versions of playlists, so a wiped or mangled playlist can be put back.
+// Whenever SpotifyService reads a playlist's full item list at a snapshot_id not
+// seen before (see snapshotRecorder), the list is stored as a new version. Each
+// user keeps their own history of the playlists they open.
+
+// Versions kept per playlist; older ones are dropped
+export const MAX_PLAYLIST_VERSIONS = 50;
+
+// An entry of a stored version; just enough to show it and add it back
+export interface SnapshotItem {
+  uri: string;
+  name: string;
+  artists: Array<{ id: string | null; name: string }>;
+}
+
+export interface PlaylistVersion {
+  snapshotId: string;
+  // When the app first saw the playlist at this snapshot, not when it changed
+  seenAt: string;
+  itemCount: number;
+  // Changes from the version stored before it; null for the first one
+  changes: PlaylistSnapshotDiff | null;
+  // Set when the version was written by a restore of an older one
+  restoredFrom?: string;
+}
+
+export class PlaylistVersionNotFoundError extends Error {
+  readonly snapshotId: string;
+
+  constructor(snapshotId: string) {
+    super(`No stored version of the playlist has snapshot ${snapshotId}`);
+    this.name = 'PlaylistVersionNotFoundError';
+    this.snapshotId = snapshotId;
+  }
+}
+
+// Versions newest first
+const versionsKey = (ownerId: string, playlistId: string) => `playlist-history:${ownerId}:${playlistId}`;
+const itemsKey = (ownerId: string, playlistId: string, snapshotId: string) =>
+  `playlist-snapshot:${ownerId}:${playlistId}:${snapshotId}`;
+
+function toSnapshotItem(item: SpotifyPlaylistItem): SnapshotItem {
+  return { uri: item.uri, name: item.name, artists: item.artists.map(artist => ({ id: artist.id, name: artist.name })) };
+}
+
+export async function listPlaylistVersions(ownerId: string, playlistId: string): Promise<PlaylistVersion[]> {
+  return (await getDataStore().get<PlaylistVersion[]>(versionsKey(ownerId, playlistId))) ?? [];
+}
+
+// Items of a stored version; throws PlaylistVersionNotFoundError for one not stored
+export async function getPlaylistVersionItems(ownerId: string, playlistId: string, snapshotId: string): Promise<SnapshotItem[]> {
+  const items = await getDataStore().get<SnapshotItem[]>(itemsKey(ownerId, playlistId, snapshotId));
+  if (!items) throw new PlaylistVersionNotFoundError(snapshotId);
+  return items;
+}
+
+// Stores the items as a new version unless `snapshotId` is stored already.
+// Returns whether it was new.
+export function recordPlaylistSnapshot(
+  ownerId: string,
+  playlistId: string,
+  snapshotId: string,
+  items: Array<SpotifyPlaylistItem | SnapshotItem>,
+  options: { restoredFrom?: string } = {}
+): Promise<boolean> {
+  return withDataLock(versionsKey(ownerId, playlistId), async () => {
+    const store = getDataStore();
+    const versions = await listPlaylistVersions(ownerId, playlistId);
+    if (versions.some(version => version.snapshotId === snapshotId)) return false;
+
+    const snapshot = items.map(item => 'type' in item ? toSnapshotItem(item) : item);
+    const previous = versions[0]
+      ? await store.get<SnapshotItem[]>(itemsKey(ownerId, playlistId, versions[0].snapshotId))
+      : undefined;
+
+    const version: PlaylistVersion = {
+      snapshotId,
+      seenAt: new Date().toISOString(),
+      itemCount: snapshot.length,
+      changes: previous ? diffPlaylistItems(previous, snapshot) : null,
+      ...(options.restoredFrom ? { restoredFrom: options.restoredFrom } : {})
+    };
+
+    await store.set(itemsKey(ownerId, playlistId, snapshotId), snapshot);
+    const kept = [version, ...versions];
+    for (const dropped of kept.splice(MAX_PLAYLIST_VERSIONS)) {
+      await store.delete(itemsKey(ownerId, playlistId, dropped.snapshotId));
+    }
+    await store.set(versionsKey(ownerId, playlistId), kept);
+    log.debug('Recorded playlist version', { ownerId, playlistId, snapshotId, items: snapshot.length });
+    return true;
+  });
+}
+
+// SpotifyService option that records every playlist it reads in full for `ownerId`
+export function snapshotRecorder(ownerId: string | null) {
+  if (!ownerId) return undefined;
+  return async (playlistId: string, snapshotId: string, items: SpotifyPlaylistItem[]) => {
+    await recordPlaylistSnapshot(ownerId, playlistId, snapshotId, items);
+  };
+}
+
+// What changed going from version `from` to version `to`
+export async function diffPlaylistVersions(
+  ownerId: string,
+  playlistId: string,
+  from: string,
+  to: string
+): Promise<PlaylistSnapshotDiff> {
+  const [before, after] = await Promise.all([
+    getPlaylistVersionItems(ownerId, playlistId, from),
+    getPlaylistVersionItems(ownerId, playlistId, to)
+  ]);
+  return diffPlaylistItems(before, after);
+}
+
+// Whether Spotify accepts the item in a playlist write; local files can't be added back
+export function isRestorable(item: SnapshotItem): boolean {
+  return !item.uri.startsWith('spotify:local:');
+}
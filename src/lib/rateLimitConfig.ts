@@ -1 +1,48 @@
+// Spotify API request budgets shared by every SpotifyService instance in the process.
+// Spotify enforces limits per app over a rolling 30 second window and doesn't publish
+// the numbers, so these are conservative defaults that can be tuned through env vars.
 
+export interface TokenBucketConfig {
+  // Maximum number of requests that can be made back to back
+  capacity: number;
+  // Sustained requests per second once the burst is used up
+  refillPerSecond: number;
+}
+
+export interface RateLimitConfig {
+  // Budget for a single user's access token
+  perToken: TokenBucketConfig;
+  // Budget for the whole app (client id), shared by all users
+  perApp: TokenBucketConfig;
+  // How many times a 429 response is retried before giving up
+  maxRetries: number;
+  // Wait used when a 429 response has no Retry-After header
+  defaultRetryAfterSeconds: number;
+  // Retry-After values above this are not waited out; the error is returned instead
+  maxRetryAfterSeconds: number;
+  // Pages of a paged endpoint fetched at the same time once the first page reveals the total
+  pageConcurrency: number;
+  // Extra attempts for a page that fails with a network or 5xx error
+  pageRetries: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const rateLimitConfig: RateLimitConfig = {
+  perToken: {
+    capacity: envNumber('SPOTIFY_RATE_LIMIT_TOKEN_BURST', 10),
+    refillPerSecond: envNumber('SPOTIFY_RATE_LIMIT_TOKEN_PER_SECOND', 4)
+  },
+  perApp: {
+    capacity: envNumber('SPOTIFY_RATE_LIMIT_APP_BURST', 30),
+    refillPerSecond: envNumber('SPOTIFY_RATE_LIMIT_APP_PER_SECOND', 10)
+  },
+  maxRetries: envNumber('SPOTIFY_RATE_LIMIT_MAX_RETRIES', 3),
+  defaultRetryAfterSeconds: 2,
+  maxRetryAfterSeconds: envNumber('SPOTIFY_RATE_LIMIT_MAX_RETRY_AFTER', 30),
+  pageConcurrency: envNumber('SPOTIFY_PAGE_CONCURRENCY', 4),
+  pageRetries: envNumber('SPOTIFY_PAGE_RETRIES', 2)
+};
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimitConfig } from './rateLimitConfig';
+import { InMemoryRateLimitStore, SpotifyRateLimiter } from './rateLimiter';
+import { SpotifyRateLimitedError } from './spotifyErrors';
+
+const config: RateLimitConfig = {
+  perToken: { capacity: 2, refillPerSecond: 1 },
+  perApp: { capacity: 100, refillPerSecond: 100 },
+  maxRetries: 3,
+  defaultRetryAfterSeconds: 2,
+  maxRetryAfterSeconds: 30,
+  pageConcurrency: 4,
+  pageRetries: 2
+};
+
+function createLimiter() {
+  return new SpotifyRateLimiter(new InMemoryRateLimitStore(), config);
+}
+
+describe('SpotifyRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-05-01T12:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('charges a token bucket and the app bucket, never keeping the token itself', () => {
+    const keys = createLimiter().keysFor('BQD-secret-token');
+
+    expect(keys.map(({ bucket }) => bucket)).toEqual([config.perToken, config.perApp]);
+    expect(keys[0].key).toMatch(/^spotify:token:[0-9a-f]{32}$/);
+    expect(keys.map(({ key }) => key).join()).not.toContain('BQD-secret-token');
+    expect(createLimiter().keysFor()).toHaveLength(1);
+  });
+
+  it('lets a burst through, then waits for the bucket to refill', async () => {
+    const limiter = createLimiter();
+    const keys = limiter.keysFor('token');
+
+    await limiter.acquire(keys);
+    await limiter.acquire(keys);
+
+    let acquired = false;
+    const third = limiter.acquire(keys).then(() => { acquired = true; });
+    await vi.advanceTimersByTimeAsync(900);
+    expect(acquired).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await third;
+    expect(acquired).toBe(true);
+  });
+
+  it('holds requests until a Retry-After block has elapsed', async () => {
+    const limiter = createLimiter();
+    const keys = limiter.keysFor('token');
+    await limiter.block(keys, 5000);
+
+    let acquired = false;
+    const next = limiter.acquire(keys).then(() => { acquired = true; });
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(acquired).toBe(false);
+
+    // The block emptied the bucket, so the request also waits for a refill
+    await vi.advanceTimersByTimeAsync(1001);
+    await next;
+    expect(acquired).toBe(true);
+  });
+
+  it('fails right away when Retry-After is longer than it is willing to wait', async () => {
+    const limiter = createLimiter();
+    const keys = limiter.keysFor('token');
+    await limiter.block(keys, 60_000);
+
+    const error = await limiter.acquire(keys).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SpotifyRateLimitedError);
+    expect(error.retryAfter).toBe(60);
+  });
+
+  it('reads Retry-After in seconds and falls back to the default without one', () => {
+    const limiter = createLimiter();
+
+    expect(limiter.retryAfterMs(new Headers({ 'retry-after': '3' }))).toBe(3000);
+    expect(limiter.retryAfterMs({ 'retry-after': 'soon' })).toBe(2000);
+    expect(limiter.retryAfterMs()).toBe(2000);
+  });
+});
@@ -0,0 +1,141 @@
+import { createHash } from 'crypto';
+import { rateLimitConfig, RateLimitConfig, TokenBucketConfig } from './rateLimitConfig';
+import { SpotifyRateLimitedError } from './spotifyErrors';
+
+// State of one token bucket. `blockedUntil` is set from Spotify's Retry-After header.
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+  blockedUntil: number;
+}
+
+// Storage for bucket state. The default keeps it in process memory; a shared
+// implementation (Redis, a database row, ...) lets several server instances
+// draw from the same budget. `update` must apply the function atomically.
+export interface RateLimitStore {
+  update<T>(key: string, updater: (state: BucketState | undefined) => { state: BucketState; result: T }): Promise<T>;
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, BucketState>();
+
+  async update<T>(key: string, updater: (state: BucketState | undefined) => { state: BucketState; result: T }): Promise<T> {
+    const { state, result } = updater(this.buckets.get(key));
+    this.buckets.set(key, state);
+    return result;
+  }
+}
+
+interface RateLimitKey {
+  key: string;
+  bucket: TokenBucketConfig;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function refill(state: BucketState | undefined, bucket: TokenBucketConfig, now: number): BucketState {
+  if (!state) {
+    return { tokens: bucket.capacity, updatedAt: now, blockedUntil: 0 };
+  }
+  const elapsedSeconds = Math.max(0, now - state.updatedAt) / 1000;
+  return {
+    tokens: Math.min(bucket.capacity, state.tokens + elapsedSeconds * bucket.refillPerSecond),
+    updatedAt: now,
+    blockedUntil: state.blockedUntil
+  };
+}
+
+// Token-bucket limiter shared by every SpotifyService in the process. Requests are
+// charged against both the caller's access token and the app's client id.
+export class SpotifyRateLimiter {
+  private store: RateLimitStore;
+  private config: RateLimitConfig;
+
+  constructor(store: RateLimitStore = new InMemoryRateLimitStore(), config: RateLimitConfig = rateLimitConfig) {
+    this.store = store;
+    this.config = config;
+  }
+
+  get settings(): RateLimitConfig {
+    return this.config;
+  }
+
+  setStore(store: RateLimitStore) {
+    this.store = store;
+  }
+
+  // Buckets a request made with this access token is charged against. The token
+  // itself is hashed so it never ends up in a shared store.
+  keysFor(accessToken?: string): RateLimitKey[] {
+    const keys: RateLimitKey[] = [];
+    if (accessToken) {
+      const tokenHash = createHash('sha256').update(accessToken).digest('hex').slice(0, 32);
+      keys.push({ key: `spotify:token:${tokenHash}`, bucket: this.config.perToken });
+    }
+    keys.push({ key: `spotify:app:${process.env.SPOTIFY_CLIENT_ID || 'default'}`, bucket: this.config.perApp });
+    return keys;
+  }
+
+  // Waits until every bucket has a token available, then takes one from each.
+  // A Retry-After block longer than maxRetryAfterSeconds fails right away instead.
+  async acquire(keys: RateLimitKey[]): Promise<void> {
+    for (const { key, bucket } of keys) {
+      for (;;) {
+        const { waitMs, blocked } = await this.store.update(key, current => {
+          const now = Date.now();
+          const state = refill(current, bucket, now);
+          if (state.blockedUntil > now) {
+            return { state, result: { waitMs: state.blockedUntil - now, blocked: true } };
+          }
+          if (state.tokens >= 1) {
+            return { state: { ...state, tokens: state.tokens - 1 }, result: { waitMs: 0, blocked: false } };
+          }
+          return {
+            state,
+            result: { waitMs: Math.ceil(((1 - state.tokens) / bucket.refillPerSecond) * 1000), blocked: false }
+          };
+        });
+        if (waitMs <= 0) break;
+        if (blocked && waitMs > this.config.maxRetryAfterSeconds * 1000) {
+          throw new SpotifyRateLimitedError(waitMs / 1000);
+        }
+        await sleep(waitMs);
+      }
+    }
+  }
+
+  // Pauses every request on these buckets until Spotify's Retry-After has elapsed
+  async block(keys: RateLimitKey[], retryAfterMs: number): Promise<void> {
+    await Promise.all(keys.map(({ key, bucket }) =>
+      this.store.update(key, current => {
+        const now = Date.now();
+        const state = refill(current, bucket, now);
+        return {
+          state: { ...state, tokens: 0, blockedUntil: Math.max(state.blockedUntil, now + retryAfterMs) },
+          result: undefined
+        };
+      })
+    ));
+  }
+
+  // Milliseconds to wait for a 429 response, from its Retry-After header (in seconds)
+  retryAfterMs(headers?: Headers | Record<string, string>): number {
+    const raw = headers instanceof Headers ? headers.get('retry-after') : headers?.['retry-after'];
+    const seconds = Number(raw);
+    return (Number.isFinite(seconds) && seconds >= 0 ? seconds : this.config.defaultRetryAfterSeconds) * 1000;
+  }
+}
+
+let sharedLimiter: SpotifyRateLimiter | null = null;
+
+export function getSharedRateLimiter(): SpotifyRateLimiter {
+  if (!sharedLimiter) {
+    sharedLimiter = new SpotifyRateLimiter();
+  }
+  return sharedLimiter;
+}
+
+// Swap the backing store, e.g. for one shared between server instances
+export function setRateLimitStore(store: RateLimitStore) {
+  getSharedRateLimiter().setStore(store);
+}
@@ -0,0 +1,188 @@
+import { randomUUID } from 'crypto';
+import { getDataStore, withDataLock } from './dataStore';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'saved-profiles' });
+
+// Musical profiles a user saved from the playlist analysis, one per playlist.
+// The list under `saved-profiles:{owner}` holds the summaries the library page
+// shows; each full analysis is stored under its own key so listing stays cheap.
+
+// Most profiles kept per owner
+export const MAX_SAVED_PROFILES = 500;
+// Largest analysis accepted, as serialized JSON
+export const MAX_PROFILE_BYTES = 512 * 1024;
+const MAX_IMAGE_URL_LENGTH = 2048;
+
+// The fields of an analysis (see /api/analysis/playlist/[id]) the library needs.
+// The rest of the analysis is stored as is.
+export interface ProfileAnalysis {
+  playlistId: string;
+  playlistName: string;
+  totalTracks: number;
+  analyzedAt: string;
+  genreAnalysis: { dominantGenre: string };
+  audioAnalysis: { mood: string };
+  recommendations: { energyLevel: string };
+}
+
+export interface SavedProfileSummary {
+  id: string;
+  playlistId: string;
+  playlistName: string;
+  playlistImage?: string;
+  analyzedAt: string;
+  totalTracks: number;
+  dominantGenre: string;
+  mood: string;
+  energyLevel: string;
+  savedAt: string;
+}
+
+export interface SavedProfile extends SavedProfileSummary {
+  profile: ProfileAnalysis;
+}
+
+// The analysis is missing fields the library needs, or is too large to keep
+export class InvalidProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidProfileError';
+  }
+}
+
+const summariesKey = (ownerId: string) => `saved-profiles:${ownerId}`;
+const profileKey = (ownerId: string, profileId: string) => `saved-profile:${ownerId}:${profileId}`;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Checks `value` is an analysis we can save; throws InvalidProfileError otherwise
+export function parseProfileAnalysis(value: unknown): ProfileAnalysis {
+  if (
+    !isRecord(value) ||
+    typeof value.playlistId !== 'string' || value.playlistId === '' ||
+    typeof value.playlistName !== 'string' ||
+    typeof value.totalTracks !== 'number' ||
+    typeof value.analyzedAt !== 'string' || Number.isNaN(Date.parse(value.analyzedAt)) ||
+    !isRecord(value.genreAnalysis) || typeof value.genreAnalysis.dominantGenre !== 'string' ||
+    !isRecord(value.audioAnalysis) || typeof value.audioAnalysis.mood !== 'string' ||
+    !isRecord(value.recommendations) || typeof value.recommendations.energyLevel !== 'string'
+  ) {
+    throw new InvalidProfileError('profile must be a playlist analysis');
+  }
+  if (Buffer.byteLength(JSON.stringify(value)) > MAX_PROFILE_BYTES) {
+    throw new InvalidProfileError(`profile must be at most ${MAX_PROFILE_BYTES / 1024} KB`);
+  }
+  return value as unknown as ProfileAnalysis;
+}
+
+// Reads `{ profile, playlistImage? }`, the body of the save and update routes
+export function parseProfileInput(value: unknown): { profile: ProfileAnalysis; playlistImage?: string } {
+  if (!isRecord(value)) throw new InvalidProfileError('profile must be a playlist analysis');
+  const { playlistImage } = value;
+  if (playlistImage !== undefined && (typeof playlistImage !== 'string' || playlistImage.length > MAX_IMAGE_URL_LENGTH)) {
+    throw new InvalidProfileError(`playlistImage must be a URL of at most ${MAX_IMAGE_URL_LENGTH} characters`);
+  }
+  return { profile: parseProfileAnalysis(value.profile), playlistImage };
+}
+
+function summarize(id: string, profile: ProfileAnalysis, playlistImage: string | undefined, savedAt: string): SavedProfileSummary {
+  return {
+    id,
+    playlistId: profile.playlistId,
+    playlistName: profile.playlistName,
+    playlistImage: playlistImage || undefined,
+    analyzedAt: profile.analyzedAt,
+    totalTracks: profile.totalTracks,
+    dominantGenre: profile.genreAnalysis.dominantGenre,
+    mood: profile.audioAnalysis.mood,
+    energyLevel: profile.recommendations.energyLevel,
+    savedAt
+  };
+}
+
+async function loadSummaries(ownerId: string): Promise<SavedProfileSummary[]> {
+  return (await getDataStore().get<SavedProfileSummary[]>(summariesKey(ownerId))) ?? [];
+}
+
+async function saveSummaries(ownerId: string, summaries: SavedProfileSummary[]): Promise<void> {
+  await getDataStore().set(summariesKey(ownerId), summaries);
+}
+
+// Newest analyses first
+export async function listSavedProfiles(ownerId: string): Promise<SavedProfileSummary[]> {
+  return (await loadSummaries(ownerId)).sort((a, b) => Date.parse(b.analyzedAt) - Date.parse(a.analyzedAt));
+}
+
+export async function getSavedProfile(ownerId: string, profileId: string): Promise<SavedProfile | null> {
+  const summary = (await loadSummaries(ownerId)).find(candidate => candidate.id === profileId);
+  if (!summary) return null;
+  const profile = await getDataStore().get<ProfileAnalysis>(profileKey(ownerId, profileId));
+  return profile ? { ...summary, profile } : null;
+}
+
+// Saves `profile`, replacing the one already saved for its playlist. With
+// `onlyIfNewer`, an existing profile analyzed later than `profile` is kept.
+// Returns null when nothing was written.
+export function saveProfile(
+  ownerId: string,
+  profile: ProfileAnalysis,
+  options: { playlistImage?: string; onlyIfNewer?: boolean } = {}
+): Promise<SavedProfileSummary | null> {
+  return withDataLock(summariesKey(ownerId), async () => {
+    const summaries = await loadSummaries(ownerId);
+    const existing = summaries.find(candidate => candidate.playlistId === profile.playlistId);
+    if (existing && options.onlyIfNewer && Date.parse(existing.analyzedAt) >= Date.parse(profile.analyzedAt)) {
+      return null;
+    }
+    if (!existing && summaries.length >= MAX_SAVED_PROFILES) {
+      throw new InvalidProfileError(`You can save at most ${MAX_SAVED_PROFILES} profiles`);
+    }
+
+    const id = existing?.id ?? randomUUID();
+    const summary = summarize(id, profile, options.playlistImage ?? existing?.playlistImage, new Date().toISOString());
+    await getDataStore().set(profileKey(ownerId, id), profile);
+    await saveSummaries(ownerId, existing
+      ? summaries.map(candidate => candidate.id === id ? summary : candidate)
+      : [...summaries, summary]);
+    log.debug('Saved musical profile', { ownerId, profileId: id, playlistId: profile.playlistId });
+    return summary;
+  });
+}
+
+// Replaces the analysis of a saved profile. Returns null when it doesn't exist.
+export function updateSavedProfile(
+  ownerId: string,
+  profileId: string,
+  profile: ProfileAnalysis,
+  playlistImage?: string
+): Promise<SavedProfileSummary | null> {
+  return withDataLock(summariesKey(ownerId), async () => {
+    const summaries = await loadSummaries(ownerId);
+    const existing = summaries.find(candidate => candidate.id === profileId);
+    if (!existing) return null;
+    if (profile.playlistId !== existing.playlistId) {
+      throw new InvalidProfileError('profile is for a different playlist');
+    }
+
+    const summary = summarize(profileId, profile, playlistImage ?? existing.playlistImage, new Date().toISOString());
+    await getDataStore().set(profileKey(ownerId, profileId), profile);
+    await saveSummaries(ownerId, summaries.map(candidate => candidate.id === profileId ? summary : candidate));
+    return summary;
+  });
+}
+
+// Returns false when the profile didn't exist
+export function deleteSavedProfile(ownerId: string, profileId: string): Promise<boolean> {
+  return withDataLock(summariesKey(ownerId), async () => {
+    const summaries = await loadSummaries(ownerId);
+    if (!summaries.some(candidate => candidate.id === profileId)) return false;
+
+    await saveSummaries(ownerId, summaries.filter(candidate => candidate.id !== profileId));
+    await getDataStore().delete(profileKey(ownerId, profileId));
+    log.debug('Deleted musical profile', { ownerId, profileId });
+    return true;
+  });
+}
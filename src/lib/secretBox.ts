@@ -0,0 +1,32 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+// Encrypts credentials the app stores itself (refresh tokens of linked accounts)
+// with AES-256-GCM, keyed from NEXTAUTH_SECRET, so a copy of the data directory
+// alone doesn't hand out Spotify access. Rotating the secret makes stored values
+// unreadable, and the accounts have to be linked again.
+
+function key(): Buffer {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret && process.env.NODE_ENV === 'production') {
+    throw new Error('NEXTAUTH_SECRET is required to store credentials');
+  }
+  return createHash('sha256').update(secret || 'playlistintel-development-secret').digest();
+}
+
+export function sealSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key(), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return ['v1', iv, cipher.getAuthTag(), data].map(part => typeof part === 'string' ? part : part.toString('base64url')).join('.');
+}
+
+// Throws when the value was sealed with another secret or has been tampered with
+export function openSecret(sealed: string): string {
+  const [version, iv, tag, data] = sealed.split('.');
+  if (version !== 'v1' || !iv || !tag || !data) {
+    throw new Error('Unrecognised sealed value');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', key(), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64url')), decipher.final()]).toString('utf8');
+}
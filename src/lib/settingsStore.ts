@@ -0,0 +1,81 @@
+import { getDataStore, withDataLock } from './dataStore';
+import { logger } from './logger';
+import { InvalidSettingsError, SettingsPatch, UserSettings, parseSettings } from './userSettings';
+
+const log = logger.child({ component: 'settings' });
+
+// Settings and custom avatar of each user, kept in the DataStore. The avatar is
+// stored apart from the settings so reading settings stays small. Every write
+// runs under the owner's settings lock so concurrent saves don't drop fields.
+
+// Largest avatar accepted. The settings page resizes uploads well below this.
+export const MAX_AVATAR_BYTES = 256 * 1024;
+
+export type AvatarContentType = 'image/jpeg' | 'image/png' | 'image/webp';
+
+interface StoredAvatar {
+  contentType: AvatarContentType;
+  // Base64 of the image, since the DataStore holds JSON
+  data: string;
+}
+
+const settingsKey = (ownerId: string) => `settings:${ownerId}`;
+const avatarKey = (ownerId: string) => `avatar:${ownerId}`;
+
+export async function getUserSettings(ownerId: string): Promise<UserSettings> {
+  return parseSettings(await getDataStore().get(settingsKey(ownerId)));
+}
+
+async function saveUserSettings(ownerId: string, settings: UserSettings): Promise<UserSettings> {
+  await getDataStore().set(settingsKey(ownerId), settings);
+  return settings;
+}
+
+export function updateUserSettings(ownerId: string, patch: SettingsPatch): Promise<UserSettings> {
+  return withDataLock(settingsKey(ownerId), async () => {
+    const current = await getUserSettings(ownerId);
+    return saveUserSettings(ownerId, { ...current, ...patch, updatedAt: new Date().toISOString() });
+  });
+}
+
+// Image type from the file's first bytes, or null when it isn't one we serve
+function sniffImageType(image: Buffer): AvatarContentType | null {
+  if (image.length >= 3 && image[0] === 0xff && image[1] === 0xd8 && image[2] === 0xff) return 'image/jpeg';
+  if (image.length >= 8 && image.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (image.length >= 12 && image.toString('ascii', 0, 4) === 'RIFF' && image.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+  return null;
+}
+
+export async function getAvatar(ownerId: string): Promise<{ contentType: AvatarContentType; image: Buffer } | null> {
+  const stored = await getDataStore().get<StoredAvatar>(avatarKey(ownerId));
+  return stored ? { contentType: stored.contentType, image: Buffer.from(stored.data, 'base64') } : null;
+}
+
+// Stores a JPEG, PNG or WebP of at most MAX_AVATAR_BYTES; throws InvalidSettingsError otherwise
+export async function setAvatar(ownerId: string, image: Buffer): Promise<UserSettings> {
+  if (image.length === 0 || image.length > MAX_AVATAR_BYTES) {
+    throw new InvalidSettingsError(`avatar must be at most ${MAX_AVATAR_BYTES / 1024} KB`);
+  }
+  const contentType = sniffImageType(image);
+  if (!contentType) {
+    throw new InvalidSettingsError('avatar must be a JPEG, PNG or WebP image');
+  }
+
+  return withDataLock(settingsKey(ownerId), async () => {
+    await getDataStore().set<StoredAvatar>(avatarKey(ownerId), { contentType, data: image.toString('base64') });
+    const now = new Date().toISOString();
+    log.debug('Stored avatar', { ownerId, contentType, bytes: image.length });
+    return saveUserSettings(ownerId, { ...(await getUserSettings(ownerId)), avatarUpdatedAt: now, updatedAt: now });
+  });
+}
+
+export function deleteAvatar(ownerId: string): Promise<UserSettings> {
+  return withDataLock(settingsKey(ownerId), async () => {
+    await getDataStore().delete(avatarKey(ownerId));
+    return saveUserSettings(ownerId, {
+      ...(await getUserSettings(ownerId)),
+      avatarUpdatedAt: null,
+      updatedAt: new Date().toISOString()
+    });
+  });
+}
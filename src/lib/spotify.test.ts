@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { PlaylistDiffItem, diffPlaylistItems } from './spotify';
+
+function item(uri: string, artist = 'Neon Coast'): PlaylistDiffItem {
+  return { uri, name: uri.split(':').pop() ?? uri, artists: [{ name: artist, id: null }] };
+}
+
+const a = item('spotify:track:a');
+const b = item('spotify:track:b');
+const c = item('spotify:track:c', 'Velvet Static');
+
+describe('diffPlaylistItems', () => {
+  it('reports nothing for the same items in the same order', () => {
+    expect(diffPlaylistItems([a, b, c], [a, b, c])).toEqual({
+      added: [],
+      removed: [],
+      addedCount: 0,
+      removedCount: 0,
+      reordered: false
+    });
+  });
+
+  it('lists added and removed items with their position in their own version', () => {
+    const diff = diffPlaylistItems([a, b], [b, c]);
+
+    expect(diff.removed).toEqual([{ uri: a.uri, name: 'a', artists: 'Neon Coast', position: 0 }]);
+    expect(diff.added).toEqual([{ uri: c.uri, name: 'c', artists: 'Velvet Static', position: 1 }]);
+    expect(diff.reordered).toBe(false);
+  });
+
+  it('flags a reorder of the items both versions share', () => {
+    const diff = diffPlaylistItems([a, b, c], [c, a, b]);
+
+    expect(diff.addedCount).toBe(0);
+    expect(diff.removedCount).toBe(0);
+    expect(diff.reordered).toBe(true);
+  });
+
+  it('counts each occurrence of a duplicated track', () => {
+    const diff = diffPlaylistItems([a, a, b], [a, b, b, b]);
+
+    expect(diff.removed.map(entry => entry.position)).toEqual([1]);
+    expect(diff.added.map(entry => entry.position)).toEqual([2, 3]);
+    expect(diff.removedCount).toBe(1);
+    expect(diff.addedCount).toBe(2);
+  });
+
+  it('caps the lists but not the counts', () => {
+    const after = Array.from({ length: 60 }, (_, index) => item(`spotify:track:new-${index}`));
+    const diff = diffPlaylistItems([], after);
+
+    expect(diff.added).toHaveLength(50);
+    expect(diff.addedCount).toBe(60);
+  });
+});
@@ -1,669 +1,1253 @@
-import SpotifyWebApi from 'spotify-web-api-node';
-
-// Enhanced Rate Limiter with better Spotify API compliance
-class RateLimiter {
-  private lastCall = 0;
-  private minInterval = 200; // Much more aggressive - 200ms between calls
-  private consecutiveErrors = 0;
-  private maxConsecutiveErrors = 2; // Very lenient
-  private globalErrorCount = 0;
-  private maxGlobalErrors = 5; // Very lenient
-  private rateLimitResetTime = 0;
-  private currentWindowRequests = 0;
-  private maxRequestsPerWindow = 100; // Very aggressive - 100 requests per window
-
-  async waitForNextCall() {
-    const now = Date.now();
-    
-    // Check if we're in a new rate limit window
-    if (now > this.rateLimitResetTime) {
-      this.currentWindowRequests = 0;
-      this.rateLimitResetTime = now + (60 * 1000); // Reset every minute
-    }
-    
-    // If we're approaching the rate limit, wait longer
-    if (this.currentWindowRequests > this.maxRequestsPerWindow * 0.9) {
-      const waitTime = Math.max(500, this.minInterval * 1.5);
-      console.log(`⚠️ Approaching rate limit, waiting ${waitTime}ms`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-    
-    const timeSinceLastCall = now - this.lastCall;
-    
-    // Add exponential backoff if we've had consecutive errors
-    const backoffMultiplier = Math.min(2 ** this.consecutiveErrors, 32);
-    const adjustedInterval = this.minInterval * backoffMultiplier;
-    
-    if (timeSinceLastCall < adjustedInterval) {
-      const waitTime = adjustedInterval - timeSinceLastCall;
-      console.log(`⏳ Rate limiting: waiting ${waitTime}ms before next API call`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-    
-    this.lastCall = Date.now();
-    this.currentWindowRequests++;
-  }
-
-  recordError(error: any) {
-    this.consecutiveErrors = Math.min(this.consecutiveErrors + 1, this.maxConsecutiveErrors);
-    this.globalErrorCount = Math.min(this.globalErrorCount + 1, this.maxGlobalErrors);
-    
-    // Handle specific error types
-    if (error.statusCode === 429) {
-      // Rate limit exceeded - increase interval significantly
-      this.minInterval = Math.min(this.minInterval * 3, 3000);
-      console.log(`🚫 Rate limit exceeded, increased interval to ${this.minInterval}ms`);
-      
-      // If we get rate limited, wait for the reset window
-      if (this.rateLimitResetTime < Date.now()) {
-        this.rateLimitResetTime = Date.now() + (120 * 1000); // Wait 2 minutes instead of 1
-      }
-    } else if (error.statusCode === 403) {
-      // Forbidden - this might be due to development mode restrictions
-      console.log(`🚫 403 Forbidden - possible development mode restriction`);
-    }
-    
-    // If we've had too many global errors, increase the base interval
-    if (this.globalErrorCount > 8) {
-      this.minInterval = Math.min(this.minInterval * 1.5, 1500);
-      console.log(`⚠️ Too many errors, increased base interval to ${this.minInterval}ms`);
-    }
-  }
-
-  recordSuccess() {
-    this.consecutiveErrors = 0;
-    
-    // Gradually decrease the interval back to normal
-    if (this.globalErrorCount > 0) {
-      this.globalErrorCount = Math.max(this.globalErrorCount - 1, 0);
-      if (this.globalErrorCount <= 5) {
-        this.minInterval = Math.max(this.minInterval * 0.95, 500);
-      }
-    }
-  }
-
-  // Get current status for debugging
-  getStatus() {
-    return {
-      minInterval: this.minInterval,
-      consecutiveErrors: this.consecutiveErrors,
-      globalErrorCount: this.globalErrorCount,
-      currentWindowRequests: this.currentWindowRequests,
-      rateLimitResetTime: this.rateLimitResetTime
-    };
-  }
-}
-
-const rateLimiter = new RateLimiter();
-
-const spotifyApi = new SpotifyWebApi({
-  clientId: process.env.SPOTIFY_CLIENT_ID,
-  clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
-  redirectUri: process.env.NEXTAUTH_URL + '/api/auth/callback/spotify'
-});
-
-export interface SpotifyPlaylist {
-  id: string;
-  name: string;
-  description: string;
-  images: Array<{ url: string; width?: number; height?: number }>;
-  tracks: {
-    total: number;
-    items: Array<{
-      track: {
-        id: string;
-        name: string;
-        artists: Array<{ name: string }>;
-        album: { name: string; images: Array<{ url: string }> };
-        duration_ms: number;
-      };
-    }>;
-  };
-  owner: {
-    display_name: string;
-    id: string;
-  };
-  collaborative: boolean;
-  public: boolean;
-  snapshot_id: string;
-}
-
-export interface SpotifyTrack {
-  id: string;
-  name: string;
-  artists: Array<{ name: string; id: string }>;
-  album: {
-    name: string;
-    images: Array<{ url: string }>;
-  };
-  duration_ms: number;
-  uri: string;
-}
-
-export interface SpotifyArtist {
-  id: string;
-  name: string;
-  genres: string[];
-  popularity: number;
-}
-
-export interface SpotifyAudioFeatures {
-  id: string;
-  danceability: number;
-  energy: number;
-  key: number;
-  loudness: number;
-  mode: number;
-  speechiness: number;
-  acousticness: number;
-  instrumentalness: number;
-  liveness: number;
-  valence: number;
-  tempo: number;
-  duration_ms: number;
-  time_signature: number;
-}
-
-export class SpotifyService {
-  private api: SpotifyWebApi;
-  private rateLimiter: RateLimiter;
-
-  constructor(accessToken?: string) {
-    this.api = new SpotifyWebApi({
-      clientId: process.env.SPOTIFY_CLIENT_ID,
-      clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
-      redirectUri: process.env.NEXTAUTH_URL + '/api/auth/callback/spotify'
-    });
-    this.rateLimiter = new RateLimiter();
-
-    if (accessToken) {
-      this.api.setAccessToken(accessToken);
-    }
-  }
-
-  // Enhanced helper method to make rate-limited API calls with better error handling
-  private async makeApiCall<T>(apiCall: () => Promise<T>): Promise<T> {
-    await this.rateLimiter.waitForNextCall();
-    
-    try {
-      const result = await apiCall();
-      this.rateLimiter.recordSuccess();
-      return result;
-    } catch (error: any) {
-      this.rateLimiter.recordError(error);
-      
-      if (error.statusCode === 429) {
-        // Rate limit exceeded, wait much shorter and retry with exponential backoff
-        const retryDelay = Math.min(1000 * (2 ** this.rateLimiter['consecutiveErrors']), 4000);
-        console.log(`🚫 Rate limit exceeded, waiting ${retryDelay}ms before retry...`);
-        
-        // Log rate limiter status for debugging
-        console.log('📊 Rate limiter status:', this.rateLimiter.getStatus());
-        
-        await new Promise(resolve => setTimeout(resolve, retryDelay));
-        await this.rateLimiter.waitForNextCall();
-        
-        // Try one more time after waiting
-        try {
-          return await apiCall();
-        } catch (retryError: any) {
-          console.log('❌ Retry failed after rate limit wait');
-          throw retryError;
-        }
-      } else if (error.statusCode === 403) {
-        // Forbidden - likely due to development mode restrictions or permission issues
-        console.log('🚫 403 Forbidden - This may be due to Spotify app being in Development Mode or permission issues');
-        console.log('💡 Solution: Add your email as a test user in Spotify Developer Dashboard or switch to Production Mode');
-        
-        // For 403 errors, we'll throw a custom error that can be handled by the calling method
-        const forbiddenError = new Error('Access forbidden') as any;
-        forbiddenError.statusCode = 403;
-        forbiddenError.message = 'Access forbidden';
-        throw forbiddenError;
-      } else if (error.statusCode === 401) {
-        // Unauthorized - token may be invalid
-        console.log('🔐 401 Unauthorized - Token may be invalid or expired');
-        throw new Error('Authentication failed. Please log in again.');
-      }
-      
-      // Log other errors for debugging
-      console.log('❌ API call failed with error:', {
-        statusCode: error.statusCode,
-        message: error.message,
-        body: error.body
-      });
-      
-      throw error;
-    }
-  }
-
-  async getUserPlaylists(limit = 10, offset = 0): Promise<SpotifyPlaylist[]> {
-    try {
-      const response = await this.makeApiCall(() => 
-        this.api.getUserPlaylists({ limit, offset })
-      );
-      
-      return response.body.items.map(playlist => ({
-        id: playlist.id,
-        name: playlist.name,
-        description: playlist.description || '',
-        images: playlist.images,
-        tracks: { total: playlist.tracks.total, items: [] },
-        owner: {
-          display_name: playlist.owner.display_name ?? "Unknown",
-          id: playlist.owner.id
-        },
-        collaborative: playlist.collaborative,
-        public: playlist.public ?? false,
-        snapshot_id: playlist.snapshot_id
-      }));
-    } catch (error) {
-      console.error('Error fetching user playlists:', error);
-      throw error;
-    }
-  }
-
-  // New method to get ALL user playlists using pagination
-  async getAllUserPlaylists(maxPlaylists = 1000): Promise<SpotifyPlaylist[]> {
-    try {
-      console.log(`🔄 Starting getAllUserPlaylists with maxPlaylists: ${maxPlaylists}`);
-      const allPlaylists: SpotifyPlaylist[] = [];
-      let offset = 0;
-      const limit = 50; // Spotify's max limit per request
-      let batchCount = 0;
-      let consecutiveErrors = 0;
-      const maxConsecutiveErrors = 3;
-
-      while (allPlaylists.length < maxPlaylists) {
-        batchCount++;
-        console.log(`📥 Batch ${batchCount}: Fetching playlists with offset: ${offset}, limit: ${limit}, current total: ${allPlaylists.length}`);
-        
-        try {
-          const playlists = await this.getUserPlaylists(limit, offset);
-          console.log(`📊 Batch ${batchCount}: Received ${playlists.length} playlists in this batch`);
-          
-          if (playlists.length === 0) {
-            console.log(`🛑 Batch ${batchCount}: No more playlists found, breaking loop`);
-            break;
-          }
-          
-          allPlaylists.push(...playlists);
-          console.log(`📈 Batch ${batchCount}: Total playlists so far: ${allPlaylists.length}`);
-          offset += limit;
-          consecutiveErrors = 0; // Reset error counter on success
-          
-          if (playlists.length < limit) {
-            console.log(`🛑 Batch ${batchCount}: Received fewer playlists than limit (${playlists.length} < ${limit}), breaking loop`);
-            break;
-          }
-          
-          // Add delay between batches to avoid rate limits
-          if (batchCount < Math.ceil(maxPlaylists / limit)) {
-            console.log(`⏳ Adding delay between playlist batches to avoid rate limits...`);
-            await new Promise(resolve => setTimeout(resolve, 300));
-          }
-        } catch (error: any) {
-          consecutiveErrors++;
-          console.error(`❌ Batch ${batchCount}: Error fetching playlists at offset ${offset}:`, error);
-          
-          // If we get too many consecutive errors, break to avoid infinite loops
-          if (consecutiveErrors >= maxConsecutiveErrors) {
-            console.warn(`⚠️ Too many consecutive errors (${consecutiveErrors}), stopping playlist fetch`);
-            break;
-          }
-          
-          // If it's a 403 error, skip this batch and continue
-          if (error.statusCode === 403) {
-            console.warn(`🚫 403 Forbidden for playlist batch at offset ${offset}, skipping and continuing...`);
-            offset += limit;
-            continue;
-          }
-          
-          // For other errors, wait a bit longer before retrying
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      }
-
-      console.log(`✅ getAllUserPlaylists completed. Total playlists fetched: ${allPlaylists.length}`);
-      const finalPlaylists = allPlaylists.slice(0, maxPlaylists);
-      console.log(`🎯 Final result: ${finalPlaylists.length} playlists (after maxPlaylists limit)`);
-      return finalPlaylists;
-    } catch (error) {
-      console.error('Error fetching all user playlists:', error);
-      throw error;
-    }
-  }
-
-  async getPlaylistTracks(playlistId: string, limit = 100, offset = 0): Promise<SpotifyTrack[]> {
-    try {
-      console.log(`🎵 getPlaylistTracks called with playlistId: ${playlistId}, limit: ${limit}, offset: ${offset}`);
-      
-      const response = await this.makeApiCall(() => 
-        this.api.getPlaylistTracks(playlistId, { limit, offset })
-      );
-      
-      console.log(`📊 Spotify API returned ${response.body.items.length} items for playlist ${playlistId} at offset ${offset}`);
-      
-      // Log some details about the response
-      if (response.body.items.length > 0) {
-        const firstItem = response.body.items[0];
-        console.log(`🔍 First item has track: ${firstItem.track ? 'YES' : 'NO'}, track ID: ${firstItem.track?.id || 'N/A'}`);
-      }
-      
-      const filteredTracks = response.body.items
-        .filter(item => item.track && item.track.id)
-        .map(item => ({
-          id: item.track!.id,
-          name: item.track!.name,
-          artists: item.track!.artists.map(artist => ({ name: artist.name, id: artist.id })),
-          album: {
-            name: item.track!.album.name,
-            images: item.track!.album.images
-          },
-          duration_ms: item.track!.duration_ms,
-          uri: item.track!.uri
-        }));
-      
-      const nullTracks = response.body.items.filter(item => !item.track || !item.track.id).length;
-      if (nullTracks > 0) {
-        console.log(`⚠️ Found ${nullTracks} null/invalid tracks in response for playlist ${playlistId}`);
-      }
-      
-      console.log(`✅ getPlaylistTracks returning ${filteredTracks.length} valid tracks for playlist ${playlistId}`);
-      return filteredTracks;
-    } catch (error) {
-      console.error('Error fetching playlist tracks:', error);
-      throw error;
-    }
-  }
-
-  // New method to get ALL tracks from a playlist using pagination
-  async getAllPlaylistTracks(playlistId: string, maxTracks = 1000): Promise<SpotifyTrack[]> {
-    try {
-      console.log(`🔄 Starting getAllPlaylistTracks for playlist ${playlistId} with maxTracks: ${maxTracks}`);
-      const allTracks: SpotifyTrack[] = [];
-      let offset = 0;
-      const limit = 100;
-      let batchCount = 0;
-      let consecutiveErrors = 0;
-      const maxConsecutiveErrors = 3;
-
-      while (allTracks.length < maxTracks) {
-        batchCount++;
-        console.log(`📥 Batch ${batchCount}: Fetching tracks with offset: ${offset}, limit: ${limit}, current total: ${allTracks.length}`);
-        
-        try {
-          const tracks = await this.getPlaylistTracks(playlistId, limit, offset);
-          console.log(`📊 Batch ${batchCount}: Received ${tracks.length} tracks in this batch`);
-          
-          if (tracks.length === 0) {
-            console.log(`🛑 Batch ${batchCount}: No more tracks found, breaking loop`);
-            break;
-          }
-          
-          allTracks.push(...tracks);
-          console.log(`📈 Batch ${batchCount}: Total tracks so far: ${allTracks.length}`);
-          offset += limit;
-          consecutiveErrors = 0; // Reset error counter on success
-          
-          if (tracks.length < limit) {
-            console.log(`🛑 Batch ${batchCount}: Received fewer tracks than limit (${tracks.length} < ${limit}), breaking loop`);
-            break;
-          }
-          
-          // Add delay between batches to avoid rate limits
-          if (batchCount < Math.ceil(maxTracks / limit)) {
-            console.log(`⏳ Adding delay between track batches to avoid rate limits...`);
-            await new Promise(resolve => setTimeout(resolve, 200));
-          }
-        } catch (error: any) {
-          consecutiveErrors++;
-          console.error(`❌ Batch ${batchCount}: Error fetching tracks at offset ${offset}:`, error);
-          
-          // If we get too many consecutive errors, break to avoid infinite loops
-          if (consecutiveErrors >= maxConsecutiveErrors) {
-            console.warn(`⚠️ Too many consecutive errors (${consecutiveErrors}), stopping track fetch for playlist ${playlistId}`);
-            break;
-          }
-          
-          // If it's a 403 error, this playlist is not accessible, return empty array
-          if (error.statusCode === 403) {
-            console.warn(`🚫 403 Forbidden for playlist ${playlistId}, returning empty tracks array`);
-            return [];
-          }
-          
-          // For other errors, wait a bit longer before retrying
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      }
-
-      console.log(`✅ getAllPlaylistTracks completed for playlist ${playlistId}. Total tracks fetched: ${allTracks.length}`);
-      const finalTracks = allTracks.slice(0, maxTracks);
-      console.log(`🎯 Final result: ${finalTracks.length} tracks (after maxTracks limit)`);
-      return finalTracks;
-    } catch (error) {
-      console.error('Error fetching all playlist tracks:', error);
-      throw error;
-    }
-  }
-
-
-
-  async getCurrentUserId(): Promise<string> {
-    try {
-      const response = await this.makeApiCall(() => 
-        this.api.getMe()
-      );
-      
-      return response.body.id;
-    } catch (error) {
-      console.error('Error getting current user ID:', error);
-      throw error;
-    }
-  }
-
-  async addTracksToPlaylist(playlistId: string, trackUris: string[]): Promise<void> {
-    try {
-      await this.makeApiCall(() => 
-        this.api.addTracksToPlaylist(playlistId, trackUris)
-      );
-    } catch (error) {
-      console.error('Error adding tracks to playlist:', error);
-      throw error;
-    }
-  }
-
-  async getCurrentUser(): Promise<{ id: string; display_name: string; email: string; images: Array<{ url: string }> }> {
-    try {
-      const response = await this.makeApiCall(() => 
-        this.api.getMe()
-      );
-      
-      return {
-        id: response.body.id,
-        display_name: response.body.display_name || 'Unknown User',
-        email: response.body.email || '',
-        images: response.body.images || []
-      };
-    } catch (error) {
-      console.error('Error getting current user:', error);
-      throw error;
-    }
-  }
-
-  // Helper method to detect if a playlist is mixed (has tracks from different artists)
-  async isMixedPlaylist(playlistId: string): Promise<boolean> {
-    try {
-      const response = await this.makeApiCall(() => 
-        this.api.getPlaylist(playlistId)
-      );
-      
-      return response.body.collaborative || 
-             response.body.name.toLowerCase().includes('mix') ||
-             response.body.name.toLowerCase().includes('playlist');
-    } catch (error) {
-      console.error('Error checking if playlist is mixed:', error);
-      return false;
-    }
-  }
-
-  // Get playlist information
-  async getPlaylist(playlistId: string): Promise<{ name: string; description: string; images: Array<{ url: string }>; owner: { display_name: string } }> {
-    try {
-      const response = await this.makeApiCall(() => 
-        this.api.getPlaylist(playlistId)
-      );
-      
-      return {
-        name: response.body.name,
-        description: response.body.description || '',
-        images: response.body.images || [],
-        owner: {
-          display_name: response.body.owner.display_name || 'Unknown'
-        }
-      };
-    } catch (error) {
-      console.error('Error fetching playlist info:', error);
-      throw error;
-    }
-  }
-
-  async getArtists(artistIds: string[]): Promise<SpotifyArtist[]> {
-    try {
-      if (artistIds.length === 0) return [];
-      
-      // Spotify API allows max 50 artists per request
-      const chunks = [];
-      for (let i = 0; i < artistIds.length; i += 50) {
-        chunks.push(artistIds.slice(i, i + 50));
-      }
-
-      const allArtists: SpotifyArtist[] = [];
-      
-      for (const chunk of chunks) {
-        try {
-          const response = await this.makeApiCall(() => 
-            this.api.getArtists(chunk)
-          );
-          
-          const artists = response.body.artists.map(artist => ({
-            id: artist.id,
-            name: artist.name,
-            genres: artist.genres || [],
-            popularity: artist.popularity || 0
-          }));
-          allArtists.push(...artists);
-        } catch (err: any) {
-          console.error('❌ Spotify API error in getArtists:', err && (err.body || err.message || err));
-          console.log('⚠️ Skipping this chunk and continuing...');
-        }
-      }
-
-      return allArtists;
-    } catch (error) {
-      console.error('Error fetching artists:', error);
-      throw error;
-    }
-  }
-
-  async getAudioFeatures(trackIds: string[]): Promise<SpotifyAudioFeatures[]> {
-    try {
-      if (trackIds.length === 0) return [];
-      
-      // Spotify API allows max 100 tracks per request
-      const chunks = [];
-      for (let i = 0; i < trackIds.length; i += 100) {
-        chunks.push(trackIds.slice(i, i + 100));
-      }
-
-      const allFeatures: SpotifyAudioFeatures[] = [];
-      
-      for (const chunk of chunks) {
-        try {
-          const response = await this.makeApiCall(() => 
-            this.api.getAudioFeaturesForTracks(chunk)
-          );
-          
-          const features = response.body.audio_features
-            .filter(feature => feature !== null)
-            .map(feature => ({
-              id: feature!.id,
-              danceability: feature!.danceability,
-              energy: feature!.energy,
-              key: feature!.key,
-              loudness: feature!.loudness,
-              mode: feature!.mode,
-              speechiness: feature!.speechiness,
-              acousticness: feature!.acousticness,
-              instrumentalness: feature!.instrumentalness,
-              liveness: feature!.liveness,
-              valence: feature!.valence,
-              tempo: feature!.tempo,
-              duration_ms: feature!.duration_ms,
-              time_signature: feature!.time_signature
-            }));
-          allFeatures.push(...features);
-          console.log(`✅ Successfully fetched audio features for ${features.length} tracks`);
-        } catch (err: any) {
-          console.error('❌ Spotify API error in getAudioFeaturesForTracks:', err && (err.body || err.message || err));
-          // Continue with other chunks instead of failing completely
-          console.log('⚠️ Skipping this chunk and continuing...');
-        }
-      }
-
-      console.log(`✅ Successfully fetched audio features for ${allFeatures.length} tracks`);
-      return allFeatures;
-    } catch (error) {
-      console.error('Error fetching audio features:', error);
-      throw error;
-    }
-  }
-
-  // Method to search for tracks and get their Spotify URIs
-  async searchTracks(query: string, limit = 5): Promise<Array<{ id: string; name: string; artist: string; uri: string; external_url: string }>> {
-    try {
-      console.log(`🔍 Searching for tracks with query: "${query}"`);
-      
-      const response = await this.makeApiCall(() => 
-        this.api.searchTracks(query, { limit })
-      );
-      
-      return response.body.tracks?.items.map(track => ({
-        id: track.id,
-        name: track.name,
-        artist: track.artists[0]?.name || 'Unknown Artist',
-        uri: track.uri,
-        external_url: track.external_urls?.spotify || ''
-      })) || [];
-    } catch (error) {
-      console.error('Error searching tracks:', error);
-      throw error;
-    }
-  }
-
-  // Method to get track details by ID
-  async getTrack(trackId: string): Promise<{ id: string; name: string; artist: string; uri: string; external_url: string } | null> {
-    try {
-      console.log(`🎵 Getting track details for ID: ${trackId}`);
-      
-      const response = await this.makeApiCall(() => 
-        this.api.getTrack(trackId)
-      );
-      
-      const track = response.body;
-      
-      return {
-        id: track.id,
-        name: track.name,
-        artist: track.artists[0]?.name || 'Unknown Artist',
-        uri: track.uri,
-        external_url: track.external_urls?.spotify || ''
-      };
-    } catch (error) {
-      console.error('Error getting track:', error);
-      return null;
-    }
-  }
-}
-
-export default spotifyApi; 
\ No newline at end of file
+import { SpotifyTransport, getTransportFor } from './spotifyTransport';
+import { SpotifyRateLimiter, getSharedRateLimiter } from './rateLimiter';
+import { SpotifyCache, getSharedSpotifyCache } from './spotifyCache';
+import { Logger, logger as rootLogger } from './logger';
+import {
+  PlaylistConflictError,
+  SpotifyApiError,
+  SpotifyForbiddenError,
+  SpotifyRateLimitedError,
+  SpotifyUnauthorizedError,
+  SpotifyUnavailableError,
+  spotifyErrorFromResponse
+} from './spotifyErrors';
+
+export interface SpotifyPlaylist {
+  id: string;
+  name: string;
+  description: string;
+  images: Array<{ url: string; width?: number; height?: number }>;
+  tracks: {
+    total: number;
+    items: Array<{
+      track: {
+        id: string;
+        name: string;
+        artists: Array<{ name: string }>;
+        album: { name: string; images: Array<{ url: string }> };
+        duration_ms: number;
+      };
+    }>;
+  };
+  owner: {
+    display_name: string;
+    id: string;
+  };
+  collaborative: boolean;
+  public: boolean;
+  snapshot_id: string;
+  external_urls: { spotify: string };
+}
+
+export interface SpotifyTrack {
+  id: string;
+  name: string;
+  artists: Array<{ name: string; id: string }>;
+  album: {
+    name: string;
+    images: Array<{ url: string }>;
+  };
+  duration_ms: number;
+  uri: string;
+}
+
+// What Spotify records about each entry of a playlist, on top of the track itself
+interface PlaylistItemDetails {
+  type: 'track' | 'episode';
+  added_at: string | null;
+  // null for entries added before Spotify tracked who added them
+  added_by: { id: string } | null;
+  is_local: boolean;
+  explicit: boolean;
+  // null for local files and episodes
+  popularity: number | null;
+  // null when Spotify didn't say whether the item plays in the user's market
+  is_playable: boolean | null;
+  external_ids: { isrc?: string };
+}
+
+// Catalog track in a playlist, usable anywhere a SpotifyTrack is
+export interface SpotifyPlaylistTrack extends SpotifyTrack, PlaylistItemDetails {
+  type: 'track';
+  is_local: false;
+  album: SpotifyTrack['album'] & { release_date?: string };
+}
+
+// Any playlist entry. Local files have no id and their artists have no ids;
+// episodes have no artists, their show stands in for the album.
+export interface SpotifyPlaylistItem extends Omit<SpotifyPlaylistTrack, 'id' | 'artists' | 'type' | 'is_local'> {
+  id: string | null;
+  artists: Array<{ name: string; id: string | null }>;
+  type: 'track' | 'episode';
+  is_local: boolean;
+  show?: { id: string; name: string };
+}
+
+export function isPlaylistTrack(item: SpotifyPlaylistItem): item is SpotifyPlaylistTrack {
+  return item.type === 'track' && !item.is_local && item.id !== null;
+}
+
+export interface SpotifyArtist {
+  id: string;
+  name: string;
+  genres: string[];
+  popularity: number;
+}
+
+export interface SpotifyAudioFeatures {
+  id: string;
+  danceability: number;
+  energy: number;
+  key: number;
+  loudness: number;
+  mode: number;
+  speechiness: number;
+  acousticness: number;
+  instrumentalness: number;
+  liveness: number;
+  valence: number;
+  tempo: number;
+  duration_ms: number;
+  time_signature: number;
+}
+
+export interface SpotifyServiceOptions {
+  // Defaults to the process-wide transport (real API, or the fake server when SPOTIFY_FAKE_API=true),
+  // or the session's own fake server for demo access tokens
+  transport?: SpotifyTransport;
+  // Defaults to the process-wide limiter so every instance shares the same budget
+  rateLimiter?: SpotifyRateLimiter;
+  // Defaults to the process-wide cache (in memory, or on disk when SPOTIFY_CACHE_DIR is set)
+  cache?: SpotifyCache;
+  // Request-scoped logger from createRequestLogger, so Spotify calls carry the route's request id
+  logger?: Logger;
+  // Market (ISO country code) for market-aware requests, usually session.user.country.
+  // Defaults to the market of the access token's user.
+  market?: string | null;
+  // Called with every complete item list read for a playlist snapshot, cached or
+  // not (see playlistHistory.ts). Errors are logged and don't fail the read.
+  onPlaylistItems?: (playlistId: string, snapshotId: string, items: SpotifyPlaylistItem[]) => Promise<void>;
+}
+
+// The signed-in user's Spotify account, as kept in the session
+export interface SpotifyAccount {
+  id: string;
+  displayName: string;
+  // 'premium', 'free', ...; null when the token lacks the user-read-private scope
+  product: string | null;
+  country: string | null;
+  explicitContent: { filterEnabled: boolean; filterLocked: boolean } | null;
+}
+
+// Playlist item list as stored in the cache. `complete` is false when fetching
+// stopped at maxItems, so a later call asking for more items refetches.
+interface CachedPlaylistItems {
+  items: SpotifyPlaylistItem[];
+  total: number;
+  complete: boolean;
+}
+
+// Playlist entry as requested with PLAYLIST_ITEM_FIELDS. @types/spotify-api
+// predates episodes in playlists and id-less local files, so it's declared here.
+interface RawPlaylistItem {
+  added_at: string | null;
+  added_by: { id: string } | null;
+  is_local: boolean;
+  track: {
+    type: 'track' | 'episode';
+    id: string | null;
+    name: string;
+    uri: string;
+    duration_ms: number;
+    explicit?: boolean;
+    popularity?: number;
+    is_playable?: boolean;
+    external_ids?: { isrc?: string };
+    artists?: Array<{ id: string | null; name: string }>;
+    album?: { name: string; images: Array<{ url: string }>; release_date?: string | null };
+    // Episode-only fields
+    images?: Array<{ url: string }>;
+    release_date?: string;
+    show?: { id: string; name: string; images: Array<{ url: string }> };
+  } | null;
+}
+
+// Only the fields toPlaylistItem reads, which keeps large playlists' pages small
+const PLAYLIST_ITEM_FIELDS = 'total,items(added_at,added_by.id,is_local,track(type,id,name,uri,duration_ms,explicit,popularity,is_playable,external_ids(isrc),artists(id,name),album(name,images,release_date),images,release_date,show(id,name,images)))';
+
+function toPlaylistItem(item: RawPlaylistItem): SpotifyPlaylistItem | null {
+  const track = item.track;
+  if (!track) return null;
+
+  const isEpisode = track.type === 'episode';
+  return {
+    id: track.id,
+    name: track.name,
+    type: isEpisode ? 'episode' : 'track',
+    uri: track.uri,
+    duration_ms: track.duration_ms,
+    artists: (track.artists ?? []).map(artist => ({ name: artist.name, id: artist.id })),
+    album: isEpisode
+      ? { name: track.show?.name ?? '', images: track.images ?? track.show?.images ?? [], release_date: track.release_date }
+      : { name: track.album?.name ?? '', images: track.album?.images ?? [], release_date: track.album?.release_date ?? undefined },
+    show: isEpisode && track.show ? { id: track.show.id, name: track.show.name } : undefined,
+    added_at: item.added_at,
+    added_by: item.added_by?.id ? { id: item.added_by.id } : null,
+    is_local: item.is_local,
+    explicit: track.explicit ?? false,
+    popularity: item.is_local || isEpisode ? null : track.popularity ?? null,
+    is_playable: track.is_playable ?? null,
+    external_ids: { isrc: track.external_ids?.isrc }
+  };
+}
+
+// Parsed Spotify response, same shape spotify-web-api-node used to hand back
+interface SpotifyResponse<T> {
+  body: T;
+  headers: Headers;
+  statusCode: number;
+}
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
+// One page of a paged endpoint, with the endpoint's total item count
+interface PageResult<T> {
+  items: T[];
+  total: number;
+}
+
+// Page yielded by the iterate* methods. `total` is the endpoint's total item count
+// (not capped by maxItems); `skipped` pages failed after retries and have no items.
+export interface SpotifyPage<T> {
+  items: T[];
+  offset: number;
+  total: number;
+  skipped?: boolean;
+}
+
+export interface PageIterationOptions {
+  // Stop after this many items (defaults to everything)
+  maxItems?: number;
+  // Pages requested ahead of the consumer (defaults to SPOTIFY_PAGE_CONCURRENCY)
+  concurrency?: number;
+}
+
+export interface BatchFetchOptions {
+  // Called for each batch of ids that failed after retries and was left out
+  onSkipped?: (ids: string[], error: unknown) => void;
+}
+
+export type TimeRange = 'short_term' | 'medium_term' | 'long_term';
+
+export interface PlaylistDetailsUpdate {
+  name?: string;
+  description?: string;
+  public?: boolean;
+  collaborative?: boolean;
+}
+
+export interface PlaylistDiffEntry {
+  uri: string;
+  name: string;
+  artists: string;
+  position: number;
+}
+
+// Difference between two versions of a playlist. Items are matched by uri, so a
+// duplicate counts once per occurrence; lists are capped, the counts are not.
+export interface PlaylistSnapshotDiff {
+  added: PlaylistDiffEntry[];
+  removed: PlaylistDiffEntry[];
+  addedCount: number;
+  removedCount: number;
+  // Items present in both versions are in a different order
+  reordered: boolean;
+}
+
+const MAX_DIFF_ENTRIES = 50;
+
+// What diffPlaylistItems needs of an item
+export type PlaylistDiffItem = Pick<SpotifyPlaylistItem, 'uri' | 'name' | 'artists'>;
+
+export function diffPlaylistItems(before: PlaylistDiffItem[], after: PlaylistDiffItem[]): PlaylistSnapshotDiff {
+  // Walks `items` and splits them into those matched by an occurrence in `other` and the rest
+  const unmatched = (items: PlaylistDiffItem[], other: PlaylistDiffItem[]) => {
+    const counts = new Map<string, number>();
+    other.forEach(item => counts.set(item.uri, (counts.get(item.uri) ?? 0) + 1));
+    const kept: string[] = [];
+    const missing: PlaylistDiffEntry[] = [];
+    items.forEach((item, position) => {
+      const count = counts.get(item.uri) ?? 0;
+      if (count > 0) {
+        counts.set(item.uri, count - 1);
+        kept.push(item.uri);
+      } else {
+        missing.push({ uri: item.uri, name: item.name, artists: item.artists.map(a => a.name).join(', '), position });
+      }
+    });
+    return { kept, missing };
+  };
+
+  const removed = unmatched(before, after);
+  const added = unmatched(after, before);
+  return {
+    added: added.missing.slice(0, MAX_DIFF_ENTRIES),
+    removed: removed.missing.slice(0, MAX_DIFF_ENTRIES),
+    addedCount: added.missing.length,
+    removedCount: removed.missing.length,
+    reordered: removed.kept.some((uri, index) => uri !== added.kept[index])
+  };
+}
+
+export interface NewPlaylist {
+  name: string;
+  description?: string;
+  public?: boolean;
+  collaborative?: boolean;
+}
+
+// A track to remove: a uri removes every occurrence, `positions` only those
+// entries (0-based, relative to the snapshot the removal is made against)
+export type PlaylistTrackRemoval = string | { uri: string; positions?: number[] };
+
+export interface PlaylistReorder {
+  // Position of the first item to move
+  rangeStart: number;
+  // Position the items are moved in front of (the playlist length moves them to the end)
+  insertBefore: number;
+  // Number of items to move (defaults to 1)
+  rangeLength?: number;
+}
+
+// Spotify accepts at most 100 items per playlist write
+const PLAYLIST_WRITE_BATCH = 100;
+
+// Cover images must be base64-encoded JPEG no larger than 256 KB
+const MAX_COVER_IMAGE_BYTES = 256 * 1024;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function toSpotifyPlaylist(playlist: SpotifyApi.PlaylistObjectSimplified): SpotifyPlaylist {
+  return {
+    id: playlist.id,
+    name: playlist.name,
+    description: playlist.description || '',
+    images: playlist.images ?? [],
+    tracks: { total: playlist.tracks.total, items: [] },
+    owner: {
+      display_name: playlist.owner.display_name ?? "Unknown",
+      id: playlist.owner.id
+    },
+    collaborative: playlist.collaborative,
+    public: playlist.public ?? false,
+    snapshot_id: playlist.snapshot_id,
+    external_urls: playlist.external_urls
+  };
+}
+
+export class SpotifyService {
+  private accessToken?: string;
+  private transport: SpotifyTransport;
+  private rateLimiter: SpotifyRateLimiter;
+  private cache: SpotifyCache;
+  private log: Logger;
+  private market: string;
+  private onPlaylistItems?: SpotifyServiceOptions['onPlaylistItems'];
+
+  constructor(accessToken?: string, options: SpotifyServiceOptions = {}) {
+    this.accessToken = accessToken;
+    this.transport = options.transport ?? getTransportFor(accessToken);
+    this.rateLimiter = options.rateLimiter ?? getSharedRateLimiter();
+    this.cache = options.cache ?? getSharedSpotifyCache();
+    this.log = (options.logger ?? rootLogger).child({ component: 'spotify' });
+    this.market = options.market || 'from_token';
+    this.onPlaylistItems = options.onPlaylistItems;
+  }
+
+  // Single entry point for every Spotify Web API request made by the service
+  private async request<T>(
+    method: string,
+    path: string,
+    options: { query?: QueryParams; body?: unknown; rawBody?: { data: string; contentType: string } } = {}
+  ): Promise<SpotifyResponse<T>> {
+    const params = new URLSearchParams();
+    Object.entries(options.query ?? {}).forEach(([key, value]) => {
+      if (value !== undefined) params.set(key, String(value));
+    });
+    const queryString = params.toString();
+
+    const headers: Record<string, string> = {};
+    if (this.accessToken) headers.Authorization = `Bearer ${this.accessToken}`;
+    if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+    if (options.rawBody) headers['Content-Type'] = options.rawBody.contentType;
+
+    const startedAt = Date.now();
+    const response = await this.transport(queryString ? `${path}?${queryString}` : path, {
+      method,
+      headers,
+      body: options.rawBody ? options.rawBody.data : options.body !== undefined ? JSON.stringify(options.body) : undefined
+    });
+
+    const text = await response.text();
+    let body: unknown = undefined;
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = text;
+      }
+    }
+
+    this.log.debug('Spotify request', { method, path, status: response.status, durationMs: Date.now() - startedAt });
+
+    if (!response.ok) {
+      const message = (body as { error?: { message?: string } } | undefined)?.error?.message
+        || `Spotify API request failed with status ${response.status}`;
+      const retryAfterSeconds = response.status === 429
+        ? this.rateLimiter.retryAfterMs(response.headers) / 1000
+        : 0;
+      throw spotifyErrorFromResponse(response.status, message, body, retryAfterSeconds);
+    }
+
+    return { body: body as T, headers: response.headers, statusCode: response.status };
+  }
+
+  // Rate-limited API call: waits for the shared per-token/per-app budget and
+  // retries 429 responses after the Retry-After delay Spotify asks for
+  private async makeApiCall<T>(apiCall: () => Promise<T>): Promise<T> {
+    const keys = this.rateLimiter.keysFor(this.accessToken);
+    const { maxRetries, maxRetryAfterSeconds } = this.rateLimiter.settings;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.acquire(keys);
+
+      try {
+        return await apiCall();
+      } catch (error) {
+        if (error instanceof SpotifyRateLimitedError) {
+          const retryAfterMs = error.retryAfter * 1000;
+          // Every request on this token/app now waits until Retry-After has passed
+          await this.rateLimiter.block(keys, retryAfterMs);
+
+          if (attempt < maxRetries && retryAfterMs <= maxRetryAfterSeconds * 1000) {
+            this.log.warn('Rate limited by Spotify, retrying', { retryAfterMs, attempt: attempt + 1, maxRetries });
+            continue;
+          }
+
+          this.log.error('Rate limited by Spotify, giving up', { retryAfterMs, attempts: attempt + 1 });
+          throw error;
+        } else if (error instanceof SpotifyForbiddenError) {
+          // Forbidden - likely due to development mode restrictions or permission issues
+          this.log.warn('Spotify returned 403 Forbidden; the app may be in Development Mode without this user as a test user', { error });
+          throw error;
+        } else if (error instanceof SpotifyUnauthorizedError) {
+          // Unauthorized - token may be invalid
+          this.log.warn('Spotify returned 401 Unauthorized; the access token is invalid or expired');
+          throw error;
+        }
+
+        this.log.debug('Spotify API call failed', { error });
+
+        throw error;
+      }
+    }
+  }
+
+  async getUserPlaylists(limit = 10, offset = 0): Promise<SpotifyPlaylist[]> {
+    try {
+      const { items } = await this.fetchUserPlaylistsPage(offset, limit);
+      return items;
+    } catch (error) {
+      this.log.error('Error fetching user playlists', { error });
+      throw error;
+    }
+  }
+
+  private async fetchUserPlaylistsPage(offset: number, limit: number): Promise<PageResult<SpotifyPlaylist>> {
+    const response = await this.makeApiCall(() => 
+      this.request<SpotifyApi.ListOfCurrentUsersPlaylistsResponse>('GET', '/me/playlists', { query: { limit, offset } })
+    );
+    
+    const items = response.body.items.map(toSpotifyPlaylist);
+    return { items, total: response.body.total };
+  }
+
+  // Streams the user's playlists page by page. The first page reveals the total,
+  // later pages are prefetched in parallel and yielded in order.
+  async *iterateUserPlaylists(options: PageIterationOptions = {}): AsyncGenerator<SpotifyPage<SpotifyPlaylist>> {
+    yield* this.iteratePages(
+      (offset, limit) => this.fetchUserPlaylistsPage(offset, limit),
+      50, // Spotify's max limit per request
+      'playlists',
+      options
+    );
+  }
+
+  // Get ALL user playlists (up to maxPlaylists)
+  async getAllUserPlaylists(maxPlaylists = 1000): Promise<SpotifyPlaylist[]> {
+    try {
+      this.log.debug('Fetching all user playlists', { maxPlaylists });
+
+      const playlists: SpotifyPlaylist[] = [];
+      let skippedPages = 0;
+      for await (const page of this.iterateUserPlaylists({ maxItems: maxPlaylists })) {
+        playlists.push(...page.items);
+        if (page.skipped) skippedPages++;
+      }
+
+      if (skippedPages > 0) {
+        this.log.warn('Some playlist pages could not be fetched and were skipped', { skippedPages });
+      }
+      this.log.debug('Fetched all user playlists', { count: playlists.length });
+      return playlists;
+    } catch (error) {
+      this.log.error('Error fetching all user playlists', { error });
+      throw error;
+    }
+  }
+
+  // Catalog tracks on one page of a playlist; local files and episodes are left out
+  async getPlaylistTracks(playlistId: string, limit = 100, offset = 0): Promise<SpotifyPlaylistTrack[]> {
+    return (await this.getPlaylistItems(playlistId, limit, offset)).filter(isPlaylistTrack);
+  }
+
+  // Every entry on one page of a playlist, including local files and episodes
+  async getPlaylistItems(playlistId: string, limit = 100, offset = 0): Promise<SpotifyPlaylistItem[]> {
+    try {
+      const { items } = await this.fetchPlaylistItemsPage(playlistId, offset, limit);
+      return items;
+    } catch (error) {
+      this.log.error('Error fetching playlist items', { error });
+      throw error;
+    }
+  }
+
+  private async fetchPlaylistItemsPage(playlistId: string, offset: number, limit: number): Promise<PageResult<SpotifyPlaylistItem>> {
+    const response = await this.makeApiCall(() =>
+      this.request<{ items: RawPlaylistItem[]; total: number }>('GET', `/playlists/${encodeURIComponent(playlistId)}/tracks`, {
+        query: {
+          limit,
+          offset,
+          fields: PLAYLIST_ITEM_FIELDS,
+          additional_types: 'track,episode',
+          // Needed for Spotify to report is_playable
+          market: this.market
+        }
+      })
+    );
+
+    const items = response.body.items
+      .map(toPlaylistItem)
+      .filter((item): item is SpotifyPlaylistItem => item !== null);
+
+    // Entries whose track was removed from Spotify come back with track: null
+    const nullTracks = response.body.items.length - items.length;
+    if (nullTracks > 0) {
+      this.log.debug('Dropped playlist items without a track', { playlistId, offset, nullTracks });
+    }
+    return { items, total: response.body.total };
+  }
+
+  // Streams a playlist's entries page by page. A list cached for the current
+  // snapshot_id is replayed without any item requests, and a fresh list is cached
+  // once it has been read to the end (or to maxItems) without skipped pages.
+  async *iteratePlaylistItems(playlistId: string, options: PageIterationOptions = {}): AsyncGenerator<SpotifyPage<SpotifyPlaylistItem>> {
+    const maxItems = options.maxItems ?? Infinity;
+    const pageSize = 100;
+
+    // The snapshot_id changes whenever the playlist's contents do, so a cached
+    // item list for the current snapshot is always up to date
+    const snapshotId = await this.getPlaylistSnapshotId(playlistId);
+    const cacheKey = snapshotId ? `playlist-items:${playlistId}:${snapshotId}` : null;
+    if (cacheKey) {
+      const cached = await this.cache.get<CachedPlaylistItems>(cacheKey);
+      if (cached && (cached.complete || cached.items.length >= maxItems)) {
+        this.log.debug('Using cached playlist items', { playlistId, snapshotId });
+        const items = cached.items.slice(0, maxItems);
+        if (cached.complete && snapshotId) await this.reportPlaylistItems(playlistId, snapshotId, cached.items);
+        for (let offset = 0; offset < items.length; offset += pageSize) {
+          yield { items: items.slice(offset, offset + pageSize), offset, total: cached.total };
+        }
+        return;
+      }
+    }
+
+    const items: SpotifyPlaylistItem[] = [];
+    let total = 0;
+    let skippedPages = 0;
+    for await (const page of this.iteratePages(
+      (offset, limit) => this.fetchPlaylistItemsPage(playlistId, offset, limit),
+      pageSize,
+      `items of playlist ${playlistId}`,
+      options
+    )) {
+      items.push(...page.items);
+      total = page.total;
+      if (page.skipped) skippedPages++;
+      yield page;
+    }
+
+    // Lists that are missing pages are incomplete, so only clean reads are cached
+    if (cacheKey && skippedPages === 0) {
+      await this.cache.set<CachedPlaylistItems>(
+        cacheKey,
+        { items, total, complete: total <= maxItems },
+        this.cache.settings.playlistTracksTtlSeconds
+      );
+      if (snapshotId && total <= maxItems) await this.reportPlaylistItems(playlistId, snapshotId, items);
+    }
+  }
+
+  private async reportPlaylistItems(playlistId: string, snapshotId: string, items: SpotifyPlaylistItem[]): Promise<void> {
+    if (!this.onPlaylistItems) return;
+    try {
+      await this.onPlaylistItems(playlistId, snapshotId, items);
+    } catch (error) {
+      this.log.warn('Playlist items listener failed', { playlistId, snapshotId, error });
+    }
+  }
+
+  // Same pages as iteratePlaylistItems with only the catalog tracks. `total` and
+  // maxItems still count every entry, local files and episodes included.
+  async *iteratePlaylistTracks(playlistId: string, options: PageIterationOptions = {}): AsyncGenerator<SpotifyPage<SpotifyPlaylistTrack>> {
+    for await (const page of this.iteratePlaylistItems(playlistId, options)) {
+      yield { ...page, items: page.items.filter(isPlaylistTrack) };
+    }
+  }
+
+  // Get ALL entries of a playlist (up to maxItems)
+  async getAllPlaylistItems(playlistId: string, maxItems = 1000): Promise<SpotifyPlaylistItem[]> {
+    try {
+      this.log.debug('Fetching all playlist items', { playlistId, maxItems });
+
+      const items: SpotifyPlaylistItem[] = [];
+      try {
+        for await (const page of this.iteratePlaylistItems(playlistId, { maxItems })) {
+          items.push(...page.items);
+        }
+      } catch (error) {
+        if (error instanceof SpotifyUnauthorizedError || error instanceof SpotifyRateLimitedError) {
+          throw error;
+        }
+        // 403 means this playlist is not accessible; anything else we can't recover from
+        // is treated the same way so one bad playlist doesn't fail a whole library scan
+        this.log.warn('Could not fetch playlist items, returning no items', { playlistId, error });
+        return [];
+      }
+
+      this.log.debug('Fetched all playlist items', { playlistId, count: items.length });
+      return items;
+    } catch (error) {
+      this.log.error('Error fetching all playlist items', { error });
+      throw error;
+    }
+  }
+
+  // Get ALL catalog tracks from a playlist (up to maxTracks entries)
+  async getAllPlaylistTracks(playlistId: string, maxTracks = 1000): Promise<SpotifyPlaylistTrack[]> {
+    return (await this.getAllPlaylistItems(playlistId, maxTracks)).filter(isPlaylistTrack);
+  }
+
+  // Yields every page of a paged endpoint up to options.maxItems. The first page
+  // reveals `total`; after that up to `concurrency` pages are requested ahead of the
+  // consumer (each request still goes through the rate limiter) and yielded in
+  // offset order. A page that keeps failing is yielded empty with `skipped: true`,
+  // except for auth and rate limit errors, which end the iteration. Stopping the
+  // loop early stops further requests.
+  private async *iteratePages<T>(
+    fetchPage: (offset: number, limit: number) => Promise<PageResult<T>>,
+    pageSize: number,
+    label: string,
+    options: PageIterationOptions = {}
+  ): AsyncGenerator<SpotifyPage<T>> {
+    const maxItems = options.maxItems ?? Infinity;
+    const concurrency = Math.max(1, options.concurrency ?? this.rateLimiter.settings.pageConcurrency);
+    const limit = Math.max(1, Math.min(pageSize, maxItems));
+
+    const first = await this.fetchPageWithRetry(fetchPage, 0, limit, label);
+    let remaining = maxItems;
+    const take = (items: T[]) => {
+      const taken = items.slice(0, remaining);
+      remaining -= taken.length;
+      return taken;
+    };
+    yield { items: take(first.items), offset: 0, total: first.total };
+
+    const end = Math.min(first.total, maxItems);
+    let nextOffset = limit;
+    const inFlight: Array<{ offset: number; page: Promise<SpotifyPage<T>> }> = [];
+    const request = (offset: number) => {
+      const page = this.fetchPageWithRetry(fetchPage, offset, limit, label).then(
+        result => ({ items: result.items, offset, total: result.total }),
+        (error): SpotifyPage<T> => {
+          if (error instanceof SpotifyUnauthorizedError || error instanceof SpotifyRateLimitedError) {
+            throw error;
+          }
+          this.log.warn('Skipping page that could not be fetched', { resource: label, offset, error });
+          return { items: [], offset, total: first.total, skipped: true };
+        }
+      );
+      // Prefetched pages may be abandoned if the consumer stops early
+      page.catch(() => undefined);
+      inFlight.push({ offset, page });
+    };
+
+    while (remaining > 0 && (inFlight.length > 0 || nextOffset < end)) {
+      while (inFlight.length < concurrency && nextOffset < end) {
+        request(nextOffset);
+        nextOffset += limit;
+      }
+      const page = await inFlight.shift()!.page;
+      yield { ...page, items: take(page.items) };
+    }
+  }
+
+  // Retries a page on network and 5xx errors; 429s are already retried by makeApiCall
+  private async fetchPageWithRetry<T>(
+    fetchPage: (offset: number, limit: number) => Promise<PageResult<T>>,
+    offset: number,
+    limit: number,
+    label: string
+  ): Promise<PageResult<T>> {
+    const { pageRetries } = this.rateLimiter.settings;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fetchPage(offset, limit);
+      } catch (error) {
+        const retryable = !(error instanceof SpotifyApiError) || error instanceof SpotifyUnavailableError;
+        if (!retryable || attempt >= pageRetries) {
+          throw error;
+        }
+        const delay = 500 * 2 ** attempt;
+        this.log.warn('Page request failed, retrying', { resource: label, offset, delayMs: delay, attempt: attempt + 1, pageRetries });
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  // Current snapshot_id of a playlist, or null if it can't be read (the caller
+  // then fetches without the cache)
+  private async getPlaylistSnapshotId(playlistId: string): Promise<string | null> {
+    try {
+      return await this.getSnapshotId(playlistId) || null;
+    } catch (error) {
+      this.log.warn('Could not read playlist snapshot_id, skipping cache', { playlistId, error });
+      return null;
+    }
+  }
+
+  // Current snapshot_id of a playlist; unlike getPlaylistSnapshotId, errors are thrown
+  async getSnapshotId(playlistId: string): Promise<string> {
+    const response = await this.makeApiCall(() =>
+      this.request<Pick<SpotifyApi.SinglePlaylistResponse, 'snapshot_id'>>('GET', `/playlists/${encodeURIComponent(playlistId)}`, { query: { fields: 'snapshot_id' } })
+    );
+    return response.body.snapshot_id;
+  }
+
+  // Throws PlaylistConflictError when the playlist is no longer at expectedSnapshotId,
+  // with a diff against the expected version when its items are still cached.
+  // Spotify has no conditional writes, so a change landing between this check and
+  // the write itself still goes through; the window is one request long.
+  async assertSnapshot(playlistId: string, expectedSnapshotId: string): Promise<void> {
+    const currentSnapshotId = await this.getSnapshotId(playlistId);
+    if (currentSnapshotId === expectedSnapshotId) return;
+
+    let diff: PlaylistSnapshotDiff | null = null;
+    const expected = await this.cache.get<CachedPlaylistItems>(`playlist-items:${playlistId}:${expectedSnapshotId}`);
+    if (expected?.complete) {
+      try {
+        const current: SpotifyPlaylistItem[] = [];
+        for await (const page of this.iteratePlaylistItems(playlistId)) {
+          current.push(...page.items);
+        }
+        diff = diffPlaylistItems(expected.items, current);
+      } catch (error) {
+        this.log.warn('Could not compute playlist diff for conflict', { playlistId, error });
+      }
+    }
+
+    this.log.info('Playlist changed since the caller loaded it', { playlistId, expectedSnapshotId, currentSnapshotId });
+    throw new PlaylistConflictError(expectedSnapshotId, currentSnapshotId, diff);
+  }
+
+  async getCurrentUserId(): Promise<string> {
+    try {
+      const response = await this.makeApiCall(() => 
+        this.request<SpotifyApi.CurrentUsersProfileResponse>('GET', '/me')
+      );
+      
+      return response.body.id;
+    } catch (error) {
+      this.log.error('Error getting current user ID', { error });
+      throw error;
+    }
+  }
+
+  // Creates a playlist owned by the current user
+  async createPlaylist(playlist: NewPlaylist): Promise<SpotifyPlaylist> {
+    try {
+      const userId = await this.getCurrentUserId();
+      const response = await this.makeApiCall(() =>
+        this.request<SpotifyApi.CreatePlaylistResponse>('POST', `/users/${encodeURIComponent(userId)}/playlists`, { body: playlist })
+      );
+      return toSpotifyPlaylist(response.body);
+    } catch (error) {
+      this.log.error('Error creating playlist', { error });
+      throw error;
+    }
+  }
+
+  // Adds tracks in batches of 100, keeping their order. `position` inserts them
+  // there instead of at the end. Returns the snapshot_id after the last batch.
+  async addTracksToPlaylist(playlistId: string, trackUris: string[], position?: number): Promise<string> {
+    try {
+      let snapshotId = '';
+      for (const [index, uris] of chunk(trackUris, PLAYLIST_WRITE_BATCH).entries()) {
+        const batchPosition = position === undefined ? undefined : position + index * PLAYLIST_WRITE_BATCH;
+        const response = await this.makeApiCall(() =>
+          this.request<SpotifyApi.AddTracksToPlaylistResponse>('POST', `/playlists/${encodeURIComponent(playlistId)}/tracks`, { body: { uris, position: batchPosition } })
+        );
+        snapshotId = response.body.snapshot_id;
+      }
+      return snapshotId;
+    } catch (error) {
+      this.log.error('Error adding tracks to playlist', { error });
+      throw error;
+    }
+  }
+
+  // Removes tracks in batches of 100. Positions are resolved against `snapshotId`
+  // (the current snapshot when omitted), so every batch of a positional removal
+  // refers to the same version of the playlist. Returns the new snapshot_id.
+  async removeTracks(playlistId: string, tracks: PlaylistTrackRemoval[], snapshotId?: string): Promise<string> {
+    try {
+      const items = tracks.map(track => typeof track === 'string' ? { uri: track } : track);
+      const byPosition = items.some(item => item.positions !== undefined);
+      const baseSnapshotId = snapshotId ?? (byPosition && items.length > PLAYLIST_WRITE_BATCH
+        ? await this.getPlaylistSnapshotId(playlistId) ?? undefined
+        : undefined);
+
+      let newSnapshotId = '';
+      for (const batch of chunk(items, PLAYLIST_WRITE_BATCH)) {
+        const response = await this.makeApiCall(() =>
+          this.request<SpotifyApi.RemoveTracksFromPlaylistResponse>('DELETE', `/playlists/${encodeURIComponent(playlistId)}/tracks`, {
+            body: { tracks: batch, snapshot_id: baseSnapshotId }
+          })
+        );
+        newSnapshotId = response.body.snapshot_id;
+      }
+      return newSnapshotId;
+    } catch (error) {
+      this.log.error('Error removing tracks from playlist', { error });
+      throw error;
+    }
+  }
+
+  // Moves a range of items to another position. Returns the new snapshot_id.
+  async reorderTracks(playlistId: string, reorder: PlaylistReorder, snapshotId?: string): Promise<string> {
+    try {
+      const response = await this.makeApiCall(() =>
+        this.request<SpotifyApi.ReorderPlaylistTracksResponse>('PUT', `/playlists/${encodeURIComponent(playlistId)}/tracks`, {
+          body: {
+            range_start: reorder.rangeStart,
+            insert_before: reorder.insertBefore,
+            range_length: reorder.rangeLength ?? 1,
+            snapshot_id: snapshotId
+          }
+        })
+      );
+      return response.body.snapshot_id;
+    } catch (error) {
+      this.log.error('Error reordering playlist tracks', { error });
+      throw error;
+    }
+  }
+
+  // Replaces every item of the playlist. Spotify replaces at most 100 at once, so
+  // the rest are appended in batches. An empty list clears the playlist.
+  async replaceTracks(playlistId: string, trackUris: string[]): Promise<string> {
+    try {
+      const [first = [], ...rest] = chunk(trackUris, PLAYLIST_WRITE_BATCH);
+      const response = await this.makeApiCall(() =>
+        this.request<SpotifyApi.ReplacePlaylistTracksResponse & { snapshot_id?: string }>('PUT', `/playlists/${encodeURIComponent(playlistId)}/tracks`, { body: { uris: first } })
+      );
+
+      let snapshotId = response.body?.snapshot_id ?? '';
+      if (rest.length > 0) {
+        snapshotId = await this.addTracksToPlaylist(playlistId, rest.flat());
+      }
+      return snapshotId;
+    } catch (error) {
+      this.log.error('Error replacing playlist tracks', { error });
+      throw error;
+    }
+  }
+
+  // Sets a playlist's cover from a base64 JPEG (a data: URL prefix is accepted)
+  async uploadCoverImage(playlistId: string, jpegBase64: string): Promise<void> {
+    try {
+      const data = jpegBase64.replace(/^data:image\/jpeg;base64,/, '').replace(/\s/g, '');
+      if (data.length > MAX_COVER_IMAGE_BYTES) {
+        // Same status Spotify answers with, without sending the oversized payload
+        throw new SpotifyApiError(`Cover image is larger than ${MAX_COVER_IMAGE_BYTES / 1024} KB`, 413);
+      }
+      await this.makeApiCall(() =>
+        this.request<void>('PUT', `/playlists/${encodeURIComponent(playlistId)}/images`, { rawBody: { data, contentType: 'image/jpeg' } })
+      );
+    } catch (error) {
+      this.log.error('Error uploading playlist cover image', { error });
+      throw error;
+    }
+  }
+
+  // Update a playlist's name, description or visibility (only the given fields change)
+  async updatePlaylistDetails(playlistId: string, details: PlaylistDetailsUpdate): Promise<void> {
+    try {
+      await this.makeApiCall(() =>
+        this.request<void>('PUT', `/playlists/${encodeURIComponent(playlistId)}`, { body: details })
+      );
+    } catch (error) {
+      this.log.error('Error updating playlist details', { error });
+      throw error;
+    }
+  }
+
+  // Follow (like) a playlist for the current user
+  async followPlaylist(playlistId: string, isPublic = true): Promise<void> {
+    try {
+      await this.makeApiCall(() =>
+        this.request<void>('PUT', `/playlists/${encodeURIComponent(playlistId)}/followers`, { body: { public: isPublic } })
+      );
+    } catch (error) {
+      this.log.error('Error following playlist', { error });
+      throw error;
+    }
+  }
+
+  // Unfollow a playlist; this is also how Spotify "deletes" a playlist the user owns
+  async unfollowPlaylist(playlistId: string): Promise<void> {
+    try {
+      await this.makeApiCall(() =>
+        this.request<void>('DELETE', `/playlists/${encodeURIComponent(playlistId)}/followers`)
+      );
+    } catch (error) {
+      this.log.error('Error unfollowing playlist', { error });
+      throw error;
+    }
+  }
+
+  // Check which of the given users follow a playlist (one boolean per user id)
+  async checkFollowers(playlistId: string, userIds: string[]): Promise<boolean[]> {
+    try {
+      if (userIds.length === 0) return [];
+
+      const response = await this.makeApiCall(() =>
+        this.request<SpotifyApi.UsersFollowPlaylistResponse>('GET', `/playlists/${encodeURIComponent(playlistId)}/followers/contains`, { query: { ids: userIds.join(',') } })
+      );
+
+      return response.body;
+    } catch (error) {
+      this.log.error('Error checking playlist followers', { error });
+      throw error;
+    }
+  }
+
+  // Account details of the token's user that the session keeps (see authOptions)
+  async getAccount(): Promise<SpotifyAccount> {
+    try {
+      // explicit_content is sent with the user-read-private scope but missing from the typings
+      const response = await this.makeApiCall(() =>
+        this.request<SpotifyApi.CurrentUsersProfileResponse & {
+          explicit_content?: { filter_enabled: boolean; filter_locked: boolean };
+        }>('GET', '/me')
+      );
+      const me = response.body;
+
+      return {
+        id: me.id,
+        displayName: me.display_name || me.id,
+        product: me.product ?? null,
+        country: me.country ?? null,
+        explicitContent: me.explicit_content
+          ? { filterEnabled: me.explicit_content.filter_enabled, filterLocked: me.explicit_content.filter_locked }
+          : null
+      };
+    } catch (error) {
+      this.log.error('Error getting current user account', { error });
+      throw error;
+    }
+  }
+
+  async getCurrentUser(): Promise<{ id: string; display_name: string; email: string; images: Array<{ url: string }> }> {
+    try {
+      const response = await this.makeApiCall(() => 
+        this.request<SpotifyApi.CurrentUsersProfileResponse>('GET', '/me')
+      );
+      
+      return {
+        id: response.body.id,
+        display_name: response.body.display_name || 'Unknown User',
+        email: response.body.email || '',
+        images: response.body.images || []
+      };
+    } catch (error) {
+      this.log.error('Error getting current user', { error });
+      throw error;
+    }
+  }
+
+  // User's top tracks for a time range (Spotify allows at most 50)
+  async getTopTracks(timeRange: TimeRange = 'medium_term', limit = 20): Promise<SpotifyApi.TrackObjectFull[]> {
+    try {
+      const response = await this.makeApiCall(() =>
+        this.request<SpotifyApi.UsersTopTracksResponse>('GET', '/me/top/tracks', { query: { time_range: timeRange, limit: Math.min(limit, 50) } })
+      );
+
+      return response.body.items || [];
+    } catch (error) {
+      this.log.error('Error fetching top tracks', { error });
+      throw error;
+    }
+  }
+
+  // User's top artists for a time range (Spotify allows at most 50)
+  async getTopArtists(timeRange: TimeRange = 'medium_term', limit = 20): Promise<SpotifyApi.ArtistObjectFull[]> {
+    try {
+      const response = await this.makeApiCall(() =>
+        this.request<SpotifyApi.UsersTopArtistsResponse>('GET', '/me/top/artists', { query: { time_range: timeRange, limit: Math.min(limit, 50) } })
+      );
+
+      return response.body.items || [];
+    } catch (error) {
+      this.log.error('Error fetching top artists', { error });
+      throw error;
+    }
+  }
+
+  // Most recently played tracks, newest first (Spotify only keeps the last 50).
+  // With `after` (ms since epoch), only plays after that moment.
+  async getRecentlyPlayed(limit = 20, options: { after?: number } = {}): Promise<SpotifyApi.PlayHistoryObject[]> {
+    try {
+      const query: Record<string, number> = { limit: Math.min(limit, 50) };
+      if (options.after !== undefined) query.after = options.after;
+      const response = await this.makeApiCall(() =>
+        this.request<SpotifyApi.UsersRecentlyPlayedTracksResponse>('GET', '/me/player/recently-played', { query })
+      );
+
+      return response.body.items || [];
+    } catch (error) {
+      this.log.error('Error fetching recently played tracks', { error });
+      throw error;
+    }
+  }
+
+  // Helper method to detect if a playlist is mixed (has tracks from different artists)
+  async isMixedPlaylist(playlistId: string): Promise<boolean> {
+    try {
+      const response = await this.makeApiCall(() => 
+        this.request<SpotifyApi.SinglePlaylistResponse>('GET', `/playlists/${encodeURIComponent(playlistId)}`)
+      );
+      
+      return response.body.collaborative || 
+             response.body.name.toLowerCase().includes('mix') ||
+             response.body.name.toLowerCase().includes('playlist');
+    } catch (error) {
+      this.log.error('Error checking if playlist is mixed', { error });
+      return false;
+    }
+  }
+
+  // Get playlist information
+  async getPlaylist(playlistId: string): Promise<{
+    name: string;
+    description: string;
+    images: Array<{ url: string }>;
+    owner: { display_name: string; id: string };
+    public: boolean;
+    collaborative: boolean;
+    followers: number;
+    trackCount: number;
+    snapshot_id: string;
+  }> {
+    try {
+      const response = await this.makeApiCall(() => 
+        this.request<SpotifyApi.SinglePlaylistResponse>('GET', `/playlists/${encodeURIComponent(playlistId)}`)
+      );
+      
+      return {
+        name: response.body.name,
+        description: response.body.description || '',
+        images: response.body.images || [],
+        owner: {
+          display_name: response.body.owner.display_name || 'Unknown',
+          id: response.body.owner.id
+        },
+        public: response.body.public ?? false,
+        collaborative: response.body.collaborative,
+        followers: response.body.followers?.total || 0,
+        trackCount: response.body.tracks?.total || 0,
+        snapshot_id: response.body.snapshot_id
+      };
+    } catch (error) {
+      this.log.error('Error fetching playlist info', { error });
+      throw error;
+    }
+  }
+
+  async getArtists(artistIds: string[], options: BatchFetchOptions = {}): Promise<SpotifyArtist[]> {
+    try {
+      if (artistIds.length === 0) return [];
+
+      const { hits, missing } = await this.cache.getMany<SpotifyArtist>('artist', artistIds);
+      if (hits.length > 0) {
+        this.log.debug('Artists served from cache', { cached: hits.length, requested: artistIds.length });
+      }
+      
+      // Spotify API allows max 50 artists per request
+      const chunks = [];
+      for (let i = 0; i < missing.length; i += 50) {
+        chunks.push(missing.slice(i, i + 50));
+      }
+
+      const allArtists: SpotifyArtist[] = [...hits];
+      
+      for (const chunk of chunks) {
+        try {
+          const response = await this.makeApiCall(() => 
+            this.request<SpotifyApi.MultipleArtistsResponse>('GET', '/artists', { query: { ids: chunk.join(',') } })
+          );
+          
+          const artists = response.body.artists.map(artist => ({
+            id: artist.id,
+            name: artist.name,
+            genres: artist.genres || [],
+            popularity: artist.popularity || 0
+          }));
+          allArtists.push(...artists);
+          await this.cache.setMany('artist', artists, this.cache.settings.artistTtlSeconds);
+        } catch (error) {
+          this.log.warn('Could not fetch a chunk of artists, skipping it', { chunkSize: chunk.length, error });
+          options.onSkipped?.(chunk, error);
+        }
+      }
+
+      // Keep the order the ids were requested in, like the Spotify endpoint does
+      const artistsById = new Map(allArtists.map(artist => [artist.id, artist]));
+      return artistIds
+        .map(id => artistsById.get(id))
+        .filter((artist): artist is SpotifyArtist => artist !== undefined);
+    } catch (error) {
+      this.log.error('Error fetching artists', { error });
+      throw error;
+    }
+  }
+
+  async getAudioFeatures(trackIds: string[], options: BatchFetchOptions = {}): Promise<SpotifyAudioFeatures[]> {
+    try {
+      if (trackIds.length === 0) return [];
+
+      const { hits, missing } = await this.cache.getMany<SpotifyAudioFeatures>('audio-features', trackIds);
+      if (hits.length > 0) {
+        this.log.debug('Audio features served from cache', { cached: hits.length, requested: trackIds.length });
+      }
+      
+      // Spotify API allows max 100 tracks per request
+      const chunks = [];
+      for (let i = 0; i < missing.length; i += 100) {
+        chunks.push(missing.slice(i, i + 100));
+      }
+
+      const allFeatures: SpotifyAudioFeatures[] = [...hits];
+      
+      for (const chunk of chunks) {
+        try {
+          const response = await this.makeApiCall(() => 
+            this.request<SpotifyApi.MultipleAudioFeaturesResponse>('GET', '/audio-features', { query: { ids: chunk.join(',') } })
+          );
+          
+          const features = response.body.audio_features
+            .filter(feature => feature !== null)
+            .map(feature => ({
+              id: feature!.id,
+              danceability: feature!.danceability,
+              energy: feature!.energy,
+              key: feature!.key,
+              loudness: feature!.loudness,
+              mode: feature!.mode,
+              speechiness: feature!.speechiness,
+              acousticness: feature!.acousticness,
+              instrumentalness: feature!.instrumentalness,
+              liveness: feature!.liveness,
+              valence: feature!.valence,
+              tempo: feature!.tempo,
+              duration_ms: feature!.duration_ms,
+              time_signature: feature!.time_signature
+            }));
+          allFeatures.push(...features);
+          await this.cache.setMany('audio-features', features, this.cache.settings.audioFeaturesTtlSeconds);
+        } catch (error) {
+          // Continue with other chunks instead of failing completely
+          this.log.warn('Could not fetch a chunk of audio features, skipping it', { chunkSize: chunk.length, error });
+          options.onSkipped?.(chunk, error);
+        }
+      }
+
+      this.log.debug('Fetched audio features', { count: allFeatures.length });
+      return allFeatures;
+    } catch (error) {
+      this.log.error('Error fetching audio features', { error });
+      throw error;
+    }
+  }
+
+  // Method to search for tracks and get their Spotify URIs
+  async searchTracks(query: string, limit = 5): Promise<Array<{ id: string; name: string; artist: string; uri: string; external_url: string }>> {
+    try {
+      this.log.debug('Searching tracks', { query });
+
+      const response = await this.makeApiCall(() => 
+        this.request<SpotifyApi.TrackSearchResponse>('GET', '/search', { query: { q: query, type: 'track', limit, market: this.market } })
+      );
+      
+      return response.body.tracks?.items.map(track => ({
+        id: track.id,
+        name: track.name,
+        artist: track.artists[0]?.name || 'Unknown Artist',
+        uri: track.uri,
+        external_url: track.external_urls?.spotify || ''
+      })) || [];
+    } catch (error) {
+      this.log.error('Error searching tracks', { error });
+      throw error;
+    }
+  }
+
+  // Method to get track details by ID
+  async getTrack(trackId: string): Promise<{ id: string; name: string; artist: string; uri: string; external_url: string } | null> {
+    try {
+      const response = await this.makeApiCall(() => 
+        this.request<SpotifyApi.SingleTrackResponse>('GET', `/tracks/${encodeURIComponent(trackId)}`, { query: { market: this.market } })
+      );
+      
+      const track = response.body;
+      
+      return {
+        id: track.id,
+        name: track.name,
+        artist: track.artists[0]?.name || 'Unknown Artist',
+        uri: track.uri,
+        external_url: track.external_urls?.spotify || ''
+      };
+    } catch (error) {
+      this.log.error('Error getting track', { error });
+      return null;
+    }
+  }
+}
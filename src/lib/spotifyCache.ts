@@ -0,0 +1,166 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { cacheConfig, CacheConfig } from './cacheConfig';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'cache' });
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// Storage for cached Spotify data. The default keeps entries in process memory;
+// FileCacheStore persists them across restarts, and anything else (SQLite, Redis,
+// ...) can be plugged in by implementing this interface.
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export class InMemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+// One JSON file per entry, named after a hash of the key
+export class FileCacheStore implements CacheStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    try {
+      const entry = JSON.parse(await fs.readFile(this.fileFor(key), 'utf8')) as CacheEntry<T>;
+      if (entry.expiresAt <= Date.now()) {
+        await this.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    } catch {
+      // Missing or unreadable files are treated as a cache miss
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const entry: CacheEntry<T> = { value, expiresAt: Date.now() + ttlMs };
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write then rename so concurrent readers never see a half-written file
+    const file = this.fileFor(key);
+    const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(entry));
+    await fs.rename(tempFile, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+}
+
+// Cache used by SpotifyService. Playlist track lists are keyed by snapshot_id;
+// artists and audio features are keyed by id and expire after a TTL.
+export class SpotifyCache {
+  private store: CacheStore;
+  private config: CacheConfig;
+
+  constructor(store: CacheStore = new InMemoryCacheStore(), config: CacheConfig = cacheConfig) {
+    this.store = store;
+    this.config = config;
+  }
+
+  get settings(): CacheConfig {
+    return this.config;
+  }
+
+  setStore(store: CacheStore) {
+    this.store = store;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    try {
+      return await this.store.get<T>(key);
+    } catch (error) {
+      // A broken cache should never break the request, just make it slower
+      log.warn('Cache read failed', { key, error });
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    try {
+      await this.store.set(key, value, ttlSeconds * 1000);
+    } catch (error) {
+      log.warn('Cache write failed', { key, error });
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.store.delete(key);
+    } catch (error) {
+      log.warn('Cache delete failed', { key, error });
+    }
+  }
+
+  // Looks up several ids at once, returning the hits and the ids still to fetch
+  async getMany<T>(namespace: string, ids: string[]): Promise<{ hits: T[]; missing: string[] }> {
+    const hits: T[] = [];
+    const missing: string[] = [];
+    const values = await Promise.all(ids.map(id => this.get<T>(`${namespace}:${id}`)));
+    values.forEach((value, index) => {
+      if (value === undefined) {
+        missing.push(ids[index]);
+      } else {
+        hits.push(value);
+      }
+    });
+    return { hits, missing };
+  }
+
+  async setMany<T extends { id: string }>(namespace: string, values: T[], ttlSeconds: number): Promise<void> {
+    await Promise.all(values.map(value => this.set(`${namespace}:${value.id}`, value, ttlSeconds)));
+  }
+}
+
+let sharedCache: SpotifyCache | null = null;
+
+// SPOTIFY_CACHE_DIR switches the shared cache to the file-backed store
+export function getSharedSpotifyCache(): SpotifyCache {
+  if (!sharedCache) {
+    sharedCache = new SpotifyCache(
+      cacheConfig.directory ? new FileCacheStore(cacheConfig.directory) : new InMemoryCacheStore()
+    );
+  }
+  return sharedCache;
+}
+
+// Swap the backing store, e.g. for a SQLite or Redis implementation
+export function setSpotifyCacheStore(store: CacheStore) {
+  getSharedSpotifyCache().setStore(store);
+}
@@ -0,0 +1,114 @@
+import type { PlaylistSnapshotDiff } from './spotify';
+
+// Errors thrown by SpotifyService for failed Spotify Web API calls. Every error
+// keeps `statusCode` and `body` so existing `error.statusCode === 403` checks
+// still work, and carries a stable `code` that API routes return to the client.
+
+export type SpotifyErrorCode =
+  | 'AUTH_FAILED'
+  | 'FORBIDDEN'
+  | 'RATE_LIMIT'
+  | 'NOT_FOUND'
+  | 'SPOTIFY_UNAVAILABLE'
+  | 'SPOTIFY_ERROR'
+  | 'CONFLICT'
+  | 'SCOPE_REQUIRED';
+
+export class SpotifyApiError extends Error {
+  readonly code: SpotifyErrorCode;
+  readonly statusCode: number;
+  readonly body?: unknown;
+
+  constructor(message: string, statusCode: number, body?: unknown, code: SpotifyErrorCode = 'SPOTIFY_ERROR') {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.statusCode = statusCode;
+    this.body = body;
+  }
+}
+
+// 401 - the access token is invalid or expired
+export class SpotifyUnauthorizedError extends SpotifyApiError {
+  constructor(message = 'Authentication failed. Please log in again.', body?: unknown) {
+    super(message, 401, body, 'AUTH_FAILED');
+  }
+}
+
+// 403 - usually the app is in Development Mode and the user isn't a test user
+export class SpotifyForbiddenError extends SpotifyApiError {
+  constructor(message = 'Access forbidden', body?: unknown) {
+    super(message, 403, body, 'FORBIDDEN');
+  }
+}
+
+// 403 - the access token was granted without a scope the endpoint needs
+export class SpotifyScopeError extends SpotifyApiError {
+  constructor(message = 'Insufficient client scope', body?: unknown) {
+    super(message, 403, body, 'SCOPE_REQUIRED');
+  }
+}
+
+// 429 - retryAfter is the number of seconds Spotify asked us to wait
+export class SpotifyRateLimitedError extends SpotifyApiError {
+  readonly retryAfter: number;
+
+  constructor(retryAfter: number, message = 'Spotify API rate limit exceeded', body?: unknown) {
+    super(message, 429, body, 'RATE_LIMIT');
+    this.retryAfter = retryAfter;
+  }
+}
+
+// 404 - the playlist, track or user doesn't exist (or isn't visible to this user)
+export class SpotifyNotFoundError extends SpotifyApiError {
+  constructor(message = 'Not found', body?: unknown) {
+    super(message, 404, body, 'NOT_FOUND');
+  }
+}
+
+// 5xx - Spotify itself is having trouble
+export class SpotifyUnavailableError extends SpotifyApiError {
+  constructor(statusCode = 503, message = 'Spotify is temporarily unavailable', body?: unknown) {
+    super(message, statusCode, body, 'SPOTIFY_UNAVAILABLE');
+  }
+}
+
+// 409 - the playlist is no longer at the snapshot_id the caller based its edit on.
+// `diff` is null when the expected version's items are no longer cached.
+export class PlaylistConflictError extends SpotifyApiError {
+  readonly expectedSnapshotId: string;
+  readonly currentSnapshotId: string;
+  readonly diff: PlaylistSnapshotDiff | null;
+
+  constructor(expectedSnapshotId: string, currentSnapshotId: string, diff: PlaylistSnapshotDiff | null) {
+    super('The playlist was changed since it was loaded', 409, undefined, 'CONFLICT');
+    this.expectedSnapshotId = expectedSnapshotId;
+    this.currentSnapshotId = currentSnapshotId;
+    this.diff = diff;
+  }
+}
+
+// Builds the matching error class for a failed Spotify response
+export function spotifyErrorFromResponse(
+  statusCode: number,
+  message: string,
+  body?: unknown,
+  retryAfterSeconds = 0
+): SpotifyApiError {
+  switch (statusCode) {
+    case 401:
+      return new SpotifyUnauthorizedError(message, body);
+    case 403:
+      return /insufficient client scope/i.test(message)
+        ? new SpotifyScopeError(message, body)
+        : new SpotifyForbiddenError(message, body);
+    case 404:
+      return new SpotifyNotFoundError(message, body);
+    case 429:
+      return new SpotifyRateLimitedError(retryAfterSeconds, message, body);
+    default:
+      return statusCode >= 500
+        ? new SpotifyUnavailableError(statusCode, message, body)
+        : new SpotifyApiError(message, statusCode, body);
+  }
+}
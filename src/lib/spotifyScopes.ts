@@ -0,0 +1,106 @@
+// Which Spotify OAuth scopes each feature of the app needs, and which API routes
+// depend on which feature. Sign-in asks for the scopes of every feature that is
+// not `optional`; the others are requested the first time the user reaches them.
+
+export type SpotifyScope =
+  | 'user-read-private'
+  | 'user-read-email'
+  | 'user-read-playback-state'
+  | 'user-modify-playback-state'
+  | 'user-read-recently-played'
+  | 'user-top-read'
+  | 'user-library-read'
+  | 'user-follow-read'
+  | 'playlist-read-private'
+  | 'playlist-read-collaborative'
+  | 'playlist-modify-public'
+  | 'playlist-modify-private'
+  | 'ugc-image-upload';
+
+export interface FeatureScopes {
+  // Shown to the user when the feature asks for more access
+  label: string;
+  scopes: SpotifyScope[];
+  // Not requested at sign-in
+  optional?: boolean;
+}
+
+export const featureScopes = {
+  account: {
+    label: 'Your Spotify account details',
+    scopes: ['user-read-private', 'user-read-email']
+  },
+  playlists: {
+    label: 'Your playlists',
+    scopes: ['playlist-read-private', 'playlist-read-collaborative']
+  },
+  playlistEditing: {
+    label: 'Editing your playlists',
+    scopes: ['playlist-modify-public', 'playlist-modify-private']
+  },
+  playlistCovers: {
+    label: 'Uploading playlist covers',
+    scopes: ['ugc-image-upload', 'playlist-modify-public', 'playlist-modify-private'],
+    optional: true
+  },
+  topItems: {
+    label: 'Your top tracks and artists',
+    scopes: ['user-top-read']
+  },
+  listeningHistory: {
+    label: 'Your recently played tracks',
+    scopes: ['user-read-recently-played']
+  },
+  library: {
+    label: 'Your saved tracks',
+    scopes: ['user-library-read']
+  },
+  following: {
+    label: 'Artists you follow',
+    scopes: ['user-follow-read'],
+    optional: true
+  },
+  playback: {
+    label: 'Your playback state',
+    scopes: ['user-read-playback-state', 'user-modify-playback-state']
+  }
+} satisfies Record<string, FeatureScopes>;
+
+export type SpotifyFeature = keyof typeof featureScopes;
+
+// Features each API route needs, keyed by the route name its request logger uses
+export const routeFeatures: Record<string, SpotifyFeature[]> = {
+  'GET /api/analytics/listening-history': ['listeningHistory'],
+  'GET /api/analytics/playlists/user-activity': ['playlists', 'listeningHistory'],
+  'GET /api/analytics/playlists/user-listens': ['playlists', 'listeningHistory', 'topItems'],
+  'GET /api/analytics/playlists/most-listened': ['playlists', 'topItems'],
+  'GET /api/analytics/tracks/user-top': ['topItems'],
+  'PUT /api/playlists/[id]/cover': ['playlistCovers']
+};
+
+// Scopes requested when the user signs in
+export const SIGN_IN_SCOPES: SpotifyScope[] = Array.from(new Set(
+  Object.values(featureScopes as Record<string, FeatureScopes>)
+    .filter(feature => !feature.optional)
+    .flatMap(feature => feature.scopes)
+));
+
+// Splits the space-separated `scope` of a Spotify token response
+export function parseScopes(scope: string | undefined | null): string[] | undefined {
+  return scope ? scope.split(/\s+/).filter(Boolean) : undefined;
+}
+
+// Scopes a route still needs on top of `granted`. Sessions that predate scope
+// tracking (granted undefined) are not held back; Spotify has the final word there.
+export function missingScopes(route: string, granted: string[] | undefined): SpotifyScope[] {
+  if (!granted) return [];
+  const needed = (routeFeatures[route] ?? []).flatMap(feature => featureScopes[feature].scopes);
+  return Array.from(new Set(needed.filter(scope => !granted.includes(scope))));
+}
+
+// Labels of the route's features that are missing at least one scope
+export function featuresNeedingScopes(route: string, missing: SpotifyScope[]): string[] {
+  return (routeFeatures[route] ?? [])
+    .filter(feature => featureScopes[feature].scopes.some(scope => missing.includes(scope)))
+    .map(feature => featureScopes[feature].label);
+}
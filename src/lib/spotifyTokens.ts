@@ -0,0 +1,89 @@
+import { SPOTIFY_ACCOUNTS_BASE_URL } from './spotifyTransport';
+import { parseScopes } from './spotifyScopes';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'auth' });
+
+// Tokens are refreshed this long before they expire, so a request started just
+// before expiry doesn't reach Spotify with a dead token
+export const REFRESH_MARGIN_SECONDS = 5 * 60;
+// How long a finished refresh is handed to requests that still carry the old
+// token. Spotify may rotate the refresh token, so refreshing it twice can fail.
+const REFRESH_REUSE_MS = 30 * 1000;
+
+export interface SpotifyTokenSet {
+  accessToken: string;
+  refreshToken: string;
+  // Seconds since epoch
+  expiresAt: number;
+  // Undefined when Spotify didn't say which scopes the token has
+  scopes?: string[];
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+  scope?: string;
+}
+
+// In-flight and just-finished refreshes, keyed by the refresh token they used.
+// Concurrent requests for the same account share one call to Spotify.
+const refreshes = new Map<string, Promise<SpotifyTokenSet>>();
+
+export function isTokenExpiring(expiresAt: number | undefined): boolean {
+  return !expiresAt || Date.now() / 1000 >= expiresAt - REFRESH_MARGIN_SECONDS;
+}
+
+async function requestToken(params: Record<string, string>): Promise<TokenResponse> {
+  const response = await fetch(`${SPOTIFY_ACCOUNTS_BASE_URL}/api/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Authorization: `Basic ${Buffer.from(
+        process.env.SPOTIFY_CLIENT_ID + ':' + process.env.SPOTIFY_CLIENT_SECRET
+      ).toString('base64')}`,
+    },
+    body: new URLSearchParams(params),
+  });
+  const body = await response.json();
+  if (!response.ok) throw body;
+  return body;
+}
+
+// Trades the code from Spotify's authorization redirect for tokens
+export async function exchangeSpotifyCode(code: string, redirectUri: string): Promise<SpotifyTokenSet> {
+  const tokens = await requestToken({ grant_type: 'authorization_code', code, redirect_uri: redirectUri });
+  if (!tokens.refresh_token) {
+    throw new Error('Spotify did not return a refresh token');
+  }
+  return {
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token,
+    expiresAt: Math.floor(Date.now() / 1000) + tokens.expires_in,
+    scopes: parseScopes(tokens.scope),
+  };
+}
+
+// New access token for `refreshToken`. Rejects with Spotify's error body when the
+// refresh token was revoked or has expired.
+export function refreshSpotifyToken(refreshToken: string): Promise<SpotifyTokenSet> {
+  const pending = refreshes.get(refreshToken);
+  if (pending) {
+    log.debug('Reusing in-flight token refresh');
+    return pending;
+  }
+
+  const refresh = requestToken({ grant_type: 'refresh_token', refresh_token: refreshToken })
+    .then(tokens => ({
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token ?? refreshToken,
+      expiresAt: Math.floor(Date.now() / 1000) + tokens.expires_in,
+      scopes: parseScopes(tokens.scope),
+    }))
+    .finally(() => {
+      setTimeout(() => refreshes.delete(refreshToken), REFRESH_REUSE_MS).unref?.();
+    });
+  refreshes.set(refreshToken, refresh);
+  return refresh;
+}
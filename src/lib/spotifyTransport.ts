@@ -0,0 +1,71 @@
+import { getFakeSpotifyServer } from './fakeSpotify';
+import { endedDemoTransport, getDemoServer, isDemoAccessToken } from './demoMode';
+import { getSharedRateLimiter } from './rateLimiter';
+
+// A transport performs one HTTP request against the Spotify Web API. Paths are
+// relative to the API root (e.g. `/me/playlists?limit=50`), so the same caller
+// works against api.spotify.com, a proxy, or the bundled fake server.
+export type SpotifyTransport = (path: string, init?: RequestInit) => Promise<Response>;
+
+export const SPOTIFY_API_BASE_URL = process.env.SPOTIFY_API_BASE_URL || 'https://api.spotify.com/v1';
+export const SPOTIFY_ACCOUNTS_BASE_URL = process.env.SPOTIFY_ACCOUNTS_BASE_URL || 'https://accounts.spotify.com';
+
+export function createFetchTransport(baseUrl: string = SPOTIFY_API_BASE_URL): SpotifyTransport {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return (path, init) => {
+    // Paging objects return absolute `next` URLs; keep them pointed at our base URL
+    const relativePath = /^https?:\/\//.test(path)
+      ? new URL(path).pathname.replace(/^\/v1/, '') + new URL(path).search
+      : path;
+    return fetch(`${root}${relativePath}`, init);
+  };
+}
+
+let defaultTransport: SpotifyTransport | null = null;
+
+// SPOTIFY_FAKE_API=true serves every call from the fixture-backed fake server
+export function getDefaultTransport(): SpotifyTransport {
+  if (!defaultTransport) {
+    defaultTransport = process.env.SPOTIFY_FAKE_API === 'true'
+      ? getFakeSpotifyServer().transport
+      : createFetchTransport();
+  }
+  return defaultTransport;
+}
+
+// Transport for requests made with `accessToken`: demo sessions are served by
+// their own fake server, everything else by the process-wide transport
+export function getTransportFor(accessToken: string | undefined): SpotifyTransport {
+  return accessToken && isDemoAccessToken(accessToken)
+    ? getDemoServer(accessToken)?.transport ?? endedDemoTransport
+    : getDefaultTransport();
+}
+
+// Overrides the process-wide transport (pass null to go back to the env default)
+export function setDefaultTransport(transport: SpotifyTransport | null) {
+  defaultTransport = transport;
+}
+
+// Authenticated request for code paths that need the raw Response. Draws from the
+// same shared rate limit budget as SpotifyService; a 429 blocks the budget for its
+// Retry-After and is returned to the caller as-is.
+export async function spotifyFetch(
+  accessToken: string,
+  path: string,
+  init: RequestInit = {},
+  transport: SpotifyTransport = getTransportFor(accessToken)
+): Promise<Response> {
+  const rateLimiter = getSharedRateLimiter();
+  const keys = rateLimiter.keysFor(accessToken);
+  await rateLimiter.acquire(keys);
+
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${accessToken}`);
+  const response = await transport(path, { ...init, headers });
+
+  if (response.status === 429) {
+    await rateLimiter.block(keys, rateLimiter.retryAfterMs(response.headers));
+  }
+  return response;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, InvalidSettingsError, parseSettings, parseSettingsPatch } from './userSettings';
+
+describe('parseSettingsPatch', () => {
+  it('keeps the fields a user can change', () => {
+    expect(parseSettingsPatch({ theme: 'light', language: 'es', autoSaveProfiles: false })).toEqual({
+      theme: 'light',
+      language: 'es',
+      autoSaveProfiles: false
+    });
+    expect(parseSettingsPatch({})).toEqual({});
+  });
+
+  it('rejects anything that is not an object', () => {
+    for (const body of [null, 'dark', 42, ['theme']]) {
+      expect(() => parseSettingsPatch(body)).toThrow(new InvalidSettingsError('settings must be an object'));
+    }
+  });
+
+  it('rejects values outside the model', () => {
+    expect(() => parseSettingsPatch({ theme: 'sepia' })).toThrow('Invalid setting: theme');
+    expect(() => parseSettingsPatch({ language: 'fr' })).toThrow('Invalid setting: language');
+    expect(() => parseSettingsPatch({ autoSaveProfiles: 'yes' })).toThrow('Invalid setting: autoSaveProfiles');
+  });
+
+  it('rejects fields set by the server or unknown to it', () => {
+    for (const key of ['version', 'avatarUpdatedAt', 'updatedAt', 'fontSize']) {
+      expect(() => parseSettingsPatch({ [key]: null })).toThrow(InvalidSettingsError);
+    }
+  });
+});
+
+describe('parseSettings', () => {
+  it('falls back to the defaults for missing or invalid fields', () => {
+    expect(parseSettings(undefined)).toEqual(DEFAULT_SETTINGS);
+    expect(parseSettings({ theme: 'light', language: 'klingon', updatedAt: 'yesterday' })).toEqual({
+      ...DEFAULT_SETTINGS,
+      theme: 'light'
+    });
+  });
+});
@@ -0,0 +1,95 @@
+// The settings a user keeps across devices. This module has no server
+// dependencies so the client can share the model; settingsStore.ts stores it.
+//
+// Bump SETTINGS_VERSION when the shape changes and add a migration from the
+// previous version, so settings stored by older versions are upgraded on read.
+
+export const SETTINGS_VERSION = 1;
+
+export type ThemeSetting = 'dark' | 'light';
+export type LanguageSetting = 'en' | 'es';
+
+export interface UserSettings {
+  version: number;
+  theme: ThemeSetting;
+  language: LanguageSetting;
+  // Save every playlist analysis to the Music Library
+  autoSaveProfiles: boolean;
+  // When the custom avatar was uploaded, null without one. Set by the avatar routes.
+  avatarUpdatedAt: string | null;
+  // Last change, null until the user saves anything
+  updatedAt: string | null;
+}
+
+// The fields a user can change through PATCH /api/settings
+export type SettingsPatch = Partial<Pick<UserSettings, 'theme' | 'language' | 'autoSaveProfiles'>>;
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  version: SETTINGS_VERSION,
+  theme: 'dark',
+  language: 'en',
+  autoSaveProfiles: true,
+  avatarUpdatedAt: null,
+  updatedAt: null
+};
+
+// The patch has unknown fields or values outside the model
+export class InvalidSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSettingsError';
+  }
+}
+
+type RawSettings = Record<string, unknown>;
+
+// Upgrades settings stored at the keyed version to the next one
+const migrations: Record<number, (settings: RawSettings) => RawSettings> = {};
+
+const isTheme = (value: unknown): value is ThemeSetting => value === 'dark' || value === 'light';
+const isLanguage = (value: unknown): value is LanguageSetting => value === 'en' || value === 'es';
+const isTimestamp = (value: unknown): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+// Settings at the current version from whatever was stored. Missing or invalid
+// fields fall back to their defaults, so this never throws.
+export function parseSettings(stored: unknown): UserSettings {
+  if (typeof stored !== 'object' || stored === null) return { ...DEFAULT_SETTINGS };
+
+  let raw = stored as RawSettings;
+  let version = typeof raw.version === 'number' ? raw.version : SETTINGS_VERSION;
+  while (version < SETTINGS_VERSION) {
+    const migrate = migrations[version];
+    if (migrate) raw = migrate(raw);
+    version++;
+  }
+
+  return {
+    version: SETTINGS_VERSION,
+    theme: isTheme(raw.theme) ? raw.theme : DEFAULT_SETTINGS.theme,
+    language: isLanguage(raw.language) ? raw.language : DEFAULT_SETTINGS.language,
+    autoSaveProfiles: typeof raw.autoSaveProfiles === 'boolean' ? raw.autoSaveProfiles : DEFAULT_SETTINGS.autoSaveProfiles,
+    avatarUpdatedAt: isTimestamp(raw.avatarUpdatedAt) ? raw.avatarUpdatedAt : null,
+    updatedAt: isTimestamp(raw.updatedAt) ? raw.updatedAt : null
+  };
+}
+
+// Checks a PATCH body; throws InvalidSettingsError for anything it can't apply
+export function parseSettingsPatch(value: unknown): SettingsPatch {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new InvalidSettingsError('settings must be an object');
+  }
+
+  const patch: SettingsPatch = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (key === 'theme' && isTheme(field)) patch.theme = field;
+    else if (key === 'language' && isLanguage(field)) patch.language = field;
+    else if (key === 'autoSaveProfiles' && typeof field === 'boolean') patch.autoSaveProfiles = field;
+    else throw new InvalidSettingsError(`Invalid setting: ${key}`);
+  }
+  return patch;
+}
+
+// Where the custom avatar is served from; the timestamp busts cached copies
+export function avatarUrl(settings: UserSettings): string | null {
+  return settings.avatarUpdatedAt ? `/api/settings/avatar?v=${encodeURIComponent(settings.avatarUpdatedAt)}` : null;
+}
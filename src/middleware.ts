@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logConfig, requestIdPattern } from '@/lib/logConfig';
+
+// Gives every API request a correlation id: the caller's x-request-id when it
+// sent a valid one, otherwise a new one. The route handler reads it back from
+// the request (createRequestLogger) and the response carries it, so a client can
+// quote it when reporting a failure.
+export function middleware(request: NextRequest) {
+  const incoming = request.headers.get(logConfig.requestIdHeader);
+  const requestId = incoming && requestIdPattern.test(incoming) ? incoming : crypto.randomUUID();
+
+  const headers = new Headers(request.headers);
+  headers.set(logConfig.requestIdHeader, requestId);
+  const response = NextResponse.next({ request: { headers } });
+  response.headers.set(logConfig.requestIdHeader, requestId);
+  return response;
+}
+
+export const config = {
+  matcher: '/api/:path*'
+};
@@ -1,15 +1,21 @@
 import NextAuth from "next-auth"
+import type { SpotifyAccount } from "@/lib/spotify"
 
 declare module "next-auth" {
   interface Session {
     accessToken?: string
     error?: string
+    scopes?: string[]
+    // Signed in to the demo, served from the fixture library instead of Spotify
+    demo?: boolean
     user?: {
       id?: string
       name?: string | null
       email?: string | null
       image?: string | null
-      product?: string
+      product?: string | null
+      country?: string | null
+      explicitContent?: SpotifyAccount["explicitContent"]
     }
   }
 
@@ -17,6 +23,12 @@ declare module "next-auth" {
     accessToken?: string
     refreshToken?: string
     expiresAt?: number
+    error?: string
+    spotifyUser?: SpotifyAccount
+    spotifyUserFetchedAt?: number
+    // Scopes granted to the access token, undefined for sessions from before they were tracked
+    scopes?: string[]
+    demo?: boolean
   }
 }
 
@@ -25,5 +37,11 @@ declare module "next-auth/jwt" {
     accessToken?: string
     refreshToken?: string
     expiresAt?: number
+    error?: string
+    spotifyUser?: SpotifyAccount
+    spotifyUserFetchedAt?: number
+    // Scopes granted to the access token, undefined for sessions from before they were tracked
+    scopes?: string[]
+    demo?: boolean
   }
 } 
\ No newline at end of file